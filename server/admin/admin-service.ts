@@ -0,0 +1,133 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AdminAction, AdminAuditEntry, HouseRevenue } from '../../src/lib/admin';
+import type { RoomTemplateChanges } from '../../src/lib/rooms';
+import type { Game, RoomTemplate, Withdrawal } from '../../src/lib/types';
+import type { CreateGameOptions, GameService } from '../games/game-service';
+import type { RoomService } from '../games/room-service';
+import type { RefundService } from '../payments/refunds';
+import type { WithdrawalService } from '../payments/withdrawals';
+import type { AuditLog } from './audit-log';
+
+// Raised when an admin opens a room that does not exist or is inactive
+export class RoomNotFoundError extends Error {
+  constructor(roomId: string) {
+    super(`Room ${roomId} not found`);
+    this.name = 'RoomNotFoundError';
+  }
+}
+
+// Operator actions. Each one that changes something is written to the audit
+// log with the admin, its target and parameters, and how it ended; a failed
+// action is logged and its error rethrown.
+export class AdminService {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private rooms: RoomService,
+    private refunds: RefundService,
+    private withdrawals: WithdrawalService,
+    private audit: AuditLog
+  ) {}
+
+  // Open a room's next game, or create a one-off game without `roomId`
+  async createGame(adminId: number, options: CreateGameOptions): Promise<Game> {
+    return this.audited(adminId, 'create_game', options.roomId, { ...options }, async () => {
+      if (!options.roomId) {
+        return this.games.createGame(options);
+      }
+
+      const game = await this.rooms.openRoom(options.roomId);
+      if (!game) {
+        throw new RoomNotFoundError(options.roomId);
+      }
+      return game;
+    });
+  }
+
+  // Cancel a game that has not been drawn and refund its entries
+  async cancelGame(adminId: number, gameId: string, reason: string): Promise<number> {
+    return this.audited(adminId, 'cancel_game', gameId, { reason }, () =>
+      this.refunds.cancelGame(gameId, reason));
+  }
+
+  async forceDraw(adminId: number, gameId: string): Promise<Game> {
+    return this.audited(adminId, 'force_draw', gameId, {}, () =>
+      this.games.forceDraw(gameId, `forced by admin ${adminId}`));
+  }
+
+  // Retry one game's refunds, or without `gameId` sweep everything still owed
+  async refund(adminId: number, gameId?: string): Promise<number> {
+    return this.audited(adminId, 'refund', gameId, {}, () =>
+      gameId ? this.refunds.retryGameRefunds(gameId) : this.refunds.refundOutstanding());
+  }
+
+  listWithdrawals(): Promise<Withdrawal[]> {
+    return this.withdrawals.listPending();
+  }
+
+  // Mark a withdrawal paid after sending its Stars, or reject it
+  async settleWithdrawal(adminId: number, withdrawalId: string, status: 'paid' | 'rejected'): Promise<Withdrawal> {
+    return this.audited(adminId, 'settle_withdrawal', withdrawalId, { status }, () =>
+      this.withdrawals.settle(withdrawalId, status, adminId));
+  }
+
+  listRooms(): Promise<RoomTemplate[]> {
+    return this.rooms.listRooms();
+  }
+
+  async saveRoom(adminId: number, roomId: string, changes: RoomTemplateChanges): Promise<RoomTemplate> {
+    return this.audited(adminId, 'save_room', roomId, { ...changes }, () =>
+      this.rooms.saveRoom(roomId, changes));
+  }
+
+  // House commission less referral rewards per UTC day, over the last `days` days
+  async getRevenue(days: number): Promise<HouseRevenue> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('house_revenue_daily')
+      .select('*')
+      .gte('day', since.toISOString().slice(0, 10))
+      .order('day', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get house revenue: ${error.message}`);
+    }
+
+    const rows = data || [];
+    return { days: rows, total: rows.reduce((total, row) => total + row.net, 0) };
+  }
+
+  getAuditLog(limit: number): Promise<AdminAuditEntry[]> {
+    return this.audit.list(limit);
+  }
+
+  // Run an action and log its outcome. An action that succeeded but could
+  // not be logged still throws, so no change goes unrecorded silently.
+  private async audited<T>(
+    adminId: number,
+    action: AdminAction,
+    target: string | undefined,
+    params: Record<string, unknown>,
+    run: () => Promise<T>
+  ): Promise<T> {
+    let result: T;
+
+    try {
+      result = await run();
+    } catch (error) {
+      await this.audit.record({
+        admin_id: adminId.toString(),
+        action,
+        target,
+        params,
+        result: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    await this.audit.record({ admin_id: adminId.toString(), action, target, params, result: 'ok' });
+    return result;
+  }
+}
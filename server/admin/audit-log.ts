@@ -0,0 +1,34 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AdminAuditEntry } from '../../src/lib/admin';
+
+export type NewAuditEntry = Omit<AdminAuditEntry, 'id' | 'created_at'>;
+
+// Append-only record of what admins did and whether it worked
+export class AuditLog {
+  constructor(private supabase: SupabaseClient) {}
+
+  async record(entry: NewAuditEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from('admin_audit_log')
+      .insert(entry);
+
+    if (error) {
+      throw new Error(`Failed to write audit log: ${error.message}`);
+    }
+  }
+
+  // Newest first
+  async list(limit: number): Promise<AdminAuditEntry[]> {
+    const { data, error } = await this.supabase
+      .from('admin_audit_log')
+      .select('*')
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get audit log: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,109 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INIT_DATA_MAX_AGE, InitDataError, verifyInitData, type InitDataErrorCode } from './init-data';
+
+const BOT_TOKEN = '123456:TEST-bot-token';
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const AUTH_DATE = NOW / 1000 - 60;
+
+const USER = { id: 1001, first_name: 'Alice', username: 'alice', language_code: 'en' };
+
+// initData as Telegram builds it: every field but the hash, sorted and joined
+// with newlines, signed with a key derived from the bot token. The fields are
+// serialized in the order given, which need not be sorted.
+function signInitData(fields: [string, string][], botToken: string = BOT_TOKEN): string {
+  const dataCheckString = [...fields]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+  const secretKey = createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const hash = createHmac('sha256', secretKey).update(dataCheckString).digest('hex');
+
+  return new URLSearchParams([...fields, ['hash', hash]]).toString();
+}
+
+const defaultFields = (overrides: Record<string, string> = {}): [string, string][] =>
+  Object.entries({ query_id: 'AAH-query', user: JSON.stringify(USER), auth_date: String(AUTH_DATE), ...overrides });
+
+const verify = (initData: string, maxAge?: number) => verifyInitData(initData, BOT_TOKEN, { maxAge, now: NOW });
+
+function rejection(initData: string, maxAge?: number): InitDataErrorCode {
+  try {
+    verify(initData, maxAge);
+  } catch (error) {
+    expect(error).toBeInstanceOf(InitDataError);
+    return (error as InitDataError).code;
+  }
+  throw new Error('initData was accepted');
+}
+
+describe('verifyInitData', () => {
+  it('returns the signed user', () => {
+    const initData = signInitData(defaultFields({ start_param: 'ref_2002' }));
+
+    expect(verify(initData)).toEqual({
+      ...USER,
+      last_name: undefined,
+      is_premium: undefined,
+      start_param: 'ref_2002',
+      chat: undefined,
+      chat_instance: undefined,
+      auth_date: AUTH_DATE,
+      init_data: initData
+    });
+  });
+
+  it('does not depend on the order of the fields', () => {
+    const fields = defaultFields({ chat_instance: '-77', start_param: 'ref_2002' });
+    const reordered = signInitData(fields).split('&').reverse().join('&');
+
+    expect(verify(reordered)).toMatchObject({ id: USER.id, chat_instance: '-77', start_param: 'ref_2002' });
+  });
+
+  it('rejects a tampered hash, a tampered field or another bot\'s signature', () => {
+    const initData = signInitData(defaultFields());
+    const hash = new URLSearchParams(initData).get('hash')!;
+    const flipped = `${hash.slice(0, -1)}${hash.endsWith('0') ? '1' : '0'}`;
+
+    expect(rejection(initData.replace(hash, flipped))).toBe('invalid_hash');
+    expect(rejection(initData.replace(hash, 'abc'))).toBe('invalid_hash');
+    expect(rejection(initData.replace(encodeURIComponent('"id":1001'), encodeURIComponent('"id":1002')))).toBe('invalid_hash');
+    expect(rejection(signInitData(defaultFields(), '654321:OTHER-bot-token'))).toBe('invalid_hash');
+  });
+
+  it('rejects initData without a hash', () => {
+    expect(rejection('')).toBe('missing');
+    expect(rejection(new URLSearchParams(defaultFields()).toString())).toBe('missing');
+  });
+
+  it('rejects initData older than the maximum age', () => {
+    const signedAt = (secondsAgo: number) => signInitData(defaultFields({ auth_date: String(NOW / 1000 - secondsAgo) }));
+
+    expect(verify(signedAt(DEFAULT_INIT_DATA_MAX_AGE)).id).toBe(USER.id);
+    expect(rejection(signedAt(DEFAULT_INIT_DATA_MAX_AGE + 1))).toBe('expired');
+    expect(rejection(signedAt(601), 600)).toBe('expired');
+  });
+
+  it('rejects a missing, malformed or future auth_date', () => {
+    expect(rejection(signInitData(defaultFields().filter(([key]) => key !== 'auth_date')))).toBe('invalid_auth_date');
+    expect(rejection(signInitData(defaultFields({ auth_date: 'yesterday' })))).toBe('invalid_auth_date');
+    expect(rejection(signInitData(defaultFields({ auth_date: String(NOW / 1000 + 3600) })))).toBe('invalid_auth_date');
+    // A little clock skew is tolerated
+    expect(verify(signInitData(defaultFields({ auth_date: String(NOW / 1000 + 30) }))).id).toBe(USER.id);
+  });
+
+  it('rejects a missing or malformed user', () => {
+    expect(rejection(signInitData(defaultFields().filter(([key]) => key !== 'user')))).toBe('missing_user');
+    expect(rejection(signInitData(defaultFields({ user: '{"id":1001,' })))).toBe('missing_user');
+    expect(rejection(signInitData(defaultFields({ user: JSON.stringify({ id: '1001', first_name: 'Alice' }) })))).toBe('missing_user');
+    expect(rejection(signInitData(defaultFields({ user: JSON.stringify({ id: 1001 }) })))).toBe('missing_user');
+  });
+
+  it('reads the launch chat and ignores a malformed one', () => {
+    const chat = { id: -100123, type: 'supergroup', title: 'Friends' };
+
+    expect(verify(signInitData(defaultFields({ chat: JSON.stringify(chat) }))).chat).toEqual({ ...chat, username: undefined });
+    expect(verify(signInitData(defaultFields({ chat: '{"id":' }))).chat).toBeUndefined();
+    expect(verify(signInitData(defaultFields({ chat: JSON.stringify({ title: 'No id' }) }))).chat).toBeUndefined();
+  });
+});
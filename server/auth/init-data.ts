@@ -0,0 +1,116 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { LaunchChat, VerifiedUser } from '../../src/lib/types';
+
+export type InitDataErrorCode = 'missing' | 'invalid_hash' | 'invalid_auth_date' | 'expired' | 'missing_user';
+
+export class InitDataError extends Error {
+  constructor(public readonly code: InitDataErrorCode, message: string) {
+    super(message);
+    this.name = 'InitDataError';
+  }
+}
+
+export interface VerifyInitDataOptions {
+  // Maximum accepted age of auth_date, in seconds
+  maxAge?: number;
+  // Current time in milliseconds, injectable for tests
+  now?: number;
+}
+
+// Allowed clock skew for auth_date values slightly in the future, in seconds
+const MAX_CLOCK_SKEW = 60;
+
+// Telegram signs initData once, when the Mini App is opened, and the app sends
+// that same initData for as long as it stays open, so the maximum age is also
+// the longest a session can last
+export const DEFAULT_INIT_DATA_MAX_AGE = 24 * 60 * 60;
+
+// Check the initData HMAC against the bot token and return the signed user.
+// See https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+export function verifyInitData(
+  initData: string,
+  botToken: string,
+  options: VerifyInitDataOptions = {}
+): VerifiedUser {
+  const { maxAge = DEFAULT_INIT_DATA_MAX_AGE, now = Date.now() } = options;
+
+  if (!initData) {
+    throw new InitDataError('missing', 'Telegram init data is missing');
+  }
+
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+
+  if (!hash) {
+    throw new InitDataError('missing', 'Telegram init data has no hash');
+  }
+
+  params.delete('hash');
+
+  const dataCheckString = [...params.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
+  const secretKey = createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expected = createHmac('sha256', secretKey).update(dataCheckString).digest();
+  const received = Buffer.from(hash, 'hex');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    throw new InitDataError('invalid_hash', 'Telegram init data signature is invalid');
+  }
+
+  const authDate = Number(params.get('auth_date'));
+  if (!Number.isInteger(authDate) || authDate <= 0) {
+    throw new InitDataError('invalid_auth_date', 'Telegram init data has no valid auth_date');
+  }
+
+  const age = Math.floor(now / 1000) - authDate;
+  if (age < -MAX_CLOCK_SKEW) {
+    throw new InitDataError('invalid_auth_date', 'Telegram init data auth_date is in the future');
+  }
+  if (age > maxAge) {
+    throw new InitDataError('expired', 'Telegram init data has expired, reopen the app');
+  }
+
+  const rawUser = params.get('user');
+  if (!rawUser) {
+    throw new InitDataError('missing_user', 'Telegram init data has no user');
+  }
+
+  let user: Partial<VerifiedUser>;
+  try {
+    user = JSON.parse(rawUser);
+  } catch {
+    throw new InitDataError('missing_user', 'Telegram init data user is malformed');
+  }
+
+  if (typeof user.id !== 'number' || typeof user.first_name !== 'string') {
+    throw new InitDataError('missing_user', 'Telegram init data user is malformed');
+  }
+
+  // Only sent when the app is opened from a chat; a malformed one is ignored
+  let chat: LaunchChat | undefined;
+  try {
+    const parsed = JSON.parse(params.get('chat') || 'null') as Partial<LaunchChat> | null;
+    if (parsed && typeof parsed.id === 'number' && typeof parsed.type === 'string') {
+      chat = { id: parsed.id, type: parsed.type, title: parsed.title ?? '', username: parsed.username };
+    }
+  } catch {
+    chat = undefined;
+  }
+
+  return {
+    id: user.id,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    username: user.username,
+    language_code: user.language_code,
+    is_premium: user.is_premium,
+    start_param: params.get('start_param') ?? undefined,
+    chat,
+    chat_instance: params.get('chat_instance') ?? undefined,
+    auth_date: authDate,
+    init_data: initData
+  };
+}
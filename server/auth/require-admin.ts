@@ -0,0 +1,19 @@
+import type { IncomingMessage } from 'node:http';
+import type { VerifiedUser } from '../../src/lib/types';
+import type { ServerConfig } from '../config';
+import { HttpError } from '../http';
+import { requireUser } from './require-user';
+
+export function isAdmin(user: VerifiedUser, config: ServerConfig): boolean {
+  return config.adminIds.includes(user.id);
+}
+
+// Authenticate a request and check the user is one of the configured admins
+export function requireAdmin(req: IncomingMessage, config: ServerConfig): VerifiedUser {
+  const user = requireUser(req, config);
+
+  if (!isAdmin(user, config)) {
+    throw new HttpError(403, 'Admins only');
+  }
+  return user;
+}
@@ -0,0 +1,26 @@
+import type { IncomingMessage } from 'node:http';
+import type { VerifiedUser } from '../../src/lib/types';
+import type { ServerConfig } from '../config';
+import { HttpError } from '../http';
+import { InitDataError, verifyInitData } from './init-data';
+
+// Authenticate a request from its `Authorization: tma <initData>` header
+export function requireUser(req: IncomingMessage, config: ServerConfig): VerifiedUser {
+  const header = req.headers.authorization || '';
+  const separator = header.indexOf(' ');
+  const scheme = separator === -1 ? header : header.slice(0, separator);
+  const initData = separator === -1 ? '' : header.slice(separator + 1).trim();
+
+  if (scheme.toLowerCase() !== 'tma' || !initData) {
+    throw new HttpError(401, 'Missing Telegram init data');
+  }
+
+  try {
+    return verifyInitData(initData, config.botToken, { maxAge: config.initDataMaxAge });
+  } catch (error) {
+    if (error instanceof InitDataError) {
+      throw new HttpError(401, error.message);
+    }
+    throw error;
+  }
+}
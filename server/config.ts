@@ -0,0 +1,63 @@
+import { DEFAULT_INIT_DATA_MAX_AGE } from './auth/init-data';
+
+// Backend configuration, read from the process environment
+export interface ServerConfig {
+  port: number;
+  botToken: string;
+  allowedOrigin: string;
+  // Maximum age of a Telegram initData payload, in seconds; the app keeps its
+  // launch initData for the whole session, so this caps the session length
+  initDataMaxAge: number;
+  // Base URL of the Bot API, pointed at a local mock for offline testing
+  telegramApiRoot: string;
+  // Secret Telegram sends back in X-Telegram-Bot-Api-Secret-Token (see setWebhook)
+  webhookSecret: string;
+  supabaseUrl: string;
+  supabaseServiceKey: string;
+  // Games still waiting for players after this many minutes are cancelled and refunded
+  gameTimeoutMinutes: number;
+  refundJobIntervalSeconds: number;
+  drawJobIntervalSeconds: number;
+  // How often the worker process checks for scheduled draws that are due
+  schedulerIntervalSeconds: number;
+  // How often the worker process sends queued bot notifications
+  notificationIntervalSeconds: number;
+  // Share of the house commission on referred players' entries paid to their referrer, in percent
+  referralPercent: number;
+  // Telegram user ids allowed to use the admin API
+  adminIds: number[];
+  // HTTPS URL of the Mini App, opened by the bot's Play buttons
+  webAppUrl: string;
+}
+
+function required(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name] || '';
+  if (!value) {
+    throw new Error(`Missing ${name} environment variable.`);
+  }
+  return value;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    port: parseInt(env.PORT || '8787', 10),
+    botToken: required(env, 'TELEGRAM_BOT_TOKEN'),
+    allowedOrigin: env.ALLOWED_ORIGIN || '*',
+    initDataMaxAge: parseInt(env.INIT_DATA_MAX_AGE || String(DEFAULT_INIT_DATA_MAX_AGE), 10),
+    telegramApiRoot: env.TELEGRAM_API_ROOT || 'https://api.telegram.org',
+    webhookSecret: required(env, 'TELEGRAM_WEBHOOK_SECRET'),
+    supabaseUrl: required(env, 'SUPABASE_URL'),
+    supabaseServiceKey: required(env, 'SUPABASE_SERVICE_ROLE_KEY'),
+    gameTimeoutMinutes: parseInt(env.GAME_TIMEOUT_MINUTES || '1440', 10),
+    refundJobIntervalSeconds: parseInt(env.REFUND_JOB_INTERVAL_SECONDS || '60', 10),
+    drawJobIntervalSeconds: parseInt(env.DRAW_JOB_INTERVAL_SECONDS || '15', 10),
+    schedulerIntervalSeconds: parseInt(env.SCHEDULER_INTERVAL_SECONDS || '10', 10),
+    notificationIntervalSeconds: parseInt(env.NOTIFICATION_INTERVAL_SECONDS || '5', 10),
+    referralPercent: parseInt(env.REFERRAL_PERCENT || '10', 10),
+    adminIds: (env.ADMIN_TELEGRAM_IDS || '')
+      .split(',')
+      .map((id) => parseInt(id.trim(), 10))
+      .filter((id) => Number.isInteger(id)),
+    webAppUrl: env.WEBAPP_URL || ''
+  };
+}
@@ -0,0 +1,9 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { ServerConfig } from './config';
+
+// Supabase client with the service role key; never expose it to the web app
+export function createServiceClient(config: ServerConfig): SupabaseClient {
+  return createClient(config.supabaseUrl, config.supabaseServiceKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_CHAT_SETTINGS, type ChatLotterySettings } from '../../src/lib/chat-lotteries';
+import type { ChatLottery, Game, LaunchChat } from '../../src/lib/types';
+import type { BotApi } from '../telegram/bot-api';
+import type { GameService } from './game-service';
+
+// Group-chat lotteries: one waiting game per group, with stakes set by the
+// group's admins. Results are posted back to the group by GameService.
+export class ChatService {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private botApi: BotApi
+  ) {}
+
+  // The chat's lottery, created with the default stakes on first use
+  async getLottery(chat: LaunchChat): Promise<ChatLottery> {
+    const { error: createError } = await this.supabase
+      .from('chat_lotteries')
+      .upsert({ chat_id: chat.id.toString(), title: chat.title, ...DEFAULT_CHAT_SETTINGS }, { onConflict: 'chat_id', ignoreDuplicates: true });
+
+    if (createError) {
+      throw new Error(`Failed to create chat lottery: ${createError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('chat_lotteries')
+      .select('*')
+      .eq('chat_id', chat.id.toString())
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get chat lottery: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Only the group's creator and administrators may change its stakes
+  async isAdmin(chat: LaunchChat, userId: number): Promise<boolean> {
+    const member = await this.botApi.getChatMember(chat.id, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  }
+
+  // New stakes apply from the chat's next game; the open one keeps its own.
+  // The caller checks that `userId` administers the chat.
+  async updateSettings(chat: LaunchChat, userId: number, settings: ChatLotterySettings): Promise<ChatLottery> {
+    await this.getLottery(chat);
+
+    const { data, error } = await this.supabase
+      .from('chat_lotteries')
+      .update({
+        ...settings,
+        title: chat.title,
+        updated_by: userId.toString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('chat_id', chat.id.toString())
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update chat lottery: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The chat's open game, creating it from the chat's stakes if there is none
+  async openGame(chat: LaunchChat): Promise<Game> {
+    const lottery = await this.getLottery(chat);
+
+    const open = await this.getOpenGame(lottery.chat_id);
+    if (open) {
+      return open;
+    }
+
+    try {
+      return await this.games.createGame({
+        chatId: lottery.chat_id,
+        maxPlayers: lottery.max_players,
+        maxTicketsPerPlayer: lottery.max_tickets_per_player,
+        entryFee: lottery.entry_fee,
+        prizeRules: lottery.prize_rules
+      });
+    } catch (error) {
+      // Another request opened the chat's game first; the unique index let only one through
+      const opened = await this.getOpenGame(lottery.chat_id);
+      if (opened) {
+        return opened;
+      }
+      throw error;
+    }
+  }
+
+  private async getOpenGame(chatId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('chat_id', chatId)
+      .eq('status', 'waiting')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get open game: ${error.message}`);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,130 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  canTransition,
+  GAME_TRANSITIONS,
+  IllegalTransitionError,
+  TransitionConflictError,
+  TransitionGuardError,
+  type GameStatus
+} from '../../src/lib/game-lifecycle';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { GameLifecycle } from './game-lifecycle';
+
+let db: PGlite;
+let lifecycle: GameLifecycle;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  lifecycle = new GameLifecycle(createTestClient(db));
+}, TEST_DATABASE_TIMEOUT_MS);
+
+async function createGame(maxPlayers: number = 2): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (max_players, entry_fee, prize_rules) values ($1, 5, $2) returning id`,
+    [maxPlayers, JSON.stringify(DEFAULT_PRIZE_RULES)]
+  );
+  return rows[0].id;
+}
+
+function join(gameId: string, userId: number) {
+  return db.query(
+    'select * from join_game($1, $2, $3, $4, $5, $6)',
+    [gameId, userId.toString(), `user${userId}`, `User ${userId}`, `charge-${gameId}-${userId}`, 1]
+  );
+}
+
+async function gameStatus(gameId: string): Promise<string> {
+  const { rows } = await db.query<{ status: string }>('select status from games where id = $1', [gameId]);
+  return rows[0].status;
+}
+
+describe('games_check_transition trigger', () => {
+  const statuses = Object.keys(GAME_TRANSITIONS) as GameStatus[];
+
+  it('allows exactly the transitions of GAME_TRANSITIONS', async () => {
+    for (const from of statuses) {
+      for (const to of statuses.filter((status) => status !== from)) {
+        const { rows } = await db.query<{ allowed: boolean }>('select game_transition_allowed($1, $2) as allowed', [from, to]);
+        expect([from, to, rows[0].allowed]).toEqual([from, to, canTransition(from, to)]);
+      }
+    }
+  });
+
+  it('rejects an illegal update made directly in the database', async () => {
+    const gameId = await createGame();
+    await db.query(`update games set status = 'refunding' where id = $1`, [gameId]);
+
+    await expect(db.query(`update games set status = 'waiting' where id = $1`, [gameId])).rejects.toThrow('ILLEGAL_TRANSITION refunding -> waiting');
+    await expect(db.query(`update games set status = 'completed' where id = $1`, [gameId])).rejects.toThrow('ILLEGAL_TRANSITION refunding -> completed');
+    expect(await gameStatus(gameId)).toBe('refunding');
+  });
+});
+
+describe('GameLifecycle.transition', () => {
+  it('moves the game, applies the changes and records the reason', async () => {
+    const gameId = await createGame();
+
+    const game = await lifecycle.transition(gameId, ['waiting', 'full'], 'refunding', 'cancelled by admin', { completed_at: '2026-10-19T12:00:00.000Z' });
+
+    expect(game).toMatchObject({ id: gameId, status: 'refunding', status_reason: 'cancelled by admin' });
+    expect(new Date(game.completed_at!).toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect((await lifecycle.getTransitions(gameId)).map(({ from_status, to_status, reason }) => [from_status, to_status, reason ?? null])).toEqual([
+      [null, 'waiting', null],
+      ['waiting', 'refunding', 'cancelled by admin']
+    ]);
+  });
+
+  it('throws IllegalTransitionError without touching the game', async () => {
+    const gameId = await createGame();
+
+    await expect(lifecycle.transition(gameId, 'waiting', 'completed', 'test')).rejects.toBeInstanceOf(IllegalTransitionError);
+    await expect(lifecycle.transition(gameId, ['waiting', 'drawing'], 'refunding', 'test')).rejects.toBeInstanceOf(IllegalTransitionError);
+    expect(await gameStatus(gameId)).toBe('waiting');
+  });
+
+  it('throws TransitionConflictError when the game has already moved on', async () => {
+    const gameId = await createGame();
+    await lifecycle.transition(gameId, 'waiting', 'refunding', 'first');
+
+    const conflict = lifecycle.transition(gameId, 'waiting', 'refunding', 'second');
+
+    await expect(conflict).rejects.toBeInstanceOf(TransitionConflictError);
+    await expect(conflict).rejects.toMatchObject({ actual: 'refunding' });
+    await expect(lifecycle.transition(crypto.randomUUID(), 'waiting', 'refunding', 'test')).rejects.toMatchObject({ actual: null });
+  });
+
+  it('throws TransitionGuardError while a precondition does not hold', async () => {
+    const gameId = await createGame(2);
+    await join(gameId, 1);
+
+    await expect(lifecycle.transition(gameId, 'waiting', 'full', 'test')).rejects.toMatchObject({
+      name: 'TransitionGuardError',
+      reason: 'not enough paid tickets'
+    });
+
+    await join(gameId, 2);
+    expect(await gameStatus(gameId)).toBe('full');
+    await lifecycle.transition(gameId, 'full', 'drawing', 'test');
+
+    await expect(lifecycle.transition(gameId, 'drawing', 'completed', 'test')).rejects.toBeInstanceOf(TransitionGuardError);
+    await db.query(`update games set winner_id = '1' where id = $1`, [gameId]);
+    await expect(lifecycle.transition(gameId, 'drawing', 'completed', 'test')).resolves.toMatchObject({ status: 'completed' });
+  });
+
+  it('keeps a game refunding until no entry is owed a refund', async () => {
+    const gameId = await createGame();
+    await join(gameId, 1);
+    await lifecycle.transition(gameId, 'waiting', 'refunding', 'test');
+
+    await expect(lifecycle.transition(gameId, 'refunding', 'cancelled', 'test')).rejects.toMatchObject({
+      name: 'TransitionGuardError',
+      reason: 'entries are still waiting for a refund'
+    });
+
+    await db.query(`update game_players set payment_status = 'refunded' where game_id = $1`, [gameId]);
+    await expect(lifecycle.transition(gameId, 'refunding', 'cancelled', 'test')).resolves.toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  assertTransition,
+  IllegalTransitionError,
+  TransitionConflictError,
+  TransitionGuardError,
+  type GameStatus
+} from '../../src/lib/game-lifecycle';
+import { totalTickets } from '../../src/lib/tickets';
+import type { Game, GameTransition } from '../../src/lib/types';
+
+// Every status change of a game goes through here. The update only applies if
+// the game is still in one of the expected states, which also makes it the
+// claim when several workers race for the same transition.
+export class GameLifecycle {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Move a game from `from` to `to`, applying `changes` in the same update.
+  // Throws IllegalTransitionError, TransitionGuardError or, when the game is
+  // no longer in `from`, TransitionConflictError.
+  async transition(
+    gameId: string,
+    from: GameStatus | GameStatus[],
+    to: GameStatus,
+    reason: string,
+    changes: Partial<Game> = {}
+  ): Promise<Game> {
+    const expected = Array.isArray(from) ? from : [from];
+    expected.forEach((status) => assertTransition(gameId, status, to));
+
+    const current = await this.getGame(gameId);
+    if (!current || !expected.includes(current.status)) {
+      throw new TransitionConflictError(gameId, expected[0], to, current?.status ?? null);
+    }
+
+    await this.checkGuard(current, to);
+
+    const { data, error } = await this.supabase
+      .from('games')
+      .update({ ...changes, status: to, status_reason: reason })
+      .eq('id', gameId)
+      .in('status', expected)
+      .select('*');
+
+    if (error) {
+      // Raised by the games_transition trigger
+      if (error.message.includes('ILLEGAL_TRANSITION')) {
+        throw new IllegalTransitionError(gameId, current.status, to);
+      }
+      throw new Error(`Failed to move game to ${to}: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      const actual = await this.getGame(gameId);
+      throw new TransitionConflictError(gameId, current.status, to, actual?.status ?? null);
+    }
+
+    return data[0];
+  }
+
+  // Audit trail of a game, oldest first
+  async getTransitions(gameId: string): Promise<GameTransition[]> {
+    const { data, error } = await this.supabase
+      .from('game_transitions')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get game transitions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Preconditions that depend on more than the current status
+  private async checkGuard(game: Game, to: GameStatus): Promise<void> {
+    if (to === 'full' && (await this.countPaidTickets(game.id)) < game.max_players) {
+      throw new TransitionGuardError(game.id, game.status, to, 'not enough paid tickets');
+    }
+    // A fill game is drawn before it fills only at its deadline, among at least its minimum players
+    if (to === 'drawing' && game.status === 'waiting' && game.draw_mode !== 'scheduled' &&
+      (game.min_players == null || (await this.countPaidPlayers(game.id)) < game.min_players)) {
+      throw new TransitionGuardError(game.id, game.status, to, 'only scheduled games and games with their minimum players are drawn before they fill');
+    }
+    if (to === 'completed' && !game.winner_id) {
+      throw new TransitionGuardError(game.id, game.status, to, 'no winner has been drawn');
+    }
+    if (to === 'cancelled' && (await this.countEntries(game.id, ['completed', 'failed'])) > 0) {
+      throw new TransitionGuardError(game.id, game.status, to, 'entries are still waiting for a refund');
+    }
+  }
+
+  // Entries in the given states, ignoring unpaid ones that have nothing to refund
+  private async countEntries(gameId: string, statuses: string[]): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('game_players')
+      .select('*', { count: 'exact', head: true })
+      .eq('game_id', gameId)
+      .in('payment_status', statuses)
+      .not('telegram_payment_charge_id', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to count entries: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  // Distinct players with a paid entry; a player may have bought several
+  private async countPaidPlayers(gameId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('telegram_user_id')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to count players: ${error.message}`);
+    }
+
+    return new Set((data || []).map((entry) => entry.telegram_user_id)).size;
+  }
+
+  private async countPaidTickets(gameId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('tickets')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to count tickets: ${error.message}`);
+    }
+
+    return totalTickets(data || []);
+  }
+
+  private async getGame(gameId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,566 @@
+import { randomBytes } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DrawMode } from '../../src/lib/draw-schedule';
+import { drawWinners, hashSeed } from '../../src/lib/fair-draw';
+import { TransitionConflictError, TransitionGuardError, type GameStatus } from '../../src/lib/game-lifecycle';
+import { finalPotTransaction } from '../../src/lib/ledger';
+import { DEFAULT_PRIZE_RULES, type PrizeRules } from '../../src/lib/prize-rules';
+import { totalTickets } from '../../src/lib/tickets';
+import {
+  carriedPot,
+  DEFAULT_FINAL_PRIZE_RULES,
+  DEFAULT_ROUND_PRIZE_RULES,
+  finalQualifiers,
+  qualifiersSettled,
+  type TournamentBracket
+} from '../../src/lib/tournaments';
+import type { Game, GamePlayer, Tournament } from '../../src/lib/types';
+import type { LedgerStore } from '../ledger/ledger-store';
+import type { Payout, PayoutService } from '../payments/payouts';
+import type { BotApi } from '../telegram/bot-api';
+import type { NotificationService } from '../telegram/notifications';
+import type { GameLifecycle } from './game-lifecycle';
+
+export interface CreateGameOptions {
+  roomId?: string;
+  // Group chat whose lottery the game belongs to
+  chatId?: string;
+  // Tickets the game sells
+  maxPlayers?: number;
+  // Defaults to one ticket per player
+  maxTicketsPerPlayer?: number;
+  entryFee?: number;
+  prizeRules?: PrizeRules;
+  // Paid players needed by the deadline or, for scheduled games, the draw time
+  minPlayers?: number;
+  // Scheduled games are drawn at `drawAt` instead of when they fill
+  drawMode?: DrawMode;
+  drawAt?: Date;
+  // Tournament games: round 1 for qualifiers, round 2 for the final
+  tournamentId?: string;
+  tournamentRound?: 1 | 2;
+  bracketSlot?: number;
+}
+
+export interface CreateTournamentOptions {
+  name: string;
+  // Number of qualifying games
+  roundGames: number;
+  // Players (one ticket each) per qualifier
+  playersPerGame: number;
+  entryFee: number;
+  roundPrizeRules?: PrizeRules;
+  finalPrizeRules?: PrizeRules;
+}
+
+// Marks the free entries of a final's qualifiers. The unique index on
+// (game_id, telegram_user_id, invoice_nonce) stops them being seated twice.
+const QUALIFIER_NONCE = 'qualified';
+
+// Creating games and drawing winners; both need the secret server seed.
+// Draws only ever run here, never in the web app. Tournaments progress here
+// too: every finished qualifier and final moves its tournament along, the
+// results of group-chat games are posted to their group and every player is
+// notified when the draw starts and ends.
+export class GameService {
+  constructor(
+    private supabase: SupabaseClient,
+    private payouts: PayoutService,
+    private lifecycle: GameLifecycle,
+    private ledger: LedgerStore,
+    private botApi: BotApi,
+    private notifications: NotificationService
+  ) {}
+
+  // Create a game and commit to a fresh server seed by publishing its hash
+  async createGame(options: CreateGameOptions = {}): Promise<Game> {
+    const seed = randomBytes(32).toString('hex');
+
+    const { data: game, error } = await this.supabase
+      .from('games')
+      .insert({
+        status: 'waiting',
+        status_reason: 'created',
+        room_id: options.roomId ?? null,
+        chat_id: options.chatId ?? null,
+        max_players: options.maxPlayers ?? 10,
+        min_players: options.minPlayers ?? null,
+        max_tickets_per_player: options.maxTicketsPerPlayer ?? 1,
+        entry_fee: options.entryFee ?? 1,
+        prize_pool: 0,
+        prize_rules: options.prizeRules ?? DEFAULT_PRIZE_RULES,
+        draw_mode: options.drawMode ?? 'fill',
+        draw_at: options.drawAt?.toISOString() ?? null,
+        tournament_id: options.tournamentId ?? null,
+        tournament_round: options.tournamentRound ?? null,
+        bracket_slot: options.bracketSlot ?? null,
+        seed_hash: await hashSeed(seed)
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create game: ${error.message}`);
+    }
+
+    // game_seeds is only readable with the service role
+    const { error: seedError } = await this.supabase
+      .from('game_seeds')
+      .insert({ game_id: game.id, seed });
+
+    if (seedError) {
+      await this.supabase.from('games').delete().eq('id', game.id);
+      throw new Error(`Failed to store game seed: ${seedError.message}`);
+    }
+
+    return game;
+  }
+
+  // Create a tournament and open all of its qualifiers
+  async createTournament(options: CreateTournamentOptions): Promise<TournamentBracket> {
+    const { data: tournament, error } = await this.supabase
+      .from('tournaments')
+      .insert({
+        name: options.name,
+        status: 'running',
+        entry_fee: options.entryFee,
+        players_per_game: options.playersPerGame,
+        round_games: options.roundGames,
+        round_prize_rules: options.roundPrizeRules ?? DEFAULT_ROUND_PRIZE_RULES,
+        final_prize_rules: options.finalPrizeRules ?? DEFAULT_FINAL_PRIZE_RULES
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create tournament: ${error.message}`);
+    }
+
+    for (let slot = 1; slot <= tournament.round_games; slot++) {
+      await this.createGame({
+        tournamentId: tournament.id,
+        tournamentRound: 1,
+        bracketSlot: slot,
+        maxPlayers: tournament.players_per_game,
+        entryFee: tournament.entry_fee,
+        prizeRules: tournament.round_prize_rules
+      });
+    }
+
+    return {
+      tournament,
+      rounds: await this.getTournamentGames(tournament.id),
+      final: null
+    };
+  }
+
+  // Null if there is no such tournament
+  async getTournamentBracket(tournamentId: string): Promise<TournamentBracket | null> {
+    const tournament = await this.findTournament(tournamentId);
+    if (!tournament) {
+      return null;
+    }
+
+    const games = await this.getTournamentGames(tournamentId);
+
+    return {
+      tournament,
+      rounds: games.filter((game) => game.tournament_round === 1),
+      final: games.find((game) => game.tournament_round === 2) ?? null
+    };
+  }
+
+  // Move a tournament along as far as its games allow. Once every qualifier
+  // is completed or cancelled, `running -> final` is the claim: the final is
+  // opened, funded with the carried pots, seated with the qualifier winners
+  // and drawn. Every step is idempotent, so a crashed run is finished by the
+  // next call. A tournament without a single completed qualifier is cancelled.
+  async advanceTournament(tournamentId: string): Promise<Tournament> {
+    let tournament = await this.getTournament(tournamentId);
+    const games = await this.getTournamentGames(tournamentId);
+    const rounds = games.filter((game) => game.tournament_round === 1);
+
+    if (tournament.status === 'running') {
+      if (!qualifiersSettled(rounds)) {
+        return tournament;
+      }
+
+      const next = rounds.some((game) => game.status === 'completed') ? 'final' : 'cancelled';
+      tournament = await this.updateTournament(tournamentId, 'running', {
+        status: next,
+        completed_at: next === 'cancelled' ? new Date().toISOString() : undefined
+      }) ?? await this.getTournament(tournamentId);
+    }
+
+    if (tournament.status !== 'final') {
+      return tournament;
+    }
+
+    let final = games.find((game) => game.tournament_round === 2) ?? await this.openFinal(tournament, rounds);
+    if (final.status === 'waiting') {
+      final = await this.seatFinal(tournament, final, rounds);
+    }
+    if (final.status === 'full') {
+      final = await this.drawWinner(final.id);
+    }
+    if (final.status !== 'completed') {
+      return tournament;
+    }
+
+    const completed = await this.updateTournament(tournamentId, 'final', {
+      status: 'completed',
+      completed_at: final.completed_at
+    });
+    return completed ?? this.getTournament(tournamentId);
+  }
+
+  // Backstop for the progression triggered by draws: advances every
+  // tournament that is still running or in its final
+  async advanceTournaments(): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select('id')
+      .in('status', ['running', 'final']);
+
+    if (error) {
+      throw new Error(`Failed to get tournaments: ${error.message}`);
+    }
+
+    for (const tournament of data || []) {
+      try {
+        await this.advanceTournament(tournament.id);
+      } catch (advanceError) {
+        console.error(`Failed to advance tournament ${tournament.id}:`, advanceError);
+      }
+    }
+  }
+
+  // Draw the winner of a full game. The `full -> drawing` transition is the claim:
+  // exactly one caller wins it and performs the draw, everyone else just gets
+  // the game back. Scheduled games that filled early are left for the scheduler.
+  async drawWinner(gameId: string): Promise<Game> {
+    const game = await this.getGame(gameId);
+    if (game.draw_mode === 'scheduled') {
+      return game;
+    }
+
+    return this.claimDraw(gameId, 'full', 'game full');
+  }
+
+  // Draw a scheduled game whose draw time has come, full or not. The caller
+  // checks the time and the minimum players.
+  async drawScheduledGame(gameId: string): Promise<Game> {
+    return this.claimDraw(gameId, ['waiting', 'full'], 'scheduled draw');
+  }
+
+  // Draw a fill game that reached its minimum players but not its capacity by
+  // its deadline, among the players it has. The caller checks the deadline.
+  async drawAtDeadline(gameId: string, reason: string): Promise<Game> {
+    return this.claimDraw(gameId, 'waiting', reason);
+  }
+
+  // Finish a draw left in `drawing`, e.g. after a crash. The winner is a pure
+  // function of the committed seed and the entries, so recomputing it is safe.
+  async resumeDraw(gameId: string): Promise<Game> {
+    const game = await this.getGame(gameId);
+
+    if (game.status !== 'drawing') {
+      return game;
+    }
+
+    return this.completeDraw(game);
+  }
+
+  // Draw a game now, at an admin's request: a draw left in `drawing` is
+  // finished, a scheduled game is drawn before its time and a fill game once
+  // it is full. Unlike the jobs, losing the claim is reported as a conflict.
+  async forceDraw(gameId: string, reason: string = 'forced by admin'): Promise<Game> {
+    const game = await this.getGame(gameId);
+
+    if (game.status === 'drawing') {
+      return this.completeDraw(game);
+    }
+
+    if ((await this.getPaidPlayers([gameId])).length === 0) {
+      throw new TransitionGuardError(gameId, game.status, 'drawing', 'no paid tickets to draw');
+    }
+
+    const claimed = await this.lifecycle.transition(
+      gameId,
+      game.draw_mode === 'scheduled' ? ['waiting', 'full'] : 'full',
+      'drawing',
+      reason,
+      { draw_started_at: new Date().toISOString() }
+    );
+    return this.completeDraw(claimed);
+  }
+
+  // The transition into `drawing` is the claim; losers get the game back
+  private async claimDraw(gameId: string, from: GameStatus | GameStatus[], reason: string): Promise<Game> {
+    let claimed: Game;
+
+    try {
+      claimed = await this.lifecycle.transition(gameId, from, 'drawing', reason, {
+        draw_started_at: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof TransitionConflictError) {
+        return this.getGame(gameId);
+      }
+      throw error;
+    }
+
+    return this.completeDraw(claimed);
+  }
+
+  // Reveal the seed and winners, pay out, then mark the game completed
+  private async completeDraw(game: Game): Promise<Game> {
+    const { data: seedRow, error: seedError } = await this.supabase
+      .from('game_seeds')
+      .select('seed')
+      .eq('game_id', game.id)
+      .single();
+
+    if (seedError) {
+      throw new Error(`Failed to get game seed: ${seedError.message}`);
+    }
+
+    const players = await this.getPaidPlayers([game.id]);
+    // Not awaited: players are messaged in the background, at Telegram's pace
+    void this.notifications.drawStarted(game, players);
+
+    const winnerIds = (await drawWinners(seedRow.seed, players, game.prize_rules.winners))
+      .map((winner) => winner.telegram_user_id);
+
+    const { error: revealError } = await this.supabase
+      .from('games')
+      .update({ winner_id: winnerIds[0], winner_ids: winnerIds, server_seed: seedRow.seed })
+      .eq('id', game.id)
+      .eq('status', 'drawing');
+
+    if (revealError) {
+      throw new Error(`Failed to record winner: ${revealError.message}`);
+    }
+
+    // Idempotent: at most one payout row per place
+    const payouts = await this.payouts.payWinners(game.id);
+
+    let completed: Game;
+
+    try {
+      completed = await this.lifecycle.transition(game.id, 'drawing', 'completed', 'winners paid', {
+        completed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      // A resumed draw finished the game first
+      if (error instanceof TransitionConflictError) {
+        return this.getGame(game.id);
+      }
+      throw error;
+    }
+
+    // The draw is done either way; the draw job retries a failed progression
+    if (completed.tournament_id) {
+      try {
+        await this.advanceTournament(completed.tournament_id);
+      } catch (error) {
+        console.error(`Failed to advance tournament ${completed.tournament_id}:`, error);
+      }
+    }
+
+    void this.notifications.drawResult(completed, players, payouts);
+
+    // Only the run that completed the game announces it, so the group hears once
+    if (completed.chat_id) {
+      try {
+        await this.announceChatResult(completed.chat_id, completed, players, payouts);
+      } catch (error) {
+        console.error(`Failed to announce game ${completed.id} in chat ${completed.chat_id}:`, error);
+      }
+    }
+
+    return completed;
+  }
+
+  // Post the winners and their prizes to the game's group chat
+  private async announceChatResult(chatId: string, game: Game, players: GamePlayer[], payouts: Payout[]): Promise<void> {
+    const names = new Map(players.map((player) => [player.telegram_user_id, player.telegram_first_name]));
+    const places = payouts.map((payout) =>
+      `${payout.place + 1}. ${names.get(payout.telegram_user_id) ?? payout.telegram_user_id} - ${payout.amount}⭐`
+    );
+
+    await this.botApi.sendMessage(chatId, [
+      `🎉 Lottery drawn! ${totalTickets(players)} tickets, ${game.prize_pool}⭐ in the pool.`,
+      ...places,
+      `Seed: ${game.server_seed}`
+    ].join('\n'));
+  }
+
+  // The final sells no tickets: one per qualifier won, handed out for free
+  private async openFinal(tournament: Tournament, rounds: Game[]): Promise<Game> {
+    const qualifiers = finalQualifiers(rounds, await this.getPaidPlayers(rounds.map((game) => game.id)));
+    let final: Game;
+
+    try {
+      final = await this.createGame({
+        tournamentId: tournament.id,
+        tournamentRound: 2,
+        bracketSlot: 0,
+        maxPlayers: totalTickets(qualifiers),
+        maxTicketsPerPlayer: tournament.round_games,
+        entryFee: 0,
+        prizeRules: tournament.final_prize_rules
+      });
+    } catch (error) {
+      // Another worker opened the final first; the bracket slot is unique
+      const opened = (await this.getTournamentGames(tournament.id)).find((game) => game.tournament_round === 2);
+      if (!opened) {
+        throw error;
+      }
+      final = opened;
+    }
+
+    const { error } = await this.supabase
+      .from('tournaments')
+      .update({ final_game_id: final.id })
+      .eq('id', tournament.id);
+
+    if (error) {
+      throw new Error(`Failed to link tournament final: ${error.message}`);
+    }
+
+    return final;
+  }
+
+  // Seat the qualifier winners, move the carried pots into the final's prize
+  // pool and mark it full, ready for its draw
+  private async seatFinal(tournament: Tournament, final: Game, rounds: Game[]): Promise<Game> {
+    const qualifiers = finalQualifiers(rounds, await this.getPaidPlayers(rounds.map((game) => game.id)));
+    const pot = carriedPot(rounds);
+
+    const { error: seatError } = await this.supabase
+      .from('game_players')
+      .insert(qualifiers.map((qualifier) => ({
+        game_id: final.id,
+        telegram_user_id: qualifier.telegram_user_id,
+        telegram_username: qualifier.telegram_username ?? '',
+        telegram_first_name: qualifier.telegram_first_name,
+        payment_status: 'completed',
+        tickets: qualifier.tickets,
+        invoice_nonce: QUALIFIER_NONCE
+      })));
+
+    // Already seated by an earlier run
+    if (seatError && seatError.code !== '23505') {
+      throw new Error(`Failed to seat qualifiers: ${seatError.message}`);
+    }
+
+    if (pot > 0) {
+      await this.ledger.post(finalPotTransaction(tournament.id, final.id, pot));
+    }
+
+    const { error: potError } = await this.supabase
+      .from('games')
+      .update({ prize_pool: pot })
+      .eq('id', final.id)
+      .eq('status', 'waiting');
+
+    if (potError) {
+      throw new Error(`Failed to fund tournament final: ${potError.message}`);
+    }
+
+    try {
+      return await this.lifecycle.transition(final.id, 'waiting', 'full', 'qualifiers seated');
+    } catch (error) {
+      if (error instanceof TransitionConflictError) {
+        return this.getGame(final.id);
+      }
+      throw error;
+    }
+  }
+
+  // Conditional update; null if the tournament is no longer in `from`
+  private async updateTournament(tournamentId: string, from: Tournament['status'], changes: Partial<Tournament>): Promise<Tournament | null> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .update(changes)
+      .eq('id', tournamentId)
+      .eq('status', from)
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to update tournament: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  private async getTournament(tournamentId: string): Promise<Tournament> {
+    const tournament = await this.findTournament(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    return tournament;
+  }
+
+  private async findTournament(tournamentId: string): Promise<Tournament | null> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select('*')
+      .eq('id', tournamentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get tournament: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private async getTournamentGames(tournamentId: string): Promise<Game[]> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('tournament_round', { ascending: true })
+      .order('bracket_slot', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get tournament games: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private async getGame(gameId: string): Promise<Game> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('Game not found');
+    }
+
+    return data;
+  }
+
+  private async getPaidPlayers(gameIds: string[]): Promise<GamePlayer[]> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .in('game_id', gameIds)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,65 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseHistoryCursor } from '../../src/lib/history';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { HistoryService } from './history-service';
+
+const USER_ID = 101;
+
+let db: PGlite;
+let history: HistoryService;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  history = new HistoryService(createTestClient(db));
+}, TEST_DATABASE_TIMEOUT_MS);
+
+// A game the user won, created at `createdAt`
+async function insertGame(createdAt: string): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (status, max_players, entry_fee, prize_pool, prize_rules, winner_id, winner_ids, created_at, completed_at)
+     values ('completed', 1, 5, 5, $1, $2::text, array[$2::text], $3::timestamptz, $3::timestamptz)
+     returning id`,
+    [JSON.stringify(DEFAULT_PRIZE_RULES), USER_ID.toString(), createdAt]
+  );
+  await db.query(
+    `insert into game_players (game_id, telegram_user_id, telegram_first_name, payment_status, telegram_payment_charge_id)
+     values ($1, $2, 'User', 'completed', $3)`,
+    [rows[0].id, USER_ID.toString(), `charge-${rows[0].id}`]
+  );
+  return rows[0].id;
+}
+
+describe('HistoryService.getHistory', () => {
+  it('pages through games created in the same instant without skipping or repeating any', async () => {
+    const tied = await Promise.all(Array.from({ length: 5 }, () => insertGame('2026-10-19T12:00:00.000Z')));
+    const older = await insertGame('2026-10-19T11:00:00.000Z');
+    const newer = await insertGame('2026-10-19T13:00:00.000Z');
+
+    const seen: string[] = [];
+    let before: string | undefined;
+    do {
+      const page = await history.getHistory(USER_ID, 'all', before, 2);
+      seen.push(...page.items.map((item) => item.game.id));
+      before = page.next_cursor;
+    } while (before);
+
+    expect(seen).toEqual([newer, ...[...tied].sort().reverse(), older]);
+  });
+
+  it('ends a page with a cursor of the last game\'s creation time and id', async () => {
+    await insertGame('2026-10-20T12:00:00.000Z');
+    await insertGame('2026-10-20T12:00:00.000Z');
+
+    const page = await history.getHistory(USER_ID, 'all', undefined, 1);
+
+    const last = page.items[0].game;
+    expect(parseHistoryCursor(page.next_cursor!)).toEqual({ created_at: last.created_at, id: last.id });
+  });
+
+  it('rejects a cursor it did not hand out', async () => {
+    await expect(history.getHistory(USER_ID, 'all', '2026-10-19T12:00:00.000Z')).rejects.toThrow('Invalid history cursor');
+  });
+});
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  HISTORY_PAGE_SIZE,
+  HISTORY_STATUSES,
+  historyCursor,
+  historyItem,
+  parseHistoryCursor,
+  type HistoryFilter,
+  type HistoryPage
+} from '../../src/lib/history';
+import type { Game, GamePlayer } from '../../src/lib/types';
+
+// Paginated archive of the drawn and refunded games a player entered
+export class HistoryService {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Newest first; `before` is the next_cursor of the previous page
+  async getHistory(userId: number, filter: HistoryFilter, before?: string, limit: number = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+    const telegramUserId = userId.toString();
+
+    // Games with a paid or refunded entry by the player
+    let query = this.supabase
+      .from('games')
+      .select('id, created_at, game_players!inner(telegram_user_id)')
+      .eq('game_players.telegram_user_id', telegramUserId)
+      .in('game_players.payment_status', ['completed', 'refunded'])
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (filter === 'won') {
+      query = query.eq('status', 'completed').contains('winner_ids', [telegramUserId]);
+    } else if (filter === 'lost') {
+      query = query.eq('status', 'completed').not('winner_ids', 'cs', `{${telegramUserId}}`);
+    } else if (filter === 'refunded') {
+      query = query.in('status', ['refunding', 'cancelled']);
+    } else {
+      query = query.in('status', HISTORY_STATUSES);
+    }
+    if (before) {
+      const cursor = parseHistoryCursor(before);
+      if (!cursor) {
+        throw new Error(`Invalid history cursor: ${before}`);
+      }
+      // Older games, and games of the same instant after the cursor's id
+      query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+    }
+
+    const { data: rows, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get history: ${error.message}`);
+    }
+
+    const page = (rows || []).slice(0, limit);
+    if (page.length === 0) {
+      return { items: [] };
+    }
+
+    const ids: string[] = page.map((row) => row.id);
+    const [games, players] = await Promise.all([this.getGames(ids), this.getEntries(ids)]);
+
+    return {
+      items: games.map((game) => historyItem(telegramUserId, {
+        game,
+        players: players.filter((player) => player.game_id === game.id)
+      })),
+      next_cursor: (rows || []).length > limit ? historyCursor(page[page.length - 1]) : undefined
+    };
+  }
+
+  private async getGames(gameIds: string[]): Promise<Game[]> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .in('id', gameIds)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get games: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Paid and refunded entries in join order
+  private async getEntries(gameIds: string[]): Promise<GamePlayer[]> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .in('game_id', gameIds)
+      .in('payment_status', ['completed', 'refunded'])
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { nextDrawAt, systemClock, type Clock } from '../../src/lib/draw-schedule';
+import { applyRoomChanges, type RoomTemplateChanges } from '../../src/lib/rooms';
+import type { Game, RoomTemplate } from '../../src/lib/types';
+import type { GameService } from './game-service';
+
+// Keeps one waiting game open in every active room
+export class RoomService {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private clock: Clock = systemClock
+  ) {}
+
+  async getRoom(roomId: string): Promise<RoomTemplate | null> {
+    const { data, error } = await this.supabase
+      .from('room_templates')
+      .select('*')
+      .eq('id', roomId)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get room: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Every room, inactive ones included, in lobby order
+  async listRooms(): Promise<RoomTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('room_templates')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get rooms: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Create a room or change an existing one. Throws InvalidRoomTemplateError;
+  // games already open keep the stakes they were opened with.
+  async saveRoom(roomId: string, changes: RoomTemplateChanges): Promise<RoomTemplate> {
+    const { data: existing, error: getError } = await this.supabase
+      .from('room_templates')
+      .select('*')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (getError) {
+      throw new Error(`Failed to get room: ${getError.message}`);
+    }
+
+    const room = applyRoomChanges(roomId, existing, changes);
+    const { data, error } = await this.supabase
+      .from('room_templates')
+      .upsert({ ...room, min_players: room.min_players ?? null, draw_time_utc: room.draw_time_utc ?? null })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save room: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The room's open game, creating it from the template if there is none.
+  // Null if the room does not exist or is inactive.
+  async openRoom(roomId: string): Promise<Game | null> {
+    const room = await this.getRoom(roomId);
+    if (!room) {
+      return null;
+    }
+
+    const open = await this.getOpenGame(roomId);
+    if (open) {
+      return open;
+    }
+
+    try {
+      return await this.games.createGame({
+        roomId: room.id,
+        maxPlayers: room.max_players,
+        minPlayers: room.min_players,
+        maxTicketsPerPlayer: room.max_tickets_per_player,
+        entryFee: room.entry_fee,
+        prizeRules: room.prize_rules,
+        // Scheduled rooms draw at the next occurrence of their daily draw time
+        drawMode: room.draw_time_utc ? 'scheduled' : 'fill',
+        drawAt: room.draw_time_utc ? nextDrawAt(room.draw_time_utc, this.clock.now()) : undefined
+      });
+    } catch (error) {
+      // Another worker opened the room first; the unique index let only one through
+      const opened = await this.getOpenGame(roomId);
+      if (opened) {
+        return opened;
+      }
+      throw error;
+    }
+  }
+
+  // Open a game in every active room that has none, e.g. after one filled
+  async ensureOpenGames(): Promise<void> {
+    const { data: rooms, error } = await this.supabase
+      .from('room_templates')
+      .select('id')
+      .eq('active', true);
+
+    if (error) {
+      throw new Error(`Failed to get rooms: ${error.message}`);
+    }
+
+    for (const room of rooms || []) {
+      try {
+        await this.openRoom(room.id);
+      } catch (openError) {
+        console.error(`Failed to open room ${room.id}:`, openError);
+      }
+    }
+  }
+
+  private async getOpenGame(roomId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('status', 'waiting')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get open game: ${error.message}`);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,149 @@
+import type { PGlite } from '@electric-sql/pglite';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ManualClock } from '../../src/lib/draw-schedule';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import { gamePrizes, leaderboards, periodStart, playerStats, type CompletedGame, type LeaderboardPeriod } from '../../src/lib/stats';
+import type { Game, GamePlayer } from '../../src/lib/types';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { StatsService } from './stats-service';
+
+const NOW = '2026-10-21T12:00:00.000Z';
+const USERS = [101, 102, 103, 104, 105, 106].map(String);
+
+let db: PGlite;
+// The same games as inserted, for the reference implementation in stats.ts
+const completed: CompletedGame[] = [];
+
+// Just the rpc call of the Supabase client, run against the test database
+function rpcClient(database: PGlite): SupabaseClient {
+  return {
+    rpc(fn: string, args: Record<string, unknown>) {
+      const names = Object.keys(args);
+      const result = database
+        .query(`select * from ${fn}(${names.map((name, i) => `${name} => $${i + 1}`).join(', ')})`, Object.values(args))
+        .then(({ rows }) => ({ data: rows, error: null }), (error: Error) => ({ data: null, error }));
+
+      return Object.assign(result, {
+        single: () => result.then(({ data, error }) => ({ data: data?.[0] ?? null, error }))
+      });
+    }
+  } as unknown as SupabaseClient;
+}
+
+// Insert a completed single-winner game with one entry per player and its payout
+async function insertCompletedGame(index: number, completedAt: string, players: string[], winner: string): Promise<void> {
+  const tickets = players.map((_, i) => 1 + ((index + i) % 2));
+  const pool = tickets.reduce((total, count) => total + count * 10, 0);
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (status, max_players, max_tickets_per_player, entry_fee, prize_pool, prize_rules, winner_id, winner_ids, completed_at)
+     values ('completed', $1, 2, 10, $2, $3, $4, array[$4], $5)
+     returning id`,
+    [players.length * 2, pool, JSON.stringify(DEFAULT_PRIZE_RULES), winner, completedAt]
+  );
+  const game: Game = {
+    id: rows[0].id,
+    status: 'completed',
+    max_players: players.length * 2,
+    max_tickets_per_player: 2,
+    entry_fee: 10,
+    prize_pool: pool,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    winner_id: winner,
+    winner_ids: [winner],
+    created_at: completedAt,
+    completed_at: completedAt
+  };
+  const entries: GamePlayer[] = players.map((userId, i) => ({
+    id: `${game.id}-${i}`,
+    game_id: game.id,
+    telegram_user_id: userId,
+    telegram_username: i % 2 ? `user_${userId}` : '',
+    // Players rename themselves; the boards show the latest name
+    telegram_first_name: `User ${userId} #${index}`,
+    joined_at: new Date(new Date(completedAt).getTime() - (players.length - i) * 1000).toISOString(),
+    payment_status: 'completed',
+    tickets: tickets[i]
+  }));
+
+  for (const entry of entries) {
+    await db.query(
+      `insert into game_players (game_id, telegram_user_id, telegram_username, telegram_first_name, joined_at, payment_status, tickets)
+       values ($1, $2, $3, $4, $5, 'completed', $6)`,
+      [game.id, entry.telegram_user_id, entry.telegram_username, entry.telegram_first_name, entry.joined_at, entry.tickets]
+    );
+  }
+  for (const [userId, amount] of gamePrizes(game)) {
+    await db.query('insert into payouts (game_id, place, telegram_user_id, amount) values ($1, 0, $2, $3)', [game.id, userId, amount]);
+  }
+
+  completed.push({ game, players: entries });
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+
+  // Twenty games over ten days, each with three to six of the players
+  for (let index = 0; index < 20; index++) {
+    const completedAt = new Date(new Date(NOW).getTime() - (20 - index) * 12 * 3600 * 1000).toISOString();
+    const players = USERS.filter((_, i) => (index + i) % 4 !== 0 || i === index % USERS.length);
+    await insertCompletedGame(index, completedAt, players, players[(index * 7) % players.length]);
+  }
+
+  // Games that are not completed count nowhere
+  await db.query(
+    `insert into games (status, max_players, entry_fee, prize_rules) values ('waiting', 10, 10, $1)`,
+    [JSON.stringify(DEFAULT_PRIZE_RULES)]
+  );
+}, TEST_DATABASE_TIMEOUT_MS);
+
+describe('StatsService', () => {
+  const service = () => new StatsService(rpcClient(db), new ManualClock(NOW));
+
+  it.each(USERS)('matches the reference player stats for %s', async (userId) => {
+    expect(await service().getPlayerStats(Number(userId))).toEqual(playerStats(userId, completed));
+  });
+
+  it('reports empty stats for a player without games', async () => {
+    expect(await service().getPlayerStats(999)).toEqual(playerStats('999', []));
+  });
+
+  it.each<[LeaderboardPeriod, number]>([['all', 10], ['weekly', 10], ['daily', 10], ['all', 3]])('matches the reference %s boards limited to %i', async (period, limit) => {
+    const since = periodStart(period, new Date(NOW));
+    const inPeriod = completed.filter(({ game }) => !since || game.completed_at! >= since.toISOString());
+
+    expect(await service().getLeaderboards(period, limit)).toEqual(leaderboards(period, inPeriod, limit));
+  });
+
+  it('counts every game past the API row limit', async () => {
+    await db.query(
+      `with created as (
+         insert into games (status, max_players, entry_fee, prize_pool, prize_rules, winner_id, winner_ids, completed_at)
+         select 'completed', 1, 1, 1, $1, '777', array['777'], now() - interval '30 days'
+         from generate_series(1, 1500)
+         returning id
+       ), entered as (
+         insert into game_players (game_id, telegram_user_id, telegram_first_name, payment_status)
+         select id, '777', 'Regular', 'completed' from created
+       )
+       insert into payouts (game_id, place, telegram_user_id, amount)
+       select id, 0, '777', 1 from created`,
+      [JSON.stringify({ ...DEFAULT_PRIZE_RULES, house_percent: 0, tiers: [100] })]
+    );
+
+    expect(await service().getPlayerStats(777)).toMatchObject({ games_played: 1500, games_won: 1500, total_spent: 1500, total_won: 1500 });
+    const { most_played, top_winners } = await service().getLeaderboards('all', 1);
+    expect(most_played).toEqual([{ rank: 1, telegram_user_id: '777', telegram_first_name: 'Regular', value: 1500 }]);
+    expect(top_winners).toHaveLength(1);
+  });
+
+  it('cannot be read by the roles the web app uses', async () => {
+    for (const role of ['anon', 'authenticated']) {
+      await db.exec(`set role ${role}`);
+      await expect(db.query("select * from player_stats('101')")).rejects.toThrow(/permission denied/);
+      await expect(db.query('select * from leaderboards(null, 10)')).rejects.toThrow(/permission denied/);
+      await db.exec('reset role');
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { systemClock, type Clock } from '../../src/lib/draw-schedule';
+import { periodStart, type LeaderboardEntry, type LeaderboardPeriod, type Leaderboards, type PlayerStats } from '../../src/lib/stats';
+
+type StatsRow = Omit<PlayerStats, 'telegram_user_id' | 'win_rate'>;
+
+interface LeaderboardRow extends Omit<LeaderboardEntry, 'telegram_username'> {
+  board: 'top_winners' | 'most_played';
+  telegram_username: string | null;
+}
+
+// Lifetime player statistics and leaderboards over completed games. Both are
+// aggregated in the database (player_stats and leaderboards), so they count
+// every game however many there are.
+export class StatsService {
+  constructor(private supabase: SupabaseClient, private clock: Clock = systemClock) {}
+
+  async getPlayerStats(userId: number): Promise<PlayerStats> {
+    const telegramUserId = userId.toString();
+
+    const { data, error } = await this.supabase
+      .rpc('player_stats', { p_telegram_user_id: telegramUserId })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get player stats: ${error.message}`);
+    }
+
+    const stats = data as StatsRow;
+    return {
+      telegram_user_id: telegramUserId,
+      ...stats,
+      win_rate: stats.games_played > 0 ? stats.games_won / stats.games_played : 0
+    };
+  }
+
+  // Boards over games completed since the start of the period
+  async getLeaderboards(period: LeaderboardPeriod, limit: number = 10): Promise<Leaderboards> {
+    const since = periodStart(period, this.clock.now());
+
+    const { data, error } = await this.supabase
+      .rpc('leaderboards', { p_since: since?.toISOString() ?? null, p_limit: limit });
+
+    if (error) {
+      throw new Error(`Failed to get leaderboards: ${error.message}`);
+    }
+
+    const rows = (data || []) as LeaderboardRow[];
+    const board = (name: LeaderboardRow['board']): LeaderboardEntry[] => rows
+      .filter((row) => row.board === name)
+      .map(({ rank, telegram_user_id, telegram_first_name, telegram_username, value }) => ({
+        rank,
+        telegram_user_id,
+        telegram_first_name,
+        telegram_username: telegram_username ?? undefined,
+        value
+      }));
+
+    return { period, top_winners: board('top_winners'), most_played: board('most_played') };
+  }
+}
@@ -0,0 +1,50 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { HttpError, Router } from './http';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const router = new Router()
+    .get('/api/games/:id', async ({ params }) => ({ id: params.id }))
+    .get('/api/forbidden', async () => {
+      throw new HttpError(403, 'Admins only');
+    })
+    .get('/api/broken', async () => {
+      throw new Error('database is down');
+    });
+  server = createServer(router.handle);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function get(path: string): Promise<{ status: number; body: unknown }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+describe('Router', () => {
+  it('passes decoded path parameters to the handler', async () => {
+    expect(await get('/api/games/game%201')).toEqual({ status: 200, body: { id: 'game 1' } });
+  });
+
+  it('answers 400 to a path parameter that is not valid percent-encoding', async () => {
+    expect(await get('/api/games/%E0%A4%A')).toEqual({ status: 400, body: { error: 'Invalid id in path' } });
+  });
+
+  it('answers with the status of an HttpError and hides other errors', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await get('/api/forbidden')).toEqual({ status: 403, body: { error: 'Admins only' } });
+    expect(await get('/api/broken')).toEqual({ status: 500, body: { error: 'Internal server error' } });
+    expect(await get('/api/missing')).toEqual({ status: 404, body: { error: 'Not found' } });
+
+    consoleError.mockRestore();
+  });
+});
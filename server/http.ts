@@ -0,0 +1,126 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Error carrying the HTTP status that should be returned to the client
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export type RouteHandler = (ctx: RequestContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+// Minimal router: `/api/games/:id` style paths, JSON in and out
+export class Router {
+  private routes: Route[] = [];
+
+  constructor(private allowedOrigin: string = '*') {}
+
+  get(path: string, handler: RouteHandler): this {
+    return this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    return this.add('POST', path, handler);
+  }
+
+  private add(method: string, path: string, handler: RouteHandler): this {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+    return this;
+  }
+
+  // Request listener for http.createServer
+  handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    res.setHeader('Access-Control-Allow-Origin', this.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      for (const route of this.routes) {
+        if (route.method !== req.method) continue;
+
+        const match = route.pattern.exec(url.pathname);
+        if (!match) continue;
+
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, index) => {
+          params[key] = decodeParam(key, match[index + 1]);
+        });
+
+        const result = await route.handler({ req, res, params, query: url.searchParams });
+        if (!res.writableEnded) {
+          sendJson(res, 200, result ?? { ok: true });
+        }
+        return;
+      }
+
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error(`${req.method} ${url.pathname} failed:`, error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// A path parameter as the route handler sees it
+function decodeParam(key: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Invalid ${key} in path`);
+  }
+}
+
+// Read and parse a JSON request body
+export async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return {} as T;
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
@@ -0,0 +1,95 @@
+import { createServer } from 'node:http';
+import { AdminService } from './admin/admin-service';
+import { AuditLog } from './admin/audit-log';
+import { loadConfig } from './config';
+import { createServiceClient } from './db';
+import { ChatService } from './games/chat-service';
+import { GameLifecycle } from './games/game-lifecycle';
+import { GameService } from './games/game-service';
+import { HistoryService } from './games/history-service';
+import { RoomService } from './games/room-service';
+import { StatsService } from './games/stats-service';
+import { Router } from './http';
+import { BalanceStore } from './payments/balances';
+import { EntryStore } from './payments/entries';
+import { payloadKey } from './payments/invoice-payload';
+import { InvoiceService } from './payments/invoices';
+import { PayoutService } from './payments/payouts';
+import { ReferralService } from './payments/referrals';
+import { RefundService } from './payments/refunds';
+import { PaymentWebhook } from './payments/webhook';
+import { WithdrawalService } from './payments/withdrawals';
+import { DrawJob } from './jobs/draw-job';
+import { LedgerStore } from './ledger/ledger-store';
+import { runEvery } from './jobs/interval';
+import { RefundJob } from './jobs/refund-job';
+import { registerAdminRoutes } from './routes/admin';
+import { registerAuthRoutes } from './routes/auth';
+import { registerChatRoutes } from './routes/chats';
+import { registerGameRoutes } from './routes/games';
+import { registerHistoryRoutes } from './routes/history';
+import { registerNotificationRoutes } from './routes/notifications';
+import { registerPaymentRoutes } from './routes/payments';
+import { registerStatsRoutes } from './routes/stats';
+import { registerTelegramRoutes } from './routes/telegram';
+import { registerTournamentRoutes } from './routes/tournaments';
+import { BotApi } from './telegram/bot-api';
+import { BotCommands } from './telegram/bot-commands';
+import { NotificationService } from './telegram/notifications';
+
+const config = loadConfig();
+const supabase = createServiceClient(config);
+const botApi = new BotApi(config.botToken, config.telegramApiRoot);
+const entries = new EntryStore(supabase);
+const balances = new BalanceStore(supabase);
+const ledger = new LedgerStore(supabase);
+const lifecycle = new GameLifecycle(supabase);
+const notifications = new NotificationService(supabase);
+const refunds = new RefundService(supabase, botApi, ledger, lifecycle, notifications);
+const withdrawals = new WithdrawalService(supabase);
+const referrals = new ReferralService(supabase, ledger, config.referralPercent);
+const payouts = new PayoutService(supabase, entries, ledger, referrals);
+const games = new GameService(supabase, payouts, lifecycle, ledger, botApi, notifications);
+const rooms = new RoomService(supabase, games);
+const chats = new ChatService(supabase, games, botApi);
+const history = new HistoryService(supabase);
+const invoicePayloadKey = payloadKey(config.botToken);
+const router = new Router(config.allowedOrigin);
+
+registerAuthRoutes(router, config, referrals);
+registerPaymentRoutes(router, config, {
+  invoices: new InvoiceService(entries, botApi, invoicePayloadKey),
+  refunds,
+  withdrawals,
+  balances
+});
+registerGameRoutes(router, config, rooms, lifecycle);
+registerTournamentRoutes(router, config, games);
+registerChatRoutes(router, config, chats);
+registerStatsRoutes(router, config, new StatsService(supabase));
+registerHistoryRoutes(router, config, history);
+registerNotificationRoutes(router, config, notifications);
+registerAdminRoutes(router, config, new AdminService(supabase, games, rooms, refunds, withdrawals, new AuditLog(supabase)));
+registerTelegramRoutes(
+  router,
+  config,
+  new PaymentWebhook(supabase, entries, botApi, invoicePayloadKey, games),
+  new BotCommands(botApi, balances, history, referrals, notifications, config.webAppUrl)
+);
+
+new RefundJob(supabase, games, refunds, {
+  gameTimeoutMinutes: config.gameTimeoutMinutes,
+  intervalSeconds: config.refundJobIntervalSeconds
+}).start();
+
+new DrawJob(supabase, games, {
+  intervalSeconds: config.drawJobIntervalSeconds,
+  staleDrawSeconds: 60
+}).start();
+
+// Reopen rooms whose game filled or was cancelled
+runEvery('Room job', config.drawJobIntervalSeconds, () => rooms.ensureOpenGames());
+
+createServer(router.handle).listen(config.port, () => {
+  console.log(`Star Lottery API listening on port ${config.port}`);
+});
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GameService } from '../games/game-service';
+import { runEvery } from './interval';
+
+export interface DrawJobOptions {
+  intervalSeconds: number;
+  // Draws still `drawing` after this many seconds are assumed to have crashed
+  staleDrawSeconds: number;
+}
+
+// Backstop for the draw triggered by the payment webhook: draws any
+// fill-to-capacity game left `full`, finishes draws that stalled in `drawing`
+// and advances tournaments whose progression after a draw failed
+export class DrawJob {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private options: DrawJobOptions
+  ) {}
+
+  async runOnce(now: Date = new Date()): Promise<void> {
+    const { data: full, error } = await this.supabase
+      .from('games')
+      .select('id')
+      .eq('status', 'full')
+      .eq('draw_mode', 'fill');
+
+    if (error) {
+      throw new Error(`Failed to get full games: ${error.message}`);
+    }
+
+    for (const game of full || []) {
+      await this.run(game.id, () => this.games.drawWinner(game.id));
+    }
+
+    const staleBefore = new Date(now.getTime() - this.options.staleDrawSeconds * 1000);
+
+    const { data: stalled, error: stalledError } = await this.supabase
+      .from('games')
+      .select('id')
+      .eq('status', 'drawing')
+      .lt('draw_started_at', staleBefore.toISOString());
+
+    if (stalledError) {
+      throw new Error(`Failed to get stalled draws: ${stalledError.message}`);
+    }
+
+    for (const game of stalled || []) {
+      await this.run(game.id, () => this.games.resumeDraw(game.id));
+    }
+
+    await this.games.advanceTournaments();
+  }
+
+  start(): () => void {
+    return runEvery('Draw job', this.options.intervalSeconds, () => this.runOnce());
+  }
+
+  private async run(gameId: string, draw: () => Promise<unknown>): Promise<void> {
+    try {
+      await draw();
+    } catch (error) {
+      console.error(`Failed to draw game ${gameId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import { ManualClock, nextDrawAt, scheduledDrawAction, type ScheduledDrawAction } from '../../src/lib/draw-schedule';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import type { Game } from '../../src/lib/types';
+import type { GameService } from '../games/game-service';
+import type { RefundService } from '../payments/refunds';
+import { DrawScheduler } from './draw-scheduler';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for DrawScheduler: select, eq, in, lte and
+// order over in-memory tables, resolved when awaited
+function fakeSupabase(tables: Record<string, object[]>): SupabaseClient {
+  return {
+    from(table: string) {
+      let rows = [...(tables[table] ?? [])] as Row[];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter((row) => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          rows = rows.filter((row) => values.includes(row[column]));
+          return query;
+        },
+        lte: (column: string, value: string) => {
+          rows = rows.filter((row) => typeof row[column] === 'string' && (row[column] as string) <= value);
+          return query;
+        },
+        order: (column: string) => {
+          rows.sort((a, b) => String(a[column]).localeCompare(String(b[column])));
+          return query;
+        },
+        then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows, error: null })
+      };
+      return query;
+    }
+  } as unknown as SupabaseClient;
+}
+
+function scheduledGame(overrides: Partial<Game>): Game {
+  return {
+    id: 'game-1',
+    status: 'waiting',
+    max_players: 10,
+    max_tickets_per_player: 1,
+    entry_fee: 5,
+    prize_pool: 0,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'scheduled',
+    draw_at: '2026-10-19T20:00:00.000Z',
+    created_at: '2026-10-18T20:00:00.000Z',
+    ...overrides
+  };
+}
+
+const paidEntries = (gameId: string, players: number) =>
+  Array.from({ length: players }, (_, i) => ({ game_id: gameId, telegram_user_id: String(i + 1), payment_status: 'completed' }));
+
+describe('nextDrawAt', () => {
+  it('returns the same day when the draw time is still ahead', () => {
+    expect(nextDrawAt('20:00', new Date('2026-10-19T12:30:00Z')).toISOString()).toBe('2026-10-19T20:00:00.000Z');
+  });
+
+  it('moves to the next day once the draw time has passed or is now', () => {
+    expect(nextDrawAt('20:00', new Date('2026-10-19T20:00:00Z')).toISOString()).toBe('2026-10-20T20:00:00.000Z');
+    expect(nextDrawAt('00:15', new Date('2026-12-31T23:00:00Z')).toISOString()).toBe('2027-01-01T00:15:00.000Z');
+  });
+
+  it('rejects a malformed draw time', () => {
+    expect(() => nextDrawAt('24:00', new Date())).toThrow('Draw time must be HH:MM in UTC');
+    expect(() => nextDrawAt('8:00', new Date())).toThrow('Draw time must be HH:MM in UTC');
+  });
+});
+
+describe('scheduledDrawAction', () => {
+  const clock = new ManualClock('2026-10-19T19:59:59Z');
+
+  it('waits until the draw time', () => {
+    expect(scheduledDrawAction(scheduledGame({}), 3, clock.now())).toBe('wait');
+  });
+
+  it('draws with enough players and cancels without them', () => {
+    clock.advance(1000);
+    const game = scheduledGame({ min_players: 2 });
+
+    expect(scheduledDrawAction(game, 2, clock.now())).toBe('draw');
+    expect(scheduledDrawAction(game, 1, clock.now())).toBe('cancel');
+    expect(scheduledDrawAction(scheduledGame({}), 0, clock.now())).toBe('cancel');
+  });
+
+  it('leaves fill-to-capacity and settled games alone', () => {
+    const now = new ManualClock('2026-10-20T00:00:00Z').now();
+
+    expect(scheduledDrawAction(scheduledGame({ draw_mode: 'fill' }), 5, now)).toBe('wait');
+    expect(scheduledDrawAction(scheduledGame({ status: 'drawing' }), 5, now)).toBe('wait');
+  });
+});
+
+describe('DrawScheduler.runOnce', () => {
+  const games = [
+    scheduledGame({ id: 'early', min_players: 2, draw_at: '2026-10-19T18:00:00.000Z' }),
+    scheduledGame({ id: 'short', min_players: 3, status: 'full', draw_at: '2026-10-19T19:00:00.000Z' }),
+    scheduledGame({ id: 'later', draw_at: '2026-10-19T22:00:00.000Z' })
+  ];
+  const players = [
+    ...paidEntries('early', 2),
+    ...paidEntries('short', 2),
+    ...paidEntries('later', 1),
+    // A second entry by the same player still counts once
+    { game_id: 'short', telegram_user_id: '1', payment_status: 'completed' },
+    { game_id: 'short', telegram_user_id: '9', payment_status: 'pending' }
+  ];
+
+  function createScheduler(clock: ManualClock) {
+    const gameService = { drawScheduledGame: vi.fn(async () => undefined) };
+    const refunds = { cancelGame: vi.fn(async () => []) };
+    const scheduler = new DrawScheduler(
+      fakeSupabase({ games, game_players: players }),
+      gameService as unknown as GameService,
+      refunds as unknown as RefundService,
+      { intervalSeconds: 60 },
+      clock
+    );
+    return { scheduler, gameService, refunds };
+  }
+
+  const actions = (results: { gameId: string; action: ScheduledDrawAction }[]) =>
+    results.map(({ gameId, action }) => [gameId, action]);
+
+  it('settles nothing before the first draw time', async () => {
+    const { scheduler, gameService, refunds } = createScheduler(new ManualClock('2026-10-19T17:59:59Z'));
+
+    expect(await scheduler.runOnce()).toEqual([]);
+    expect(gameService.drawScheduledGame).not.toHaveBeenCalled();
+    expect(refunds.cancelGame).not.toHaveBeenCalled();
+  });
+
+  it('draws or cancels each game as its draw time passes', async () => {
+    const clock = new ManualClock('2026-10-19T19:30:00Z');
+    const { scheduler, gameService, refunds } = createScheduler(clock);
+
+    expect(actions(await scheduler.runOnce())).toEqual([['early', 'draw'], ['short', 'cancel']]);
+    expect(gameService.drawScheduledGame).toHaveBeenCalledWith('early');
+    expect(refunds.cancelGame).toHaveBeenCalledWith('short', 'scheduled draw: 2 of 3 players');
+
+    clock.set('2026-10-19T22:00:00Z');
+    const { scheduler: later } = createScheduler(clock);
+    expect(actions(await later.runOnce())).toContainEqual(['later', 'draw']);
+  });
+
+  it('keeps settling the other games when one fails', async () => {
+    const { scheduler, gameService, refunds } = createScheduler(new ManualClock('2026-10-19T19:30:00Z'));
+    gameService.drawScheduledGame.mockRejectedValueOnce(new Error('draw failed'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(actions(await scheduler.runOnce())).toEqual([['short', 'cancel']]);
+    expect(refunds.cancelGame).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
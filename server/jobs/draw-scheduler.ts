@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { scheduledDrawAction, scheduledMinimumPlayers, systemClock, type Clock, type ScheduledDrawAction } from '../../src/lib/draw-schedule';
+import type { Game } from '../../src/lib/types';
+import type { GameService } from '../games/game-service';
+import type { RefundService } from '../payments/refunds';
+import { runEvery } from './interval';
+
+export interface DrawSchedulerOptions {
+  intervalSeconds: number;
+}
+
+export interface ScheduledDrawResult {
+  gameId: string;
+  action: ScheduledDrawAction;
+  paidPlayers: number;
+}
+
+// Settles scheduled games once their draw time has passed: draws those with
+// enough paid players and cancels and refunds the rest. All time checks use
+// the injected clock, so a run can be driven with a ManualClock.
+export class DrawScheduler {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private refunds: RefundService,
+    private options: DrawSchedulerOptions,
+    private clock: Clock = systemClock
+  ) {}
+
+  // Settle every scheduled game that is due at the clock's current time
+  async runOnce(): Promise<ScheduledDrawResult[]> {
+    const now = this.clock.now();
+
+    const { data: due, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('draw_mode', 'scheduled')
+      .in('status', ['waiting', 'full'])
+      .lte('draw_at', now.toISOString())
+      .order('draw_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get scheduled games: ${error.message}`);
+    }
+
+    const results: ScheduledDrawResult[] = [];
+
+    for (const game of (due || []) as Game[]) {
+      try {
+        const paidPlayers = await this.countPaidPlayers(game.id);
+        const action = scheduledDrawAction(game, paidPlayers, now);
+
+        if (action === 'draw') {
+          await this.games.drawScheduledGame(game.id);
+        } else if (action === 'cancel') {
+          await this.refunds.cancelGame(game.id, `scheduled draw: ${paidPlayers} of ${scheduledMinimumPlayers(game)} players`);
+        }
+
+        results.push({ gameId: game.id, action, paidPlayers });
+      } catch (settleError) {
+        console.error(`Failed to settle scheduled game ${game.id}:`, settleError);
+      }
+    }
+
+    return results;
+  }
+
+  // Run on an interval; returns a function that stops the scheduler
+  start(): () => void {
+    return runEvery('Draw scheduler', this.options.intervalSeconds, async () => {
+      for (const result of await this.runOnce()) {
+        console.log(`Scheduled game ${result.gameId}: ${result.action} (${result.paidPlayers} players)`);
+      }
+    });
+  }
+
+  // Distinct players with a paid entry; a player may have bought several
+  private async countPaidPlayers(gameId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('telegram_user_id')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to count players: ${error.message}`);
+    }
+
+    return new Set((data || []).map((entry) => entry.telegram_user_id)).size;
+  }
+}
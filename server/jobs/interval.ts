@@ -0,0 +1,20 @@
+// Run a task every `seconds`, skipping ticks while the previous run is still going.
+// Returns a function that stops it.
+export function runEvery(name: string, seconds: number, task: () => Promise<void>): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,146 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { deadlineAction, TransitionGuardError } from '../../src/lib/game-lifecycle';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import type { Game } from '../../src/lib/types';
+import { GameLifecycle } from '../games/game-lifecycle';
+import type { GameService } from '../games/game-service';
+import type { RefundService } from '../payments/refunds';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { RefundJob } from './refund-job';
+
+const TIMEOUT_MINUTES = 60;
+
+let db: PGlite;
+let lifecycle: GameLifecycle;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  lifecycle = new GameLifecycle(createTestClient(db));
+}, TEST_DATABASE_TIMEOUT_MS);
+
+function fillGame(overrides: Partial<Game>): Game {
+  return {
+    id: 'game-1',
+    status: 'waiting',
+    max_players: 10,
+    max_tickets_per_player: 1,
+    entry_fee: 5,
+    prize_pool: 0,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    created_at: '2026-10-19T12:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('deadlineAction', () => {
+  const deadline = new Date('2026-10-19T13:00:00Z');
+
+  it('waits until the game has been open for the timeout', () => {
+    expect(deadlineAction(fillGame({ min_players: 2 }), 1, TIMEOUT_MINUTES, new Date('2026-10-19T12:59:59Z'))).toBe('wait');
+  });
+
+  it('draws a game with its minimum players and cancels one without them', () => {
+    expect(deadlineAction(fillGame({ min_players: 2 }), 2, TIMEOUT_MINUTES, deadline)).toBe('draw');
+    expect(deadlineAction(fillGame({ min_players: 2 }), 5, TIMEOUT_MINUTES, deadline)).toBe('draw');
+    expect(deadlineAction(fillGame({ min_players: 2 }), 1, TIMEOUT_MINUTES, deadline)).toBe('cancel');
+  });
+
+  it('cancels a game without a minimum unless every ticket sold', () => {
+    expect(deadlineAction(fillGame({}), 9, TIMEOUT_MINUTES, deadline)).toBe('cancel');
+  });
+
+  it('leaves scheduled and settled games alone', () => {
+    expect(deadlineAction(fillGame({ draw_mode: 'scheduled' }), 0, TIMEOUT_MINUTES, deadline)).toBe('wait');
+    expect(deadlineAction(fillGame({ status: 'full' }), 10, TIMEOUT_MINUTES, deadline)).toBe('wait');
+    expect(deadlineAction(fillGame({ status: 'refunding' }), 0, TIMEOUT_MINUTES, deadline)).toBe('wait');
+  });
+});
+
+describe('RefundJob.runOnce', () => {
+  async function createGame(minPlayers: number | null, players: number, drawMode: string = 'fill'): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into games (max_players, min_players, entry_fee, prize_rules, draw_mode, draw_at)
+       values (5, $1, 5, $2, $3, case when $3 = 'scheduled' then now() + interval '1 day' end)
+       returning id`,
+      [minPlayers, JSON.stringify(DEFAULT_PRIZE_RULES), drawMode]
+    );
+    for (let player = 1; player <= players; player++) {
+      await db.query(
+        'select * from join_game($1, $2, $3, $4, $5, $6)',
+        [rows[0].id, player.toString(), `user${player}`, `User ${player}`, `charge-${rows[0].id}-${player}`, 1]
+      );
+    }
+    return rows[0].id;
+  }
+
+  // The real claim of a deadline draw, so the lifecycle guard is exercised
+  function createJob() {
+    const games = {
+      drawAtDeadline: vi.fn((gameId: string, reason: string) => lifecycle.transition(gameId, 'waiting', 'drawing', reason))
+    };
+    const refunds = { cancelGame: vi.fn(async () => 0), refundOutstanding: vi.fn(async () => 0) };
+    const job = new RefundJob(createTestClient(db), games as unknown as GameService, refunds as unknown as RefundService, {
+      gameTimeoutMinutes: TIMEOUT_MINUTES,
+      intervalSeconds: 60
+    });
+    return { job, games, refunds };
+  }
+
+  const afterDeadline = () => new Date(Date.now() + (TIMEOUT_MINUTES + 1) * 60_000);
+
+  it('draws a fill game that reached its minimum players by the deadline', async () => {
+    const gameId = await createGame(2, 3);
+    const { job, games, refunds } = createJob();
+
+    await job.runOnce(afterDeadline());
+
+    expect(games.drawAtDeadline).toHaveBeenCalledWith(gameId, 'deadline: 3 of 2 players');
+    expect(refunds.cancelGame).not.toHaveBeenCalledWith(gameId, expect.anything());
+    const { rows } = await db.query<{ status: string }>('select status from games where id = $1', [gameId]);
+    expect(rows[0].status).toBe('drawing');
+  });
+
+  it('cancels a fill game short of its minimum players and refunds what is owed', async () => {
+    const short = await createGame(3, 2);
+    const noMinimum = await createGame(null, 4);
+    const { job, games, refunds } = createJob();
+
+    await job.runOnce(afterDeadline());
+
+    expect(refunds.cancelGame).toHaveBeenCalledWith(short, 'deadline: 2 of 3 players');
+    expect(refunds.cancelGame).toHaveBeenCalledWith(noMinimum, 'deadline: 4 of 5 players');
+    expect(games.drawAtDeadline).not.toHaveBeenCalledWith(short, expect.anything());
+    expect(refunds.refundOutstanding).toHaveBeenCalled();
+  });
+
+  it('leaves games before their deadline and scheduled games alone', async () => {
+    const open = await createGame(1, 1);
+    const scheduled = await createGame(1, 1, 'scheduled');
+    const { job, games, refunds } = createJob();
+
+    await job.runOnce(new Date());
+    await job.runOnce(afterDeadline());
+
+    expect(games.drawAtDeadline).not.toHaveBeenCalledWith(scheduled, expect.anything());
+    expect(refunds.cancelGame).not.toHaveBeenCalledWith(scheduled, expect.anything());
+    expect(games.drawAtDeadline.mock.calls.filter(([gameId]) => gameId === open)).toHaveLength(1);
+  });
+});
+
+describe('GameLifecycle deadline draws', () => {
+  it('refuses to draw a waiting fill game without its minimum players', async () => {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into games (max_players, min_players, entry_fee, prize_rules) values (5, 2, 5, $1), (5, null, 5, $1) returning id`,
+      [JSON.stringify(DEFAULT_PRIZE_RULES)]
+    );
+    const [withMinimum, withoutMinimum] = rows.map((row) => row.id);
+    await db.query(`select * from join_game($1, '1', 'user1', 'User 1', 'charge-1', 1)`, [withMinimum]);
+    await db.query(`select * from join_game($1, '1', 'user1', 'User 1', 'charge-2', 1)`, [withoutMinimum]);
+
+    await expect(lifecycle.transition(withMinimum, 'waiting', 'drawing', 'deadline')).rejects.toBeInstanceOf(TransitionGuardError);
+    await expect(lifecycle.transition(withoutMinimum, 'waiting', 'drawing', 'deadline')).rejects.toBeInstanceOf(TransitionGuardError);
+  });
+});
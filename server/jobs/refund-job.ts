@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { deadlineAction, minimumPlayers } from '../../src/lib/game-lifecycle';
+import type { Game } from '../../src/lib/types';
+import type { GameService } from '../games/game-service';
+import type { RefundService } from '../payments/refunds';
+import { runEvery } from './interval';
+
+export interface RefundJobOptions {
+  // Settle fill games still waiting after this many minutes: draw those with
+  // their minimum players, cancel the rest
+  gameTimeoutMinutes: number;
+  intervalSeconds: number;
+}
+
+// Periodically settles fill games that reached their deadline without filling
+// and refunds everything still owed
+export class RefundJob {
+  constructor(
+    private supabase: SupabaseClient,
+    private games: GameService,
+    private refunds: RefundService,
+    private options: RefundJobOptions
+  ) {}
+
+  async runOnce(now: Date = new Date()): Promise<void> {
+    const cutoff = new Date(now.getTime() - this.options.gameTimeoutMinutes * 60_000);
+
+    const { data: expired, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('status', 'waiting')
+      .eq('draw_mode', 'fill')
+      .lt('created_at', cutoff.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to get expired games: ${error.message}`);
+    }
+
+    for (const game of (expired || []) as Game[]) {
+      try {
+        const paidPlayers = await this.countPaidPlayers(game.id);
+        const action = deadlineAction(game, paidPlayers, this.options.gameTimeoutMinutes, now);
+        const reason = `deadline: ${paidPlayers} of ${minimumPlayers(game)} players`;
+
+        if (action === 'draw') {
+          await this.games.drawAtDeadline(game.id, reason);
+          console.log(`Drew expired game ${game.id} with ${paidPlayers} players`);
+        } else if (action === 'cancel') {
+          await this.refunds.cancelGame(game.id, reason);
+          console.log(`Cancelled expired game ${game.id}`);
+        }
+      } catch (settleError) {
+        console.error(`Failed to settle expired game ${game.id}:`, settleError);
+      }
+    }
+
+    const refunded = await this.refunds.refundOutstanding();
+    if (refunded > 0) {
+      console.log(`Refunded ${refunded} entr${refunded === 1 ? 'y' : 'ies'}`);
+    }
+  }
+
+  // Distinct players with a paid entry; a player may have bought several
+  private async countPaidPlayers(gameId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('telegram_user_id')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to count players: ${error.message}`);
+    }
+
+    return new Set((data || []).map((entry) => entry.telegram_user_id)).size;
+  }
+
+  // Run on an interval; returns a function that stops the job
+  start(): () => void {
+    return runEvery('Refund job', this.options.intervalSeconds, () => this.runOnce());
+  }
+}
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { assertBalanced, type LedgerEntry } from '../../src/lib/ledger';
+
+export interface LedgerReconciliation {
+  // Sum of every ledger entry; must be zero
+  total: number;
+  // Transactions whose entries do not sum to zero
+  unbalanced: { transaction_key: string; total: number }[];
+  balanced: boolean;
+}
+
+// Persists balanced transactions to ledger_entries
+export class LedgerStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Post a transaction in a single insert. Posting the same transaction key
+  // again is a no-op, so callers can retry safely.
+  async post(entries: LedgerEntry[]): Promise<void> {
+    assertBalanced(entries);
+
+    const { error } = await this.supabase
+      .from('ledger_entries')
+      .insert(entries);
+
+    if (error) {
+      if (error.code === '23505') {
+        return;
+      }
+      throw new Error(`Failed to post ledger transaction: ${error.message}`);
+    }
+  }
+
+  async getTransaction(transactionKey: string): Promise<LedgerEntry[]> {
+    const { data, error } = await this.supabase
+      .from('ledger_entries')
+      .select('*')
+      .eq('transaction_key', transactionKey);
+
+    if (error) {
+      throw new Error(`Failed to get ledger transaction: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async reconcile(): Promise<LedgerReconciliation> {
+    const { data: totals, error } = await this.supabase
+      .from('ledger_totals')
+      .select('total')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get ledger totals: ${error.message}`);
+    }
+
+    const { data: unbalanced, error: unbalancedError } = await this.supabase
+      .from('ledger_unbalanced_transactions')
+      .select('transaction_key, total');
+
+    if (unbalancedError) {
+      throw new Error(`Failed to get unbalanced transactions: ${unbalancedError.message}`);
+    }
+
+    return {
+      total: totals.total,
+      unbalanced: unbalanced || [],
+      balanced: totals.total === 0 && (unbalanced || []).length === 0
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserBalance } from '../../src/lib/types';
+
+// Reads user_balances, a view derived from ledger_entries
+export class BalanceStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getBalance(userId: number): Promise<UserBalance | null> {
+    const { data, error } = await this.supabase
+      .from('user_balances')
+      .select('*')
+      .eq('telegram_user_id', userId.toString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get balance: ${error.message}`);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { totalTickets } from '../../src/lib/tickets';
+import type { Game, GamePlayer, VerifiedUser } from '../../src/lib/types';
+import type { TelegramUser } from '../telegram/types';
+import { PaymentRejectedError } from './errors';
+import type { InvoicePayload } from './invoice-payload';
+
+// How long an entry whose checkout was approved keeps its invoice. Telegram
+// sends successful_payment within seconds of the approval, so an approval
+// older than this belongs to a payment that did not go through.
+const CHECKOUT_HOLD_MS = 5 * 60 * 1000;
+
+// Database access shared by the invoice service and the payment webhook
+export class EntryStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getGame(gameId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Paid tickets in a game, optionally only the given user's
+  async countPaidTickets(gameId: string, userId?: number): Promise<number> {
+    let query = this.supabase
+      .from('game_players')
+      .select('tickets')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed');
+
+    if (userId !== undefined) {
+      query = query.eq('telegram_user_id', userId.toString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to count tickets: ${error.message}`);
+    }
+
+    return totalTickets(data || []);
+  }
+
+  // The user's unpaid entry in a game; a player has at most one open invoice per game
+  async getPendingEntry(gameId: string, userId: number): Promise<GamePlayer | null> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('game_id', gameId)
+      .eq('telegram_user_id', userId.toString())
+      .eq('payment_status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get entry: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The entry an invoice was issued for
+  async getEntryForPayload(payload: InvoicePayload): Promise<GamePlayer | null> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('game_id', payload.gameId)
+      .eq('telegram_user_id', payload.userId.toString())
+      .eq('invoice_nonce', payload.nonce)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get entry: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Create the pending entry for a new invoice, or re-arm an unpaid one with a
+  // fresh nonce and ticket count. An entry whose checkout was just approved is
+  // about to be paid with its current invoice, so it is not re-armed.
+  async reservePendingEntry(gameId: string, user: VerifiedUser, nonce: string, tickets: number, entryId?: string): Promise<string> {
+    if (entryId) {
+      const heldSince = new Date(Date.now() - CHECKOUT_HOLD_MS).toISOString();
+      const { data, error } = await this.supabase
+        .from('game_players')
+        .update({ invoice_nonce: nonce, tickets, checkout_approved_at: null })
+        .eq('id', entryId)
+        .eq('payment_status', 'pending')
+        .or(`checkout_approved_at.is.null,checkout_approved_at.lt.${heldSince}`)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to update entry: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        throw new PaymentRejectedError('Your last payment for this game is still being processed, try again in a minute');
+      }
+
+      return entryId;
+    }
+
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .insert({
+        game_id: gameId,
+        telegram_user_id: user.id.toString(),
+        telegram_username: user.username || '',
+        telegram_first_name: user.first_name,
+        payment_status: 'pending',
+        tickets,
+        invoice_nonce: nonce
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      // Another invoice request for the same player created the entry first
+      if (error.code === '23505') {
+        const existing = await this.getPendingEntry(gameId, user.id);
+        if (existing) {
+          return this.reservePendingEntry(gameId, user, nonce, tickets, existing.id);
+        }
+      }
+      throw new Error(`Failed to create entry: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  // Hold the entry's invoice once its pre-checkout is approved. False if the
+  // entry was re-armed with another invoice or is no longer pending.
+  async approveCheckout(entryId: string, nonce: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .update({ checkout_approved_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .eq('invoice_nonce', nonce)
+      .eq('payment_status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to approve checkout: ${error.message}`);
+    }
+
+    return !!data && data.length > 0;
+  }
+
+  // Keep a charge that completed no entry as a failed entry, so the refund job
+  // returns the Stars. Recording the same charge twice is a no-op.
+  async recordUnmatchedCharge(gameId: string, user: TelegramUser, chargeId: string, tickets: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('game_players')
+      .insert({
+        game_id: gameId,
+        telegram_user_id: user.id.toString(),
+        telegram_username: user.username || '',
+        telegram_first_name: user.first_name,
+        payment_status: 'failed',
+        tickets,
+        telegram_payment_charge_id: chargeId,
+        transaction_id: chargeId
+      });
+
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to record charge: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+// Raised when a payment operation is not allowed in the current game or entry state
+export class PaymentRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentRejectedError';
+  }
+}
@@ -0,0 +1,54 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Data carried in an invoice payload and echoed back by Telegram in
+// pre_checkout_query and successful_payment
+export interface InvoicePayload {
+  gameId: string;
+  userId: number;
+  nonce: string;
+}
+
+// Telegram limits invoice payloads to 128 bytes, so the signature is truncated
+const SIGNATURE_BYTES = 16;
+
+export function createNonce(): string {
+  return randomBytes(8).toString('hex');
+}
+
+// Derive the payload signing key from the bot token
+export function payloadKey(botToken: string): Buffer {
+  return createHmac('sha256', 'InvoicePayload').update(botToken).digest();
+}
+
+function sign(data: string, key: Buffer): Buffer {
+  return createHmac('sha256', key).update(data).digest().subarray(0, SIGNATURE_BYTES);
+}
+
+// Format: <gameId>.<userId>.<nonce>.<signature>
+export function encodeInvoicePayload(payload: InvoicePayload, key: Buffer): string {
+  const data = `${payload.gameId}.${payload.userId}.${payload.nonce}`;
+  return `${data}.${sign(data, key).toString('base64url')}`;
+}
+
+// Returns null for payloads that are malformed or were not signed by this backend
+export function decodeInvoicePayload(raw: string, key: Buffer): InvoicePayload | null {
+  const parts = raw.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [gameId, userId, nonce, signature] = parts;
+  const expected = sign(`${gameId}.${userId}.${nonce}`, key);
+  const received = Buffer.from(signature, 'base64url');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  const parsedUserId = Number(userId);
+  if (!gameId || !nonce || !Number.isSafeInteger(parsedUserId)) {
+    return null;
+  }
+
+  return { gameId, userId: parsedUserId, nonce };
+}
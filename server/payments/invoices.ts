@@ -0,0 +1,57 @@
+import type { VerifiedUser } from '../../src/lib/types';
+import type { BotApi } from '../telegram/bot-api';
+import type { EntryStore } from './entries';
+import { PaymentRejectedError } from './errors';
+import { createNonce, encodeInvoicePayload } from './invoice-payload';
+
+export interface EntryInvoice {
+  entry_id: string;
+  invoice_link: string;
+}
+
+// Issues Stars invoice links for game entries via createInvoiceLink
+export class InvoiceService {
+  constructor(private entries: EntryStore, private botApi: BotApi, private payloadKey: Buffer) {}
+
+  // One invoice for `tickets` tickets, within the player's cap and the game's capacity
+  async createEntryInvoice(user: VerifiedUser, gameId: string, tickets: number = 1): Promise<EntryInvoice> {
+    const game = await this.entries.getGame(gameId);
+
+    if (!game || game.status !== 'waiting') {
+      throw new PaymentRejectedError('Game not found or not accepting players');
+    }
+    if (game.tournament_round === 2) {
+      throw new PaymentRejectedError('Tournament finals are only open to qualifier winners');
+    }
+    if (tickets > game.max_tickets_per_player) {
+      throw new PaymentRejectedError(`At most ${game.max_tickets_per_player} tickets per player in this game`);
+    }
+
+    const ticketCount = await this.entries.countPaidTickets(gameId);
+    if (ticketCount + tickets > game.max_players) {
+      throw new PaymentRejectedError(ticketCount >= game.max_players ? 'Game is full' : 'Not enough tickets left in this game');
+    }
+
+    const held = await this.entries.countPaidTickets(gameId, user.id);
+    if (held + tickets > game.max_tickets_per_player) {
+      throw new PaymentRejectedError(held >= game.max_tickets_per_player ? 'Already joined this game' : `You can buy at most ${game.max_tickets_per_player - held} more tickets in this game`);
+    }
+
+    // A fresh nonce per invoice, so only the latest link for an entry can complete it
+    const existing = await this.entries.getPendingEntry(gameId, user.id);
+    const nonce = createNonce();
+    const entryId = await this.entries.reservePendingEntry(gameId, user, nonce, tickets, existing?.id);
+
+    const invoiceLink = await this.botApi.createInvoiceLink({
+      title: 'Star Lottery Entry',
+      description: tickets > 1
+        ? `${tickets} lottery tickets at ${game.entry_fee} star${game.entry_fee > 1 ? 's' : ''} each`
+        : `Join lottery game - Entry fee: ${game.entry_fee} star${game.entry_fee > 1 ? 's' : ''}`,
+      payload: encodeInvoicePayload({ gameId, userId: user.id, nonce }, this.payloadKey),
+      currency: 'XTR',
+      prices: [{ label: tickets > 1 ? `${tickets} Tickets` : 'Entry Fee', amount: game.entry_fee * tickets }]
+    });
+
+    return { entry_id: entryId, invoice_link: invoiceLink };
+  }
+}
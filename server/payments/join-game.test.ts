@@ -0,0 +1,100 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, TEST_DATABASE_TIMEOUT_MS);
+
+async function createGame(maxPlayers: number, maxTicketsPerPlayer: number = 1): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (max_players, max_tickets_per_player, entry_fee, prize_rules)
+     values ($1, $2, 5, '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}')
+     returning id`,
+    [maxPlayers, maxTicketsPerPlayer]
+  );
+  return rows[0].id;
+}
+
+function join(gameId: string, userId: number, tickets: number = 1) {
+  return db.query(
+    'select * from join_game($1, $2, $3, $4, $5, $6)',
+    [gameId, userId.toString(), `user${userId}`, `User ${userId}`, `charge-${gameId}-${userId}`, tickets]
+  );
+}
+
+async function soldTickets(gameId: string): Promise<{ sold: number; pool: number; status: string }> {
+  const { rows } = await db.query<{ sold: number; pool: number; status: string }>(
+    `select (select coalesce(sum(tickets), 0)::integer from game_players where game_id = g.id and payment_status = 'completed') as sold,
+            g.prize_pool as pool, g.status
+     from games g where g.id = $1`,
+    [gameId]
+  );
+  return rows[0];
+}
+
+// PGlite is a single connection that runs one query at a time, so the joins
+// below run one after another. They check capacity and the GAME_FULL and
+// TICKET_LIMIT handling, not the `for update` lock, which needs concurrent
+// connections to a real server.
+describe('join_game', () => {
+  it('sells no more than max_players tickets to 50 queued joins', async () => {
+    const gameId = await createGame(10);
+
+    const results = await Promise.allSettled(Array.from({ length: 50 }, (_, i) => join(gameId, i + 1)));
+    const rejections = results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map((result) => (result.reason as Error).message);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(10);
+    expect(rejections.every((message) => /GAME_FULL|GAME_NOT_WAITING/.test(message))).toBe(true);
+    expect(await soldTickets(gameId)).toEqual({ sold: 10, pool: 50, status: 'full' });
+  });
+
+  it('counts tickets, not entries, against the capacity', async () => {
+    const gameId = await createGame(10, 3);
+
+    await Promise.allSettled(Array.from({ length: 50 }, (_, i) => join(gameId, i + 1, 3)));
+
+    const { sold } = await soldTickets(gameId);
+    expect(sold).toBeLessThanOrEqual(10);
+    expect(sold).toBe(9);
+  });
+
+  it('rejects tickets over the per-player limit', async () => {
+    const gameId = await createGame(10, 2);
+
+    await join(gameId, 1);
+    await expect(join(gameId, 1, 2)).rejects.toThrow(/TICKET_LIMIT/);
+    await expect(join(gameId, 2, 3)).rejects.toThrow(/TICKET_LIMIT/);
+    expect(await soldTickets(gameId)).toMatchObject({ sold: 1, pool: 5 });
+  });
+
+  it('posts a balanced entry fee for every join', async () => {
+    const gameId = await createGame(4, 2);
+    await join(gameId, 1, 2);
+    await join(gameId, 2);
+
+    const { rows } = await db.query<{ total: number; entries: number }>(
+      'select sum(amount)::integer as total, count(*)::integer as entries from ledger_entries where game_id = $1',
+      [gameId]
+    );
+    expect(rows[0]).toEqual({ total: 0, entries: 4 });
+  });
+
+  it('cannot be run by the roles the web app uses', async () => {
+    const gameId = await createGame(10);
+
+    for (const role of ['anon', 'authenticated']) {
+      await db.exec(`set role ${role}`);
+      await expect(join(gameId, 1)).rejects.toThrow(/permission denied/);
+      await db.exec('reset role');
+    }
+
+    await db.exec('set role service_role');
+    await expect(join(gameId, 1)).resolves.toBeDefined();
+    await db.exec('reset role');
+  });
+});
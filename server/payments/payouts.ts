@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { payoutTransaction } from '../../src/lib/ledger';
+import { distributePrize } from '../../src/lib/prize-rules';
+import type { LedgerStore } from '../ledger/ledger-store';
+import type { EntryStore } from './entries';
+import { PaymentRejectedError } from './errors';
+import type { ReferralService } from './referrals';
+
+export interface Payout {
+  game_id: string;
+  // Winning place, 0 for first
+  place: number;
+  telegram_user_id: string;
+  amount: number;
+  created_at: string;
+}
+
+// Pays the winners of a drawn game exactly once, split by the game's prize
+// rules, and the players' referrers their share of the commission
+export class PayoutService {
+  constructor(
+    private supabase: SupabaseClient,
+    private entries: EntryStore,
+    private ledger: LedgerStore,
+    private referrals: ReferralService
+  ) {}
+
+  async payWinners(gameId: string): Promise<Payout[]> {
+    const game = await this.entries.getGame(gameId);
+    // Winners are recorded while the game is still `drawing` and paid before it completes
+    if (!game || !['drawing', 'completed'].includes(game.status) || !game.winner_id) {
+      throw new PaymentRejectedError('Game has no winner yet');
+    }
+
+    const winnerIds = game.winner_ids ?? [game.winner_id];
+    const { prizes, commission, carry } = distributePrize(game.prize_rules, game.prize_pool, winnerIds.length);
+    // Only tournament qualifiers carry part of their pool; elsewhere it stays with the house
+    const carried = game.tournament_id ? { tournamentId: game.tournament_id, amount: carry } : undefined;
+    const rows = winnerIds.map((telegramUserId, place) => ({
+      game_id: gameId,
+      place,
+      telegram_user_id: telegramUserId,
+      amount: prizes[place]
+    }));
+
+    const houseShare = commission + (carried ? 0 : carry);
+
+    // Posting is idempotent per game, so a retried payout never credits twice
+    await this.ledger.post(payoutTransaction(
+      gameId,
+      rows.map(({ telegram_user_id, amount }) => ({ telegram_user_id, amount })),
+      houseShare,
+      carried
+    ));
+    await this.referrals.rewardReferrers(game, houseShare);
+
+    const { error } = await this.supabase
+      .from('payouts')
+      .upsert(rows, { onConflict: 'game_id,place', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to record payouts: ${error.message}`);
+    }
+
+    return this.getPayouts(gameId);
+  }
+
+  private async getPayouts(gameId: string): Promise<Payout[]> {
+    const { data, error } = await this.supabase
+      .from('payouts')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('place', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get payouts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { referralTransaction } from '../../src/lib/ledger';
+import { referralRewards, referrerFromStartParam, type ReferralReward } from '../../src/lib/referrals';
+import type { Game, ReferralStats, VerifiedUser } from '../../src/lib/types';
+import type { LedgerStore } from '../ledger/ledger-store';
+
+// Records who invited whom and pays referrers their share of the commission
+export class ReferralService {
+  constructor(
+    private supabase: SupabaseClient,
+    private ledger: LedgerStore,
+    // Share of the house commission paid to referrers, in percent
+    private percent: number
+  ) {}
+
+  // Record the referral in the user's signed start_param, or the /start
+  // payload of the bot. Only a user who has never entered a game counts as
+  // referred, and only the first link sticks.
+  async recordReferral(user: Pick<VerifiedUser, 'id' | 'start_param'>): Promise<boolean> {
+    const referredId = user.id.toString();
+    const referrerId = referrerFromStartParam(user.start_param, referredId);
+    if (!referrerId) {
+      return false;
+    }
+
+    const { count, error: entriesError } = await this.supabase
+      .from('game_players')
+      .select('*', { count: 'exact', head: true })
+      .eq('telegram_user_id', referredId);
+
+    if (entriesError) {
+      throw new Error(`Failed to check entries: ${entriesError.message}`);
+    }
+    if ((count ?? 0) > 0) {
+      return false;
+    }
+
+    const { error } = await this.supabase
+      .from('referrals')
+      .insert({ referred_user_id: referredId, referrer_user_id: referrerId });
+
+    if (error) {
+      // Already referred by someone
+      if (error.code === '23505') {
+        return false;
+      }
+      throw new Error(`Failed to record referral: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // Pay the referrers of a drawn game's players from its commission. Posting
+  // is idempotent per game, so a retried payout never pays twice.
+  async rewardReferrers(game: Game, commission: number): Promise<ReferralReward[]> {
+    const { data: entries, error } = await this.supabase
+      .from('game_players')
+      .select('telegram_user_id, tickets')
+      .eq('game_id', game.id)
+      .eq('payment_status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    const referrers = await this.getReferrers([...new Set((entries || []).map((entry) => entry.telegram_user_id))]);
+    const rewards = referralRewards(entries || [], referrers, game.entry_fee, game.prize_pool, commission, this.percent);
+
+    if (rewards.length > 0) {
+      await this.ledger.post(referralTransaction(game.id, rewards));
+    }
+
+    return rewards;
+  }
+
+  async getStats(userId: number): Promise<ReferralStats> {
+    const referrerId = userId.toString();
+
+    const { data: referred, error } = await this.supabase
+      .from('referrals')
+      .select('referred_user_id')
+      .eq('referrer_user_id', referrerId);
+
+    if (error) {
+      throw new Error(`Failed to get referrals: ${error.message}`);
+    }
+
+    const referredIds = (referred || []).map((referral) => referral.referred_user_id);
+    let active = 0;
+
+    if (referredIds.length > 0) {
+      const { data: playing, error: playingError } = await this.supabase
+        .from('game_players')
+        .select('telegram_user_id')
+        .in('telegram_user_id', referredIds)
+        .eq('payment_status', 'completed');
+
+      if (playingError) {
+        throw new Error(`Failed to get referral entries: ${playingError.message}`);
+      }
+
+      active = new Set((playing || []).map((entry) => entry.telegram_user_id)).size;
+    }
+
+    const { data: rewards, error: rewardsError } = await this.supabase
+      .from('ledger_entries')
+      .select('amount')
+      .eq('account', `user:${referrerId}`)
+      .eq('kind', 'referral_reward');
+
+    if (rewardsError) {
+      throw new Error(`Failed to get referral rewards: ${rewardsError.message}`);
+    }
+
+    return {
+      invited: referredIds.length,
+      active,
+      earned: (rewards || []).reduce((total, reward) => total + reward.amount, 0),
+      percent: this.percent
+    };
+  }
+
+  // Referrer of each of the given users that has one
+  private async getReferrers(userIds: string[]): Promise<Map<string, string>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.supabase
+      .from('referrals')
+      .select('referred_user_id, referrer_user_id')
+      .in('referred_user_id', userIds);
+
+    if (error) {
+      throw new Error(`Failed to get referrers: ${error.message}`);
+    }
+
+    return new Map((data || []).map((referral) => [referral.referred_user_id, referral.referrer_user_id]));
+  }
+}
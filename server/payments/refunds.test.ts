@@ -0,0 +1,162 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GamePlayer } from '../../src/lib/types';
+import { GameLifecycle } from '../games/game-lifecycle';
+import { LedgerStore } from '../ledger/ledger-store';
+import { BotApiError, type BotApi } from '../telegram/bot-api';
+import type { NotificationService } from '../telegram/notifications';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { RefundService } from './refunds';
+
+let db: PGlite;
+let lifecycle: GameLifecycle;
+let refunds: RefundService;
+const botApi = { refundStarPayment: vi.fn<(userId: number, chargeId: string) => Promise<boolean>>(async () => true) };
+const notifications = { refundIssued: vi.fn(async () => undefined) };
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  const supabase = createTestClient(db);
+  lifecycle = new GameLifecycle(supabase);
+  refunds = new RefundService(
+    supabase,
+    botApi as unknown as BotApi,
+    new LedgerStore(supabase),
+    lifecycle,
+    notifications as unknown as NotificationService
+  );
+}, TEST_DATABASE_TIMEOUT_MS);
+
+beforeEach(() => {
+  botApi.refundStarPayment.mockReset().mockResolvedValue(true);
+  notifications.refundIssued.mockClear();
+});
+
+async function createGame(maxPlayers: number = 3): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (max_players, entry_fee, prize_rules)
+     values ($1, 5, '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}')
+     returning id`,
+    [maxPlayers]
+  );
+  return rows[0].id;
+}
+
+// A paid entry, through join_game so its entry fee is in the game's pot
+async function join(gameId: string, userId: number): Promise<GamePlayer> {
+  await db.query(
+    'select * from join_game($1, $2, $3, $4, $5, $6)',
+    [gameId, userId.toString(), `user${userId}`, `User ${userId}`, `charge-${gameId}-${userId}`, 1]
+  );
+  return entryOf(gameId, userId);
+}
+
+async function entryOf(gameId: string, userId: number): Promise<GamePlayer> {
+  const { rows } = await db.query<{ entry: GamePlayer }>(
+    'select to_jsonb(gp) as entry from game_players gp where game_id = $1 and telegram_user_id = $2',
+    [gameId, userId.toString()]
+  );
+  return rows[0].entry;
+}
+
+async function gameStatus(gameId: string): Promise<string> {
+  const { rows } = await db.query<{ status: string }>('select status from games where id = $1', [gameId]);
+  return rows[0].status;
+}
+
+async function refundPostings(entryId: string): Promise<number> {
+  const { rows } = await db.query<{ count: number }>(
+    `select count(*)::integer as count from ledger_entries where transaction_key = 'refund:' || $1`,
+    [entryId]
+  );
+  return rows[0].count;
+}
+
+async function transitions(gameId: string): Promise<string[]> {
+  return (await lifecycle.getTransitions(gameId)).map((transition) => `${transition.from_status ?? ''} -> ${transition.to_status}`);
+}
+
+describe('RefundService.refundEntry', () => {
+  it('returns the Stars, reverses the entry fee and marks the entry refunded', async () => {
+    const gameId = await createGame();
+    const entry = await join(gameId, 1);
+
+    const refunded = await refunds.refundEntry(entry);
+
+    expect(botApi.refundStarPayment).toHaveBeenCalledWith(1, `charge-${gameId}-1`);
+    expect(refunded).toMatchObject({ id: entry.id, payment_status: 'refunded' });
+    expect(refunded.refunded_at).toBeTruthy();
+    expect(await refundPostings(entry.id)).toBe(2);
+    expect(notifications.refundIssued).toHaveBeenCalledWith(expect.objectContaining({ id: entry.id }));
+  });
+
+  it('treats CHARGE_ALREADY_REFUNDED as done, so a retry after a lost response finishes the refund once', async () => {
+    const gameId = await createGame();
+    const entry = await join(gameId, 1);
+    botApi.refundStarPayment.mockRejectedValue(new BotApiError('refundStarPayment', 400, 'Bad Request: CHARGE_ALREADY_REFUNDED'));
+
+    await expect(refunds.refundEntry(entry)).resolves.toMatchObject({ payment_status: 'refunded' });
+    await expect(refunds.refundEntry(entry)).resolves.toMatchObject({ payment_status: 'refunded' });
+
+    expect(await refundPostings(entry.id)).toBe(2);
+  });
+
+  it('leaves the entry as it was when Telegram rejects the refund', async () => {
+    const gameId = await createGame();
+    const entry = await join(gameId, 1);
+    botApi.refundStarPayment.mockRejectedValue(new BotApiError('refundStarPayment', 400, 'Bad Request: CHARGE_NOT_FOUND'));
+
+    await expect(refunds.refundEntry(entry)).rejects.toThrow('CHARGE_NOT_FOUND');
+
+    expect((await entryOf(gameId, 1)).payment_status).toBe('completed');
+    expect(await refundPostings(entry.id)).toBe(0);
+  });
+});
+
+describe('RefundService.cancelGame', () => {
+  it('refunds every charged entry and moves the game through refunding to cancelled', async () => {
+    const gameId = await createGame();
+    await join(gameId, 1);
+    await join(gameId, 2);
+
+    expect(await refunds.cancelGame(gameId, 'test')).toBe(2);
+
+    expect(await gameStatus(gameId)).toBe('cancelled');
+    expect(await transitions(gameId)).toEqual([' -> waiting', 'waiting -> refunding', 'refunding -> cancelled']);
+    expect((await entryOf(gameId, 2)).payment_status).toBe('refunded');
+  });
+
+  it('stays refunding while a refund fails and is cancelled once a retry refunds it', async () => {
+    const gameId = await createGame();
+    await join(gameId, 1);
+    await join(gameId, 2);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    botApi.refundStarPayment.mockImplementation(async (userId: number) => {
+      if (userId === 2) throw new Error('fetch failed');
+      return true;
+    });
+
+    expect(await refunds.cancelGame(gameId)).toBe(1);
+    expect(await gameStatus(gameId)).toBe('refunding');
+    expect((await entryOf(gameId, 2)).payment_status).toBe('completed');
+
+    // Telegram refunded the charge before the response was lost
+    botApi.refundStarPayment.mockRejectedValue(new BotApiError('refundStarPayment', 400, 'Bad Request: CHARGE_ALREADY_REFUNDED'));
+    expect(await refunds.refundOutstanding()).toBe(1);
+
+    expect(await gameStatus(gameId)).toBe('cancelled');
+    expect((await entryOf(gameId, 2)).payment_status).toBe('refunded');
+    expect(await transitions(gameId)).toEqual([' -> waiting', 'waiting -> refunding', 'refunding -> cancelled']);
+    consoleError.mockRestore();
+  });
+
+  it('only cancels games that have not been drawn', async () => {
+    const gameId = await createGame(1);
+    await join(gameId, 1);
+    await db.query(`update games set status = 'drawing' where id = $1`, [gameId]);
+
+    await expect(refunds.cancelGame(gameId)).rejects.toThrow('Only games that have not been drawn can be cancelled');
+    expect(botApi.refundStarPayment).not.toHaveBeenCalled();
+  });
+});
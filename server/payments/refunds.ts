@@ -0,0 +1,228 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GameTransitionError, TransitionConflictError, TransitionGuardError } from '../../src/lib/game-lifecycle';
+import { gameAccount, refundTransaction } from '../../src/lib/ledger';
+import type { GamePlayer, VerifiedUser } from '../../src/lib/types';
+import type { GameLifecycle } from '../games/game-lifecycle';
+import type { LedgerStore } from '../ledger/ledger-store';
+import { BotApiError, type BotApi } from '../telegram/bot-api';
+import type { NotificationService } from '../telegram/notifications';
+import { PaymentRejectedError } from './errors';
+
+// Returns Stars with refundStarPayment for entries of cancelled games and for
+// entries that were charged but not accepted into a game
+export class RefundService {
+  constructor(
+    private supabase: SupabaseClient,
+    private botApi: BotApi,
+    private ledger: LedgerStore,
+    private lifecycle: GameLifecycle,
+    private notifications: NotificationService
+  ) {}
+
+  // Refund an entry on behalf of the player who owns it
+  async refundUserEntry(user: VerifiedUser, entryId: string): Promise<GamePlayer> {
+    const { data: entry, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('id', entryId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get entry: ${error.message}`);
+    }
+    if (!entry || entry.telegram_user_id !== user.id.toString()) {
+      throw new PaymentRejectedError('Entry not found');
+    }
+    if (entry.payment_status === 'refunded') {
+      return entry;
+    }
+
+    const refundable = entry.payment_status === 'failed' ||
+      (entry.payment_status === 'completed' && await this.isGameCancelled(entry.game_id));
+
+    if (!refundable || !entry.telegram_payment_charge_id) {
+      throw new PaymentRejectedError('This entry cannot be refunded');
+    }
+
+    return this.refundEntry(entry);
+  }
+
+  // Refund a charged entry and mark it refunded; safe to retry
+  async refundEntry(entry: GamePlayer): Promise<GamePlayer> {
+    if (!entry.telegram_payment_charge_id) {
+      throw new Error(`Entry ${entry.id} has no charge to refund`);
+    }
+
+    try {
+      await this.botApi.refundStarPayment(parseInt(entry.telegram_user_id), entry.telegram_payment_charge_id);
+    } catch (refundError) {
+      // A retry after a lost response: Telegram already returned the Stars
+      if (!(refundError instanceof BotApiError && refundError.message.includes('CHARGE_ALREADY_REFUNDED'))) {
+        throw refundError;
+      }
+    }
+
+    // Entries that made it into a prize pool have an entry fee to reverse
+    const entryFee = (await this.ledger.getTransaction(`entry:${entry.id}`))
+      .find((ledgerEntry) => ledgerEntry.account === gameAccount(entry.game_id));
+
+    if (entryFee) {
+      await this.ledger.post(refundTransaction(entry.game_id, entry.id, entry.telegram_user_id, entryFee.amount));
+    }
+
+    const { data: refunded, error } = await this.supabase
+      .from('game_players')
+      .update({ payment_status: 'refunded', refunded_at: new Date().toISOString() })
+      .eq('id', entry.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to mark entry refunded: ${error.message}`);
+    }
+
+    void this.notifications.refundIssued(refunded);
+    return refunded;
+  }
+
+  // Cancel a game that has not been drawn yet and refund everyone in it. The
+  // game stays `refunding` until every entry is refunded, then becomes `cancelled`.
+  async cancelGame(gameId: string, reason: string = 'cancelled'): Promise<number> {
+    try {
+      await this.lifecycle.transition(gameId, ['waiting', 'full'], 'refunding', reason);
+    } catch (error) {
+      if (error instanceof GameTransitionError) {
+        throw new PaymentRejectedError('Only games that have not been drawn can be cancelled');
+      }
+      throw error;
+    }
+
+    const refunded = await this.refundGame(gameId);
+    await this.finishRefunding(gameId);
+    return refunded;
+  }
+
+  // Refund every charged entry of a cancelled game and drop unpaid ones.
+  // Returns the number of entries refunded; failures are left for the next retry.
+  async refundGame(gameId: string): Promise<number> {
+    const { error: pendingError } = await this.supabase
+      .from('game_players')
+      .update({ payment_status: 'failed' })
+      .eq('game_id', gameId)
+      .eq('payment_status', 'pending');
+
+    if (pendingError) {
+      throw new Error(`Failed to close pending entries: ${pendingError.message}`);
+    }
+
+    const { data: entries, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('game_id', gameId)
+      .in('payment_status', ['completed', 'failed'])
+      .not('telegram_payment_charge_id', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to get entries: ${error.message}`);
+    }
+
+    return this.refundAll(entries || []);
+  }
+
+  // Retry the refunds of one game being refunded without waiting for the
+  // refund job. Returns the number of entries refunded.
+  async retryGameRefunds(gameId: string): Promise<number> {
+    const { data: game, error } = await this.supabase
+      .from('games')
+      .select('status')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+    if (game?.status !== 'refunding') {
+      throw new PaymentRejectedError('Only games being refunded can be retried');
+    }
+
+    const refunded = await this.refundGame(gameId);
+    await this.finishRefunding(gameId);
+    return refunded;
+  }
+
+  // Refund whatever is still owed: charged entries that were rejected, and
+  // entries of games being refunded. Returns the number of entries refunded.
+  async refundOutstanding(): Promise<number> {
+    const { data: rejected, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('payment_status', 'failed')
+      .not('telegram_payment_charge_id', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to get refundable entries: ${error.message}`);
+    }
+
+    const { data: refundingGames, error: gamesError } = await this.supabase
+      .from('games')
+      .select('id')
+      .eq('status', 'refunding');
+
+    if (gamesError) {
+      throw new Error(`Failed to get games being refunded: ${gamesError.message}`);
+    }
+
+    let refunded = await this.refundAll(rejected || []);
+
+    for (const game of refundingGames || []) {
+      refunded += await this.refundGame(game.id);
+      await this.finishRefunding(game.id);
+    }
+
+    return refunded;
+  }
+
+  // Move a refunding game to `cancelled` once nothing is owed; otherwise the
+  // next refundOutstanding run tries again
+  private async finishRefunding(gameId: string): Promise<void> {
+    try {
+      await this.lifecycle.transition(gameId, 'refunding', 'cancelled', 'all entries refunded', {
+        completed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      // Entries still owed, or another worker finished the game first
+      if (!(error instanceof TransitionGuardError || error instanceof TransitionConflictError)) {
+        throw error;
+      }
+    }
+  }
+
+  private async refundAll(entries: GamePlayer[]): Promise<number> {
+    let refunded = 0;
+
+    for (const entry of entries) {
+      try {
+        await this.refundEntry(entry);
+        refunded++;
+      } catch (error) {
+        console.error(`Failed to refund entry ${entry.id}:`, error);
+      }
+    }
+
+    return refunded;
+  }
+
+  private async isGameCancelled(gameId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('status')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+
+    return data?.status === 'refunding' || data?.status === 'cancelled';
+  }
+}
@@ -0,0 +1,255 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VerifiedUser } from '../../src/lib/types';
+import type { ServerConfig } from '../config';
+import type { GameService } from '../games/game-service';
+import { Router } from '../http';
+import { registerTelegramRoutes } from '../routes/telegram';
+import { BotApi } from '../telegram/bot-api';
+import type { BotCommands } from '../telegram/bot-commands';
+import { MockBotApi } from '../telegram/mock-bot-api';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { EntryStore } from './entries';
+import { payloadKey } from './invoice-payload';
+import { InvoiceService } from './invoices';
+import { PaymentWebhook } from './webhook';
+
+const BOT_TOKEN = '123456:TEST-bot-token';
+const WEBHOOK_SECRET = 'test-webhook-secret';
+const ENTRY_FEE = 5;
+
+interface Entry {
+  telegram_user_id: string;
+  payment_status: string;
+  tickets: number;
+  telegram_payment_charge_id: string | null;
+}
+
+let db: PGlite;
+let server: Server;
+let mock: MockBotApi;
+let invoices: InvoiceService;
+const games = { drawWinner: vi.fn(async () => undefined) };
+
+// The backend's webhook route on a local server, fed by a mock Bot API that
+// sends the invoices' pre_checkout_query and successful_payment updates to it
+beforeAll(async () => {
+  db = await createTestDatabase();
+  const supabase = createTestClient(db);
+  const router = new Router();
+  server = createServer(router.handle);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  mock = new MockBotApi(`http://localhost:${port}/api/telegram/webhook`, WEBHOOK_SECRET);
+  const botApi = new BotApi(BOT_TOKEN, await mock.start());
+  const entries = new EntryStore(supabase);
+  const key = payloadKey(BOT_TOKEN);
+
+  invoices = new InvoiceService(entries, botApi, key);
+  registerTelegramRoutes(
+    router,
+    { webhookSecret: WEBHOOK_SECRET } as ServerConfig,
+    new PaymentWebhook(supabase, entries, botApi, key, games as unknown as GameService),
+    { handleUpdate: vi.fn(async () => undefined) } as unknown as BotCommands
+  );
+}, TEST_DATABASE_TIMEOUT_MS);
+
+afterAll(async () => {
+  await mock.stop();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  games.drawWinner.mockClear();
+});
+
+async function createGame(maxPlayers: number, maxTicketsPerPlayer: number = 1): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into games (max_players, max_tickets_per_player, entry_fee, prize_rules)
+     values ($1, $2, $3, '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}')
+     returning id`,
+    [maxPlayers, maxTicketsPerPlayer, ENTRY_FEE]
+  );
+  return rows[0].id;
+}
+
+const player = (id: number) => ({ id, first_name: `User ${id}`, username: `user${id}` }) as VerifiedUser;
+
+// An invoice issued to the player, returning its signed payload
+async function invoice(gameId: string, userId: number, tickets: number = 1): Promise<string> {
+  await invoices.createEntryInvoice(player(userId), gameId, tickets);
+  return String(mock.callsTo('createInvoiceLink').at(-1)!.params.payload);
+}
+
+// A payment that reached the player some other way than the invoice under test
+function joinDirectly(gameId: string, userId: number, tickets: number = 1) {
+  return db.query(
+    'select * from join_game($1, $2, $3, $4, $5, $6)',
+    [gameId, userId.toString(), `user${userId}`, `User ${userId}`, `direct-${gameId}-${userId}`, tickets]
+  );
+}
+
+async function preCheckout(userId: number, payload: string, tickets: number = 1): Promise<{ ok: boolean; error_message?: string }> {
+  const id = `checkout-${crypto.randomUUID()}`;
+  expect(await mock.pushUpdate({
+    pre_checkout_query: {
+      id,
+      from: { id: userId, is_bot: false, first_name: `User ${userId}` },
+      currency: 'XTR',
+      total_amount: ENTRY_FEE * tickets,
+      invoice_payload: payload
+    }
+  })).toBe(200);
+
+  const answer = mock.callsTo('answerPreCheckoutQuery').find((call) => call.params.pre_checkout_query_id === id);
+  return { ok: answer!.params.ok as boolean, error_message: answer!.params.error_message as string | undefined };
+}
+
+async function successfulPayment(userId: number, payload: string, chargeId: string, tickets: number = 1): Promise<void> {
+  expect(await mock.pushUpdate({
+    message: {
+      message_id: 1,
+      from: { id: userId, is_bot: false, first_name: `User ${userId}` },
+      chat: { id: userId, type: 'private' },
+      date: Math.floor(Date.now() / 1000),
+      successful_payment: {
+        currency: 'XTR',
+        total_amount: ENTRY_FEE * tickets,
+        invoice_payload: payload,
+        telegram_payment_charge_id: chargeId,
+        provider_payment_charge_id: ''
+      }
+    }
+  })).toBe(200);
+}
+
+async function entriesOf(gameId: string): Promise<Entry[]> {
+  const { rows } = await db.query<Entry>(
+    `select telegram_user_id, payment_status, tickets, telegram_payment_charge_id
+     from game_players where game_id = $1 order by joined_at, id`,
+    [gameId]
+  );
+  return rows;
+}
+
+async function gameState(gameId: string): Promise<{ status: string; prize_pool: number }> {
+  const { rows } = await db.query<{ status: string; prize_pool: number }>('select status, prize_pool from games where id = $1', [gameId]);
+  return rows[0];
+}
+
+describe('PaymentWebhook', () => {
+  it('approves the checkout and completes the entry with its charge', async () => {
+    const gameId = await createGame(3, 2);
+    await invoice(gameId, 1, 2);
+
+    const result = await mock.simulateStarPayment({ user_id: 1, amount: 2 * ENTRY_FEE });
+
+    expect(result.ok).toBe(true);
+    expect(await entriesOf(gameId)).toEqual([
+      { telegram_user_id: '1', payment_status: 'completed', tickets: 2, telegram_payment_charge_id: result.telegram_payment_charge_id }
+    ]);
+    expect(await gameState(gameId)).toEqual({ status: 'waiting', prize_pool: 2 * ENTRY_FEE });
+    expect(games.drawWinner).not.toHaveBeenCalled();
+  });
+
+  it('starts the draw when the payment fills the game', async () => {
+    const gameId = await createGame(2);
+    await joinDirectly(gameId, 1);
+    await invoice(gameId, 2);
+
+    expect((await mock.simulateStarPayment({ user_id: 2, amount: ENTRY_FEE })).ok).toBe(true);
+
+    expect((await gameState(gameId)).status).toBe('full');
+    expect(games.drawWinner).toHaveBeenCalledWith(gameId);
+  });
+
+  it('rejects the checkout once the game has filled or has too few tickets left', async () => {
+    const full = await createGame(1);
+    const payload = await invoice(full, 1);
+    await joinDirectly(full, 2);
+
+    expect(await preCheckout(1, payload)).toEqual({ ok: false, error_message: 'This game is no longer accepting players' });
+
+    const nearlyFull = await createGame(3, 2);
+    const twoTickets = await invoice(nearlyFull, 1, 2);
+    await joinDirectly(nearlyFull, 2, 2);
+
+    expect(await preCheckout(1, twoTickets, 2)).toEqual({ ok: false, error_message: 'Not enough tickets left in this game' });
+    expect((await entriesOf(nearlyFull)).map((entry) => entry.payment_status)).toEqual(['pending', 'completed']);
+  });
+
+  it('rejects the checkout of a player who reached the ticket limit since the invoice', async () => {
+    const gameId = await createGame(5, 2);
+    const payload = await invoice(gameId, 1, 2);
+    // Another entry of the same player, paid in the meantime
+    await db.query(
+      `insert into game_players (game_id, telegram_user_id, telegram_first_name, payment_status, tickets, telegram_payment_charge_id)
+       values ($1, '1', 'User 1', 'completed', 1, 'other-charge')`,
+      [gameId]
+    );
+
+    expect(await preCheckout(1, payload, 2)).toEqual({ ok: false, error_message: 'You already hold the most tickets allowed in this game' });
+  });
+
+  it('rejects a checkout with a forged payload or the wrong amount', async () => {
+    const gameId = await createGame(3);
+    const payload = await invoice(gameId, 1);
+
+    expect(await preCheckout(2, payload)).toEqual({ ok: false, error_message: 'This entry is no longer valid' });
+    // The first character of the signature carries six of its bits; the last may carry padding
+    const signatureAt = payload.lastIndexOf('.') + 1;
+    const forged = `${payload.slice(0, signatureAt)}${payload[signatureAt] === 'A' ? 'B' : 'A'}${payload.slice(signatureAt + 1)}`;
+    expect(await preCheckout(1, forged)).toEqual({ ok: false, error_message: 'This entry is no longer valid' });
+    expect(await preCheckout(1, payload, 2)).toEqual({ ok: false, error_message: 'The entry fee does not match this game' });
+  });
+
+  it('completes an entry once when Telegram redelivers successful_payment', async () => {
+    const gameId = await createGame(3);
+    const payload = await invoice(gameId, 1);
+    expect((await preCheckout(1, payload)).ok).toBe(true);
+
+    await successfulPayment(1, payload, 'charge-once');
+    await successfulPayment(1, payload, 'charge-once');
+
+    expect(await entriesOf(gameId)).toEqual([
+      { telegram_user_id: '1', payment_status: 'completed', tickets: 1, telegram_payment_charge_id: 'charge-once' }
+    ]);
+    expect((await gameState(gameId)).prize_pool).toBe(ENTRY_FEE);
+  });
+
+  it('keeps a charge the game can no longer take as a failed entry, for refund', async () => {
+    const gameId = await createGame(1);
+    const payload = await invoice(gameId, 1);
+    expect((await preCheckout(1, payload)).ok).toBe(true);
+    // The game fills between the approved checkout and the payment
+    await joinDirectly(gameId, 2);
+
+    await successfulPayment(1, payload, 'charge-late');
+
+    expect(await entriesOf(gameId)).toEqual([
+      { telegram_user_id: '1', payment_status: 'failed', tickets: 1, telegram_payment_charge_id: 'charge-late' },
+      { telegram_user_id: '2', payment_status: 'completed', tickets: 1, telegram_payment_charge_id: `direct-${gameId}-2` }
+    ]);
+    expect((await gameState(gameId)).prize_pool).toBe(ENTRY_FEE);
+  });
+
+  it('keeps a second charge for an entry that was already paid as a failed entry', async () => {
+    const gameId = await createGame(3);
+    const payload = await invoice(gameId, 1);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await successfulPayment(1, payload, 'charge-first');
+    await successfulPayment(1, payload, 'charge-second');
+    await successfulPayment(1, payload, 'charge-second');
+
+    expect(await entriesOf(gameId)).toEqual([
+      { telegram_user_id: '1', payment_status: 'completed', tickets: 1, telegram_payment_charge_id: 'charge-first' },
+      { telegram_user_id: '1', payment_status: 'failed', tickets: 1, telegram_payment_charge_id: 'charge-second' }
+    ]);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseJoinRejection, type JoinResult } from '../../src/lib/join-game';
+import type { GameService } from '../games/game-service';
+import type { BotApi } from '../telegram/bot-api';
+import type { Message, PreCheckoutQuery, SuccessfulPayment, TelegramUser, Update } from '../telegram/types';
+import type { EntryStore } from './entries';
+import { decodeInvoicePayload, type InvoicePayload } from './invoice-payload';
+
+// Handles the payment related bot updates: pre_checkout_query and successful_payment.
+// A game_players row is created as `pending` when the invoice is issued and only
+// becomes `completed` here, once Telegram reports the charge. A charge that
+// cannot complete its entry is always kept, so the Stars can be refunded.
+export class PaymentWebhook {
+  constructor(
+    private supabase: SupabaseClient,
+    private entries: EntryStore,
+    private botApi: BotApi,
+    private payloadKey: Buffer,
+    private games: GameService
+  ) {}
+
+  async handleUpdate(update: Update): Promise<void> {
+    if (update.pre_checkout_query) {
+      await this.handlePreCheckoutQuery(update.pre_checkout_query);
+    } else if (update.message?.successful_payment) {
+      await this.handleSuccessfulPayment(update.message, update.message.successful_payment);
+    }
+  }
+
+  // Approve the checkout only while the game is still open and has the tickets left
+  private async handlePreCheckoutQuery(query: PreCheckoutQuery): Promise<void> {
+    let rejection: string | null;
+
+    try {
+      rejection = await this.checkEntry(query);
+    } catch (error) {
+      console.error('Pre-checkout check failed:', error);
+      rejection = 'Payment could not be verified, please try again';
+    }
+
+    await this.botApi.answerPreCheckoutQuery(query.id, rejection === null, rejection ?? undefined);
+  }
+
+  // Returns the reason to reject the checkout, or null when it can go ahead
+  private async checkEntry(query: PreCheckoutQuery): Promise<string | null> {
+    const payload = this.verifyPayload(query.invoice_payload, query.from.id);
+    const entry = payload && await this.entries.getEntryForPayload(payload);
+
+    if (!payload || !entry) {
+      return 'This entry is no longer valid';
+    }
+    if (entry.payment_status !== 'pending') {
+      return 'This entry has already been paid';
+    }
+
+    const game = await this.entries.getGame(entry.game_id);
+
+    if (!game || game.status !== 'waiting') {
+      return 'This game is no longer accepting players';
+    }
+    if (query.currency !== 'XTR' || query.total_amount !== game.entry_fee * entry.tickets) {
+      return 'The entry fee does not match this game';
+    }
+
+    const ticketCount = await this.entries.countPaidTickets(game.id);
+    if (ticketCount + entry.tickets > game.max_players) {
+      return ticketCount >= game.max_players ? 'This game is already full' : 'Not enough tickets left in this game';
+    }
+
+    const held = await this.entries.countPaidTickets(game.id, query.from.id);
+    if (held + entry.tickets > game.max_tickets_per_player) {
+      return 'You already hold the most tickets allowed in this game';
+    }
+
+    // From here until the payment arrives, a new invoice cannot re-arm the entry
+    if (!(await this.entries.approveCheckout(entry.id, payload.nonce))) {
+      return 'This entry is no longer valid';
+    }
+
+    return null;
+  }
+
+  // Record the real charge id and move the entry from pending to completed
+  private async handleSuccessfulPayment(message: Message, payment: SuccessfulPayment): Promise<void> {
+    const payload = this.verifyPayload(payment.invoice_payload, message.from?.id);
+
+    if (!payload || !message.from) {
+      console.error(
+        `Payment ${payment.telegram_payment_charge_id} from ${message.from?.id} has an invalid payload: ${payment.invoice_payload}`
+      );
+      return;
+    }
+
+    const entry = await this.entries.getEntryForPayload(payload);
+
+    // Telegram redelivers updates until the webhook answers, so this must be idempotent
+    if (entry && entry.telegram_payment_charge_id === payment.telegram_payment_charge_id) {
+      return;
+    }
+    // The invoice was replaced, its entry is gone or was already paid
+    if (!entry || entry.payment_status !== 'pending') {
+      await this.keepUnmatchedCharge(payload, message.from, payment);
+      return;
+    }
+
+    // join_game locks the game row, so concurrent payments cannot overfill it
+    const { data: joined, error } = await this.supabase
+      .rpc('join_game', {
+        p_game_id: entry.game_id,
+        p_telegram_user_id: entry.telegram_user_id,
+        p_telegram_username: entry.telegram_username,
+        p_telegram_first_name: entry.telegram_first_name,
+        p_charge_id: payment.telegram_payment_charge_id,
+        p_tickets: entry.tickets
+      })
+      .single<JoinResult>();
+
+    if (!error) {
+      // The entry that fills the game starts its draw; the draw job retries on failure
+      if (joined.game_status === 'full') {
+        this.games.drawWinner(entry.game_id).catch((drawError) => {
+          console.error(`Failed to draw game ${entry.game_id}:`, drawError);
+        });
+      }
+      return;
+    }
+    if (!parseJoinRejection(error.message)) {
+      throw new Error(`Failed to join game: ${error.message}`);
+    }
+
+    // The game filled or closed since pre-checkout; the entry is marked failed
+    // but keeps its charge id so the Stars can be refunded
+    const { error: updateError } = await this.supabase
+      .from('game_players')
+      .update({
+        payment_status: 'failed',
+        telegram_payment_charge_id: payment.telegram_payment_charge_id,
+        transaction_id: payment.telegram_payment_charge_id
+      })
+      .eq('id', entry.id)
+      .eq('payment_status', 'pending');
+
+    if (updateError) {
+      throw new Error(`Failed to record payment: ${updateError.message}`);
+    }
+  }
+
+  // Store a charge that matches no pending entry as a failed entry of its game,
+  // for the refund job. Without the game there is nothing to attach it to, so
+  // the Stars go straight back.
+  private async keepUnmatchedCharge(payload: InvoicePayload, from: TelegramUser, payment: SuccessfulPayment): Promise<void> {
+    console.error(`Payment ${payment.telegram_payment_charge_id} from ${from.id} matches no pending entry of game ${payload.gameId}`);
+    const game = await this.entries.getGame(payload.gameId);
+
+    if (!game) {
+      await this.botApi.refundStarPayment(from.id, payment.telegram_payment_charge_id);
+      return;
+    }
+
+    const tickets = Math.max(1, Math.floor(payment.total_amount / game.entry_fee));
+    await this.entries.recordUnmatchedCharge(game.id, from, payment.telegram_payment_charge_id, tickets);
+  }
+
+  // A payload signed by this backend for an invoice issued to this user
+  private verifyPayload(rawPayload: string, fromUserId?: number): InvoicePayload | null {
+    const payload = decodeInvoicePayload(rawPayload, this.payloadKey);
+    return payload && payload.userId === fromUserId ? payload : null;
+  }
+}
@@ -0,0 +1,105 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { PaymentRejectedError } from './errors';
+import { WithdrawalService } from './withdrawals';
+
+const ADMIN_ID = 900;
+
+let db: PGlite;
+let withdrawals: WithdrawalService;
+let nextUserId = 1;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  withdrawals = new WithdrawalService(createTestClient(db));
+}, TEST_DATABASE_TIMEOUT_MS);
+
+// A player with `stars` Stars of winnings, credited the way a payout would
+async function playerWith(stars: number): Promise<number> {
+  const userId = nextUserId++;
+  await db.query(
+    `insert into ledger_entries (transaction_key, account, amount, kind, telegram_user_id) values
+       ('test-win:' || $1, 'user:' || $1, $2::integer, 'winnings', $1),
+       ('test-win:' || $1, 'house', -$2::integer, 'winnings', $1)`,
+    [userId.toString(), stars]
+  );
+  return userId;
+}
+
+async function balanceOf(userId: number): Promise<number> {
+  const { rows } = await db.query<{ stars_balance: number }>(
+    'select stars_balance from user_balances where telegram_user_id = $1',
+    [userId.toString()]
+  );
+  return rows[0]?.stars_balance ?? 0;
+}
+
+async function unbalancedTransactions(): Promise<number> {
+  const { rows } = await db.query<{ count: number }>('select count(*)::integer as count from ledger_unbalanced_transactions');
+  return rows[0].count;
+}
+
+describe('WithdrawalService.requestWithdrawal', () => {
+  it('takes the Stars out of the balance as a pending withdrawal', async () => {
+    const userId = await playerWith(50);
+
+    const withdrawal = await withdrawals.requestWithdrawal(userId, 30);
+
+    expect(withdrawal).toMatchObject({ telegram_user_id: userId.toString(), amount: 30, status: 'pending' });
+    expect(await balanceOf(userId)).toBe(20);
+    expect(await unbalancedTransactions()).toBe(0);
+  });
+
+  it('rejects more than the balance holds', async () => {
+    const userId = await playerWith(10);
+
+    await expect(withdrawals.requestWithdrawal(userId, 11)).rejects.toThrow(PaymentRejectedError);
+    await expect(withdrawals.requestWithdrawal(nextUserId++, 1)).rejects.toThrow('Not enough Stars in your balance');
+    expect(await balanceOf(userId)).toBe(10);
+  });
+
+  it('lets only one of two requests for the whole balance through', async () => {
+    const userId = await playerWith(10);
+
+    const results = await Promise.allSettled([withdrawals.requestWithdrawal(userId, 10), withdrawals.requestWithdrawal(userId, 10)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await balanceOf(userId)).toBe(0);
+  });
+});
+
+describe('WithdrawalService.settle', () => {
+  it('lists pending withdrawals and pays one out of the withdrawals account', async () => {
+    const userId = await playerWith(20);
+    const withdrawal = await withdrawals.requestWithdrawal(userId, 20);
+    expect((await withdrawals.listPending()).map(({ id }) => id)).toContain(withdrawal.id);
+
+    const paid = await withdrawals.settle(withdrawal.id, 'paid', ADMIN_ID);
+
+    expect(paid).toMatchObject({ id: withdrawal.id, status: 'paid', settled_by: ADMIN_ID.toString() });
+    expect((await withdrawals.listPending()).map(({ id }) => id)).not.toContain(withdrawal.id);
+    expect(await balanceOf(userId)).toBe(0);
+    expect(await unbalancedTransactions()).toBe(0);
+  });
+
+  it('returns the Stars of a rejected withdrawal to the balance', async () => {
+    const userId = await playerWith(20);
+    const withdrawal = await withdrawals.requestWithdrawal(userId, 15);
+
+    await withdrawals.settle(withdrawal.id, 'rejected', ADMIN_ID);
+
+    expect(await balanceOf(userId)).toBe(20);
+  });
+
+  it('settles a withdrawal only once', async () => {
+    const userId = await playerWith(5);
+    const withdrawal = await withdrawals.requestWithdrawal(userId, 5);
+    await withdrawals.settle(withdrawal.id, 'rejected', ADMIN_ID);
+
+    await expect(withdrawals.settle(withdrawal.id, 'rejected', ADMIN_ID)).rejects.toThrow('Withdrawal not found or already settled');
+    await expect(withdrawals.settle(withdrawal.id, 'paid', ADMIN_ID)).rejects.toBeInstanceOf(PaymentRejectedError);
+    expect(await balanceOf(userId)).toBe(5);
+  });
+});
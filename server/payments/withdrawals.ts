@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Withdrawal } from '../../src/lib/types';
+import { PaymentRejectedError } from './errors';
+
+// Withdrawals from the players' winnings balances. The Bot API cannot send
+// Stars to a user, so admins send them outside the app and settle the request.
+export class WithdrawalService {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Take `amount` Stars out of the player's balance; request_withdrawal
+  // checks the balance and debits it in one transaction
+  async requestWithdrawal(userId: number, amount: number): Promise<Withdrawal> {
+    const { data, error } = await this.supabase
+      .rpc('request_withdrawal', { p_telegram_user_id: userId.toString(), p_amount: amount })
+      .single<Withdrawal>();
+
+    if (error) {
+      if (error.message.includes('INSUFFICIENT_BALANCE')) {
+        throw new PaymentRejectedError('Not enough Stars in your balance');
+      }
+      throw new Error(`Failed to request withdrawal: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Requests waiting for an admin, oldest first
+  async listPending(): Promise<Withdrawal[]> {
+    const { data, error } = await this.supabase
+      .from('withdrawals')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get withdrawals: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Mark a pending request paid once its Stars were sent, or reject it and
+  // return them to the player's balance
+  async settle(withdrawalId: string, status: 'paid' | 'rejected', adminId: number): Promise<Withdrawal> {
+    const { data, error } = await this.supabase
+      .rpc('settle_withdrawal', { p_withdrawal_id: withdrawalId, p_status: status, p_admin_id: adminId.toString() })
+      .single<Withdrawal>();
+
+    if (error) {
+      if (error.message.includes('WITHDRAWAL_NOT_PENDING')) {
+        throw new PaymentRejectedError('Withdrawal not found or already settled');
+      }
+      throw new Error(`Failed to settle withdrawal: ${error.message}`);
+    }
+
+    return data;
+  }
+}
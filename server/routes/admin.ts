@@ -0,0 +1,196 @@
+import { GameTransitionError } from '../../src/lib/game-lifecycle';
+import { InvalidPrizeRulesError, validatePrizeRules, type PrizeRules } from '../../src/lib/prize-rules';
+import { InvalidRoomTemplateError, type RoomTemplateChanges } from '../../src/lib/rooms';
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { isAdmin, requireAdmin } from '../auth/require-admin';
+import { requireUser } from '../auth/require-user';
+import { RoomNotFoundError, type AdminService } from '../admin/admin-service';
+import { PaymentRejectedError } from '../payments/errors';
+
+const MAX_REVENUE_DAYS = 366;
+const MAX_AUDIT_ENTRIES = 500;
+
+// Map actions the game's state does not allow to 409 Conflict, invalid rooms
+// to 400 and unknown rooms to 404
+async function rejectAdminErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof GameTransitionError || error instanceof PaymentRejectedError) {
+      throw new HttpError(409, error.message);
+    }
+    if (error instanceof InvalidRoomTemplateError) {
+      throw new HttpError(400, error.message);
+    }
+    if (error instanceof RoomNotFoundError) {
+      throw new HttpError(404, error.message);
+    }
+    throw error;
+  }
+}
+
+export function registerAdminRoutes(router: Router, config: ServerConfig, admin: AdminService): void {
+  // Whether the caller may use the admin API; lets the app show the console
+  router.get('/api/admin/me', async ({ req }) => {
+    return { is_admin: isAdmin(requireUser(req, config), config) };
+  });
+
+  // Open a room's next game (`room_id`), or create a one-off game with its own stakes
+  router.post('/api/admin/games', async ({ req }) => {
+    const user = requireAdmin(req, config);
+    const { room_id, entry_fee, max_players, min_players, max_tickets_per_player, prize_rules, draw_at } = await readJson<{
+      room_id?: string;
+      entry_fee?: number;
+      max_players?: number;
+      min_players?: number;
+      max_tickets_per_player?: number;
+      prize_rules?: unknown;
+      draw_at?: string;
+    }>(req);
+
+    if (room_id !== undefined) {
+      return { game: await rejectAdminErrors(() => admin.createGame(user.id, { roomId: room_id })) };
+    }
+
+    if (entry_fee !== undefined && !isWholeNumber(entry_fee, 1)) {
+      throw new HttpError(400, 'entry_fee must be a positive whole number of stars');
+    }
+    if (max_players !== undefined && !isWholeNumber(max_players, 2)) {
+      throw new HttpError(400, 'max_players must be at least 2');
+    }
+    if (min_players !== undefined && !isWholeNumber(min_players, 1)) {
+      throw new HttpError(400, 'min_players must be a positive whole number');
+    }
+    if (max_tickets_per_player !== undefined && !isWholeNumber(max_tickets_per_player, 1)) {
+      throw new HttpError(400, 'max_tickets_per_player must be a positive whole number');
+    }
+    if ((max_tickets_per_player ?? 1) > (max_players ?? 10) || (min_players ?? 1) > (max_players ?? 10)) {
+      throw new HttpError(400, 'min_players and max_tickets_per_player cannot exceed max_players');
+    }
+
+    const drawAt = parseDrawAt(draw_at);
+    const game = await admin.createGame(user.id, {
+      entryFee: entry_fee,
+      maxPlayers: max_players,
+      prizeRules: parsePrizeRules(prize_rules),
+      minPlayers: min_players,
+      maxTicketsPerPlayer: max_tickets_per_player,
+      drawMode: drawAt ? 'scheduled' : 'fill',
+      drawAt
+    });
+    return { game };
+  });
+
+  // Cancel a game that has not been drawn and refund its entries
+  router.post('/api/admin/games/:id/cancel', async ({ req, params }) => {
+    const user = requireAdmin(req, config);
+    const { reason } = await readJson<{ reason?: string }>(req);
+
+    const refunded = await rejectAdminErrors(() =>
+      admin.cancelGame(user.id, params.id, reason?.trim() || `cancelled by admin ${user.id}`));
+    return { refunded };
+  });
+
+  // Draw a game now, or finish a draw left unfinished
+  router.post('/api/admin/games/:id/draw', async ({ req, params }) => {
+    const user = requireAdmin(req, config);
+    return { game: await rejectAdminErrors(() => admin.forceDraw(user.id, params.id)) };
+  });
+
+  // Retry the refunds of `game_id`, or of everything still owed
+  router.post('/api/admin/refunds', async ({ req }) => {
+    const user = requireAdmin(req, config);
+    const { game_id } = await readJson<{ game_id?: string }>(req);
+
+    return { refunded: await rejectAdminErrors(() => admin.refund(user.id, game_id || undefined)) };
+  });
+
+  // Withdrawals waiting to be paid, oldest first
+  router.get('/api/admin/withdrawals', async ({ req }) => {
+    requireAdmin(req, config);
+    return { withdrawals: await admin.listWithdrawals() };
+  });
+
+  // Settle a withdrawal: `paid` once its Stars were sent, `rejected` to return them
+  router.post('/api/admin/withdrawals/:id', async ({ req, params }) => {
+    const user = requireAdmin(req, config);
+    const { status } = await readJson<{ status?: string }>(req);
+    if (status !== 'paid' && status !== 'rejected') {
+      throw new HttpError(400, 'status must be paid or rejected');
+    }
+
+    return { withdrawal: await rejectAdminErrors(() => admin.settleWithdrawal(user.id, params.id, status)) };
+  });
+
+  // Every room, inactive ones included
+  router.get('/api/admin/rooms', async ({ req }) => {
+    requireAdmin(req, config);
+    return { rooms: await admin.listRooms() };
+  });
+
+  // Create a room or change one; open games keep their stakes
+  router.post('/api/admin/rooms/:id', async ({ req, params }) => {
+    const user = requireAdmin(req, config);
+    const changes = await readJson<RoomTemplateChanges>(req);
+
+    return { room: await rejectAdminErrors(() => admin.saveRoom(user.id, params.id, changes)) };
+  });
+
+  // House revenue per day over the last `days` days (default 30)
+  router.get('/api/admin/revenue', async ({ req, query }) => {
+    requireAdmin(req, config);
+    const days = Number(query.get('days') ?? 30);
+    if (!isWholeNumber(days, 1) || days > MAX_REVENUE_DAYS) {
+      throw new HttpError(400, `days must be a whole number between 1 and ${MAX_REVENUE_DAYS}`);
+    }
+
+    return { revenue: await admin.getRevenue(days) };
+  });
+
+  // Latest admin actions, newest first
+  router.get('/api/admin/audit', async ({ req, query }) => {
+    requireAdmin(req, config);
+    const limit = Number(query.get('limit') ?? 50);
+    if (!isWholeNumber(limit, 1) || limit > MAX_AUDIT_ENTRIES) {
+      throw new HttpError(400, `limit must be a whole number between 1 and ${MAX_AUDIT_ENTRIES}`);
+    }
+
+    return { entries: await admin.getAuditLog(limit) };
+  });
+}
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+function parseDrawAt(drawAt: string | undefined): Date | undefined {
+  if (drawAt === undefined) {
+    return undefined;
+  }
+
+  const parsed = new Date(drawAt);
+  if (Number.isNaN(parsed.getTime()) || parsed.getTime() <= Date.now()) {
+    throw new HttpError(400, 'draw_at must be a future ISO timestamp');
+  }
+  return parsed;
+}
+
+function parsePrizeRules(rules: unknown): PrizeRules | undefined {
+  if (rules === undefined) {
+    return undefined;
+  }
+
+  try {
+    const parsed = validatePrizeRules(rules);
+    if (parsed.carry_percent !== undefined) {
+      throw new HttpError(400, 'carry_percent is only allowed in tournament rounds');
+    }
+    return parsed;
+  } catch (error) {
+    if (error instanceof InvalidPrizeRulesError) {
+      throw new HttpError(400, error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import type { ServerConfig } from '../config';
+import type { Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { ReferralService } from '../payments/referrals';
+
+export function registerAuthRoutes(router: Router, config: ServerConfig, referrals: ReferralService): void {
+  // Exchange the Mini App initData for a verified user. A first launch through
+  // a referral link (start_param ref_<id>) records the referral.
+  router.post('/api/auth', async ({ req }) => {
+    const user = requireUser(req, config);
+
+    // A lost referral must not keep the player out of the app
+    try {
+      await referrals.recordReferral(user);
+    } catch (error) {
+      console.error(`Failed to record referral for ${user.id}:`, error);
+    }
+
+    return { user };
+  });
+
+  // What the caller's referral link has brought in
+  router.get('/api/referrals', async ({ req }) => {
+    const user = requireUser(req, config);
+    return { stats: await referrals.getStats(user.id) };
+  });
+}
@@ -0,0 +1,55 @@
+import { InvalidChatSettingsError, validateChatSettings, type ChatLotterySettings } from '../../src/lib/chat-lotteries';
+import type { LaunchChat, VerifiedUser } from '../../src/lib/types';
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { ChatService } from '../games/chat-service';
+
+export function registerChatRoutes(router: Router, config: ServerConfig, chats: ChatService): void {
+  // The lottery of the group the app was opened from, and whether the user may configure it
+  router.get('/api/chats/lottery', async ({ req }) => {
+    const user = requireUser(req, config);
+    const chat = requireGroupChat(user);
+
+    return {
+      lottery: await chats.getLottery(chat),
+      is_admin: await chats.isAdmin(chat, user.id)
+    };
+  });
+
+  // Change the group's stakes; group admins only
+  router.post('/api/chats/lottery', async ({ req }) => {
+    const user = requireUser(req, config);
+    const chat = requireGroupChat(user);
+
+    let settings: ChatLotterySettings;
+    try {
+      settings = validateChatSettings(await readJson<unknown>(req));
+    } catch (error) {
+      if (error instanceof InvalidChatSettingsError) {
+        throw new HttpError(400, error.message);
+      }
+      throw error;
+    }
+
+    if (!await chats.isAdmin(chat, user.id)) {
+      throw new HttpError(403, 'Only group admins can change the lottery settings');
+    }
+
+    return { lottery: await chats.updateSettings(chat, user.id, settings) };
+  });
+
+  // The group's open game, opening one if needed
+  router.post('/api/chats/game', async ({ req }) => {
+    const user = requireUser(req, config);
+    return { game: await chats.openGame(requireGroupChat(user)) };
+  });
+}
+
+// The chat comes from the signed init data, so users can only reach the group they opened the app in
+function requireGroupChat(user: VerifiedUser): LaunchChat {
+  if (!user.chat || (user.chat.type !== 'group' && user.chat.type !== 'supergroup')) {
+    throw new HttpError(400, 'The app was not opened from a group chat');
+  }
+  return user.chat;
+}
@@ -0,0 +1,35 @@
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { GameLifecycle } from '../games/game-lifecycle';
+import type { RoomService } from '../games/room-service';
+
+export function registerGameRoutes(
+  router: Router,
+  config: ServerConfig,
+  rooms: RoomService,
+  lifecycle: GameLifecycle
+): void {
+  // Open the next game of a room. One-off games are created by admins, see
+  // POST /api/admin/games.
+  router.post('/api/games', async ({ req }) => {
+    requireUser(req, config);
+    const { room_id } = await readJson<{ room_id?: string }>(req);
+
+    if (!room_id) {
+      throw new HttpError(400, 'room_id is required');
+    }
+
+    const game = await rooms.openRoom(room_id);
+    if (!game) {
+      throw new HttpError(404, 'Room not found');
+    }
+    return { game };
+  });
+
+  // Audit trail of a game's status changes
+  router.get('/api/games/:id/transitions', async ({ req, params }) => {
+    requireUser(req, config);
+    return { transitions: await lifecycle.getTransitions(params.id) };
+  });
+}
@@ -0,0 +1,31 @@
+import { HISTORY_FILTERS, isHistoryFilter, MAX_HISTORY_PAGE_SIZE, parseHistoryCursor } from '../../src/lib/history';
+import type { ServerConfig } from '../config';
+import { HttpError, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { HistoryService } from '../games/history-service';
+
+export function registerHistoryRoutes(router: Router, config: ServerConfig, history: HistoryService): void {
+  // The caller's drawn and refunded games, newest first. `filter` is all (the
+  // default), won, lost or refunded; `before` takes the previous page's next_cursor.
+  router.get('/api/history', async ({ req, query }) => {
+    const user = requireUser(req, config);
+
+    const filter = query.get('filter') ?? 'all';
+    if (!isHistoryFilter(filter)) {
+      throw new HttpError(400, `filter must be one of ${HISTORY_FILTERS.join(', ')}`);
+    }
+
+    const before = query.get('before') ?? undefined;
+    if (before !== undefined && !parseHistoryCursor(before)) {
+      throw new HttpError(400, 'before must be the next_cursor of a previous page');
+    }
+
+    const limitParam = query.get('limit');
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE)) {
+      throw new HttpError(400, `limit must be a whole number between 1 and ${MAX_HISTORY_PAGE_SIZE}`);
+    }
+
+    return history.getHistory(user.id, filter, before, limit);
+  });
+}
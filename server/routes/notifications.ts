@@ -0,0 +1,24 @@
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { NotificationService } from '../telegram/notifications';
+
+export function registerNotificationRoutes(router: Router, config: ServerConfig, notifications: NotificationService): void {
+  // Whether the bot messages the caller about draws, results and refunds
+  router.get('/api/notifications', async ({ req }) => {
+    const user = requireUser(req, config);
+    return { settings: await notifications.getSettings(user.id) };
+  });
+
+  // Turn the caller's notifications on or off
+  router.post('/api/notifications', async ({ req }) => {
+    const user = requireUser(req, config);
+    const { enabled } = await readJson<{ enabled?: unknown }>(req);
+
+    if (typeof enabled !== 'boolean') {
+      throw new HttpError(400, 'enabled must be true or false');
+    }
+
+    return { settings: await notifications.updateSettings(user.id, { enabled }) };
+  });
+}
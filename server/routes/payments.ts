@@ -0,0 +1,81 @@
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { BalanceStore } from '../payments/balances';
+import { PaymentRejectedError } from '../payments/errors';
+import type { InvoiceService } from '../payments/invoices';
+import type { RefundService } from '../payments/refunds';
+import type { WithdrawalService } from '../payments/withdrawals';
+
+export interface PaymentServices {
+  invoices: InvoiceService;
+  refunds: RefundService;
+  withdrawals: WithdrawalService;
+  balances: BalanceStore;
+}
+
+// Map rejected payment operations to 409 Conflict
+async function rejectAsConflict<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof PaymentRejectedError) {
+      throw new HttpError(409, error.message);
+    }
+    throw error;
+  }
+}
+
+function requireField(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new HttpError(400, `${name} is required`);
+  }
+  return value;
+}
+
+export function registerPaymentRoutes(router: Router, config: ServerConfig, services: PaymentServices): void {
+  // Issue a Stars invoice link for buying `tickets` tickets (default 1) in a game
+  router.post('/api/invoices', async ({ req }) => {
+    const user = requireUser(req, config);
+    const { game_id, tickets = 1 } = await readJson<{ game_id?: string; tickets?: number }>(req);
+    const gameId = requireField(game_id, 'game_id');
+
+    if (!Number.isInteger(tickets) || tickets < 1) {
+      throw new HttpError(400, 'tickets must be a positive whole number');
+    }
+
+    return rejectAsConflict(() => services.invoices.createEntryInvoice(user, gameId, tickets));
+  });
+
+  // Refund the caller's entry in a cancelled game, or one that was charged but not accepted
+  router.post('/api/refunds', async ({ req }) => {
+    const user = requireUser(req, config);
+    const { entry_id } = await readJson<{ entry_id?: string }>(req);
+    const entryId = requireField(entry_id, 'entry_id');
+
+    const entry = await rejectAsConflict(() => services.refunds.refundUserEntry(user, entryId));
+    return { entry };
+  });
+
+  // Take `amount` Stars out of the caller's winnings balance; an admin sends
+  // them and settles the request
+  router.post('/api/withdrawals', async ({ req }) => {
+    const user = requireUser(req, config);
+    const { amount } = await readJson<{ amount?: number }>(req);
+
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 1) {
+      throw new HttpError(400, 'amount must be a positive whole number of stars');
+    }
+
+    const withdrawal = await rejectAsConflict(() => services.withdrawals.requestWithdrawal(user.id, amount));
+    return { withdrawal };
+  });
+
+  // The caller's star balance
+  router.get('/api/balance', async ({ req }) => {
+    const user = requireUser(req, config);
+    const balance = await services.balances.getBalance(user.id);
+
+    return { stars_balance: balance?.stars_balance || 0 };
+  });
+}
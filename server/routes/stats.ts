@@ -0,0 +1,24 @@
+import { isLeaderboardPeriod, LEADERBOARD_PERIODS } from '../../src/lib/stats';
+import type { ServerConfig } from '../config';
+import { HttpError, type Router } from '../http';
+import { requireUser } from '../auth/require-user';
+import type { StatsService } from '../games/stats-service';
+
+export function registerStatsRoutes(router: Router, config: ServerConfig, stats: StatsService): void {
+  // The caller's lifetime statistics
+  router.get('/api/stats', async ({ req }) => {
+    const user = requireUser(req, config);
+    return { stats: await stats.getPlayerStats(user.id) };
+  });
+
+  // Top winners and most active players; `period` is daily, weekly or all (the default)
+  router.get('/api/leaderboards', async ({ req, query }) => {
+    requireUser(req, config);
+
+    const period = query.get('period') ?? 'all';
+    if (!isLeaderboardPeriod(period)) {
+      throw new HttpError(400, `period must be one of ${LEADERBOARD_PERIODS.join(', ')}`);
+    }
+    return { leaderboards: await stats.getLeaderboards(period) };
+  });
+}
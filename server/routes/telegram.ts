@@ -0,0 +1,33 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import type { PaymentWebhook } from '../payments/webhook';
+import type { BotCommands } from '../telegram/bot-commands';
+import type { Update } from '../telegram/types';
+
+export function registerTelegramRoutes(
+  router: Router,
+  config: ServerConfig,
+  webhook: PaymentWebhook,
+  commands: BotCommands
+): void {
+  // Bot updates pushed by Telegram (configured with setWebhook and a secret_token):
+  // payments, then bot commands
+  router.post('/api/telegram/webhook', async ({ req }) => {
+    const secret = req.headers['x-telegram-bot-api-secret-token'];
+
+    if (typeof secret !== 'string' || !safeEqual(secret, config.webhookSecret)) {
+      throw new HttpError(401, 'Invalid webhook secret');
+    }
+
+    const update = await readJson<Update>(req);
+    await webhook.handleUpdate(update);
+    await commands.handleUpdate(update);
+  });
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
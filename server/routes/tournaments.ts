@@ -0,0 +1,77 @@
+import { InvalidPrizeRulesError, validatePrizeRules, type PrizeRules } from '../../src/lib/prize-rules';
+import type { ServerConfig } from '../config';
+import { HttpError, readJson, type Router } from '../http';
+import { requireAdmin } from '../auth/require-admin';
+import { requireUser } from '../auth/require-user';
+import type { GameService } from '../games/game-service';
+
+const MAX_ROUND_GAMES = 16;
+
+export function registerTournamentRoutes(router: Router, config: ServerConfig, games: GameService): void {
+  // Create a tournament and open its qualifiers. Prize rules default to
+  // DEFAULT_ROUND_PRIZE_RULES and DEFAULT_FINAL_PRIZE_RULES. Admins only.
+  router.post('/api/tournaments', async ({ req }) => {
+    requireAdmin(req, config);
+    const { name, round_games, players_per_game, entry_fee, round_prize_rules, final_prize_rules } = await readJson<{
+      name?: string;
+      round_games?: number;
+      players_per_game?: number;
+      entry_fee?: number;
+      round_prize_rules?: unknown;
+      final_prize_rules?: unknown;
+    }>(req);
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new HttpError(400, 'name is required');
+    }
+    if (!isWholeNumber(round_games, 1) || round_games > MAX_ROUND_GAMES) {
+      throw new HttpError(400, `round_games must be a whole number between 1 and ${MAX_ROUND_GAMES}`);
+    }
+    if (!isWholeNumber(players_per_game, 2)) {
+      throw new HttpError(400, 'players_per_game must be at least 2');
+    }
+    if (!isWholeNumber(entry_fee, 1)) {
+      throw new HttpError(400, 'entry_fee must be a positive whole number of stars');
+    }
+
+    const bracket = await games.createTournament({
+      name: name.trim(),
+      roundGames: round_games,
+      playersPerGame: players_per_game,
+      entryFee: entry_fee,
+      roundPrizeRules: parsePrizeRules('round_prize_rules', round_prize_rules),
+      finalPrizeRules: parsePrizeRules('final_prize_rules', final_prize_rules)
+    });
+    return { bracket };
+  });
+
+  // A tournament with its qualifiers and final
+  router.get('/api/tournaments/:id', async ({ req, params }) => {
+    requireUser(req, config);
+
+    const bracket = await games.getTournamentBracket(params.id);
+    if (!bracket) {
+      throw new HttpError(404, 'Tournament not found');
+    }
+    return { bracket };
+  });
+}
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+function parsePrizeRules(field: string, rules: unknown): PrizeRules | undefined {
+  if (rules === undefined) {
+    return undefined;
+  }
+
+  try {
+    return validatePrizeRules(rules);
+  } catch (error) {
+    if (error instanceof InvalidPrizeRulesError) {
+      throw new HttpError(400, `${field}: ${error.message}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { loadConfig } from '../config';
+import { createServiceClient } from '../db';
+import { LedgerStore } from '../ledger/ledger-store';
+
+// `npm run ledger:reconcile`: exits non-zero unless every transaction balances
+const ledger = new LedgerStore(createServiceClient(loadConfig()));
+
+ledger.reconcile().then((result) => {
+  console.log(`Ledger total: ${result.total}`);
+
+  for (const transaction of result.unbalanced) {
+    console.error(`Unbalanced transaction ${transaction.transaction_key}: ${transaction.total}`);
+  }
+
+  process.exit(result.balanced ? 0 : 1);
+}).catch((error) => {
+  console.error('Reconciliation failed:', error);
+  process.exit(1);
+});
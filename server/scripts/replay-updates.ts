@@ -0,0 +1,48 @@
+import { readFile } from 'node:fs/promises';
+import type { ReplayedUpdate } from '../telegram/mock-bot-api';
+import type { Update } from '../telegram/types';
+
+interface UpdateFixture {
+  description: string;
+  update: Omit<Update, 'update_id'>;
+  // Messages the bot is expected to send in reply
+  replies: number;
+}
+
+// `npm run bot:replay [fixtures.json]`: replays recorded updates through a
+// running mock Bot API (`npm run mock:bot-api`) into the backend's webhook and
+// checks the bot answers each one with the expected number of messages.
+// Exits non-zero if any update fails.
+const file = process.argv[2] || 'server/telegram/fixtures/bot-commands.json';
+const mockUrl = (process.env.MOCK_BOT_API_URL || 'http://localhost:8081').replace(/\/$/, '');
+
+async function replay(): Promise<boolean> {
+  const fixtures = JSON.parse(await readFile(file, 'utf8')) as UpdateFixture[];
+  let passed = true;
+
+  for (const fixture of fixtures) {
+    const response = await fetch(`${mockUrl}/mock/update`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture.update)
+    });
+    const { status, calls } = (await response.json()) as ReplayedUpdate;
+    const replies = calls.filter((call) => call.method === 'sendMessage');
+    const ok = status === 200 && replies.length === fixture.replies;
+
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${fixture.description} (webhook ${status}, ${replies.length}/${fixture.replies} replies)`);
+    for (const reply of replies) {
+      console.log(`       ${String(reply.params.text).split('\n')[0]}`);
+    }
+    passed &&= ok;
+  }
+
+  return passed;
+}
+
+replay().then((passed) => {
+  process.exit(passed ? 0 : 1);
+}).catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import type { ChatMember, InlineKeyboardMarkup, LabeledPrice, Message } from './types';
+
+// Thin client for the Telegram Bot API
+export class BotApiError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly errorCode: number,
+    description: string,
+    // Seconds to wait before retrying, sent with 429 Too Many Requests
+    public readonly retryAfter?: number
+  ) {
+    super(`${method} failed: ${description}`);
+    this.name = 'BotApiError';
+  }
+}
+
+interface BotApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  error_code?: number;
+  description?: string;
+  parameters?: { retry_after?: number };
+}
+
+export class BotApi {
+  constructor(
+    private token: string,
+    // Overridable so the backend can run against a local mock of the Bot API
+    private apiRoot: string = 'https://api.telegram.org'
+  ) {}
+
+  // Call a Bot API method with JSON parameters
+  async call<T>(method: string, params: object = {}): Promise<T> {
+    const response = await fetch(`${this.apiRoot}/bot${this.token}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params)
+    });
+
+    const result = (await response.json()) as BotApiResponse<T>;
+    if (!result.ok) {
+      throw new BotApiError(
+        method,
+        result.error_code ?? response.status,
+        result.description ?? 'Unknown error',
+        result.parameters?.retry_after
+      );
+    }
+
+    return result.result as T;
+  }
+
+  // Approve or reject a pending checkout; Telegram waits at most 10 seconds for this
+  async answerPreCheckoutQuery(preCheckoutQueryId: string, ok: boolean, errorMessage?: string): Promise<boolean> {
+    return this.call<boolean>('answerPreCheckoutQuery', {
+      pre_checkout_query_id: preCheckoutQueryId,
+      ok,
+      error_message: ok ? undefined : errorMessage
+    });
+  }
+
+  // Create a shareable invoice link, opened in the Mini App with WebApp.openInvoice
+  async createInvoiceLink(params: {
+    title: string;
+    description: string;
+    payload: string;
+    currency: string;
+    prices: LabeledPrice[];
+  }): Promise<string> {
+    return this.call<string>('createInvoiceLink', params);
+  }
+
+  // Post a plain text message to a chat the bot is in, optionally with buttons
+  async sendMessage(chatId: number | string, text: string, replyMarkup?: InlineKeyboardMarkup): Promise<Message> {
+    return this.call<Message>('sendMessage', { chat_id: chatId, text, reply_markup: replyMarkup });
+  }
+
+  // A user's membership of a chat, including whether they administer it
+  async getChatMember(chatId: number | string, userId: number): Promise<ChatMember> {
+    return this.call<ChatMember>('getChatMember', { chat_id: chatId, user_id: userId });
+  }
+
+  // Return Stars from a successful payment to the user who paid
+  async refundStarPayment(userId: number, telegramPaymentChargeId: string): Promise<boolean> {
+    return this.call<boolean>('refundStarPayment', {
+      user_id: userId,
+      telegram_payment_charge_id: telegramPaymentChargeId
+    });
+  }
+}
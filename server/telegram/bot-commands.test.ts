@@ -0,0 +1,208 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import type { HistoryItem } from '../../src/lib/history';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import type { NotificationSettings, UserBalance } from '../../src/lib/types';
+import type { HistoryService } from '../games/history-service';
+import type { BalanceStore } from '../payments/balances';
+import type { ReferralService } from '../payments/referrals';
+import type { BotApi } from './bot-api';
+import { BotCommands } from './bot-commands';
+import type { NotificationService } from './notifications';
+import type { InlineKeyboardMarkup, Update } from './types';
+
+interface UpdateFixture {
+  description: string;
+  update: Omit<Update, 'update_id'>;
+  replies: number;
+}
+
+interface SentMessage {
+  chatId: number | string;
+  text: string;
+  replyMarkup?: InlineKeyboardMarkup;
+}
+
+const fixtures = JSON.parse(
+  readFileSync(new URL('./fixtures/bot-commands.json', import.meta.url), 'utf8')
+) as UpdateFixture[];
+
+const WEB_APP_URL = 'https://lottery.example/app';
+
+const BALANCE: UserBalance = {
+  telegram_user_id: '1001',
+  stars_balance: 140,
+  total_spent: 60,
+  total_won: 140,
+  games_played: 6,
+  games_won: 2,
+  updated_at: '2026-10-18T20:00:00.000Z'
+};
+
+const WON_GAME = {
+  game: {
+    id: 'game-1',
+    status: 'completed',
+    max_players: 10,
+    max_tickets_per_player: 3,
+    entry_fee: 10,
+    prize_pool: 100,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    created_at: '2026-10-17T09:00:00.000Z',
+    completed_at: '2026-10-18T12:00:00.000Z'
+  },
+  players: [],
+  winners: [],
+  prizes: [70],
+  my_entries: [{ tickets: 2 }, { tickets: 1 }],
+  outcome: 'won',
+  won: 70
+} as unknown as HistoryItem;
+
+// BotCommands over a fake Bot API that records what it sends, and stubs of
+// the stores behind each command
+function createBot() {
+  const sent: SentMessage[] = [];
+  let settings: NotificationSettings = { enabled: true };
+
+  const botApi = {
+    sendMessage: vi.fn(async (chatId: number | string, text: string, replyMarkup?: InlineKeyboardMarkup) => {
+      sent.push({ chatId, text, replyMarkup });
+      return { message_id: sent.length, chat: { id: chatId, type: 'private' }, date: 0, text };
+    })
+  };
+  const balances = { getBalance: vi.fn(async (): Promise<UserBalance | null> => BALANCE) };
+  const history = { getHistory: vi.fn(async () => ({ items: [WON_GAME] })) };
+  const referrals = { recordReferral: vi.fn(async () => true) };
+  const notifications = {
+    getSettings: vi.fn(async () => settings),
+    updateSettings: vi.fn(async (_userId: number, update: NotificationSettings) => (settings = update))
+  };
+
+  const bot = new BotCommands(
+    botApi as unknown as BotApi,
+    balances as unknown as BalanceStore,
+    history as unknown as HistoryService,
+    referrals as unknown as ReferralService,
+    notifications as unknown as NotificationService,
+    WEB_APP_URL
+  );
+
+  return { bot, sent, balances, history, referrals, notifications };
+}
+
+const send = (bot: BotCommands, fixture: UpdateFixture, updateId: number) =>
+  bot.handleUpdate({ update_id: updateId, ...fixture.update });
+
+const fixture = (description: string) => {
+  const found = fixtures.find((candidate) => candidate.description === description);
+  if (!found) {
+    throw new Error(`No fixture "${description}"`);
+  }
+  return found;
+};
+
+const playButton = (text: string = 'Play'): InlineKeyboardMarkup => ({ inline_keyboard: [[{ text, web_app: { url: WEB_APP_URL } }]] });
+
+describe('BotCommands.handleUpdate', () => {
+  it.each(fixtures.map((candidate) => [candidate.description, candidate] as const))('%s', async (_description, candidate) => {
+    const { bot, sent } = createBot();
+
+    await send(bot, candidate, 1);
+
+    expect(sent).toHaveLength(candidate.replies);
+    for (const message of sent) {
+      expect(message.chatId).toBe(candidate.update.message?.chat.id);
+    }
+  });
+
+  it('records the referral from a /start deep link and shows the Play button', async () => {
+    const { bot, sent, referrals } = createBot();
+
+    await send(bot, fixture('/start from a referral link'), 1);
+
+    expect(referrals.recordReferral).toHaveBeenCalledWith({ id: 1001, start_param: 'ref_2002' });
+    expect(sent[0].text).toMatch(/^Welcome to Star Lottery, Alice!/);
+    expect(sent[0].replyMarkup).toEqual(playButton());
+  });
+
+  it('does not record a referral for a plain /start', async () => {
+    const { bot, referrals } = createBot();
+
+    await send(bot, fixture('/start without a payload'), 1);
+
+    expect(referrals.recordReferral).not.toHaveBeenCalled();
+  });
+
+  it('still welcomes the user when the referral cannot be recorded', async () => {
+    const { bot, sent, referrals } = createBot();
+    referrals.recordReferral.mockRejectedValueOnce(new Error('database down'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await send(bot, fixture('/start from a referral link'), 1);
+
+    expect(sent).toHaveLength(1);
+    consoleError.mockRestore();
+  });
+
+  it('answers /play addressed to the bot by name', async () => {
+    const { bot, sent } = createBot();
+
+    await send(bot, fixture('/play addressed to the bot by name'), 1);
+
+    expect(sent[0]).toMatchObject({ text: 'Pick a room and buy your tickets:', replyMarkup: playButton() });
+  });
+
+  it('shows the balance, or how to start playing', async () => {
+    const { bot, sent, balances } = createBot();
+
+    await send(bot, fixture('/balance'), 1);
+    balances.getBalance.mockResolvedValueOnce(null);
+    await send(bot, fixture('/balance'), 2);
+
+    expect(balances.getBalance).toHaveBeenCalledWith(1001);
+    expect(sent.map((message) => message.text)).toEqual([
+      'Winnings balance: 140⭐\nGames played: 6, won: 2\nStars spent: 60⭐, won: 140⭐',
+      'You have not played yet. Send /play to join a game.'
+    ]);
+  });
+
+  it('lists the last five games', async () => {
+    const { bot, sent, history } = createBot();
+
+    await send(bot, fixture('/history'), 1);
+
+    expect(history.getHistory).toHaveBeenCalledWith(1001, 'all', undefined, 5);
+    expect(sent[0]).toEqual({
+      chatId: 1001,
+      text: 'Your last games:\n2026-10-18 · 3 × 10⭐ · won 70⭐',
+      replyMarkup: playButton('All my games')
+    });
+  });
+
+  it('turns notifications off and reports the setting', async () => {
+    const { bot, sent, notifications } = createBot();
+
+    await send(bot, fixture('/notifications without a choice'), 1);
+    await send(bot, fixture('/notifications off'), 2);
+    await send(bot, fixture('/notifications without a choice'), 3);
+
+    expect(notifications.updateSettings).toHaveBeenCalledWith(1001, { enabled: false });
+    expect(sent.map((message) => message.text)).toEqual([
+      expect.stringMatching(/^Notifications are on/),
+      expect.stringMatching(/^Notifications are off/),
+      expect.stringMatching(/^Notifications are off/)
+    ]);
+  });
+
+  it('points unknown commands to /help', async () => {
+    const { bot, sent } = createBot();
+
+    await send(bot, fixture('unknown command'), 1);
+    await send(bot, fixture('/help'), 2);
+
+    expect(sent[0].text).toBe('Unknown command. Send /help to see what I can do.');
+    expect(sent[1].text).toMatch(/^How Star Lottery works:/);
+  });
+});
@@ -0,0 +1,176 @@
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import { totalTickets } from '../../src/lib/tickets';
+import type { HistoryService } from '../games/history-service';
+import type { BalanceStore } from '../payments/balances';
+import type { ReferralService } from '../payments/referrals';
+import type { BotApi } from './bot-api';
+import type { NotificationService } from './notifications';
+import type { InlineKeyboardMarkup, Message, TelegramUser, Update } from './types';
+
+// Games listed by /history
+const HISTORY_LENGTH = 5;
+
+// Reply to /help
+const HELP_TEXT = [
+  'How Star Lottery works:',
+  '• Every room runs one game at a time with a fixed ticket price in Telegram Stars.',
+  '• Each ticket is one chance; you can hold several tickets up to the room\'s limit.',
+  `• When a game fills (or at its draw time for scheduled rooms) the winners are drawn. By default the winner takes ${DEFAULT_PRIZE_RULES.tiers[0]}% of the pool.`,
+  '• Every draw is provably fair: the seed hash is published before the game and the seed after it.',
+  '• Games that do not fill in time are cancelled and every ticket is refunded.',
+  '',
+  '/play - open the game',
+  '/balance - your winnings and stats',
+  '/history - your last games',
+  '/notifications on|off - messages about your draws and refunds',
+  '/help - this message'
+].join('\n');
+
+// A message with a sender, which every private chat message has
+type UserMessage = Message & { from: TelegramUser };
+
+export interface BotCommand {
+  // Lower-case name without the slash or @botname
+  name: string;
+  // Text after the command, e.g. the deep link payload of /start
+  args: string;
+}
+
+// The command at the start of a message, as in "/start ref_42" or "/play@star_lottery_bot"
+export function parseCommand(text: string | undefined): BotCommand | null {
+  const match = /^\/([a-z0-9_]+)(?:@\w+)?(?:\s+(.*))?$/is.exec(text?.trim() ?? '');
+  if (!match) {
+    return null;
+  }
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+// Answers the bot commands sent in private chats: /start, /play, /balance,
+// /history, /notifications and /help. Replies go through the Bot API; a failed
+// reply is logged and not retried, so Telegram does not redeliver the update.
+export class BotCommands {
+  constructor(
+    private botApi: BotApi,
+    private balances: BalanceStore,
+    private history: HistoryService,
+    private referrals: ReferralService,
+    private notifications: NotificationService,
+    // HTTPS URL of the Mini App, opened by the Play button
+    private webAppUrl: string
+  ) {}
+
+  async handleUpdate(update: Update): Promise<void> {
+    const message = update.message;
+    const command = parseCommand(message?.text);
+
+    if (!message?.from || !command || message.chat.type !== 'private') {
+      return;
+    }
+
+    try {
+      await this.handleCommand({ ...message, from: message.from }, command);
+    } catch (error) {
+      console.error(`Failed to handle /${command.name} from ${message.from.id}:`, error);
+    }
+  }
+
+  private async handleCommand(message: UserMessage, command: BotCommand): Promise<void> {
+    switch (command.name) {
+      case 'start':
+        return this.start(message, command.args);
+      case 'play':
+        return this.reply(message, 'Pick a room and buy your tickets:', this.playButton());
+      case 'balance':
+        return this.balance(message);
+      case 'history':
+        return this.recentGames(message);
+      case 'notifications':
+        return this.notificationSettings(message, command.args.toLowerCase());
+      case 'help':
+        return this.reply(message, HELP_TEXT);
+      default:
+        return this.reply(message, 'Unknown command. Send /help to see what I can do.');
+    }
+  }
+
+  // Welcome the user. A deep link payload (t.me/<bot>?start=ref_<id>) is the
+  // same referral code the Mini App gets as start_param, so it is recorded here:
+  // the web_app button cannot pass it on.
+  private async start(message: UserMessage, payload: string): Promise<void> {
+    const { from } = message;
+
+    if (payload) {
+      try {
+        await this.referrals.recordReferral({ id: from.id, start_param: payload });
+      } catch (error) {
+        console.error(`Failed to record referral for ${from.id}:`, error);
+      }
+    }
+
+    await this.reply(
+      message,
+      `Welcome to Star Lottery, ${from.first_name}! Buy tickets with Telegram Stars, and when a game fills ` +
+        'the winners are drawn and paid automatically.',
+      this.playButton()
+    );
+  }
+
+  private async balance(message: UserMessage): Promise<void> {
+    const balance = await this.balances.getBalance(message.from.id);
+
+    if (!balance) {
+      await this.reply(message, 'You have not played yet. Send /play to join a game.');
+      return;
+    }
+
+    await this.reply(
+      message,
+      `Winnings balance: ${balance.stars_balance}⭐\n` +
+        `Games played: ${balance.games_played}, won: ${balance.games_won}\n` +
+        `Stars spent: ${balance.total_spent}⭐, won: ${balance.total_won}⭐`
+    );
+  }
+
+  private async recentGames(message: UserMessage): Promise<void> {
+    const { items } = await this.history.getHistory(message.from.id, 'all', undefined, HISTORY_LENGTH);
+
+    if (items.length === 0) {
+      await this.reply(message, 'No finished games yet. Send /play to join one.');
+      return;
+    }
+
+    const lines = items.map((item) => {
+      const date = new Date(item.game.completed_at ?? item.game.created_at).toISOString().slice(0, 10);
+      const tickets = totalTickets(item.my_entries);
+      const result = item.outcome === 'won' ? `won ${item.won}⭐` : item.outcome === 'lost' ? 'lost' : 'refunded';
+      return `${date} · ${tickets} × ${item.game.entry_fee}⭐ · ${result}`;
+    });
+
+    await this.reply(message, `Your last games:\n${lines.join('\n')}`, this.playButton('All my games'));
+  }
+
+  // Show the player's notification setting, or change it with "on" or "off"
+  private async notificationSettings(message: UserMessage, choice: string): Promise<void> {
+    const settings = choice === 'on' || choice === 'off'
+      ? await this.notifications.updateSettings(message.from.id, { enabled: choice === 'on' })
+      : await this.notifications.getSettings(message.from.id);
+
+    await this.reply(
+      message,
+      settings.enabled
+        ? 'Notifications are on: I will message you when your games are drawn and when a ticket is refunded. Send /notifications off to stop.'
+        : 'Notifications are off. Send /notifications on to hear about your draws and refunds.'
+    );
+  }
+
+  private playButton(text: string = 'Play'): InlineKeyboardMarkup | undefined {
+    if (!this.webAppUrl) {
+      return undefined;
+    }
+    return { inline_keyboard: [[{ text, web_app: { url: this.webAppUrl } }]] };
+  }
+
+  private async reply(message: Message, text: string, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    await this.botApi.sendMessage(message.chat.id, text, replyMarkup);
+  }
+}
@@ -0,0 +1,191 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+import { readJson, sendJson } from '../http';
+import type { Update } from './types';
+
+export interface RecordedCall {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+type MethodHandler = (params: Record<string, unknown>) => unknown;
+
+// Local stand-in for api.telegram.org. Point TELEGRAM_API_ROOT at it to run the
+// backend offline: it records every Bot API call and can push updates to the webhook.
+export class MockBotApi {
+  readonly calls: RecordedCall[] = [];
+  private server: Server | null = null;
+  private nextUpdateId = 1;
+  private nextMessageId = 1;
+  private handlers = new Map<string, MethodHandler>([
+    ['getMe', () => ({ id: 1, is_bot: true, first_name: 'Star Lottery', username: 'star_lottery_bot' })],
+    ['answerPreCheckoutQuery', () => true],
+    ['refundStarPayment', () => true],
+    ['createInvoiceLink', () => `https://t.me/$mock_invoice_${this.nextMessageId++}`],
+    ['sendMessage', (params) => ({
+      message_id: this.nextMessageId++,
+      chat: { id: params.chat_id, type: 'private' },
+      date: Math.floor(Date.now() / 1000),
+      text: params.text
+    })],
+    ['getChatMember', (params) => ({
+      status: 'administrator',
+      user: { id: params.user_id, is_bot: false, first_name: 'Test' }
+    })]
+  ]);
+
+  constructor(private webhookUrl: string = '', private webhookSecret: string = '') {}
+
+  // Override the result of a Bot API method
+  on(method: string, handler: MethodHandler): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  callsTo(method: string): RecordedCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  // Start listening and return the API root to hand to BotApi
+  async start(port: number = 0): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const params = await readJson<Record<string, unknown>>(req).catch(() => ({}));
+
+      if (req.method === 'POST' && url.pathname === '/mock/pay') {
+        sendJson(res, 200, await this.simulateStarPayment(params as unknown as SimulatedPayment));
+        return;
+      }
+      if (req.method === 'POST' && url.pathname === '/mock/update') {
+        sendJson(res, 200, await this.replayUpdate(params as Omit<Update, 'update_id'>));
+        return;
+      }
+
+      const match = /^\/bot[^/]+\/(\w+)$/.exec(url.pathname);
+      const handler = match && this.handlers.get(match[1]);
+
+      if (!match || !handler) {
+        sendJson(res, 404, { ok: false, error_code: 404, description: 'Not Found: method not found' });
+        return;
+      }
+
+      this.calls.push({ method: match[1], params });
+      sendJson(res, 200, { ok: true, result: handler(params) });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(port, resolve));
+    const { port: actualPort } = this.server.address() as AddressInfo;
+    return `http://localhost:${actualPort}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close((error) => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  // Deliver an update to the backend webhook the way Telegram does
+  async pushUpdate(update: Omit<Update, 'update_id'>): Promise<number> {
+    if (!this.webhookUrl) {
+      throw new Error('MockBotApi has no webhook URL');
+    }
+
+    const response = await fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Bot-Api-Secret-Token': this.webhookSecret
+      },
+      body: JSON.stringify({ update_id: this.nextUpdateId++, ...update })
+    });
+
+    return response.status;
+  }
+
+  // Deliver a recorded update and return the Bot API calls the backend made
+  // while handling it, e.g. the replies to a bot command
+  async replayUpdate(update: Omit<Update, 'update_id'>): Promise<ReplayedUpdate> {
+    const before = this.calls.length;
+    const status = await this.pushUpdate(update);
+    return { status, calls: this.calls.slice(before) };
+  }
+
+  // Run the pre_checkout_query -> successful_payment sequence for a Stars invoice.
+  // Without an explicit payload, the most recently created invoice link is paid.
+  async simulateStarPayment(payment: SimulatedPayment): Promise<SimulatedPaymentResult> {
+    const invoices = this.callsTo('createInvoiceLink');
+    const payload = payment.payload ?? String(invoices[invoices.length - 1]?.params.payload ?? '');
+    const from = { id: payment.user_id, is_bot: false, first_name: payment.first_name || 'Test' };
+    const preCheckoutId = `mock_checkout_${this.nextUpdateId}`;
+
+    await this.pushUpdate({
+      pre_checkout_query: {
+        id: preCheckoutId,
+        from,
+        currency: 'XTR',
+        total_amount: payment.amount,
+        invoice_payload: payload
+      }
+    });
+
+    const answer = this.callsTo('answerPreCheckoutQuery')
+      .find((call) => call.params.pre_checkout_query_id === preCheckoutId);
+
+    if (!answer?.params.ok) {
+      return { ok: false, error: String(answer?.params.error_message ?? 'Pre-checkout query was not answered') };
+    }
+
+    const chargeId = `mock_charge_${Date.now()}_${payment.user_id}`;
+
+    await this.pushUpdate({
+      message: {
+        message_id: this.nextMessageId++,
+        from,
+        chat: { id: payment.user_id, type: 'private' },
+        date: Math.floor(Date.now() / 1000),
+        successful_payment: {
+          currency: 'XTR',
+          total_amount: payment.amount,
+          invoice_payload: payload,
+          telegram_payment_charge_id: chargeId,
+          provider_payment_charge_id: ''
+        }
+      }
+    });
+
+    return { ok: true, telegram_payment_charge_id: chargeId };
+  }
+}
+
+export interface SimulatedPayment {
+  user_id: number;
+  first_name?: string;
+  amount: number;
+  payload?: string;
+}
+
+export interface ReplayedUpdate {
+  // HTTP status the webhook answered with
+  status: number;
+  calls: RecordedCall[];
+}
+
+export interface SimulatedPaymentResult {
+  ok: boolean;
+  telegram_payment_charge_id?: string;
+  error?: string;
+}
+
+// `npm run mock:bot-api` starts a standalone mock; POST /mock/pay simulates a
+// payment and POST /mock/update replays an update (see `npm run bot:replay`)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = new MockBotApi(
+    process.env.MOCK_WEBHOOK_URL || 'http://localhost:8787/api/telegram/webhook',
+    process.env.TELEGRAM_WEBHOOK_SECRET || ''
+  );
+
+  mock.start(parseInt(process.env.MOCK_BOT_API_PORT || '8081', 10)).then((apiRoot) => {
+    console.log(`Mock Bot API listening on ${apiRoot}`);
+  });
+}
@@ -0,0 +1,165 @@
+import type { PGlite } from '@electric-sql/pglite';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManualClock } from '../../src/lib/draw-schedule';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import type { Game, GamePlayer } from '../../src/lib/types';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { BotApiError, type BotApi } from './bot-api';
+import { MAX_SEND_ATTEMPTS, NotificationSender } from './notification-sender';
+import { NotificationService } from './notifications';
+
+interface SentMessage {
+  chatId: number | string;
+  text: string;
+  at: number;
+}
+
+// Later than any row's created_at, so everything queued is due
+const START = '2030-01-01T00:00:00.000Z';
+
+let db: PGlite;
+let supabase: SupabaseClient;
+let notifications: NotificationService;
+let game: Game;
+let players: GamePlayer[];
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  supabase = createTestClient(db);
+  notifications = new NotificationService(supabase);
+
+  const { rows } = await db.query<{ game: Game }>(
+    `insert into games (status, max_players, entry_fee, prize_pool, prize_rules)
+     values ('completed', 2, 10, 20, $1)
+     returning to_jsonb(games) as game`,
+    [JSON.stringify(DEFAULT_PRIZE_RULES)]
+  );
+  game = rows[0].game;
+  players = ['1', '2'].map((telegramUserId) =>
+    ({ id: `entry-${telegramUserId}`, game_id: game.id, telegram_user_id: telegramUserId, tickets: 1 }) as GamePlayer);
+}, TEST_DATABASE_TIMEOUT_MS);
+
+beforeEach(async () => {
+  await db.exec('delete from notification_log');
+});
+
+// A sender over a fake Bot API that records each message with the (fake) time
+// it was sent; waiting for a rate-limit slot just moves the clock on
+function createSender() {
+  const clock = new ManualClock(START);
+  const sent: SentMessage[] = [];
+  const botApi = {
+    sendMessage: vi.fn(async (chatId: number | string, text: string) => {
+      sent.push({ chatId, text, at: clock.now().getTime() - new Date(START).getTime() });
+      return { message_id: sent.length, chat: { id: chatId, type: 'private' }, date: 0, text };
+    })
+  };
+  const sender = new NotificationSender(supabase, botApi as unknown as BotApi, { intervalSeconds: 5 }, clock, undefined, async (ms) => {
+    clock.advance(ms);
+  });
+
+  return { sender, botApi, sent, clock };
+}
+
+async function logged(key: string): Promise<{ status: string; attempts: number; next_attempt_at: string; last_error: string | null }> {
+  const { rows } = await db.query<{ status: string; attempts: number; next_attempt_at: string; last_error: string | null }>(
+    `select status, attempts, to_jsonb(next_attempt_at) #>> '{}' as next_attempt_at, last_error from notification_log where key = $1`,
+    [key]
+  );
+  return rows[0];
+}
+
+const outcomes = (results: { key: string; outcome: string }[]) => results.map(({ key, outcome }) => [key.split(':')[0], outcome]);
+
+describe('NotificationSender.runOnce', () => {
+  it('sends queued notifications oldest first and marks them sent', async () => {
+    const { sender, sent } = createSender();
+    await notifications.drawStarted(game, players);
+    await notifications.drawResult(game, players, []);
+
+    const results = await sender.runOnce();
+
+    expect(results.map((result) => result.outcome)).toEqual(['sent', 'sent', 'sent', 'sent']);
+    expect(sent.map((message) => [message.chatId, message.text.slice(0, 2)])).toEqual([['1', '🎲'], ['2', '🎲'], ['1', 'Th'], ['2', 'Th']]);
+    expect((await logged(`draw_started:${game.id}:1`)).status).toBe('sent');
+    expect(await sender.runOnce()).toEqual([]);
+  });
+
+  it('keeps to one message per second per chat', async () => {
+    const { sender, sent } = createSender();
+    await notifications.drawStarted(game, players);
+    await notifications.drawResult(game, players, []);
+
+    await sender.runOnce();
+
+    for (const chatId of ['1', '2']) {
+      const [first, second] = sent.filter((message) => message.chatId === chatId);
+      expect(second.at - first.at).toBeGreaterThanOrEqual(1000);
+    }
+  });
+
+  it('gives up at once on a player who blocked the bot', async () => {
+    const { sender, botApi, clock } = createSender();
+    botApi.sendMessage.mockRejectedValueOnce(new BotApiError('sendMessage', 403, 'Forbidden: bot was blocked by the user'));
+    await notifications.refundIssued(players[0]);
+
+    expect(outcomes(await sender.runOnce())).toEqual([['refunded', 'failed']]);
+    clock.advance(24 * 60 * 60 * 1000);
+    expect(await sender.runOnce()).toEqual([]);
+
+    expect(botApi.sendMessage).toHaveBeenCalledTimes(1);
+    expect(await logged('refunded:entry-1')).toMatchObject({ status: 'failed', last_error: 'sendMessage failed: Forbidden: bot was blocked by the user' });
+  });
+
+  it('holds every send back for retry_after on a 429 and resends without counting the attempt', async () => {
+    const { sender, botApi, sent, clock } = createSender();
+    botApi.sendMessage.mockRejectedValueOnce(new BotApiError('sendMessage', 429, 'Too Many Requests: retry after 7', 7));
+    await notifications.drawStarted(game, players);
+
+    expect(outcomes(await sender.runOnce())).toEqual([['draw_started', 'retry'], ['draw_started', 'sent']]);
+    expect(sent).toEqual([expect.objectContaining({ chatId: '2', at: 7000 })]);
+    expect(await logged(`draw_started:${game.id}:1`)).toMatchObject({ status: 'pending', attempts: 0, next_attempt_at: '2030-01-01T00:00:07+00:00' });
+
+    clock.set('2030-01-01T00:00:07Z');
+    expect(outcomes(await sender.runOnce())).toEqual([['draw_started', 'sent']]);
+    expect(await logged(`draw_started:${game.id}:1`)).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('retries other failures with growing delays, then gives up', async () => {
+    const { sender, botApi, clock } = createSender();
+    botApi.sendMessage.mockRejectedValue(new Error('fetch failed'));
+    await notifications.refundIssued(players[0]);
+
+    expect(outcomes(await sender.runOnce())).toEqual([['refunded', 'retry']]);
+    expect(await logged('refunded:entry-1')).toMatchObject({ next_attempt_at: '2030-01-01T00:00:30+00:00', last_error: 'fetch failed' });
+    expect(await sender.runOnce()).toEqual([]);
+
+    clock.set('2030-01-01T00:00:30Z');
+    expect(outcomes(await sender.runOnce())).toEqual([['refunded', 'retry']]);
+    expect(await logged('refunded:entry-1')).toMatchObject({ next_attempt_at: '2030-01-01T00:01:30+00:00' });
+
+    const results: string[] = [];
+    while (results.at(-1) !== 'failed' && results.length < MAX_SEND_ATTEMPTS) {
+      clock.advance(60 * 60 * 1000);
+      results.push(...(await sender.runOnce()).map((result) => result.outcome));
+    }
+
+    expect(results).toEqual([...Array(MAX_SEND_ATTEMPTS - 3).fill('retry'), 'failed']);
+    expect(botApi.sendMessage).toHaveBeenCalledTimes(MAX_SEND_ATTEMPTS);
+    expect(await logged('refunded:entry-1')).toMatchObject({ status: 'failed', attempts: MAX_SEND_ATTEMPTS });
+  });
+
+  it('leaves a notification claimed by another sender until its lease runs out', async () => {
+    const { sender, sent, clock } = createSender();
+    await notifications.refundIssued(players[0]);
+    await db.query('select * from claim_notifications($1, $2, 10)', [START, '2030-01-01T00:05:00Z']);
+
+    expect(await sender.runOnce()).toEqual([]);
+
+    clock.set('2030-01-01T00:05:00Z');
+    expect(outcomes(await sender.runOnce())).toEqual([['refunded', 'sent']]);
+    expect(sent).toHaveLength(1);
+  });
+});
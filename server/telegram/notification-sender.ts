@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { systemClock, type Clock } from '../../src/lib/draw-schedule';
+import { runEvery } from '../jobs/interval';
+import { BotApiError, type BotApi } from './bot-api';
+import type { NotificationKind } from './notifications';
+import { SendRateLimiter } from './rate-limiter';
+
+export interface NotificationSenderOptions {
+  intervalSeconds: number;
+  // Most notifications claimed per run
+  batchSize?: number;
+}
+
+export type NotificationOutcome = 'sent' | 'retry' | 'failed';
+
+export interface NotificationResult {
+  key: string;
+  outcome: NotificationOutcome;
+}
+
+// A notification_log row claimed for sending
+interface QueuedNotification {
+  key: string;
+  kind: NotificationKind;
+  telegram_user_id: string;
+  message: string;
+  // Including the current one
+  attempts: number;
+  created_at: string;
+}
+
+// How long a claimed notification stays with its sender before it can be claimed again
+const LEASE_MS = 5 * 60 * 1000;
+// Wait before the first retry, doubled after every further failed attempt
+const RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A notification that failed this many times is given up
+export const MAX_SEND_ATTEMPTS = 8;
+const DEFAULT_BATCH_SIZE = 100;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Sends the notifications queued in notification_log. Only the worker runs
+// one, so every message goes through a single SendRateLimiter: at most one
+// per second per chat and 30 per second overall, and a 429 holds every send
+// back for the retry_after Telegram asks for. Other failures are retried with
+// back-off, except a 403 (the player never started the bot or blocked it),
+// which cannot succeed and is given up at once.
+export class NotificationSender {
+  constructor(
+    private supabase: SupabaseClient,
+    private botApi: BotApi,
+    private options: NotificationSenderOptions,
+    private clock: Clock = systemClock,
+    private limiter: SendRateLimiter = new SendRateLimiter(clock),
+    private wait: (ms: number) => Promise<void> = sleep
+  ) {}
+
+  // Send every notification that is due at the clock's current time, oldest first
+  async runOnce(): Promise<NotificationResult[]> {
+    const now = this.clock.now();
+    const { data, error } = await this.supabase.rpc('claim_notifications', {
+      p_now: now.toISOString(),
+      p_lease_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+      p_limit: this.options.batchSize ?? DEFAULT_BATCH_SIZE
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim notifications: ${error.message}`);
+    }
+
+    const queued = ((data || []) as QueuedNotification[])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.key.localeCompare(b.key));
+    const results: NotificationResult[] = [];
+
+    for (const notification of queued) {
+      try {
+        results.push({ key: notification.key, outcome: await this.send(notification) });
+      } catch (sendError) {
+        console.error(`Failed to send notification ${notification.key}:`, sendError);
+      }
+    }
+
+    return results;
+  }
+
+  // Run on an interval; returns a function that stops the sender
+  start(): () => void {
+    return runEvery('Notification sender', this.options.intervalSeconds, async () => {
+      const results = await this.runOnce();
+      if (results.length > 0) {
+        const sent = results.filter((result) => result.outcome === 'sent').length;
+        console.log(`Sent ${sent} of ${results.length} notifications`);
+      }
+    });
+  }
+
+  // Send in the chat's next rate-limit slot and record the outcome
+  private async send(notification: QueuedNotification): Promise<NotificationOutcome> {
+    await this.wait(this.limiter.reserve(notification.telegram_user_id));
+
+    try {
+      await this.botApi.sendMessage(notification.telegram_user_id, notification.message);
+    } catch (error) {
+      return this.failed(notification, error);
+    }
+
+    await this.update(notification.key, { status: 'sent', sent_at: this.clock.now().toISOString(), last_error: null });
+    return 'sent';
+  }
+
+  private async failed(notification: QueuedNotification, error: unknown): Promise<NotificationOutcome> {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const now = this.clock.now().getTime();
+
+    // Telegram's limit, not this message: hold every send back and keep the attempt
+    if (error instanceof BotApiError && error.errorCode === 429 && error.retryAfter) {
+      this.limiter.backOff(error.retryAfter);
+      await this.update(notification.key, {
+        attempts: notification.attempts - 1,
+        next_attempt_at: new Date(now + error.retryAfter * 1000).toISOString(),
+        last_error: lastError
+      });
+      return 'retry';
+    }
+
+    if ((error instanceof BotApiError && error.errorCode === 403) || notification.attempts >= MAX_SEND_ATTEMPTS) {
+      await this.update(notification.key, { status: 'failed', last_error: lastError });
+      return 'failed';
+    }
+
+    const delay = Math.min(RETRY_DELAY_MS * 2 ** (notification.attempts - 1), MAX_RETRY_DELAY_MS);
+    await this.update(notification.key, { next_attempt_at: new Date(now + delay).toISOString(), last_error: lastError });
+    return 'retry';
+  }
+
+  private async update(key: string, values: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('notification_log')
+      .update(values)
+      .eq('key', key);
+
+    if (error) {
+      throw new Error(`Failed to update notification: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRIZE_RULES } from '../../src/lib/prize-rules';
+import type { Game, GamePlayer } from '../../src/lib/types';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from '../testing/database';
+import { createTestClient } from '../testing/postgrest';
+import { NotificationService } from './notifications';
+
+let db: PGlite;
+let notifications: NotificationService;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  notifications = new NotificationService(createTestClient(db));
+}, TEST_DATABASE_TIMEOUT_MS);
+
+beforeEach(async () => {
+  await db.exec('delete from notification_log; delete from notification_settings;');
+});
+
+async function createGame(): Promise<Game> {
+  const { rows } = await db.query<{ game: Game }>(
+    `insert into games (status, max_players, entry_fee, prize_pool, prize_rules)
+     values ('completed', 3, 10, 30, $1)
+     returning to_jsonb(games) as game`,
+    [JSON.stringify(DEFAULT_PRIZE_RULES)]
+  );
+  return rows[0].game;
+}
+
+const entry = (game: Game, telegramUserId: string, tickets: number = 1) =>
+  ({ id: `${game.id}-${telegramUserId}`, game_id: game.id, telegram_user_id: telegramUserId, tickets }) as GamePlayer;
+
+async function queued(): Promise<{ key: string; kind: string; telegram_user_id: string; status: string; message: string }[]> {
+  const { rows } = await db.query<{ key: string; kind: string; telegram_user_id: string; status: string; message: string }>(
+    'select key, kind, telegram_user_id, status, message from notification_log order by key'
+  );
+  return rows;
+}
+
+describe('NotificationService', () => {
+  it('queues one result per player, whatever their number of entries', async () => {
+    const game = await createGame();
+    const players = [entry(game, '1', 2), entry(game, '2'), { ...entry(game, '2'), id: 'second' }];
+
+    await notifications.drawResult(game, players, [{ game_id: game.id, place: 0, telegram_user_id: '1', amount: 21, created_at: game.created_at }]);
+
+    expect(await queued()).toEqual([
+      { key: `lost:${game.id}:2`, kind: 'lost', telegram_user_id: '2', status: 'pending', message: expect.stringMatching(/did not win/) },
+      { key: `won:${game.id}:1`, kind: 'won', telegram_user_id: '1', status: 'pending', message: expect.stringMatching(/^🏆 You won 21⭐/) }
+    ]);
+  });
+
+  it('never queues the same message twice when a draw or refund is retried', async () => {
+    const game = await createGame();
+    const players = [entry(game, '1'), entry(game, '2')];
+
+    await notifications.drawStarted(game, players);
+    await db.exec(`update notification_log set status = 'sent'`);
+    await notifications.drawStarted(game, players);
+    await notifications.refundIssued(players[0]);
+    await notifications.refundIssued(players[0]);
+
+    expect((await queued()).map((row) => [row.key, row.status])).toEqual([
+      [`draw_started:${game.id}:1`, 'sent'],
+      [`draw_started:${game.id}:2`, 'sent'],
+      [`refunded:${players[0].id}`, 'pending']
+    ]);
+  });
+
+  it('queues nothing for players who turned notifications off', async () => {
+    const game = await createGame();
+
+    await notifications.updateSettings(2, { enabled: false });
+    await notifications.drawStarted(game, [entry(game, '1'), entry(game, '2')]);
+    await notifications.refundIssued(entry(game, '2'));
+
+    expect(await notifications.getSettings(2)).toEqual({ enabled: false });
+    expect(await notifications.getSettings(1)).toEqual({ enabled: true });
+    expect((await queued()).map((row) => row.telegram_user_id)).toEqual(['1']);
+  });
+
+  it('logs a notification it cannot queue instead of failing the draw', async () => {
+    const game = await createGame();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // The game does not exist, so the row breaks its foreign key
+    await expect(notifications.drawStarted({ ...game, id: crypto.randomUUID() }, [entry(game, '1')])).resolves.toBeUndefined();
+
+    expect(consoleError).toHaveBeenCalledWith('Failed to queue draw_started notifications:', expect.any(Error));
+    expect(await queued()).toEqual([]);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,153 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { totalTickets } from '../../src/lib/tickets';
+import type { Game, GamePlayer, NotificationSettings } from '../../src/lib/types';
+import type { Payout } from '../payments/payouts';
+
+export type NotificationKind = 'draw_started' | 'won' | 'lost' | 'refunded';
+
+interface Notification {
+  // Unique per message, e.g. "won:<game id>:<user id>"; a key is only ever queued once
+  key: string;
+  kind: NotificationKind;
+  telegramUserId: string;
+  gameId: string;
+  text: string;
+}
+
+// Private bot messages to players about the games they joined: the draw
+// starting, winning or losing, and refunds. This only queues them in
+// notification_log, under a key that is unique per message, so a retried draw
+// or refund never queues one twice; NotificationSender in the worker sends
+// them. Nothing is queued for players who turned notifications off. A
+// notification that cannot be queued is logged and never fails the draw or
+// refund that triggered it.
+export class NotificationService {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Notifications are on until the player turns them off
+  async getSettings(userId: number): Promise<NotificationSettings> {
+    const { data, error } = await this.supabase
+      .from('notification_settings')
+      .select('enabled')
+      .eq('telegram_user_id', userId.toString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get notification settings: ${error.message}`);
+    }
+
+    return { enabled: data?.enabled ?? true };
+  }
+
+  async updateSettings(userId: number, settings: NotificationSettings): Promise<NotificationSettings> {
+    const { data, error } = await this.supabase
+      .from('notification_settings')
+      .upsert({ telegram_user_id: userId.toString(), enabled: settings.enabled, updated_at: new Date().toISOString() })
+      .select('enabled')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save notification settings: ${error.message}`);
+    }
+
+    return { enabled: data.enabled };
+  }
+
+  // Tell every player in a game that its draw has started
+  drawStarted(game: Game, players: GamePlayer[]): Promise<void> {
+    return this.queue(playerIds(players).map((telegramUserId) => ({
+      key: `draw_started:${game.id}:${telegramUserId}`,
+      kind: 'draw_started',
+      telegramUserId,
+      gameId: game.id,
+      text: `🎲 The draw has started for your ${game.entry_fee}⭐ game: ` +
+        `${totalTickets(players)} tickets sold, ${game.prize_pool}⭐ in the pool.`
+    })));
+  }
+
+  // Tell the winners what they won and everyone else that the game was drawn
+  drawResult(game: Game, players: GamePlayer[], payouts: Payout[]): Promise<void> {
+    return this.queue(playerIds(players).map((telegramUserId): Notification => {
+      const won = payouts
+        .filter((payout) => payout.telegram_user_id === telegramUserId)
+        .reduce((total, payout) => total + payout.amount, 0);
+
+      return won > 0
+        ? {
+          key: `won:${game.id}:${telegramUserId}`,
+          kind: 'won',
+          telegramUserId,
+          gameId: game.id,
+          text: `🏆 You won ${won}⭐ in the ${game.entry_fee}⭐ game! The draw and its seed are in My games.`
+        }
+        : {
+          key: `lost:${game.id}:${telegramUserId}`,
+          kind: 'lost',
+          telegramUserId,
+          gameId: game.id,
+          text: `The ${game.entry_fee}⭐ game has been drawn and you did not win this time. The draw and its seed are in My games.`
+        };
+    }));
+  }
+
+  // Tell a player one of their entries was refunded
+  refundIssued(entry: GamePlayer): Promise<void> {
+    return this.queue([{
+      key: `refunded:${entry.id}`,
+      kind: 'refunded',
+      telegramUserId: entry.telegram_user_id,
+      gameId: entry.game_id,
+      text: `↩️ Your ${entry.tickets === 1 ? 'ticket was' : `${entry.tickets} tickets were`} refunded; ` +
+        'the Stars are back in your Telegram balance.'
+    }]);
+  }
+
+  private async queue(notifications: Notification[]): Promise<void> {
+    try {
+      const optedOut = await this.optedOut(notifications.map((notification) => notification.telegramUserId));
+      const rows = notifications
+        .filter((notification) => !optedOut.has(notification.telegramUserId))
+        .map((notification) => ({
+          key: notification.key,
+          kind: notification.kind,
+          telegram_user_id: notification.telegramUserId,
+          game_id: notification.gameId,
+          message: notification.text
+        }));
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      const { error } = await this.supabase
+        .from('notification_log')
+        .upsert(rows, { onConflict: 'key', ignoreDuplicates: true });
+
+      if (error) {
+        throw new Error(`Failed to queue notifications: ${error.message}`);
+      }
+    } catch (error) {
+      console.error(`Failed to queue ${notifications[0]?.kind} notifications:`, error);
+    }
+  }
+
+  // The players among `telegramUserIds` who turned notifications off
+  private async optedOut(telegramUserIds: string[]): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .from('notification_settings')
+      .select('telegram_user_id')
+      .in('telegram_user_id', telegramUserIds)
+      .eq('enabled', false);
+
+    if (error) {
+      throw new Error(`Failed to get notification settings: ${error.message}`);
+    }
+
+    return new Set((data || []).map((row) => row.telegram_user_id));
+  }
+}
+
+// Each player once, however many entries they have
+function playerIds(players: GamePlayer[]): string[] {
+  return [...new Set(players.map((player) => player.telegram_user_id))];
+}
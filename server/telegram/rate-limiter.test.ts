@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../../src/lib/draw-schedule';
+import { GLOBAL_INTERVAL_MS, PER_CHAT_INTERVAL_MS, SendRateLimiter } from './rate-limiter';
+
+describe('SendRateLimiter', () => {
+  it('sends at once while under both limits', () => {
+    const clock = new ManualClock('2026-10-19T12:00:00Z');
+    const limiter = new SendRateLimiter(clock, 1000, 0);
+
+    expect(limiter.reserve('1')).toBe(0);
+    expect(limiter.reserve('2')).toBe(0);
+    clock.advance(1000);
+    expect(limiter.reserve('1')).toBe(0);
+  });
+
+  it('spaces messages to one chat a second apart, in call order', () => {
+    const limiter = new SendRateLimiter(new ManualClock('2026-10-19T12:00:00Z'));
+
+    expect([limiter.reserve('1'), limiter.reserve('1'), limiter.reserve('1')]).toEqual([0, PER_CHAT_INTERVAL_MS, 2 * PER_CHAT_INTERVAL_MS]);
+  });
+
+  it('spaces all messages to 30 per second', () => {
+    const limiter = new SendRateLimiter(new ManualClock('2026-10-19T12:00:00Z'));
+
+    const delays = Array.from({ length: 31 }, (_, i) => limiter.reserve(String(i)));
+
+    expect(delays[1]).toBeCloseTo(GLOBAL_INTERVAL_MS);
+    expect(delays[30]).toBeCloseTo(1000);
+  });
+
+  it('counts waiting from the clock, not from the last reservation', () => {
+    const clock = new ManualClock('2026-10-19T12:00:00Z');
+    const limiter = new SendRateLimiter(clock, 1000, 0);
+
+    limiter.reserve('1');
+    clock.advance(400);
+    expect(limiter.reserve('1')).toBe(600);
+  });
+
+  it('holds every chat back for retry_after after a 429', () => {
+    const clock = new ManualClock('2026-10-19T12:00:00Z');
+    const limiter = new SendRateLimiter(clock, 1000, 0);
+
+    limiter.backOff(5);
+    expect(limiter.reserve('1')).toBe(5000);
+    expect(limiter.reserve('2')).toBe(5000);
+
+    // A shorter back-off never shortens a longer one
+    limiter.backOff(1);
+    expect(limiter.reserve('3')).toBe(5000);
+  });
+});
@@ -0,0 +1,49 @@
+import { systemClock, type Clock } from '../../src/lib/draw-schedule';
+
+// Telegram accepts about one message per second to the same chat and about
+// 30 per second overall; going faster gets 429 Too Many Requests
+export const PER_CHAT_INTERVAL_MS = 1000;
+export const GLOBAL_INTERVAL_MS = 1000 / 30;
+
+// Chats remembered before old send times are pruned
+const MAX_TRACKED_CHATS = 10000;
+
+// Spaces out sends so that no chat and no sender exceeds Telegram's limits.
+// Slots are reserved in call order, so messages to a chat keep their order.
+export class SendRateLimiter {
+  private nextByChat = new Map<string, number>();
+  private nextGlobal = 0;
+
+  constructor(
+    private clock: Clock = systemClock,
+    private perChatMs: number = PER_CHAT_INTERVAL_MS,
+    private globalMs: number = GLOBAL_INTERVAL_MS
+  ) {}
+
+  // Reserve the next free slot for a chat; returns how many milliseconds to
+  // wait before sending
+  reserve(chatId: string): number {
+    const now = this.clock.now().getTime();
+    const slot = Math.max(now, this.nextByChat.get(chatId) ?? 0, this.nextGlobal);
+
+    if (this.nextByChat.size >= MAX_TRACKED_CHATS) {
+      this.prune(now);
+    }
+    this.nextByChat.set(chatId, slot + this.perChatMs);
+    this.nextGlobal = slot + this.globalMs;
+    return slot - now;
+  }
+
+  // Hold every send back after a 429, for as long as Telegram asked
+  backOff(retryAfterSeconds: number): void {
+    this.nextGlobal = Math.max(this.nextGlobal, this.clock.now().getTime() + retryAfterSeconds * 1000);
+  }
+
+  private prune(now: number): void {
+    for (const [chatId, next] of this.nextByChat) {
+      if (next <= now) {
+        this.nextByChat.delete(chatId);
+      }
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// Subset of the Telegram Bot API types used by the backend.
+// See https://core.telegram.org/bots/api#available-types
+
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface Chat {
+  id: number;
+  type: 'private' | 'group' | 'supergroup' | 'channel';
+  title?: string;
+  username?: string;
+}
+
+export interface ChatMember {
+  status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+  user: TelegramUser;
+}
+
+export interface SuccessfulPayment {
+  currency: string;
+  total_amount: number;
+  invoice_payload: string;
+  telegram_payment_charge_id: string;
+  provider_payment_charge_id: string;
+}
+
+export interface Message {
+  message_id: number;
+  from?: TelegramUser;
+  chat: Chat;
+  date: number;
+  text?: string;
+  successful_payment?: SuccessfulPayment;
+}
+
+export interface PreCheckoutQuery {
+  id: string;
+  from: TelegramUser;
+  currency: string;
+  total_amount: number;
+  invoice_payload: string;
+}
+
+export interface Update {
+  update_id: number;
+  message?: Message;
+  pre_checkout_query?: PreCheckoutQuery;
+}
+
+// Button under a message; `web_app` opens the Mini App in place
+export interface InlineKeyboardButton {
+  text: string;
+  url?: string;
+  web_app?: { url: string };
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export interface LabeledPrice {
+  label: string;
+  amount: number;
+}
@@ -0,0 +1,16 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll } from 'vitest';
+import { describeGameRepository } from '../../src/lib/game-repository.contract';
+import { PostgresGameRepository } from '../../src/lib/postgres-game-repository';
+import { TEST_DATABASE_TIMEOUT_MS, createTestDatabase } from './database';
+
+// The contract against a real schema: join_game, the ledger views and the
+// triggers all run on every `npm test`. Polling is fast so events arrive
+// within the contract's wait.
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, TEST_DATABASE_TIMEOUT_MS);
+
+describeGameRepository('PostgresGameRepository', () => new PostgresGameRepository(db, 20), { eventTimeoutMs: 2000 });
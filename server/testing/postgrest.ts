@@ -0,0 +1,428 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { createClient, type RealtimeClientOptions, type SupabaseClient } from '@supabase/supabase-js';
+
+type Json = Record<string, unknown>;
+
+interface Column {
+  name: string;
+  type: string;
+}
+
+interface Relation {
+  // Column of the embedded table and the column of the outer table it joins on
+  column: string;
+  outerColumn: string;
+  // An embedded table referencing the outer one is a list, the reverse one row
+  many: boolean;
+}
+
+interface SqlFunction {
+  names: string[];
+  types: string[];
+  returns: string;
+  set: boolean;
+}
+
+// Query parameters that are not filters
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns', 'or']);
+
+const COMPARISONS: Record<string, string> = { eq: '=', neq: '<>', lt: '<', lte: '<=', gt: '>', gte: '>=' };
+
+const OBJECT_MEDIA_TYPE = 'application/vnd.pgrst.object+json';
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// A Supabase client whose REST calls run against a test database: the part of
+// PostgREST the backend uses (selects with filters, order, limits, counts and
+// one level of embedding; inserts, upserts, updates, deletes and rpc) is
+// translated to SQL. The connection is the database owner, so like the service
+// role it bypasses row-level security.
+export function createTestClient(db: PGlite): SupabaseClient {
+  const postgrest = new TestPostgrest(db);
+
+  return createClient('http://postgrest.test', 'test-service-role-key', {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { fetch: (input, init) => postgrest.handle(new Request(input, init)) },
+    realtime: { transport: NoWebSocket as unknown as RealtimeClientOptions['transport'] }
+  });
+}
+
+// The backend never subscribes, and Node 20 has no WebSocket for realtime-js
+class NoWebSocket {
+  constructor() {
+    throw new Error('Realtime is not available in tests');
+  }
+}
+
+class TestPostgrest {
+  private columns = new Map<string, Column[]>();
+
+  constructor(private db: PGlite) {}
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = decodeURIComponent(url.pathname.replace(/^\/rest\/v1\//, ''));
+
+    try {
+      return path.startsWith('rpc/')
+        ? await this.rpc(path.slice('rpc/'.length), request)
+        : await this.table(path, request, url);
+    } catch (error) {
+      const { code, message, detail, hint } = error as { code?: string; message: string; detail?: string; hint?: string };
+      return json({ code: code ?? '', message, details: detail ?? null, hint: hint ?? null }, code?.startsWith('23') ? 409 : 400);
+    }
+  }
+
+  private async table(table: string, request: Request, url: URL): Promise<Response> {
+    const prefer = request.headers.get('Prefer') ?? '';
+    const single = request.headers.get('Accept') === OBJECT_MEDIA_TYPE;
+    const params: unknown[] = [];
+    const where = await this.where(table, url.searchParams, params);
+    const headers: Record<string, string> = {};
+
+    if (prefer.includes('count=exact')) {
+      const { rows } = await this.db.query<{ count: number }>(`select count(*)::integer as count from ${quote(table)} where ${where}`, params);
+      headers['Content-Range'] = `*/${rows[0].count}`;
+    }
+
+    let rows: Json[];
+    let status = 200;
+
+    switch (request.method) {
+      case 'HEAD':
+        return new Response(null, { status, headers });
+      case 'GET':
+        rows = await this.select(table, url.searchParams, where, params);
+        break;
+      case 'POST':
+        rows = await this.insert(table, (await request.json()) as Json | Json[], url.searchParams, prefer);
+        status = 201;
+        break;
+      case 'PATCH': {
+        const patch = await request.text();
+        rows = await this.rows(
+          `update ${quote(table)} set ${Object.keys(JSON.parse(patch)).map((column) => `${quote(column)} = patch.${quote(column)}`).join(', ')}
+           from jsonb_populate_record(null::${quote(table)}, $${params.length + 1}::text::jsonb) as patch
+           where ${where}
+           returning to_jsonb(${quote(table)}) as row`,
+          [...params, patch]
+        );
+        break;
+      }
+      case 'DELETE':
+        rows = await this.rows(`delete from ${quote(table)} where ${where} returning to_jsonb(${quote(table)}) as row`, params);
+        break;
+      default:
+        throw new Error(`Unsupported method ${request.method}`);
+    }
+
+    if (request.method !== 'GET') {
+      if (!prefer.includes('return=representation')) {
+        return new Response(null, { status: 204, headers });
+      }
+      rows = project(rows, url.searchParams.get('select'));
+    }
+
+    return single ? singleRow(rows, headers) : json(rows, status, headers);
+  }
+
+  private async select(table: string, search: URLSearchParams, where: string, params: unknown[]): Promise<Json[]> {
+    const items = splitTopLevel(search.get('select') ?? '*');
+    const columns: string[] = [];
+    const joins: string[] = [];
+
+    for (const item of items) {
+      const embedded = item.match(/^(\w+)(!inner)?\((.*)\)$/);
+      if (!embedded) {
+        columns.push(item === '*' ? `${quote(table)}.*` : `${quote(table)}.${quote(item)}`);
+        continue;
+      }
+
+      const [, name, inner, select] = embedded;
+      const relation = await this.relation(table, name);
+      const filters = await this.where(name, embeddedFilters(name, search), params);
+      const from = `from ${quote(name)} where ${quote(name)}.${quote(relation.column)} = ${quote(table)}.${quote(relation.outerColumn)} and ${filters}`;
+      const fields = splitTopLevel(select).map((field) => (field === '*' ? `${quote(name)}.*` : `${quote(name)}.${quote(field)}`)).join(', ');
+
+      columns.push(relation.many
+        ? `(select coalesce(jsonb_agg(to_jsonb(embedded)), '[]'::jsonb) from (select ${fields} ${from}) embedded) as ${quote(name)}`
+        : `(select to_jsonb(embedded) from (select ${fields} ${from}) embedded) as ${quote(name)}`);
+      if (inner) {
+        joins.push(`exists (select 1 ${from})`);
+      }
+    }
+
+    const limit = search.get('limit');
+    const offset = search.get('offset');
+
+    return this.rows(
+      `select to_jsonb(selected) as row from (
+         select ${columns.join(', ')} from ${quote(table)}
+         where ${[where, ...joins].join(' and ')}
+         ${orderBy(table, search.get('order'))}
+         ${limit ? `limit ${Number(limit)}` : ''} ${offset ? `offset ${Number(offset)}` : ''}
+       ) selected`,
+      params
+    );
+  }
+
+  private async insert(table: string, body: Json | Json[], search: URLSearchParams, prefer: string): Promise<Json[]> {
+    const records = Array.isArray(body) ? body : [body];
+    const columns = search.get('columns')?.split(',').map((column) => column.replace(/^"|"$/g, ''))
+      ?? [...new Set(records.flatMap((record) => Object.keys(record)))];
+    const target = `insert into ${quote(table)} (${columns.map(quote).join(', ')})`;
+
+    let conflict = '';
+    if (prefer.includes('resolution=')) {
+      const keys = search.get('on_conflict')?.split(',') ?? await this.primaryKey(table);
+      conflict = prefer.includes('resolution=ignore-duplicates')
+        ? `on conflict (${keys.map(quote).join(', ')}) do nothing`
+        : `on conflict (${keys.map(quote).join(', ')}) do update set ${columns.map((column) => `${quote(column)} = excluded.${quote(column)}`).join(', ')}`;
+    }
+
+    return this.rows(
+      `${target}
+       select ${columns.map(quote).join(', ')} from jsonb_populate_recordset(null::${quote(table)}, $1::text::jsonb)
+       ${conflict}
+       returning to_jsonb(${quote(table)}) as row`,
+      [JSON.stringify(records)]
+    );
+  }
+
+  private async rpc(name: string, request: Request): Promise<Response> {
+    const args = (request.method === 'POST' ? await request.json() : {}) as Json;
+    const fn = await this.sqlFunction(name, Object.keys(args));
+    const values: unknown[] = [];
+    const named = Object.entries(args).map(([arg, value]) => {
+      values.push(sqlValue(value, fn.types[fn.names.indexOf(arg)]));
+      return `${quote(arg)} => $${values.length}::text::${fn.types[fn.names.indexOf(arg)]}`;
+    });
+
+    if (fn.returns === 'void') {
+      await this.db.query(`select ${quote(name)}(${named.join(', ')})`, values);
+      return new Response(null, { status: 204 });
+    }
+
+    const { rows } = await this.db.query<{ value: unknown }>(`select to_jsonb(result) as value from ${quote(name)}(${named.join(', ')}) result`, values);
+    const result = fn.set ? rows.map(({ value }) => value) : rows[0]?.value ?? null;
+
+    return request.headers.get('Accept') === OBJECT_MEDIA_TYPE && Array.isArray(result)
+      ? singleRow(result as Json[], {})
+      : json(result, 200);
+  }
+
+  // The filters of a query string as a SQL condition over `table`, adding
+  // their values to `params`
+  private async where(table: string, search: URLSearchParams, params: unknown[]): Promise<string> {
+    const columns = await this.tableColumns(table);
+    const conditions: string[] = [];
+
+    for (const [key, value] of search) {
+      if (key === 'or') {
+        conditions.push(logicTree(table, columns, 'or', value, params));
+      } else if (!RESERVED_PARAMS.has(key) && !key.includes('.')) {
+        conditions.push(condition(table, columns, key, value, params));
+      }
+    }
+
+    return conditions.length ? conditions.join(' and ') : 'true';
+  }
+
+  private async rows(text: string, params: unknown[]): Promise<Json[]> {
+    const { rows } = await this.db.query<{ row: Json }>(text, params);
+    return rows.map(({ row }) => row);
+  }
+
+  private async tableColumns(table: string): Promise<Column[]> {
+    if (!this.columns.has(table)) {
+      const { rows } = await this.db.query<Column>(
+        `select attname as name, format_type(atttypid, atttypmod) as type from pg_attribute
+         where attrelid = $1::text::regclass and attnum > 0 and not attisdropped`,
+        [quote(table)]
+      );
+      this.columns.set(table, rows);
+    }
+    return this.columns.get(table)!;
+  }
+
+  private async primaryKey(table: string): Promise<string[]> {
+    const { rows } = await this.db.query<{ name: string }>(
+      `select a.attname as name from pg_index i
+       join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+       where i.indrelid = $1::text::regclass and i.indisprimary`,
+      [quote(table)]
+    );
+    return rows.map(({ name }) => name);
+  }
+
+  // How `embedded` joins `table`, by the foreign key between them
+  private async relation(table: string, embedded: string): Promise<Relation> {
+    const foreignKey = (from: string, to: string) => this.db.query<{ column: string; referenced: string }>(
+      `select fa.attname as column, ta.attname as referenced from pg_constraint c
+       join pg_attribute fa on fa.attrelid = c.conrelid and fa.attnum = c.conkey[1]
+       join pg_attribute ta on ta.attrelid = c.confrelid and ta.attnum = c.confkey[1]
+       where c.contype = 'f' and c.conrelid = $1::text::regclass and c.confrelid = $2::text::regclass`,
+      [quote(from), quote(to)]
+    );
+
+    const [referencing] = (await foreignKey(embedded, table)).rows;
+    if (referencing) {
+      return { column: referencing.column, outerColumn: referencing.referenced, many: true };
+    }
+    const [referenced] = (await foreignKey(table, embedded)).rows;
+    if (referenced) {
+      return { column: referenced.referenced, outerColumn: referenced.column, many: false };
+    }
+    throw new Error(`No relationship between ${table} and ${embedded}`);
+  }
+
+  private async sqlFunction(name: string, args: string[]): Promise<SqlFunction> {
+    const { rows } = await this.db.query<{ names: string[] | null; modes: string[] | null; types: string[]; returns: string; set: boolean }>(
+      `select p.proargnames as names, p.proargmodes::text[] as modes, p.prorettype::regtype::text as returns, p.proretset as set,
+              array(select format_type(t, null) from unnest(p.proargtypes) t) as types
+       from pg_proc p join pg_namespace n on n.oid = p.pronamespace
+       where n.nspname = 'public' and p.proname = $1`,
+      [name]
+    );
+
+    for (const row of rows) {
+      const names = (row.names ?? []).filter((_, i) => !row.modes || ['i', 'b', 'v'].includes(row.modes[i]));
+      if (args.every((arg) => names.includes(arg))) {
+        return { names, types: row.types, returns: row.returns, set: row.set };
+      }
+    }
+    throw Object.assign(new Error(`Could not find the function public.${name}(${args.join(', ')})`), { code: 'PGRST202' });
+  }
+}
+
+// Filters such as `(a.eq.1,and(b.eq.2,c.lt.3))` joined with `operator`
+function logicTree(table: string, columns: Column[], operator: 'and' | 'or', filters: string, params: unknown[]): string {
+  return `(${splitTopLevel(filters.replace(/^\(|\)$/g, '')).map((filter) => {
+    const nested = /^(and|or)(\(.*\))$/.exec(filter);
+    if (nested) {
+      return logicTree(table, columns, nested[1] as 'and' | 'or', nested[2], params);
+    }
+    const [column, ...expression] = filter.split('.');
+    return condition(table, columns, column, expression.join('.'), params);
+  }).join(` ${operator} `)})`;
+}
+
+// One filter such as `eq.5`, `in.(a,b)`, `is.null` or `not.cs.{1}` on a column
+function condition(table: string, columns: Column[], column: string, expression: string, params: unknown[]): string {
+  const type = columns.find((candidate) => candidate.name === column)?.type;
+  if (!type) {
+    throw Object.assign(new Error(`column ${table}.${column} does not exist`), { code: '42703' });
+  }
+
+  const negated = expression.startsWith('not.');
+  const [operator, ...rest] = (negated ? expression.slice('not.'.length) : expression).split('.');
+  const value = rest.join('.');
+  const ref = `${quote(table)}.${quote(column)}`;
+  const param = (text: string) => {
+    params.push(text);
+    return `$${params.length}::text::${type}`;
+  };
+
+  let sql: string;
+  if (operator in COMPARISONS) {
+    sql = `${ref} ${COMPARISONS[operator]} ${param(value.replace(/^"(.*)"$/, '$1'))}`;
+  } else if (operator === 'is') {
+    sql = `${ref} is ${value === 'null' ? 'null' : value === 'true' ? 'true' : 'false'}`;
+  } else if (operator === 'in') {
+    const values = splitTopLevel(value.replace(/^\(|\)$/g, '')).map((item) => item.replace(/^"(.*)"$/, '$1'));
+    sql = values.length ? `${ref} in (${values.map(param).join(', ')})` : 'false';
+  } else if (operator === 'cs') {
+    sql = `${ref} @> ${param(value)}`;
+  } else {
+    throw new Error(`Unsupported filter ${operator}`);
+  }
+
+  return negated ? `not (${sql})` : sql;
+}
+
+function orderBy(table: string, order: string | null): string {
+  if (!order) {
+    return '';
+  }
+
+  return `order by ${order.split(',').map((term) => {
+    const [column, ...modifiers] = term.split('.');
+    const direction = modifiers.includes('desc') ? 'desc' : 'asc';
+    const nulls = modifiers.find((modifier) => modifier.startsWith('nulls'))?.replace('nulls', 'nulls ');
+    return `${quote(table)}.${quote(column)} ${direction}${nulls ? ` ${nulls}` : ''}`;
+  }).join(', ')}`;
+}
+
+// Filters on an embedded table, given as `<table>.<column>`
+function embeddedFilters(table: string, search: URLSearchParams): URLSearchParams {
+  const filters = new URLSearchParams();
+  for (const [key, value] of search) {
+    if (key.startsWith(`${table}.`)) {
+      filters.append(key.slice(table.length + 1), value);
+    }
+  }
+  return filters;
+}
+
+// The selected columns of written rows; writes never embed
+function project(rows: Json[], select: string | null): Json[] {
+  const columns = splitTopLevel(select ?? '*');
+  if (columns.includes('*')) {
+    return rows;
+  }
+  return rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]])));
+}
+
+// Split on commas outside parentheses and double quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+// An rpc argument as the text of a value of `type`
+function sqlValue(value: unknown, type: string): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (type === 'json' || type === 'jsonb') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `{${value.map((item) => `"${String(item).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+  }
+  return String(value);
+}
+
+function singleRow(rows: Json[], headers: Record<string, string>): Response {
+  if (rows.length !== 1) {
+    return json({
+      code: 'PGRST116',
+      message: 'JSON object requested, multiple (or no) rows returned',
+      details: `The result contains ${rows.length} rows`,
+      hint: null
+    }, 406);
+  }
+  return json(rows[0], 200, headers);
+}
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
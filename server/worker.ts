@@ -0,0 +1,45 @@
+import { loadConfig } from './config';
+import { createServiceClient } from './db';
+import { GameLifecycle } from './games/game-lifecycle';
+import { GameService } from './games/game-service';
+import { DrawScheduler } from './jobs/draw-scheduler';
+import { LedgerStore } from './ledger/ledger-store';
+import { EntryStore } from './payments/entries';
+import { PayoutService } from './payments/payouts';
+import { ReferralService } from './payments/referrals';
+import { RefundService } from './payments/refunds';
+import { BotApi } from './telegram/bot-api';
+import { NotificationSender } from './telegram/notification-sender';
+import { NotificationService } from './telegram/notifications';
+
+// Worker process for scheduled draws and bot notifications, run next to the
+// API server with `npm run worker`. It shares the database and bot token with
+// the server, and is the only process that sends notifications.
+const config = loadConfig();
+const supabase = createServiceClient(config);
+const botApi = new BotApi(config.botToken, config.telegramApiRoot);
+const ledger = new LedgerStore(supabase);
+const lifecycle = new GameLifecycle(supabase);
+const notifications = new NotificationService(supabase);
+const refunds = new RefundService(supabase, botApi, ledger, lifecycle, notifications);
+const referrals = new ReferralService(supabase, ledger, config.referralPercent);
+const payouts = new PayoutService(supabase, new EntryStore(supabase), ledger, referrals);
+const games = new GameService(supabase, payouts, lifecycle, ledger, botApi, notifications);
+
+const stops = [
+  new DrawScheduler(supabase, games, refunds, {
+    intervalSeconds: config.schedulerIntervalSeconds
+  }).start(),
+  new NotificationSender(supabase, botApi, {
+    intervalSeconds: config.notificationIntervalSeconds
+  }).start()
+];
+
+console.log(`Draw scheduler checking every ${config.schedulerIntervalSeconds}s, notifications every ${config.notificationIntervalSeconds}s`);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    stops.forEach((stop) => stop());
+    process.exit(0);
+  });
+}
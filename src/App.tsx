@@ -1,27 +1,73 @@
-import React, { useState, useEffect } from 'react';
-import { Star, Users, Trophy, Play } from 'lucide-react';
-import { GameManager } from './lib/game-manager';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Star, Users, Trophy, Play, ArrowLeft, Minus, Plus, UserPlus, Settings, LayoutGrid, BarChart3, User, History, Shield } from 'lucide-react';
+import { createGameManager, GameServerUnavailableError, type GameManager } from './lib/game-manager';
 import { TelegramPayments } from './lib/telegram-payments';
+import { VerifyDrawPanel } from './components/VerifyDrawPanel';
+import { DemoControls } from './components/DemoControls';
+import { Lobby } from './components/Lobby';
+import { DrawCountdown } from './components/DrawCountdown';
+import { TournamentBracket } from './components/TournamentBracket';
+import { InviteFriends } from './components/InviteFriends';
+import { ChatLotteryForm } from './components/ChatLotteryForm';
+import { Leaderboard } from './components/Leaderboard';
+import { PlayerProfile } from './components/PlayerProfile';
+import { MyGames } from './components/MyGames';
+import { AdminConsole } from './components/AdminConsole';
+import { chatScope, type ChatLotterySettings, type ChatLotteryView } from './lib/chat-lotteries';
+import { DEFAULT_PRIZE_RULES, distributePrize, type PrizeRules } from './lib/prize-rules';
 import type { Game, GamePlayer } from './lib/supabase';
+import type { NotificationSettings, ReferralStats, Tournament, VerifiedUser } from './lib/types';
+import type { AdminApi } from './lib/admin-api';
+import type { DemoSession } from './lib/demo';
+import { applyGameEvent, type LiveGame } from './lib/realtime';
+import { applyLobbyGames, applyTournamentChanges, type LobbyRoom } from './lib/rooms';
+import type { TournamentView } from './lib/tournaments';
+import type { LeaderboardPeriod, Leaderboards, PlayerStats } from './lib/stats';
+import type { HistoryFilter, HistoryPage } from './lib/history';
+import { groupTicketsByPlayer, heldTickets, ticketsAvailable, totalTickets } from './lib/tickets';
 
 interface GameState {
   players: GamePlayer[];
   prizePool: number;
+  prizeRules: PrizeRules;
+  // Tickets the game sells
   maxPlayers: number;
+  maxTicketsPerPlayer: number;
+  // Price of one ticket
+  entryFee: number;
+  // Scheduled games are drawn at drawAt with at least minPlayers players
+  drawMode: Game['draw_mode'];
+  drawAt: string | null;
+  minPlayers: number | null;
+  // Room of the watched game; null for one-off games
+  roomId: string | null;
+  // Tournament of the watched game, if it is a qualifier or final
+  tournamentId: string | null;
+  // Group chat of the watched game, when the app was opened from a group
+  chatId: string | null;
+  gameStatus: Game['status'];
   gameActive: boolean;
   winner: GamePlayer | null;
+  // Every drawn place, first place first
+  winners: GamePlayer[];
+  drawnGame: Game | null;
   userStars: number;
   hasJoined: boolean;
+  // Tickets the user holds and can still buy in the watched game
+  userTickets: number;
+  ticketsAvailable: number;
   currentGameId: string | null;
   loading: boolean;
 }
 
 // Telegram Web App Mock (for development)
+const noop = () => undefined;
+
 const mockTelegram = {
   WebApp: {
-    ready: () => console.log('Telegram WebApp ready'),
-    expand: () => console.log('Telegram WebApp expanded'),
-    close: () => console.log('Telegram WebApp close'),
+    ready: noop,
+    expand: noop,
+    close: noop,
     isExpanded: false,
     viewportHeight: window.innerHeight,
     platform: 'unknown',
@@ -36,18 +82,19 @@ const mockTelegram = {
       textColor: '#000000',
       isVisible: false,
       isActive: true,
-      setText: (text: string) => console.log('MainButton text:', text),
-      show: () => console.log('MainButton shown'),
-      hide: () => console.log('MainButton hidden'),
-      onClick: (callback: () => void) => console.log('MainButton onClick set'),
-      enable: () => console.log('MainButton enabled'),
-      disable: () => console.log('MainButton disabled')
+      setText: noop,
+      show: noop,
+      hide: noop,
+      onClick: noop,
+      enable: noop,
+      disable: noop
     },
     HapticFeedback: {
-      impactOccurred: (style: string) => console.log('Haptic impact:', style),
-      notificationOccurred: (type: string) => console.log('Haptic notification:', type),
-      selectionChanged: () => console.log('Haptic selection changed')
+      impactOccurred: noop,
+      notificationOccurred: noop,
+      selectionChanged: noop
     },
+    initData: '',
     initDataUnsafe: {
       user: {
         id: 123456789,
@@ -72,7 +119,11 @@ const mockTelegram = {
         console.error('Confirm failed:', error);
         callback(false);
       }
-    }
+    },
+    openTelegramLink: (url: string) => {
+      window.open(url, '_blank');
+    },
+    switchInlineQuery: noop
   }
 };
 
@@ -127,73 +178,363 @@ function App() {
   const [gameState, setGameState] = useState<GameState>({
     players: [],
     prizePool: 0,
+    prizeRules: DEFAULT_PRIZE_RULES,
     maxPlayers: 10,
+    maxTicketsPerPlayer: 1,
+    entryFee: 1,
+    drawMode: 'fill',
+    drawAt: null,
+    minPlayers: null,
+    roomId: null,
+    tournamentId: null,
+    chatId: null,
+    gameStatus: 'waiting',
     gameActive: true,
     winner: null,
+    winners: [],
+    drawnGame: null,
     userStars: 0,
     hasJoined: false,
+    userTickets: 0,
+    ticketsAvailable: 0,
     currentGameId: null,
     loading: true
   });
 
   const [isAnimating, setIsAnimating] = useState(false);
   const [showWinner, setShowWinner] = useState(false);
-  const [gameManager] = useState(() => new GameManager());
-  const [paymentManager] = useState(() => new TelegramPayments(import.meta.env.VITE_TELEGRAM_BOT_TOKEN || ''));
+  // The next game of the watched game's room or group, once it opens
+  const [nextGameId, setNextGameId] = useState<string | null>(null);
+  const [demo, setDemo] = useState<DemoSession | null>(null);
+  const [screen, setScreen] = useState<'lobby' | 'game' | 'tournament' | 'invite' | 'chat' | 'leaderboard' | 'profile' | 'history' | 'admin'>('lobby');
+  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
+  // Set on the profile screen for configured admins
+  const [adminApi, setAdminApi] = useState<AdminApi | null>(null);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+  const [leaderboards, setLeaderboards] = useState<Leaderboards | null>(null);
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>('all');
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false);
+  const [chatLottery, setChatLottery] = useState<ChatLotteryView | null>(null);
+  const [referralStats, setReferralStats] = useState<ReferralStats | null>(null);
+  const [lobby, setLobby] = useState<LobbyRoom[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [bracket, setBracket] = useState<TournamentView | null>(null);
+  const [ticketsToBuy, setTicketsToBuy] = useState(1);
+  // Set when the game server cannot be reached; the app shows a retry screen
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [paymentManager] = useState(() => new TelegramPayments());
+  const userRef = useRef<VerifiedUser | null>(null);
+  // The watched game as last loaded or updated by realtime events
+  const liveGameRef = useRef<LiveGame | null>(null);
+  const gameManagerRef = useRef<Promise<GameManager> | null>(null);
+
+  // Pick the Supabase or demo repository once per session
+  const getGameManager = useCallback((): Promise<GameManager> => {
+    if (!gameManagerRef.current) {
+      // A failed start is not kept, so the next call tries again
+      gameManagerRef.current = createGameManager(paymentManager).catch((error) => {
+        gameManagerRef.current = null;
+        throw error;
+      });
+    }
+    return gameManagerRef.current;
+  }, [paymentManager]);
+
+  // Verify the signed initData with the backend once per session
+  const getCurrentUser = useCallback(async (): Promise<VerifiedUser> => {
+    if (!userRef.current) {
+      const gameManager = await getGameManager();
+      userRef.current = await gameManager.authenticate(tg.WebApp.initData);
+    }
+    return userRef.current;
+  }, [getGameManager]);
 
   // Initialize Telegram WebApp
   useEffect(() => {
     try {
       tg.WebApp.ready();
       tg.WebApp.expand();
-    } catch (error) {
+    } catch {
       console.log('Telegram WebApp not available, using development mode');
     }
     
-    initializeApp();
+    openHomeRef.current();
   }, []);
 
-  // Initialize app with real data
-  const initializeApp = async () => {
+  // Opened from a group, the app plays that group's lottery; otherwise the lobby
+  const openHome = async () => {
+    try {
+      const user = await getCurrentUser();
+      if (chatScope(user)) {
+        await enterChat();
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to authenticate:', error);
+    }
+
+    loadLobby();
+  };
+  // Read by the mount effect, so it opens the home screen of the latest render
+  const openHomeRef = useRef(openHome);
+  openHomeRef.current = openHome;
+
+  // Load the room list with live fill levels
+  const loadLobby = useCallback(async (showLoader: boolean = true) => {
+    try {
+      if (showLoader) {
+        setGameState(prev => ({ ...prev, loading: true }));
+      }
+
+      const gameManager = await getGameManager();
+      const user = await getCurrentUser();
+      setDemo(gameManager.demo);
+
+      const [rooms, running, balance] = await Promise.all([
+        gameManager.getLobby(),
+        gameManager.getTournaments(),
+        gameManager.getStarBalance(user)
+      ]);
+      setLobby(rooms);
+      setTournaments(running);
+      setGameState(prev => ({ ...prev, userStars: balance, loading: false }));
+    } catch (error) {
+      console.error('Failed to load lobby:', error);
+      if (error instanceof GameServerUnavailableError) {
+        setConnectionError(error.message);
+        setGameState(prev => ({ ...prev, loading: false }));
+        return;
+      }
+      tg.WebApp.showAlert(`Failed to load rooms: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+   }, [getGameManager, getCurrentUser]);
+
+  // Enter a room: watch its open game, opening the next one if needed
+  const enterRoom = async (roomId: string) => {
     try {
       setGameState(prev => ({ ...prev, loading: true }));
+      const gameManager = await getGameManager();
+      const game = await gameManager.openRoom(await getCurrentUser(), roomId);
+      setScreen('game');
+      setShowWinner(false);
+      await initializeApp(game.id);
+    } catch (error) {
+      console.error('Failed to enter room:', error);
+      tg.WebApp.showAlert(`Failed to enter room: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // Watch the group's open game, opening the next one if the last was drawn
+  const enterChat = async () => {
+    try {
+      setGameState(prev => ({ ...prev, loading: true }));
+      const gameManager = await getGameManager();
+      const user = await getCurrentUser();
+      const [game, view] = await Promise.all([
+        gameManager.openChatGame(user),
+        gameManager.getChatLottery(user)
+      ]);
+      setChatLottery(view);
+      setScreen('game');
+      setShowWinner(false);
+      await initializeApp(game.id);
+    } catch (error) {
+      console.error('Failed to open group lottery:', error);
+      tg.WebApp.showAlert(`Failed to open the group lottery: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // Group admins change the stakes of the group's next game
+  const saveChatLottery = async (settings: ChatLotterySettings) => {
+    try {
+      const gameManager = await getGameManager();
+      const lottery = await gameManager.updateChatLottery(await getCurrentUser(), settings);
+      setChatLottery(prev => prev && { ...prev, lottery });
+      tg.WebApp.showAlert('Saved. The new stakes apply from the next game.');
+    } catch (error) {
+      console.error('Failed to save group lottery:', error);
+      tg.WebApp.showAlert(`Failed to save: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Show a tournament's bracket; refreshes in place when already shown
+  const openTournament = useCallback(async (tournamentId: string, showLoader: boolean = true) => {
+    try {
+      if (showLoader) {
+        setGameState(prev => ({ ...prev, loading: true }));
+      }
+
+      const gameManager = await getGameManager();
+      const view = await gameManager.getTournamentBracket(tournamentId);
+      if (!view) {
+        throw new Error('Tournament not found');
+      }
+
+      setBracket(view);
+      setScreen('tournament');
+      setShowWinner(false);
+      setGameState(prev => ({ ...prev, currentGameId: null, loading: false }));
+    } catch (error) {
+      console.error('Failed to load tournament:', error);
+      tg.WebApp.showAlert(`Failed to load tournament: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+   }, [getGameManager]);
+
+  // Show the user's referral link and what it has earned
+  const openInvite = async () => {
+    try {
+      setGameState(prev => ({ ...prev, loading: true }));
+      const gameManager = await getGameManager();
+      setReferralStats(await gameManager.getReferralStats(await getCurrentUser()));
+      setScreen('invite');
+      setGameState(prev => ({ ...prev, loading: false }));
+    } catch (error) {
+      console.error('Failed to load referrals:', error);
+      tg.WebApp.showAlert(`Failed to load your invites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // The user's lifetime statistics, bot notification setting, and the way into
+  // the admin console for admins
+  const openProfile = async () => {
+    try {
+      setGameState(prev => ({ ...prev, loading: true }));
+      const gameManager = await getGameManager();
+      const user = await getCurrentUser();
+      const [stats, notifications, admin] = await Promise.all([
+        gameManager.getPlayerStats(user),
+        gameManager.getNotificationSettings(user),
+        gameManager.getAdminApi(user)
+      ]);
+      setPlayerStats(stats);
+      setNotificationSettings(notifications);
+      setAdminApi(admin);
+      setScreen('profile');
+      setGameState(prev => ({ ...prev, loading: false }));
+    } catch (error) {
+      console.error('Failed to load stats:', error);
+      tg.WebApp.showAlert(`Failed to load your stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    try {
+      const gameManager = await getGameManager();
+      setNotificationSettings(await gameManager.updateNotificationSettings(await getCurrentUser(), { enabled }));
+    } catch (error) {
+      console.error('Failed to save notification settings:', error);
+      tg.WebApp.showAlert(`Failed to save: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Leaderboards of a period; switching periods updates in place
+  const openLeaderboard = async (period: LeaderboardPeriod = 'daily') => {
+    try {
+      if (screen !== 'leaderboard') {
+        setGameState(prev => ({ ...prev, loading: true }));
+      }
+      const gameManager = await getGameManager();
+      setLeaderboards(await gameManager.getLeaderboards(await getCurrentUser(), period));
+      setScreen('leaderboard');
+      setGameState(prev => ({ ...prev, loading: false }));
+    } catch (error) {
+      console.error('Failed to load leaderboards:', error);
+      tg.WebApp.showAlert(`Failed to load leaderboards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // The first page of the user's past games with the given filter
+  const openHistory = async (filter: HistoryFilter = 'all') => {
+    try {
+      if (screen !== 'history') {
+        setGameState(prev => ({ ...prev, loading: true }));
+      }
+      const gameManager = await getGameManager();
+      setHistory(await gameManager.getHistory(await getCurrentUser(), filter));
+      setHistoryFilter(filter);
+      setScreen('history');
+      setShowWinner(false);
+      setGameState(prev => ({ ...prev, currentGameId: null, loading: false }));
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      tg.WebApp.showAlert(`Failed to load your games: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGameState(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  const loadMoreHistory = async () => {
+    if (!history?.next_cursor) return;
+
+    setLoadingMoreHistory(true);
+    try {
+      const gameManager = await getGameManager();
+      const next = await gameManager.getHistory(await getCurrentUser(), historyFilter, history.next_cursor);
+      setHistory(prev => ({ items: [...(prev?.items ?? []), ...next.items], next_cursor: next.next_cursor }));
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      tg.WebApp.showAlert(`Failed to load more games: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoadingMoreHistory(false);
+    }
+  };
+
+  const shareInviteLink = (url: string, text: string) => {
+    tg.WebApp.openTelegramLink(`https://t.me/share/url?url=${encodeURIComponent(url)}&text=${encodeURIComponent(text)}`);
+  };
+
+  const sendInviteToChat = (query: string) => {
+    tg.WebApp.switchInlineQuery(query, ['users', 'groups']);
+  };
+
+  // Watch one of the bracket's games
+  const enterTournamentGame = async (gameId: string) => {
+    setGameState(prev => ({ ...prev, loading: true }));
+    setScreen('game');
+    await initializeApp(gameId);
+  };
+
+  const backToLobby = () => {
+    setScreen('lobby');
+    setShowWinner(false);
+    setBracket(null);
+    setGameState(prev => ({ ...prev, currentGameId: null }));
+    loadLobby();
+  };
+
+  // Initialize app with real data. `gameId` keeps the watched game on screen
+  // through its draw; without it the current open game is loaded.
+  const initializeApp = async (gameId: string | null = null) => {
+    try {
+      // Refreshes of the watched game update in place instead of showing the loader
+      if (!gameId) {
+        setGameState(prev => ({ ...prev, loading: true }));
+      }
       
-      const user = getCurrentUser();
-      
-      // Get user's real star balance from Telegram
-      const balance = await paymentManager.getRealStarBalance(user.id);
+      const gameManager = await getGameManager();
+      const user = await getCurrentUser();
+      setDemo(gameManager.demo);
       
-      // Get or create current game
-      let currentGame = await gameManager.getCurrentGame();
+      // Get user's star balance (Telegram, or the demo wallet)
+      const balance = await gameManager.getStarBalance(user);
       
+      // Get the watched game, or the current open one
+      let currentGame = gameId ? await gameManager.getGame(gameId) : null;
+
       if (!currentGame) {
-        // Create a new game if none exists
-        const gameId = await gameManager.createGame();
         currentGame = await gameManager.getCurrentGame();
       }
       
       if (currentGame) {
         const players = await gameManager.getGamePlayers(currentGame.id);
-        const hasJoined = players.some(p => p.telegram_user_id === user.id.toString());
-        
-        setGameState(prev => ({
-          ...prev,
-          currentGameId: currentGame!.id,
-          players,
-          prizePool: currentGame!.prize_pool,
-          maxPlayers: currentGame!.max_players,
-          gameActive: currentGame!.status === 'waiting',
-          userStars: balance,
-          hasJoined,
-          loading: false
-        }));
-
-        // Check if game is full and needs winner selection
-        if (currentGame.status === 'full' && !currentGame.winner_id) {
-          const winner = await gameManager.selectWinner(currentGame.id, paymentManager);
-          setGameState(prev => ({ ...prev, winner, gameActive: false }));
-          setShowWinner(true);
-        }
+        showGame(gameManager, user, { game: currentGame, players }, balance);
       }
     } catch (error) {
       console.error('Failed to initialize app:', error);
@@ -202,38 +543,131 @@ function App() {
     }
   };
 
-  // Real-time updates
+  // Put the watched game on screen; `balance` is passed when it was reloaded
+  const showGame = (gameManager: GameManager, user: VerifiedUser, live: LiveGame, balance?: number) => {
+    const { game, players } = live;
+    const userTickets = heldTickets(players, user.id.toString());
+    const winners = gameManager.getWinners(game, players);
+    const winner = winners[0] || null;
+
+    liveGameRef.current = live;
+    setGameState(prev => ({
+      ...prev,
+      currentGameId: game.id,
+      players,
+      prizePool: game.prize_pool,
+      prizeRules: game.prize_rules,
+      maxPlayers: game.max_players,
+      maxTicketsPerPlayer: game.max_tickets_per_player,
+      entryFee: game.entry_fee,
+      drawMode: game.draw_mode,
+      drawAt: game.draw_at ?? null,
+      minPlayers: game.min_players ?? null,
+      roomId: game.room_id ?? null,
+      tournamentId: game.tournament_id ?? null,
+      chatId: game.chat_id ?? null,
+      gameStatus: game.status,
+      gameActive: game.status === 'waiting',
+      winner,
+      winners,
+      drawnGame: winner ? game : null,
+      userStars: balance ?? prev.userStars,
+      hasJoined: userTickets > 0,
+      userTickets,
+      ticketsAvailable: ticketsAvailable(game, players, user.id.toString()),
+      loading: false
+    }));
+    setShowWinner(!!winner);
+  };
+
+  // Live fill levels while the lobby or a bracket is shown
   useEffect(() => {
-    if (!gameState.currentGameId) return;
+    if (screen !== 'lobby' && screen !== 'tournament') return;
+
+    const tournamentId = screen === 'tournament' ? bracket?.tournament.id : null;
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getGameManager().then((gameManager) => {
+      if (cancelled) return;
+      unsubscribe = gameManager.subscribeToLobbyUpdates((update) => {
+        if (tournamentId) {
+          const changed = !update.games
+            || update.tournaments.some((tournament) => tournament.id === tournamentId)
+            || update.games.some(({ game }) => game.tournament_id === tournamentId);
+          if (changed) {
+            openTournament(tournamentId, false);
+          }
+          return;
+        }
 
-    const unsubscribe = gameManager.subscribeToGameUpdates(gameState.currentGameId, async () => {
-      // Refresh game data
-      await initializeApp();
+        const { games } = update;
+        if (!games) {
+          loadLobby(false);
+          return;
+        }
+        setLobby(prev => applyLobbyGames(prev, games));
+        setTournaments(prev => applyTournamentChanges(prev, update.tournaments));
+      });
     });
 
     return () => {
-      unsubscribe();
-    };
-  }, [gameState.currentGameId]);
-  
-  const getCurrentUser = () => {
-    const user = tg.WebApp.initDataUnsafe?.user;
-    return {
-      id: user?.id || Math.floor(Math.random() * 1000000),
-      name: user ? `${user.first_name} ${user.last_name || ''}`.trim() : `Player ${Math.floor(Math.random() * 1000)}`
+      cancelled = true;
+      unsubscribe?.();
     };
-  };
+  }, [screen, bracket?.tournament.id, getGameManager, loadLobby, openTournament]);
+
+  // Apply realtime events to the watched game in place. The balance is
+  // reloaded when the game is drawn or refunded.
+  useEffect(() => {
+    const watched = liveGameRef.current?.game;
+    if (!gameState.currentGameId || watched?.id !== gameState.currentGameId) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    setNextGameId(null);
+
+    getGameManager().then((gameManager) => {
+      if (cancelled) return;
+      unsubscribe = gameManager.subscribeToGameUpdates(watched, (event) => {
+        const live = liveGameRef.current;
+        const user = userRef.current;
+        if (event.type === 'game_created') {
+          setNextGameId(event.game.id);
+          return;
+        }
+        if (!live || !user) return;
+
+        const next = applyGameEvent(live, event);
+        if (next === live) return;
+
+        showGame(gameManager, user, next);
+        if (next.game.status !== live.game.status && ['completed', 'refunding', 'cancelled'].includes(next.game.status)) {
+          gameManager.getStarBalance(user)
+            .then((balance) => setGameState(prev => ({ ...prev, userStars: balance })))
+            .catch((error) => console.warn('Failed to reload balance:', error));
+        }
+      });
+    });
 
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [gameState.currentGameId, getGameManager]);
+  
   const joinGame = async () => {
     if (gameState.loading || !gameState.currentGameId) return;
     
-    if (gameState.userStars < 1) {
-      tg.WebApp.showAlert('You need at least 1 star to join the game!');
+    const tickets = Math.min(ticketsToBuy, gameState.ticketsAvailable);
+
+    if (tickets < 1) {
+      tg.WebApp.showAlert('You already hold every ticket you can buy in this game!');
       return;
     }
 
-    if (gameState.hasJoined) {
-      tg.WebApp.showAlert('You have already joined this game!');
+    if (gameState.userStars < gameState.entryFee * tickets) {
+      tg.WebApp.showAlert(`You need at least ${gameState.entryFee * tickets} stars for ${tickets} ticket${tickets === 1 ? '' : 's'}!`);
       return;
     }
 
@@ -241,17 +675,14 @@ function App() {
     setGameState(prev => ({ ...prev, loading: true }));
 
     try {
-      const user = getCurrentUser();
+      const user = await getCurrentUser();
       
-      await gameManager.joinGame(gameState.currentGameId, {
-        id: user.id,
-        first_name: user.name.split(' ')[0],
-        last_name: user.name.split(' ').slice(1).join(' ') || undefined,
-        username: `user${user.id}`
-      }, paymentManager);
+      const gameManager = await getGameManager();
+      await gameManager.joinGame(gameState.currentGameId, user, tickets);
       
       // Refresh game state
-      await initializeApp();
+      await initializeApp(gameState.currentGameId);
+      setTicketsToBuy(1);
       setIsAnimating(false);
     } catch (error) {
       console.error('Failed to join game:', error);
@@ -262,26 +693,58 @@ function App() {
   };
 
   const resetGame = () => {
+    // Tournament games are not replayed; their next step is on the bracket
+    if (gameState.tournamentId) {
+      openTournament(gameState.tournamentId);
+      return;
+    }
+    // One-off games are created by admins; players pick a room instead
+    if (!gameState.chatId && !gameState.roomId) {
+      backToLobby();
+      return;
+    }
+
+    // The room's or group's next game is already open
+    if (nextGameId) {
+      setShowWinner(false);
+      setGameState(prev => ({ ...prev, loading: true }));
+      initializeApp(nextGameId);
+      return;
+    }
+
     tg.WebApp.showConfirm('Start a new game?', (confirmed) => {
-      if (confirmed) {
-        createNewGame();
+      if (!confirmed) return;
+
+      if (gameState.chatId) {
+        enterChat();
+      } else if (gameState.roomId) {
+        enterRoom(gameState.roomId);
       }
     });
   };
 
-  const createNewGame = async () => {
-    try {
-      setGameState(prev => ({ ...prev, loading: true }));
-      await gameManager.createGame();
-      await initializeApp();
-      setShowWinner(false);
-    } catch (error) {
-      console.error('Failed to create new game:', error);
-      tg.WebApp.showAlert('Failed to create new game');
-      setGameState(prev => ({ ...prev, loading: false }));
-    }
+  const retryConnection = () => {
+    setConnectionError(null);
+    openHome();
   };
 
+  if (connectionError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-600 via-purple-700 to-purple-800 text-white flex items-center justify-center p-4">
+        <div className="text-center max-w-sm">
+          <p className="text-lg font-semibold mb-2">The game server is not responding</p>
+          <p className="text-purple-200 text-sm mb-6">{connectionError}</p>
+          <button
+            onClick={retryConnection}
+            className="bg-yellow-400 text-purple-800 font-bold py-3 px-8 rounded-2xl hover:bg-yellow-300"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show loading state
   if (gameState.loading) {
     return (
@@ -294,7 +757,10 @@ function App() {
     );
   }
 
-  const progress = (gameState.players.length / gameState.maxPlayers) * 100;
+  const ticketsSold = totalTickets(gameState.players);
+  const progress = (ticketsSold / gameState.maxPlayers) * 100;
+  const ticketsChosen = Math.max(1, Math.min(ticketsToBuy, gameState.ticketsAvailable));
+  const price = gameState.entryFee * ticketsChosen;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-600 via-purple-700 to-purple-800 text-white relative overflow-hidden">
@@ -319,18 +785,185 @@ function App() {
           <p className="text-purple-200 text-lg">Win big with Telegram Stars!</p>
         </div>
 
-        {/* Game Card */}
+        {(screen === 'lobby' || screen === 'leaderboard' || screen === 'profile' || screen === 'history') && (
+          <div className="w-full max-w-md mb-4 grid grid-cols-4 gap-1 bg-black/20 rounded-2xl p-1 border border-white/10 text-sm">
+            {([
+              { tab: 'lobby', label: 'Rooms', icon: LayoutGrid, open: backToLobby },
+              { tab: 'leaderboard', label: 'Leaders', icon: BarChart3, open: () => openLeaderboard() },
+              { tab: 'history', label: 'My games', icon: History, open: () => openHistory() },
+              { tab: 'profile', label: 'Profile', icon: User, open: openProfile }
+            ] as const).map(({ tab, label, icon: Icon, open }) => (
+              <button
+                key={tab}
+                onClick={() => screen !== tab && open()}
+                className={`flex items-center justify-center py-2 rounded-xl ${screen === tab ? 'bg-white/15 text-white font-medium' : 'text-purple-200 hover:text-white'}`}
+              >
+                <Icon className="w-4 h-4 mr-1" />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {screen === 'leaderboard' && leaderboards && userRef.current ? (
+          <div className="w-full max-w-md bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+            <Leaderboard
+              leaderboards={leaderboards}
+              userId={userRef.current.id.toString()}
+              onChangePeriod={openLeaderboard}
+            />
+          </div>
+        ) : screen === 'history' && history ? (
+          <div className="w-full max-w-md bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+            <MyGames
+              items={history.items}
+              filter={historyFilter}
+              hasMore={!!history.next_cursor}
+              loadingMore={loadingMoreHistory}
+              onChangeFilter={openHistory}
+              onLoadMore={loadMoreHistory}
+            />
+          </div>
+        ) : screen === 'profile' && playerStats && userRef.current ? (
+          <div className="w-full max-w-md bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+            <PlayerProfile
+              name={userRef.current.first_name}
+              stats={playerStats}
+              userStars={gameState.userStars}
+              notifications={notificationSettings}
+              onToggleNotifications={toggleNotifications}
+            />
+            {adminApi && (
+              <button
+                onClick={() => setScreen('admin')}
+                className="mt-4 w-full flex items-center justify-center py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm"
+              >
+                <Shield className="w-4 h-4 mr-2 text-yellow-400" />
+                Admin console
+              </button>
+            )}
+          </div>
+        ) : screen === 'admin' && adminApi ? (
+          <div className="w-full max-w-md">
+            <button
+              onClick={() => setScreen('profile')}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Profile
+            </button>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+              <AdminConsole api={adminApi} />
+            </div>
+          </div>
+        ) : screen === 'lobby' ? (
+          <div className="w-full max-w-md">
+            <Lobby
+              rooms={lobby}
+              tournaments={tournaments}
+              userStars={gameState.userStars}
+              onSelectRoom={enterRoom}
+              onSelectTournament={openTournament}
+            />
+
+            <div className="mt-4 flex items-center justify-center space-x-2">
+              <div className="inline-flex items-center bg-white/10 backdrop-blur-lg rounded-full px-4 py-2 border border-white/20">
+                <Star className="w-4 h-4 text-yellow-400 fill-current mr-2" />
+                <span className="text-white font-medium">Your Stars: {gameState.userStars}</span>
+              </div>
+              <button
+                onClick={openInvite}
+                className="inline-flex items-center bg-white/10 backdrop-blur-lg rounded-full px-4 py-2 border border-white/20 hover:bg-white/20 text-white font-medium"
+              >
+                <UserPlus className="w-4 h-4 mr-2 text-yellow-400" />
+                Invite friends
+              </button>
+            </div>
+
+            {demo && <DemoControls demo={demo} />}
+          </div>
+        ) : screen === 'invite' && referralStats && userRef.current ? (
+          <div className="w-full max-w-md">
+            <button
+              onClick={backToLobby}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              All rooms
+            </button>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+              <InviteFriends
+                userId={userRef.current.id}
+                stats={referralStats}
+                onShareLink={shareInviteLink}
+                onSendToChat={sendInviteToChat}
+              />
+            </div>
+          </div>
+        ) : screen === 'chat' && chatLottery ? (
+          <div className="w-full max-w-md">
+            <button
+              onClick={() => setScreen('game')}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to the game
+            </button>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+              <ChatLotteryForm view={chatLottery} onSave={saveChatLottery} />
+            </div>
+          </div>
+        ) : screen === 'tournament' && bracket ? (
+          <div className="w-full max-w-md">
+            <button
+              onClick={backToLobby}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              All rooms
+            </button>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
+              <TournamentBracket bracket={bracket} onSelectGame={enterTournamentGame} />
+            </div>
+
+            {demo && <DemoControls demo={demo} />}
+          </div>
+        ) : (
+        /* Game Card */
         <div className="w-full max-w-md">
+          {gameState.chatId ? (
+            // Group games have no lobby to go back to
+            <button
+              onClick={() => setScreen('chat')}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <Settings className="w-4 h-4 mr-1" />
+              {chatLottery?.lottery.title || 'Group lottery'}
+            </button>
+          ) : (
+            <button
+              onClick={() => gameState.tournamentId ? openTournament(gameState.tournamentId) : backToLobby()}
+              className="mb-3 flex items-center text-purple-200 hover:text-white text-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              {gameState.tournamentId ? 'Bracket' : 'All rooms'}
+            </button>
+          )}
+
           <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 shadow-2xl border border-white/20">
             {/* Stats Row */}
             <div className="flex justify-between items-center mb-6">
               <div className="text-center">
                 <div className="flex items-center justify-center mb-2">
                   <Users className="w-5 h-5 text-purple-300 mr-2" />
-                  <span className="text-purple-300 font-medium">Players</span>
+                  <span className="text-purple-300 font-medium">Tickets</span>
                 </div>
                 <div className={`text-2xl font-bold transition-all duration-500 ${isAnimating ? 'scale-125 text-yellow-400' : 'text-cyan-400'}`}>
-                  {gameState.players.length}/{gameState.maxPlayers}
+                  {ticketsSold}/{gameState.maxPlayers}
                 </div>
               </div>
               
@@ -343,15 +976,31 @@ function App() {
                   <Star className="w-5 h-5 mr-1 fill-current" />
                   {gameState.prizePool}
                 </div>
+                <div className="text-purple-300 text-xs mt-1">
+                  {gameState.prizeRules.winners > 1
+                    ? `${gameState.prizeRules.tiers.join('/')}% to top ${gameState.prizeRules.winners}`
+                    : `${gameState.prizeRules.tiers[0]}% to the winner`}
+                  {!!gameState.prizeRules.carry_percent && ` · ${gameState.prizeRules.carry_percent}% to the final`}
+                </div>
               </div>
             </div>
 
             {/* Progress Bar */}
             <div className="mb-6">
               <div className="flex justify-between items-center mb-2">
-                <span className="text-purple-200 text-sm">Progress to draw</span>
+                <span className="text-purple-200 text-sm">
+                  {gameState.drawMode === 'scheduled' ? 'Tickets sold' : 'Progress to draw'}
+                </span>
                 <span className="text-purple-200 text-sm font-medium">{Math.round(progress)}%</span>
               </div>
+              {gameState.drawMode === 'scheduled' && gameState.drawAt && gameState.gameActive && (
+                <div className="mt-2 flex justify-between items-center text-sm">
+                  <DrawCountdown game={{ draw_mode: gameState.drawMode, draw_at: gameState.drawAt }} className="text-yellow-300 font-medium" />
+                  {gameState.minPlayers && (
+                    <span className="text-purple-300">Needs {gameState.minPlayers} players</span>
+                  )}
+                </div>
+              )}
               <div className="w-full bg-purple-800/50 rounded-full h-3 overflow-hidden">
                 <div 
                   className="h-full bg-gradient-to-r from-yellow-400 to-yellow-500 rounded-full transition-all duration-1000 ease-out shadow-lg"
@@ -367,49 +1016,114 @@ function App() {
               <div className="mb-6 p-4 bg-gradient-to-r from-yellow-400/20 to-yellow-500/20 rounded-2xl border border-yellow-400/30 animate-pulse">
                 <div className="text-center">
                   <div className="text-2xl mb-2">🎉</div>
-                  <div className="text-yellow-300 font-bold text-lg">Winner!</div>
-                  <div className="text-white font-medium">{gameState.winner.telegram_first_name}</div>
-                  <div className="text-yellow-400 text-sm mt-1">
-                    <Star className="w-4 h-4 inline mr-1 fill-current" />
-                    {Math.floor(gameState.prizePool * 0.7)} stars
-                  </div>
+                  <div className="text-yellow-300 font-bold text-lg">{gameState.winners.length > 1 ? 'Winners!' : 'Winner!'}</div>
+                  {gameState.winners.map((player, place) => (
+                    <div key={player.id} className="mt-1">
+                      <div className="text-white font-medium">
+                        {gameState.winners.length > 1 && `#${place + 1} `}{player.telegram_first_name}
+                      </div>
+                      <div className="text-yellow-400 text-sm">
+                        <Star className="w-4 h-4 inline mr-1 fill-current" />
+                        {distributePrize(gameState.prizeRules, gameState.prizePool, gameState.winners.length).prizes[place]} stars
+                      </div>
+                    </div>
+                  ))}
+                  {gameState.drawnGame && (
+                    <VerifyDrawPanel game={gameState.drawnGame} players={gameState.players} />
+                  )}
+                  {gameState.hasJoined && (
+                    <button
+                      onClick={() => openHistory()}
+                      className="mt-3 ml-3 text-xs text-purple-200 underline underline-offset-2 hover:text-white"
+                    >
+                      My games
+                    </button>
+                  )}
                 </div>
               </div>
             )}
 
+            {(gameState.gameStatus === 'refunding' || gameState.gameStatus === 'cancelled') && (
+              <div className="mb-4 text-center text-purple-200 text-sm">
+                {gameState.gameStatus === 'refunding'
+                  ? 'This game was cancelled. Entry fees are being refunded.'
+                  : 'This game was cancelled and every entry was refunded.'}
+              </div>
+            )}
+
             {/* Action Button */}
-            {gameState.gameActive ? (
+            {gameState.gameStatus === 'full' && gameState.drawMode === 'scheduled' && gameState.drawAt ? (
+              <div className="w-full py-4 px-6 rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center space-x-2 bg-white/10 text-yellow-300">
+                <span>Sold out ·</span>
+                <DrawCountdown game={{ draw_mode: gameState.drawMode, draw_at: gameState.drawAt }} />
+              </div>
+            ) : gameState.gameStatus === 'full' || gameState.gameStatus === 'drawing' ? (
+              <div className="w-full py-4 px-6 rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center space-x-2 bg-white/10 text-yellow-300">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-yellow-400"></div>
+                <span>Drawing winner...</span>
+              </div>
+            ) : gameState.gameActive ? (
+              <>
+              {/* Ticket Picker */}
+              {gameState.maxTicketsPerPlayer > 1 && gameState.ticketsAvailable > 0 && (
+                <div className="mb-3 flex items-center justify-between text-purple-200 text-sm">
+                  <span>
+                    Tickets{gameState.userTickets > 0 && ` (you hold ${gameState.userTickets})`}
+                  </span>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => setTicketsToBuy(ticketsChosen - 1)}
+                      disabled={ticketsChosen <= 1}
+                      className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                    >
+                      <Minus className="w-4 h-4" />
+                    </button>
+                    <span className="text-white font-bold w-4 text-center">{ticketsChosen}</span>
+                    <button
+                      onClick={() => setTicketsToBuy(ticketsChosen + 1)}
+                      disabled={ticketsChosen >= gameState.ticketsAvailable}
+                      className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <button
                 onClick={joinGame}
-                disabled={gameState.hasJoined || gameState.players.length >= gameState.maxPlayers || gameState.userStars < 1 || gameState.loading}
+                disabled={gameState.ticketsAvailable === 0 || gameState.userStars < price || gameState.loading}
                 className={`w-full py-4 px-6 rounded-2xl font-bold text-lg transition-all duration-300 shadow-lg flex items-center justify-center space-x-2 ${
-                  gameState.hasJoined 
+                  gameState.hasJoined && gameState.ticketsAvailable === 0
                     ? 'bg-gray-500 cursor-not-allowed' 
-                    : gameState.players.length >= gameState.maxPlayers
+                    : ticketsSold >= gameState.maxPlayers
                     ? 'bg-red-500 cursor-not-allowed'
-                    : gameState.userStars < 1
+                    : gameState.userStars < price
                     ? 'bg-gray-500 cursor-not-allowed'
                     : 'bg-gradient-to-r from-yellow-400 to-yellow-500 hover:from-yellow-500 hover:to-yellow-600 transform hover:scale-105 active:scale-95'
                 } text-purple-800`}
               >
                 <Star className="w-5 h-5 fill-current" />
                 <span>
-                  {gameState.hasJoined 
+                  {gameState.hasJoined && gameState.ticketsAvailable === 0
                     ? 'Already Joined' 
-                    : gameState.players.length >= gameState.maxPlayers
+                    : ticketsSold >= gameState.maxPlayers
                     ? 'Game Full'
-                    : gameState.userStars < 1
-                    ? 'Need 1 Star'
-                    : 'Join Game (1 ⭐)'}
+                    : gameState.userStars < price
+                    ? `Need ${price} Stars`
+                    : gameState.maxTicketsPerPlayer > 1
+                    ? `Buy ${ticketsChosen} Ticket${ticketsChosen === 1 ? '' : 's'} (${price} ⭐)`
+                    : `Join Game (${price} ⭐)`}
                 </span>
               </button>
+              </>
             ) : (
               <button
                 onClick={resetGame}
                 className="w-full py-4 px-6 rounded-2xl font-bold text-lg transition-all duration-300 shadow-lg flex items-center justify-center space-x-2 bg-gradient-to-r from-green-400 to-green-500 hover:from-green-500 hover:to-green-600 transform hover:scale-105 active:scale-95 text-white"
               >
                 <Play className="w-5 h-5" />
-                <span>New Game</span>
+                <span>{gameState.tournamentId ? 'Back to Bracket' : nextGameId ? 'Next Game' : gameState.chatId || gameState.roomId ? 'New Game' : 'All rooms'}</span>
               </button>
             )}
           </div>
@@ -427,20 +1141,26 @@ function App() {
             <div className="mt-6">
               <h3 className="text-center text-purple-200 font-medium mb-3">Current Players</h3>
               <div className="space-y-2 max-h-32 overflow-y-auto">
-                {gameState.players.map((player, index) => (
+                {groupTicketsByPlayer(gameState.players).map((player, index) => (
                   <div key={player.id} className="bg-white/5 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
                     <div className="flex items-center justify-between">
                       <span className="text-white text-sm font-medium">
                         {index + 1}. {player.telegram_first_name}
                       </span>
-                      <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                      <span className="flex items-center text-yellow-400 text-sm font-medium">
+                        {player.tickets > 1 && <span className="mr-1">×{player.tickets}</span>}
+                        <Star className="w-4 h-4 fill-current" />
+                      </span>
                     </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
+
+          {demo && <DemoControls demo={demo} />}
         </div>
+        )}
       </div>
     </div>
   );
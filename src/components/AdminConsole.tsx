@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, Coins, Dices, History, Plus, RotateCcw, Save, Shield } from 'lucide-react';
+import type { AdminAuditEntry, HouseRevenue } from '../lib/admin';
+import type { AdminApi } from '../lib/admin-api';
+import type { RoomTemplate } from '../lib/types';
+
+interface AdminConsoleProps {
+  api: AdminApi;
+}
+
+const inputClass = 'bg-black/20 rounded-lg px-2 py-1 border border-white/10 text-white';
+const buttonClass = 'flex items-center justify-center px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs disabled:opacity-60';
+
+// Operator tools: house revenue, actions on a game by id, new games, room
+// stakes and the audit log of everything done here
+export function AdminConsole({ api }: AdminConsoleProps) {
+  const [revenue, setRevenue] = useState<HouseRevenue | null>(null);
+  const [rooms, setRooms] = useState<RoomTemplate[]>([]);
+  const [audit, setAudit] = useState<AdminAuditEntry[]>([]);
+  const [gameId, setGameId] = useState('');
+  const [entryFee, setEntryFee] = useState(1);
+  const [maxPlayers, setMaxPlayers] = useState(10);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [nextRevenue, nextRooms, nextAudit] = await Promise.all([
+      api.getRevenue(),
+      api.getRooms(),
+      api.getAuditLog(20)
+    ]);
+    setRevenue(nextRevenue);
+    setRooms(nextRooms);
+    setAudit(nextAudit);
+  }, [api]);
+
+  useEffect(() => {
+    refresh().catch((error) => setStatus({ ok: false, message: error instanceof Error ? error.message : 'Failed to load' }));
+  }, [refresh]);
+
+  // Run an action, report how it went and reload; the action is in the audit log either way
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setStatus({ ok: true, message: await action() });
+    } catch (error) {
+      setStatus({ ok: false, message: error instanceof Error ? error.message : 'Action failed' });
+    } finally {
+      await refresh().catch(() => undefined);
+      setBusy(false);
+    }
+  };
+
+  const id = gameId.trim();
+
+  return (
+    <div className="space-y-5 text-sm">
+      <div className="flex items-center justify-center text-white font-bold text-xl">
+        <Shield className="w-5 h-5 mr-2 text-purple-300" />
+        Admin console
+      </div>
+
+      {status && (
+        <div className={`rounded-lg px-3 py-2 text-xs ${status.ok ? 'bg-green-500/20 text-green-200' : 'bg-red-500/20 text-red-200'}`}>
+          {status.message}
+        </div>
+      )}
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between text-purple-200">
+          <span className="flex items-center"><Coins className="w-4 h-4 mr-1" />House revenue, 30 days</span>
+          <span className="text-yellow-300 font-bold">{revenue?.total ?? 0}⭐</span>
+        </div>
+        {revenue?.days.slice(0, 7).map((day) => (
+          <div key={day.day} className="flex justify-between text-xs text-purple-300">
+            <span>{day.day}</span>
+            <span>{day.commission}⭐ − {day.referral_rewards}⭐ referrals = <span className="text-white">{day.net}⭐</span></span>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-2">
+        <div className="text-purple-200">Game</div>
+        <input
+          value={gameId}
+          onChange={(event) => setGameId(event.target.value)}
+          placeholder="Game id"
+          className={`w-full ${inputClass}`}
+        />
+        <div className="grid grid-cols-3 gap-2">
+          <button disabled={busy || !id} className={buttonClass} onClick={() => run(async () => {
+            const game = await api.forceDraw(id);
+            return `Game is ${game.status}`;
+          })}>
+            <Dices className="w-3 h-3 mr-1" />Draw
+          </button>
+          <button disabled={busy || !id} className={buttonClass} onClick={() => run(async () => {
+            const refunded = await api.cancelGame(id);
+            return `Cancelled, ${refunded} entries refunded`;
+          })}>
+            <Ban className="w-3 h-3 mr-1" />Cancel
+          </button>
+          <button disabled={busy || !id} className={buttonClass} onClick={() => run(async () => {
+            const refunded = await api.refund(id);
+            return `${refunded} entries refunded`;
+          })}>
+            <RotateCcw className="w-3 h-3 mr-1" />Refunds
+          </button>
+        </div>
+        <button disabled={busy} className={`w-full ${buttonClass}`} onClick={() => run(async () => {
+          const refunded = await api.refund();
+          return `${refunded} outstanding entries refunded`;
+        })}>
+          <RotateCcw className="w-3 h-3 mr-1" />Refund everything still owed
+        </button>
+      </section>
+
+      <section className="space-y-2">
+        <div className="text-purple-200">New one-off game</div>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center text-xs text-purple-300">
+            Price
+            <input type="number" min={1} value={entryFee} onChange={(event) => setEntryFee(Math.max(1, parseInt(event.target.value, 10) || 1))} className={`w-16 ml-1 ${inputClass}`} />
+          </label>
+          <label className="flex items-center text-xs text-purple-300">
+            Tickets
+            <input type="number" min={2} value={maxPlayers} onChange={(event) => setMaxPlayers(Math.max(2, parseInt(event.target.value, 10) || 2))} className={`w-16 ml-1 ${inputClass}`} />
+          </label>
+          <button disabled={busy} className={buttonClass} onClick={() => run(async () => {
+            const game = await api.createGame({ entry_fee: entryFee, max_players: maxPlayers });
+            setGameId(game.id);
+            return `Created game ${game.id}`;
+          })}>
+            <Plus className="w-3 h-3 mr-1" />Create
+          </button>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <div className="text-purple-200">Rooms</div>
+        {rooms.map((room) => (
+          <RoomEditor key={room.id} room={room} busy={busy} onSave={(changes) => run(async () => {
+            const saved = await api.saveRoom(room.id, changes);
+            return `Saved ${saved.name}; open games keep their stakes`;
+          })} />
+        ))}
+      </section>
+
+      <section className="space-y-1">
+        <div className="flex items-center text-purple-200"><History className="w-4 h-4 mr-1" />Audit log</div>
+        {audit.map((entry) => (
+          <div key={entry.id} className="flex justify-between text-xs">
+            <span className="text-purple-300">{new Date(entry.created_at).toLocaleString()} · {entry.admin_id}</span>
+            <span className={entry.result === 'ok' ? 'text-white' : 'text-red-300'} title={entry.error}>
+              {entry.action}{entry.target ? ` ${entry.target.slice(0, 8)}` : ''}
+            </span>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
+
+interface RoomEditorProps {
+  room: RoomTemplate;
+  busy: boolean;
+  onSave: (changes: Pick<RoomTemplate, 'entry_fee' | 'max_players' | 'active'>) => void;
+}
+
+// A room's stakes and whether new games are opened in it
+function RoomEditor({ room, busy, onSave }: RoomEditorProps) {
+  const [entryFee, setEntryFee] = useState(room.entry_fee);
+  const [maxPlayers, setMaxPlayers] = useState(room.max_players);
+  const [active, setActive] = useState(room.active);
+
+  return (
+    <div className="flex items-center justify-between space-x-2 bg-white/5 rounded-xl px-3 py-2 border border-white/10">
+      <span className="text-white text-xs flex-1 truncate">{room.name}</span>
+      <input type="number" min={1} value={entryFee} onChange={(event) => setEntryFee(Math.max(1, parseInt(event.target.value, 10) || 1))} className={`w-14 ${inputClass}`} />
+      <input type="number" min={2} value={maxPlayers} onChange={(event) => setMaxPlayers(Math.max(2, parseInt(event.target.value, 10) || 2))} className={`w-14 ${inputClass}`} />
+      <input type="checkbox" checked={active} onChange={(event) => setActive(event.target.checked)} title="Active" />
+      <button disabled={busy} className={buttonClass} onClick={() => onSave({ entry_fee: entryFee, max_players: maxPlayers, active })}>
+        <Save className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Settings, Star } from 'lucide-react';
+import { DEFAULT_PRIZE_RULES, type PrizeRules } from '../lib/prize-rules';
+import type { ChatLotterySettings, ChatLotteryView } from '../lib/chat-lotteries';
+
+interface ChatLotteryFormProps {
+  view: ChatLotteryView;
+  onSave: (settings: ChatLotterySettings) => Promise<void>;
+}
+
+const PRIZE_PRESETS: { label: string; rules: PrizeRules }[] = [
+  { label: '70% to the winner', rules: DEFAULT_PRIZE_RULES },
+  { label: '90% to the winner', rules: { house_percent: 10, winners: 1, tiers: [90], min_prize: 0 } },
+  { label: '50/30/10% to the top 3', rules: { house_percent: 10, winners: 3, tiers: [50, 30, 10], min_prize: 0 } }
+];
+
+const sameRules = (a: PrizeRules, b: PrizeRules) =>
+  a.house_percent === b.house_percent && a.winners === b.winners && a.min_prize === b.min_prize && a.tiers.join() === b.tiers.join();
+
+// A group's stakes; editable by the group's admins, read-only for everyone else
+export function ChatLotteryForm({ view, onSave }: ChatLotteryFormProps) {
+  const { lottery, is_admin: isAdmin } = view;
+  const [entryFee, setEntryFee] = useState(lottery.entry_fee);
+  const [maxPlayers, setMaxPlayers] = useState(lottery.max_players);
+  const [maxTickets, setMaxTickets] = useState(lottery.max_tickets_per_player);
+  // -1 keeps a split that none of the presets match
+  const [preset, setPreset] = useState(PRIZE_PRESETS.findIndex(({ rules }) => sameRules(rules, lottery.prize_rules)));
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        entry_fee: entryFee,
+        max_players: maxPlayers,
+        max_tickets_per_player: maxTickets,
+        prize_rules: preset === -1 ? lottery.prize_rules : PRIZE_PRESETS[preset].rules
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields: { label: string; value: number; min: number; max: number; onChange: (value: number) => void }[] = [
+    { label: 'Ticket price (⭐)', value: entryFee, min: 1, max: 10000, onChange: setEntryFee },
+    { label: 'Tickets per game', value: maxPlayers, min: 2, max: 1000, onChange: setMaxPlayers },
+    { label: 'Tickets per player', value: maxTickets, min: 1, max: maxPlayers, onChange: setMaxTickets }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <div className="flex items-center justify-center text-white font-bold text-xl">
+          <Settings className="w-5 h-5 mr-2 text-purple-300" />
+          {lottery.title || 'Group lottery'}
+        </div>
+        <div className="text-purple-200 text-sm">
+          {isAdmin ? 'Changes apply from the next game' : 'Only group admins can change the stakes'}
+        </div>
+      </div>
+
+      {fields.map(({ label, value, min, max, onChange }) => (
+        <label key={label} className="flex items-center justify-between text-sm">
+          <span className="text-purple-200">{label}</span>
+          <input
+            type="number"
+            value={value}
+            min={min}
+            max={max}
+            disabled={!isAdmin}
+            onChange={(event) => onChange(Math.max(min, Math.min(max, parseInt(event.target.value, 10) || min)))}
+            className="w-24 bg-black/20 rounded-lg px-2 py-1 border border-white/10 text-white text-right disabled:opacity-60"
+          />
+        </label>
+      ))}
+
+      <label className="flex items-center justify-between text-sm">
+        <span className="text-purple-200">Prize split</span>
+        <select
+          value={preset}
+          disabled={!isAdmin}
+          onChange={(event) => setPreset(parseInt(event.target.value, 10))}
+          className="bg-black/20 rounded-lg px-2 py-1 border border-white/10 text-white disabled:opacity-60"
+        >
+          {preset === -1 && <option value={-1}>Current split</option>}
+          {PRIZE_PRESETS.map(({ label }, index) => (
+            <option key={label} value={index}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      {isAdmin && (
+        <button
+          onClick={save}
+          disabled={saving}
+          className="w-full py-3 px-6 rounded-2xl font-bold transition-all duration-300 shadow-lg flex items-center justify-center space-x-2 bg-gradient-to-r from-yellow-400 to-yellow-500 hover:from-yellow-500 hover:to-yellow-600 text-purple-800 disabled:opacity-60"
+        >
+          <Star className="w-5 h-5 fill-current" />
+          <span>{saving ? 'Saving...' : 'Save stakes'}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Bot, FlaskConical } from 'lucide-react';
+import type { DemoSession, PaymentOutcome } from '../lib/demo';
+
+interface DemoControlsProps {
+  demo: DemoSession;
+}
+
+const OUTCOMES: { value: PaymentOutcome; label: string }[] = [
+  { value: 'succeed', label: 'Succeed' },
+  { value: 'fail', label: 'Fail' },
+  { value: 'cancel', label: 'Cancel' }
+];
+
+// Offline demo controls: how the next payments end and whether bots keep joining
+export function DemoControls({ demo }: DemoControlsProps) {
+  const [outcome, setOutcome] = useState<PaymentOutcome>(demo.payments.outcome);
+  const [botsRunning, setBotsRunning] = useState(demo.bots.running);
+
+  const chooseOutcome = (value: PaymentOutcome) => {
+    demo.payments.outcome = value;
+    setOutcome(value);
+  };
+
+  const toggleBots = () => {
+    if (demo.bots.running) {
+      demo.bots.stop();
+    } else {
+      demo.bots.start();
+    }
+    setBotsRunning(demo.bots.running);
+  };
+
+  return (
+    <div className="mt-6 p-3 bg-black/20 rounded-2xl border border-white/10 text-xs space-y-3">
+      <div className="flex items-center justify-center text-purple-200 font-medium">
+        <FlaskConical className="w-4 h-4 mr-1" />
+        Demo mode: no Telegram, no real stars
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-purple-300">Your payments</span>
+        <div className="flex space-x-1">
+          {OUTCOMES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => chooseOutcome(value)}
+              className={`px-2 py-1 rounded-lg ${outcome === value ? 'bg-yellow-400 text-purple-800 font-bold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-purple-300">Bots</span>
+        <div className="flex space-x-1">
+          <button
+            onClick={toggleBots}
+            className="px-2 py-1 rounded-lg bg-white/10 text-white hover:bg-white/20"
+          >
+            {botsRunning ? 'Pause' : 'Resume'}
+          </button>
+          <button
+            onClick={() => void demo.bots.joinOne()}
+            className="px-2 py-1 rounded-lg bg-white/10 text-white hover:bg-white/20 flex items-center"
+          >
+            <Bot className="w-3 h-3 mr-1" />
+            Add a bot
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
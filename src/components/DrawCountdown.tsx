@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { timeUntilDraw } from '../lib/draw-schedule';
+import type { Game } from '../lib/types';
+
+interface DrawCountdownProps {
+  game: Pick<Game, 'draw_mode' | 'draw_at'>;
+  className?: string;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => part.toString().padStart(2, '0')).join(':');
+}
+
+// Time left until a scheduled game's draw, ticking every second
+export function DrawCountdown({ game, className = '' }: DrawCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = timeUntilDraw(game, now);
+  if (remaining === null) {
+    return null;
+  }
+
+  return (
+    <span className={`inline-flex items-center ${className}`}>
+      <Clock className="w-4 h-4 mr-1" />
+      {remaining > 0 ? `Draw in ${formatDuration(remaining)}` : 'Drawing now...'}
+    </span>
+  );
+}
@@ -0,0 +1,76 @@
+import { Copy, Send, Share2, Star, UserCheck, Users } from 'lucide-react';
+import { referralLink } from '../lib/referrals';
+import type { ReferralStats } from '../lib/types';
+
+const botUsername = import.meta.env.VITE_BOT_USERNAME || 'StarLotteryBot';
+
+interface InviteFriendsProps {
+  userId: number;
+  stats: ReferralStats;
+  // Open Telegram's share sheet for a link
+  onShareLink: (url: string, text: string) => void;
+  // Pick a chat and send an inline query to the bot there
+  onSendToChat: (query: string) => void;
+}
+
+// The user's referral link with share buttons and what their invites earned
+export function InviteFriends({ userId, stats, onShareLink, onSendToChat }: InviteFriendsProps) {
+  const link = referralLink(botUsername, userId.toString());
+  const text = 'Join me in Star Lottery and win Telegram Stars!';
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <div className="text-white font-bold text-xl">Invite friends</div>
+        <div className="text-purple-200 text-sm">
+          Earn {stats.percent}% of the house share on every ticket your friends buy
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-white/5 rounded-xl p-3 border border-white/10">
+          <Users className="w-5 h-5 text-purple-300 mx-auto mb-1" />
+          <div className="text-cyan-400 font-bold text-xl">{stats.invited}</div>
+          <div className="text-purple-300 text-xs">Invited</div>
+        </div>
+        <div className="bg-white/5 rounded-xl p-3 border border-white/10">
+          <UserCheck className="w-5 h-5 text-purple-300 mx-auto mb-1" />
+          <div className="text-cyan-400 font-bold text-xl">{stats.active}</div>
+          <div className="text-purple-300 text-xs">Playing</div>
+        </div>
+        <div className="bg-white/5 rounded-xl p-3 border border-white/10">
+          <Star className="w-5 h-5 text-yellow-400 fill-current mx-auto mb-1" />
+          <div className="text-yellow-400 font-bold text-xl">{stats.earned}</div>
+          <div className="text-purple-300 text-xs">Stars earned</div>
+        </div>
+      </div>
+
+      <div className="flex items-center bg-black/20 rounded-xl px-3 py-2 border border-white/10">
+        <span className="flex-1 truncate text-purple-100 text-sm">{link}</span>
+        <button
+          onClick={() => void navigator.clipboard?.writeText(link)}
+          className="ml-2 p-1 rounded-full hover:bg-white/10 text-purple-200"
+          title="Copy link"
+        >
+          <Copy className="w-4 h-4" />
+        </button>
+      </div>
+
+      <button
+        onClick={() => onShareLink(link, text)}
+        className="w-full py-3 px-6 rounded-2xl font-bold transition-all duration-300 shadow-lg flex items-center justify-center space-x-2 bg-gradient-to-r from-yellow-400 to-yellow-500 hover:from-yellow-500 hover:to-yellow-600 text-purple-800"
+      >
+        <Share2 className="w-5 h-5" />
+        <span>Share invite link</span>
+      </button>
+
+      <button
+        onClick={() => onSendToChat(`${text} ${link}`)}
+        className="w-full py-3 px-6 rounded-2xl font-bold transition-all duration-300 flex items-center justify-center space-x-2 bg-white/10 hover:bg-white/20 text-white"
+      >
+        <Send className="w-5 h-5" />
+        <span>Send to a chat</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Crown, Star, Ticket } from 'lucide-react';
+import { LEADERBOARD_PERIODS, type LeaderboardPeriod, type Leaderboards } from '../lib/stats';
+
+interface LeaderboardProps {
+  leaderboards: Leaderboards;
+  // The viewing player, highlighted on the boards
+  userId: string;
+  onChangePeriod: (period: LeaderboardPeriod) => void;
+}
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  all: 'All time'
+};
+
+// Top winners and most active players of the chosen period
+export function Leaderboard({ leaderboards, userId, onChangePeriod }: LeaderboardProps) {
+  const [board, setBoard] = useState<'top_winners' | 'most_played'>('top_winners');
+  const entries = leaderboards[board];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center space-x-1 text-xs">
+        {LEADERBOARD_PERIODS.map((period) => (
+          <button
+            key={period}
+            onClick={() => onChangePeriod(period)}
+            className={`px-3 py-1 rounded-lg ${leaderboards.period === period ? 'bg-yellow-400 text-purple-800 font-bold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+          >
+            {PERIOD_LABELS[period]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <button
+          onClick={() => setBoard('top_winners')}
+          className={`flex items-center justify-center py-2 rounded-xl border ${board === 'top_winners' ? 'border-yellow-400/50 text-yellow-300' : 'border-white/10 text-purple-200'}`}
+        >
+          <Star className="w-4 h-4 mr-1" />
+          Top winners
+        </button>
+        <button
+          onClick={() => setBoard('most_played')}
+          className={`flex items-center justify-center py-2 rounded-xl border ${board === 'most_played' ? 'border-yellow-400/50 text-yellow-300' : 'border-white/10 text-purple-200'}`}
+        >
+          <Ticket className="w-4 h-4 mr-1" />
+          Most played
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center text-purple-200 text-sm py-6">No games drawn yet in this period</div>
+      ) : (
+        <ol className="space-y-2">
+          {entries.map((entry) => (
+            <li
+              key={entry.telegram_user_id}
+              className={`flex items-center justify-between rounded-xl px-3 py-2 border ${entry.telegram_user_id === userId ? 'bg-yellow-400/10 border-yellow-400/30' : 'bg-white/5 border-white/10'}`}
+            >
+              <span className="flex items-center text-white">
+                <span className="w-6 text-purple-300 text-sm">{entry.rank}</span>
+                {entry.rank === 1 && <Crown className="w-4 h-4 mr-1 text-yellow-400" />}
+                {entry.telegram_first_name}
+              </span>
+              <span className="text-yellow-400 font-bold">
+                {board === 'top_winners' ? `${entry.value}⭐` : `${entry.value} game${entry.value === 1 ? '' : 's'}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
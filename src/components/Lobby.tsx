@@ -0,0 +1,106 @@
+import { Medal, Star, Ticket, Trophy } from 'lucide-react';
+import type { LobbyRoom } from '../lib/rooms';
+import type { Tournament } from '../lib/types';
+import { DrawCountdown } from './DrawCountdown';
+
+interface LobbyProps {
+  rooms: LobbyRoom[];
+  tournaments: Tournament[];
+  userStars: number;
+  onSelectRoom: (roomId: string) => void;
+  onSelectTournament: (tournamentId: string) => void;
+}
+
+// Room picker with the live fill level of every room's open game, followed by
+// the tournaments still being played
+export function Lobby({ rooms, tournaments, userStars, onSelectRoom, onSelectTournament }: LobbyProps) {
+  return (
+    <div className="space-y-3">
+      {rooms.map(({ room, game, tickets }) => {
+        const progress = (tickets / room.max_players) * 100;
+        const affordable = userStars >= room.entry_fee;
+
+        return (
+          <button
+            key={room.id}
+            onClick={() => onSelectRoom(room.id)}
+            className="w-full text-left bg-white/10 backdrop-blur-lg rounded-2xl p-4 shadow-lg border border-white/20 hover:bg-white/15 transition-all duration-300"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-white font-bold text-lg">{room.name}</span>
+              <span className={`flex items-center text-sm font-medium ${affordable ? 'text-yellow-400' : 'text-purple-300'}`}>
+                <Star className="w-4 h-4 mr-1 fill-current" />
+                {room.entry_fee}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-purple-200 mb-2">
+              <span className="flex items-center">
+                <Ticket className="w-4 h-4 mr-1" />
+                {tickets}/{room.max_players}
+                {room.max_tickets_per_player > 1 && (
+                  <span className="ml-1 text-purple-300">· up to {room.max_tickets_per_player} each</span>
+                )}
+              </span>
+              <span className="flex items-center">
+                <Trophy className="w-4 h-4 mr-1" />
+                {room.prize_rules.winners > 1
+                  ? `${room.prize_rules.tiers.join('/')}% to top ${room.prize_rules.winners}`
+                  : `${room.prize_rules.tiers[0]}% to the winner`}
+              </span>
+            </div>
+
+            <div className="w-full bg-purple-800/50 rounded-full h-2 overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-yellow-400 to-yellow-500 rounded-full transition-all duration-1000 ease-out"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+
+            {game?.draw_mode === 'scheduled' && (
+              <div className="mt-2 text-xs text-yellow-300">
+                <DrawCountdown game={game} />
+              </div>
+            )}
+
+            {!game && (
+              <div className="mt-2 text-xs text-purple-300">Next game opening...</div>
+            )}
+          </button>
+        );
+      })}
+
+      {rooms.length === 0 && (
+        <div className="text-center text-purple-200">No rooms are open right now.</div>
+      )}
+
+      {tournaments.length > 0 && (
+        <h3 className="pt-2 text-center text-purple-200 font-medium">Tournaments</h3>
+      )}
+
+      {tournaments.map((tournament) => (
+        <button
+          key={tournament.id}
+          onClick={() => onSelectTournament(tournament.id)}
+          className="w-full text-left bg-gradient-to-r from-yellow-400/20 to-yellow-500/10 backdrop-blur-lg rounded-2xl p-4 shadow-lg border border-yellow-400/30 hover:from-yellow-400/30 transition-all duration-300"
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="flex items-center text-white font-bold text-lg">
+              <Medal className="w-5 h-5 mr-2 text-yellow-400" />
+              {tournament.name}
+            </span>
+            <span className="flex items-center text-sm font-medium text-yellow-400">
+              <Star className="w-4 h-4 mr-1 fill-current" />
+              {tournament.entry_fee}
+            </span>
+          </div>
+          <div className="text-sm text-purple-200">
+            {tournament.status === 'final'
+              ? 'Final in progress'
+              : `${tournament.round_games} qualifiers of ${tournament.players_per_game} · winners play the final`}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
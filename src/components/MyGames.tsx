@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Crown, RotateCcw, Star, Ticket } from 'lucide-react';
+import { HISTORY_FILTERS, type HistoryFilter, type HistoryItem } from '../lib/history';
+import { totalTickets } from '../lib/tickets';
+import { VerifyDrawPanel } from './VerifyDrawPanel';
+
+interface MyGamesProps {
+  items: HistoryItem[];
+  filter: HistoryFilter;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onChangeFilter: (filter: HistoryFilter) => void;
+  onLoadMore: () => void;
+}
+
+const FILTER_LABELS: Record<HistoryFilter, string> = {
+  all: 'All',
+  won: 'Won',
+  lost: 'Lost',
+  refunded: 'Refunded'
+};
+
+const OUTCOME_STYLES: Record<HistoryItem['outcome'], string> = {
+  won: 'bg-yellow-400 text-purple-800',
+  lost: 'bg-white/10 text-purple-200',
+  refunded: 'bg-cyan-400/20 text-cyan-300'
+};
+
+const PAYMENT_LABELS: Record<HistoryItem['my_entries'][number]['payment_status'], string> = {
+  pending: 'Pending',
+  completed: 'Paid',
+  failed: 'Failed',
+  refunded: 'Refunded'
+};
+
+// The user's past games with filters; each one opens to its result, player
+// list, the user's entries and the draw proof
+export function MyGames({ items, filter, hasMore, loadingMore, onChangeFilter, onLoadMore }: MyGamesProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center space-x-1 text-xs">
+        {HISTORY_FILTERS.map((value) => (
+          <button
+            key={value}
+            onClick={() => onChangeFilter(value)}
+            className={`px-3 py-1 rounded-lg ${filter === value ? 'bg-yellow-400 text-purple-800 font-bold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+          >
+            {FILTER_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      {items.length === 0 && (
+        <div className="text-center text-purple-200 text-sm py-6">No games here yet</div>
+      )}
+
+      {items.map((item) => {
+        const { game } = item;
+        const open = openId === game.id;
+        // One name per player, however many entries they bought
+        const playerNames = [...new Map(item.players.map((player) => [player.telegram_user_id, player.telegram_first_name])).values()];
+
+        return (
+          <div key={game.id} className="bg-white/5 rounded-2xl border border-white/10">
+            <button
+              onClick={() => setOpenId(open ? null : game.id)}
+              className="w-full flex items-center justify-between p-3 text-left"
+            >
+              <div>
+                <div className="text-white text-sm font-medium">
+                  {new Date(game.completed_at ?? game.created_at).toLocaleString()}
+                </div>
+                <div className="text-purple-300 text-xs flex items-center">
+                  <Ticket className="w-3 h-3 mr-1" />
+                  {totalTickets(item.my_entries)} × {game.entry_fee}⭐ · pool {game.prize_pool}⭐
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${OUTCOME_STYLES[item.outcome]}`}>
+                  {item.outcome === 'won' ? `+${item.won}⭐` : FILTER_LABELS[item.outcome]}
+                </span>
+                {open ? <ChevronUp className="w-4 h-4 text-purple-300" /> : <ChevronDown className="w-4 h-4 text-purple-300" />}
+              </div>
+            </button>
+
+            {open && (
+              <div className="px-3 pb-3 space-y-3 text-xs">
+                {item.winners.length > 0 ? (
+                  <div className="space-y-1">
+                    {item.winners.map((winner, place) => (
+                      <div key={`${winner.id}-${place}`} className="flex items-center justify-between text-yellow-300">
+                        <span className="flex items-center">
+                          <Crown className="w-3 h-3 mr-1" />
+                          #{place + 1} {winner.telegram_first_name}
+                        </span>
+                        <span>{item.prizes[place]}⭐</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex items-center text-cyan-300">
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Cancelled: {game.status_reason ?? 'entries refunded'}
+                  </div>
+                )}
+
+                <div>
+                  <div className="text-purple-300 mb-1">Your entries</div>
+                  {item.my_entries.map((entry) => (
+                    <div key={entry.id} className="flex justify-between text-white">
+                      <span>{entry.tickets} ticket{entry.tickets === 1 ? '' : 's'}</span>
+                      <span className="text-purple-200">{PAYMENT_LABELS[entry.payment_status]}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="text-purple-300 mb-1">Players ({playerNames.length})</div>
+                  <div className="text-white">
+                    {playerNames.join(', ')}
+                  </div>
+                </div>
+
+                {game.server_seed && (
+                  <div className="break-all text-purple-300">
+                    <div><Star className="w-3 h-3 inline mr-1" />Seed hash: {game.seed_hash}</div>
+                    <div>Seed: {game.server_seed}</div>
+                    <VerifyDrawPanel game={game} players={item.players} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loadingMore}
+          className="w-full py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm disabled:opacity-60"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Bell, BellOff, Percent, Star, Ticket, TrendingUp, Trophy, Wallet } from 'lucide-react';
+import type { PlayerStats } from '../lib/stats';
+import type { NotificationSettings } from '../lib/types';
+
+interface PlayerProfileProps {
+  name: string;
+  stats: PlayerStats;
+  userStars: number;
+  notifications: NotificationSettings | null;
+  onToggleNotifications: (enabled: boolean) => void;
+}
+
+// The player's lifetime statistics over their completed games, and whether
+// the bot messages them about their draws and refunds
+export function PlayerProfile({ name, stats, userStars, notifications, onToggleNotifications }: PlayerProfileProps) {
+  const tiles = [
+    { icon: Ticket, label: 'Games played', value: stats.games_played },
+    { icon: Trophy, label: 'Games won', value: stats.games_won },
+    { icon: Percent, label: 'Win rate', value: `${Math.round(stats.win_rate * 100)}%` },
+    { icon: TrendingUp, label: 'Biggest win', value: `${stats.biggest_win}⭐` },
+    { icon: Wallet, label: 'Stars spent', value: `${stats.total_spent}⭐` },
+    { icon: Star, label: 'Stars won', value: `${stats.total_won}⭐` }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <div className="text-white font-bold text-xl">{name}</div>
+        <div className="text-purple-200 text-sm">{userStars} stars available</div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {tiles.map(({ icon: Icon, label, value }) => (
+          <div key={label} className="bg-white/5 rounded-xl p-3 border border-white/10">
+            <Icon className="w-5 h-5 text-purple-300 mx-auto mb-1" />
+            <div className="text-cyan-400 font-bold text-lg">{value}</div>
+            <div className="text-purple-300 text-xs">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {notifications && (
+        <label className="flex items-center justify-between bg-white/5 rounded-xl px-3 py-2 border border-white/10 text-sm">
+          <span className="flex items-center text-white">
+            {notifications.enabled
+              ? <Bell className="w-4 h-4 mr-2 text-yellow-400" />
+              : <BellOff className="w-4 h-4 mr-2 text-purple-300" />}
+            Bot notifications
+          </span>
+          <input
+            type="checkbox"
+            checked={notifications.enabled}
+            onChange={(event) => onToggleNotifications(event.target.checked)}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
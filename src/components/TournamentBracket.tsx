@@ -0,0 +1,91 @@
+import { Crown, Star, Ticket, Trophy } from 'lucide-react';
+import type { BracketGame, TournamentView } from '../lib/tournaments';
+
+interface TournamentBracketProps {
+  bracket: TournamentView;
+  onSelectGame: (gameId: string) => void;
+}
+
+const STATUS_LABELS: Record<BracketGame['game']['status'], string> = {
+  waiting: 'Open',
+  full: 'Full',
+  drawing: 'Drawing...',
+  completed: 'Drawn',
+  refunding: 'Cancelled',
+  cancelled: 'Cancelled'
+};
+
+// Qualifiers on the left feeding the final on the right
+export function TournamentBracket({ bracket, onSelectGame }: TournamentBracketProps) {
+  const { tournament, rounds, final, pot } = bracket;
+  const carryPercent = tournament.round_prize_rules.carry_percent ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <div className="text-white font-bold text-xl">{tournament.name}</div>
+        <div className="text-purple-200 text-sm">
+          {tournament.entry_fee}⭐ per qualifier · winners play the final for free
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="flex-1 space-y-2">
+          {rounds.map((round) => (
+            <button
+              key={round.game.id}
+              onClick={() => onSelectGame(round.game.id)}
+              className="w-full text-left bg-white/10 backdrop-blur-lg rounded-xl p-3 border border-white/20 hover:bg-white/15 transition-all duration-300"
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-medium">Qualifier {round.game.bracket_slot}</span>
+                <span className="text-purple-300 text-xs">{STATUS_LABELS[round.game.status]}</span>
+              </div>
+              <div className="mt-1 text-xs text-purple-200">
+                {round.winners[0] ? (
+                  <span className="flex items-center text-yellow-300">
+                    <Crown className="w-3 h-3 mr-1" />
+                    {round.winners[0].telegram_first_name}
+                  </span>
+                ) : (
+                  <span className="flex items-center">
+                    <Ticket className="w-3 h-3 mr-1" />
+                    {round.tickets}/{round.game.max_players}
+                  </span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="w-px self-stretch bg-white/20" />
+
+        <button
+          onClick={() => final && onSelectGame(final.game.id)}
+          disabled={!final}
+          className="flex-1 bg-gradient-to-br from-yellow-400/20 to-yellow-500/20 rounded-2xl p-4 border border-yellow-400/30 text-center disabled:cursor-default"
+        >
+          <Trophy className="w-6 h-6 text-yellow-400 mx-auto mb-1" />
+          <div className="text-yellow-300 font-bold">Final</div>
+          <div className="flex items-center justify-center text-white font-bold text-lg">
+            <Star className="w-4 h-4 mr-1 text-yellow-400 fill-current" />
+            {final ? final.game.prize_pool : pot}
+          </div>
+          <div className="text-xs text-purple-200 mt-1">
+            {final?.winners[0]
+              ? `Won by ${final.winners[0].telegram_first_name}`
+              : final
+              ? `${final.tickets} qualifier ticket${final.tickets === 1 ? '' : 's'} · ${STATUS_LABELS[final.game.status]}`
+              : `${carryPercent}% of every qualifier pot`}
+          </div>
+        </button>
+      </div>
+
+      {tournament.status === 'cancelled' && (
+        <div className="text-center text-purple-200 text-sm">
+          No qualifier was drawn, so this tournament was cancelled.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { verifyDraw, type DrawVerification } from '../lib/fair-draw';
+import { totalTickets } from '../lib/tickets';
+import type { Game, GamePlayer } from '../lib/types';
+
+interface VerifyDrawPanelProps {
+  game: Game;
+  players: GamePlayer[];
+}
+
+// "Verify this draw": recompute the winner from the revealed seed in the browser
+export function VerifyDrawPanel({ game, players }: VerifyDrawPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<DrawVerification | null>(null);
+
+  const runVerification = async () => {
+    if (!game.server_seed) return;
+
+    setChecking(true);
+    try {
+      setResult(await verifyDraw(game, players, game.server_seed));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="mt-3 text-xs text-purple-200 underline underline-offset-2 hover:text-white"
+      >
+        Verify this draw
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-black/20 rounded-xl text-left text-xs space-y-2">
+      <div>
+        <div className="text-purple-300">Committed seed hash</div>
+        <div className="font-mono text-white break-all">{game.seed_hash || '—'}</div>
+      </div>
+      <div>
+        <div className="text-purple-300">Revealed seed</div>
+        <div className="font-mono text-white break-all">{game.server_seed || 'Not revealed yet'}</div>
+      </div>
+      <div className="text-purple-300">
+        Winning ticket = sha256(seed : entry id : charge id [* tickets], …) mod {totalTickets(players)}, counted through the entries in join order
+      </div>
+      {game.prize_rules.winners > 1 && (
+        <div className="text-purple-300">
+          Place n + 1 uses seed : n over the players that have not won yet
+        </div>
+      )}
+
+      {result && (
+        <div className={`flex items-center font-medium ${result.valid ? 'text-green-400' : 'text-red-400'}`}>
+          {result.valid ? <ShieldCheck className="w-4 h-4 mr-1" /> : <ShieldAlert className="w-4 h-4 mr-1" />}
+          {result.valid
+            ? `Verified: entry #${result.winnerIndex + 1} wins${result.expectedWinnerIds.length > 1 ? ` first place, ${result.expectedWinnerIds.length} places checked` : ''}`
+            : `Verification failed: ${result.reason}`}
+        </div>
+      )}
+
+      <button
+        onClick={runVerification}
+        disabled={!game.server_seed || checking}
+        className="w-full py-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white font-medium"
+      >
+        {checking ? 'Checking...' : 'Recompute winner'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { AdminAuditEntry, AdminCreateGameRequest, HouseRevenue } from './admin';
+import { requestJson } from './api';
+import type { RoomTemplateChanges } from './rooms';
+import type { Game, RoomTemplate, Withdrawal } from './types';
+
+// Typed client for the /api/admin routes, used by the admin console. It has
+// no browser dependencies, so scripts can drive the admin API with it too.
+export class AdminApi {
+  // `initData` is an admin's signed Telegram init data; the server rejects it
+  // once it is older than INIT_DATA_MAX_AGE
+  constructor(private baseUrl: string, private initData: string) {}
+
+  async isAdmin(): Promise<boolean> {
+    const { is_admin } = await this.request<{ is_admin: boolean }>('/api/admin/me');
+    return is_admin;
+  }
+
+  async createGame(request: AdminCreateGameRequest): Promise<Game> {
+    const { game } = await this.request<{ game: Game }>('/api/admin/games', request);
+    return game;
+  }
+
+  // Cancel a game that has not been drawn and refund its entries. Returns the
+  // number of entries refunded.
+  async cancelGame(gameId: string, reason?: string): Promise<number> {
+    const { refunded } = await this.request<{ refunded: number }>(`/api/admin/games/${encodeURIComponent(gameId)}/cancel`, { reason });
+    return refunded;
+  }
+
+  // Draw a game now, or finish a draw that was left unfinished
+  async forceDraw(gameId: string): Promise<Game> {
+    const { game } = await this.request<{ game: Game }>(`/api/admin/games/${encodeURIComponent(gameId)}/draw`, {});
+    return game;
+  }
+
+  // Retry the refunds of one game being refunded, or without `gameId` of
+  // everything still owed. Returns the number of entries refunded.
+  async refund(gameId?: string): Promise<number> {
+    const { refunded } = await this.request<{ refunded: number }>('/api/admin/refunds', { game_id: gameId });
+    return refunded;
+  }
+
+  // Withdrawals waiting to be paid, oldest first
+  async getWithdrawals(): Promise<Withdrawal[]> {
+    const { withdrawals } = await this.request<{ withdrawals: Withdrawal[] }>('/api/admin/withdrawals');
+    return withdrawals;
+  }
+
+  // Mark a withdrawal paid once its Stars were sent, or reject it to return them
+  async settleWithdrawal(withdrawalId: string, status: 'paid' | 'rejected'): Promise<Withdrawal> {
+    const { withdrawal } = await this.request<{ withdrawal: Withdrawal }>(`/api/admin/withdrawals/${encodeURIComponent(withdrawalId)}`, { status });
+    return withdrawal;
+  }
+
+  // Every room, inactive ones included
+  async getRooms(): Promise<RoomTemplate[]> {
+    const { rooms } = await this.request<{ rooms: RoomTemplate[] }>('/api/admin/rooms');
+    return rooms;
+  }
+
+  // Create a room, or change one; new rooms need every field
+  async saveRoom(roomId: string, changes: RoomTemplateChanges): Promise<RoomTemplate> {
+    const { room } = await this.request<{ room: RoomTemplate }>(`/api/admin/rooms/${encodeURIComponent(roomId)}`, changes);
+    return room;
+  }
+
+  // House revenue per day over the last `days` days
+  async getRevenue(days: number = 30): Promise<HouseRevenue> {
+    const { revenue } = await this.request<{ revenue: HouseRevenue }>(`/api/admin/revenue?days=${days}`);
+    return revenue;
+  }
+
+  // Latest admin actions, newest first
+  async getAuditLog(limit: number = 50): Promise<AdminAuditEntry[]> {
+    const { entries } = await this.request<{ entries: AdminAuditEntry[] }>(`/api/admin/audit?limit=${limit}`);
+    return entries;
+  }
+
+  private request<T>(path: string, body?: unknown): Promise<T> {
+    return requestJson<T>(this.baseUrl, path, { body, initData: this.initData });
+  }
+}
@@ -0,0 +1,50 @@
+import type { PrizeRules } from './prize-rules';
+
+// Operator actions, available to the Telegram users listed in
+// ADMIN_TELEGRAM_IDS. Every action is written to the audit log, whether it
+// succeeds or not. See AdminApi in admin-api.ts for the client.
+
+export type AdminAction = 'create_game' | 'cancel_game' | 'force_draw' | 'refund' | 'save_room' | 'settle_withdrawal';
+
+export interface AdminAuditEntry {
+  id: number;
+  // Telegram id of the admin
+  admin_id: string;
+  action: AdminAction;
+  // Game or room acted on; unset for actions on everything, like a refund sweep
+  target?: string;
+  params: Record<string, unknown>;
+  result: 'ok' | 'error';
+  error?: string;
+  created_at: string;
+}
+
+// One UTC day of the house account
+export interface HouseRevenueDay {
+  day: string;
+  // Commission kept from drawn games
+  commission: number;
+  // Part of the commission paid on to referrers
+  referral_rewards: number;
+  net: number;
+}
+
+export interface HouseRevenue {
+  // Newest first
+  days: HouseRevenueDay[];
+  // Net revenue over the returned days
+  total: number;
+}
+
+// A game opened in a room (`room_id`) or a one-off game with its own stakes.
+// A one-off game with `draw_at` is drawn at that time instead of when it fills.
+export interface AdminCreateGameRequest {
+  room_id?: string;
+  entry_fee?: number;
+  max_players?: number;
+  min_players?: number;
+  max_tickets_per_player?: number;
+  prize_rules?: PrizeRules;
+  // ISO timestamp
+  draw_at?: string;
+}
@@ -0,0 +1,50 @@
+// HTTP client for the Star Lottery backend (see server/)
+
+// Read on first use so the client also runs outside Vite, e.g. in admin scripts
+export function apiBaseUrl(): string {
+  return (import.meta.env?.VITE_API_URL || '').replace(/\/$/, '');
+}
+
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  // Telegram initData sent as `Authorization: tma <initData>`
+  initData?: string;
+}
+
+export function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  return requestJson<T>(apiBaseUrl(), path, options);
+}
+
+// Call the backend at `baseUrl`; throws ApiError with the server's message
+export async function requestJson<T>(baseUrl: string, path: string, options: ApiRequestOptions = {}): Promise<T> {
+  const headers: Record<string, string> = {};
+
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (options.initData) {
+    headers.Authorization = `tma ${options.initData}`;
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: options.method || (options.body !== undefined ? 'POST' : 'GET'),
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(response.status, result.error || `Request failed with status ${response.status}`);
+  }
+
+  return result as T;
+}
@@ -0,0 +1,16 @@
+import { apiRequest } from './api';
+import type { VerifiedUser } from './types';
+
+// Send the Mini App initData to the backend and get back the verified user
+export async function authenticate(initData: string): Promise<VerifiedUser> {
+  if (!initData) {
+    throw new Error('Please open the Star Lottery from Telegram');
+  }
+
+  const { user } = await apiRequest<{ user: VerifiedUser }>('/api/auth', {
+    method: 'POST',
+    initData
+  });
+
+  return user;
+}
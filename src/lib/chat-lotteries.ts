@@ -0,0 +1,91 @@
+import { DEFAULT_PRIZE_RULES, InvalidPrizeRulesError, validatePrizeRules, type PrizeRules } from './prize-rules';
+import type { ChatLottery, VerifiedUser } from './types';
+
+// Group-chat lotteries: opened from a group, the Mini App plays that group's
+// private lottery instead of the public rooms. Each group has one open game
+// at a time, with stakes set by the group's admins, and the bot posts every
+// result back to the group.
+
+export type ChatLotterySettings = Pick<ChatLottery, 'entry_fee' | 'max_players' | 'max_tickets_per_player' | 'prize_rules'>;
+
+// A group's lottery as seen by the user who opened the app in it
+export interface ChatLotteryView {
+  lottery: ChatLottery;
+  // Whether the user administers the group and may change the stakes
+  is_admin: boolean;
+}
+
+// Stakes of a group that no admin has configured yet
+export const DEFAULT_CHAT_SETTINGS: ChatLotterySettings = {
+  entry_fee: 1,
+  max_players: 10,
+  max_tickets_per_player: 1,
+  prize_rules: DEFAULT_PRIZE_RULES
+};
+
+const MAX_ENTRY_FEE = 10000;
+const MAX_TICKETS = 1000;
+// Group admins choose the stakes, not the house cut: the house keeps at least this
+export const MIN_CHAT_HOUSE_PERCENT = 10;
+
+export class InvalidChatSettingsError extends Error {
+  constructor(message: string) {
+    super(`Invalid lottery settings: ${message}`);
+    this.name = 'InvalidChatSettingsError';
+  }
+}
+
+// Chat id of the group the app was opened from, or null outside groups
+export function chatScope(user: Pick<VerifiedUser, 'chat'>): string | null {
+  const chat = user.chat;
+  return chat && (chat.type === 'group' || chat.type === 'supergroup') ? chat.id.toString() : null;
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Check settings sent by a group admin
+export function validateChatSettings(settings: unknown): ChatLotterySettings {
+  const candidate = settings as Partial<ChatLotterySettings> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    throw new InvalidChatSettingsError('expected an object');
+  }
+  if (!isWholeNumber(candidate.entry_fee, 1, MAX_ENTRY_FEE)) {
+    throw new InvalidChatSettingsError(`entry_fee must be between 1 and ${MAX_ENTRY_FEE} stars`);
+  }
+  if (!isWholeNumber(candidate.max_players, 2, MAX_TICKETS)) {
+    throw new InvalidChatSettingsError(`max_players must be between 2 and ${MAX_TICKETS} tickets`);
+  }
+  if (!isWholeNumber(candidate.max_tickets_per_player, 1, candidate.max_players)) {
+    throw new InvalidChatSettingsError('max_tickets_per_player must be between 1 and max_players');
+  }
+
+  let prizeRules: PrizeRules;
+  try {
+    prizeRules = validatePrizeRules(candidate.prize_rules);
+  } catch (error) {
+    if (error instanceof InvalidPrizeRulesError) {
+      throw new InvalidChatSettingsError(error.message);
+    }
+    throw error;
+  }
+  if (prizeRules.carry_percent !== undefined) {
+    throw new InvalidChatSettingsError('carry_percent is only allowed in tournament rounds');
+  }
+  if (prizeRules.house_percent < MIN_CHAT_HOUSE_PERCENT) {
+    throw new InvalidChatSettingsError(`house_percent must be at least ${MIN_CHAT_HOUSE_PERCENT}`);
+  }
+  // A guaranteed prize is paid by the house, so a group could set one far
+  // above its own pool and collect it with a second account
+  if (prizeRules.min_prize !== 0) {
+    throw new InvalidChatSettingsError('min_prize is not available in group lotteries');
+  }
+
+  return {
+    entry_fee: candidate.entry_fee,
+    max_players: candidate.max_players,
+    max_tickets_per_player: candidate.max_tickets_per_player,
+    prize_rules: prizeRules
+  };
+}
@@ -0,0 +1,396 @@
+import { nextDrawAt, scheduledDrawAction, timeUntilDraw } from './draw-schedule';
+import { drawWinners, hashSeed } from './fair-draw';
+import type { ChatLotteryView } from './chat-lotteries';
+import type { GameBackend } from './game-backend';
+import { historyPage, type HistoryFilter, type HistoryPage } from './history';
+import type { NewGame } from './game-repository';
+import type { MemoryGameRepository } from './memory-game-repository';
+import { DEFAULT_PRIZE_RULES, distributePrize } from './prize-rules';
+import { referralRewards } from './referrals';
+import { leaderboards, periodStart, playerStats, type LeaderboardPeriod, type Leaderboards, type PlayerStats } from './stats';
+import { ticketsAvailable, totalTickets } from './tickets';
+import { carriedPot, DEFAULT_FINAL_PRIZE_RULES, DEFAULT_ROUND_PRIZE_RULES, finalQualifiers, qualifiersSettled } from './tournaments';
+import type { ChatLottery, Game, NotificationSettings, ReferralStats, Tournament, VerifiedUser } from './types';
+
+// Offline demo mode: an in-memory repository, a fake payments provider, bots
+// that join on a timer and draws that run in the browser. No Supabase, backend
+// or Telegram is involved.
+
+export type PaymentOutcome = 'succeed' | 'fail' | 'cancel';
+
+export const DEMO_USER: VerifiedUser = {
+  id: 1,
+  first_name: 'You',
+  username: 'demo_player',
+  auth_date: Math.floor(Date.now() / 1000),
+  init_data: 'demo'
+};
+
+const BOT_NAMES = ['Alice', 'Bob', 'Carol', 'Dave', 'Erin', 'Frank', 'Grace', 'Heidi', 'Ivan', 'Judy', 'Mallory', 'Niaj', 'Olivia', 'Peggy', 'Rupert', 'Sybil', 'Trent', 'Victor', 'Walter'];
+
+// Star wallets per user. The demo player's payments succeed, fail or are
+// cancelled depending on `outcome`; bots always pay.
+export class FakePayments {
+  outcome: PaymentOutcome = 'succeed';
+  private wallets = new Map<number, number>();
+  private nextCharge = 1;
+
+  constructor(private startingBalance: number = 100) {}
+
+  getBalance(userId: number): number {
+    return this.wallets.get(userId) ?? this.startingBalance;
+  }
+
+  // Take `amount` stars from the wallet and return a charge id
+  async charge(userId: number, amount: number, outcome: PaymentOutcome = this.outcome): Promise<string> {
+    if (outcome === 'cancel') {
+      throw new Error('Payment cancelled');
+    }
+    if (outcome === 'fail') {
+      throw new Error('Payment failed: declined by the demo payments provider');
+    }
+    if (this.getBalance(userId) < amount) {
+      throw new Error('Payment failed: not enough stars');
+    }
+
+    this.wallets.set(userId, this.getBalance(userId) - amount);
+    return `demo_charge_${this.nextCharge++}`;
+  }
+
+  credit(userId: number, amount: number): void {
+    this.wallets.set(userId, this.getBalance(userId) + amount);
+  }
+}
+
+// Plays the part of the backend: commits to seeds, takes payments and runs
+// the draw a moment after a game fills, or at the draw time of a scheduled
+// game. Tournaments advance to their final as soon as the qualifiers settle.
+export class DemoGameBackend implements GameBackend {
+  private seeds = new Map<string, string>();
+  // There is no bot in the demo; the setting is only kept for the profile toggle
+  private notifications: NotificationSettings = { enabled: true };
+
+  constructor(
+    private repository: MemoryGameRepository,
+    public readonly payments: FakePayments,
+    private drawDelayMs: number = 1500,
+    // Share of the commission paid to referrers, like REFERRAL_PERCENT
+    private referralPercent: number = 10
+  ) {}
+
+  async authenticate(): Promise<VerifiedUser> {
+    return DEMO_USER;
+  }
+
+  async getStarBalance(user: VerifiedUser): Promise<number> {
+    return this.payments.getBalance(user.id);
+  }
+
+  async getReferralStats(user: VerifiedUser): Promise<ReferralStats> {
+    return this.repository.getReferralStats(user.id.toString(), this.referralPercent);
+  }
+
+  async getPlayerStats(user: VerifiedUser): Promise<PlayerStats> {
+    return playerStats(user.id.toString(), this.repository.getCompletedGames());
+  }
+
+  async getLeaderboards(_user: VerifiedUser, period: LeaderboardPeriod): Promise<Leaderboards> {
+    return leaderboards(period, this.repository.getCompletedGames(periodStart(period, new Date())));
+  }
+
+  async getHistory(user: VerifiedUser, filter: HistoryFilter, before?: string): Promise<HistoryPage> {
+    const userId = user.id.toString();
+    return historyPage(userId, this.repository.getHistoryGames(userId), filter, before);
+  }
+
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    return { ...this.notifications };
+  }
+
+  async updateNotificationSettings(_user: VerifiedUser, settings: NotificationSettings): Promise<NotificationSettings> {
+    this.notifications = { ...settings };
+    return { ...this.notifications };
+  }
+
+  // The demo is never opened from a group chat
+  async openChatGame(): Promise<Game> {
+    throw new Error('Group lotteries are not available in demo mode');
+  }
+
+  async getChatLottery(): Promise<ChatLotteryView> {
+    throw new Error('Group lotteries are not available in demo mode');
+  }
+
+  async updateChatLottery(): Promise<ChatLottery> {
+    throw new Error('Group lotteries are not available in demo mode');
+  }
+
+  // Nobody administers the demo; its games are run by DemoBots
+  async getAdminApi(): Promise<null> {
+    return null;
+  }
+
+  async createGame(_user?: VerifiedUser, roomId?: string): Promise<Game> {
+    const open = roomId ? await this.repository.getOpenGame(roomId) : null;
+    if (open) {
+      return open;
+    }
+
+    const room = (await this.repository.getRooms()).find((candidate) => candidate.id === roomId);
+    return this.createSeededGame({
+      room_id: room?.id,
+      max_players: room?.max_players ?? 10,
+      min_players: room?.min_players,
+      max_tickets_per_player: room?.max_tickets_per_player,
+      entry_fee: room?.entry_fee ?? 1,
+      prize_rules: room?.prize_rules ?? DEFAULT_PRIZE_RULES,
+      draw_mode: room?.draw_time_utc ? 'scheduled' : 'fill',
+      draw_at: room?.draw_time_utc ? nextDrawAt(room.draw_time_utc, new Date()).toISOString() : undefined
+    });
+  }
+
+  // Keep one open game in every room, like the backend's room job
+  async openRooms(): Promise<void> {
+    for (const room of await this.repository.getRooms()) {
+      await this.createGame(undefined, room.id);
+    }
+  }
+
+  // Keep one tournament going: three qualifiers of four players at 2 stars
+  async openTournament(): Promise<Tournament> {
+    const [current] = await this.repository.getTournaments();
+    if (current) {
+      return current;
+    }
+
+    const tournament = await this.repository.createTournament({
+      name: 'Demo cup',
+      entry_fee: 2,
+      players_per_game: 4,
+      round_games: 3,
+      round_prize_rules: DEFAULT_ROUND_PRIZE_RULES,
+      final_prize_rules: DEFAULT_FINAL_PRIZE_RULES
+    });
+
+    for (let slot = 1; slot <= tournament.round_games; slot++) {
+      await this.createSeededGame({
+        tournament_id: tournament.id,
+        tournament_round: 1,
+        bracket_slot: slot,
+        max_players: tournament.players_per_game,
+        entry_fee: tournament.entry_fee,
+        prize_rules: tournament.round_prize_rules
+      });
+    }
+    return tournament;
+  }
+
+  async payEntry(user: VerifiedUser, gameId: string, tickets: number = 1, outcome?: PaymentOutcome): Promise<void> {
+    const game = await this.repository.getGame(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    const price = game.entry_fee * tickets;
+    const chargeId = await this.payments.charge(user.id, price, outcome);
+
+    try {
+      const result = await this.repository.joinGame(gameId, user, chargeId, tickets);
+      if (result.game_status === 'full' && game.draw_mode === 'fill') {
+        setTimeout(() => void this.drawWinners(gameId), this.drawDelayMs);
+      }
+    } catch (error) {
+      // The entry was not accepted, so the charge is refunded straight away
+      this.payments.credit(user.id, price);
+      throw error;
+    }
+  }
+
+  // Commit to a fresh seed, and time the draw of a scheduled game
+  private async createSeededGame(game: Omit<NewGame, 'seed_hash'>): Promise<Game> {
+    const seed = Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    const created = await this.repository.createGame({ ...game, seed_hash: await hashSeed(seed) });
+
+    this.seeds.set(created.id, seed);
+
+    const untilDraw = timeUntilDraw(created, new Date());
+    if (untilDraw !== null) {
+      setTimeout(() => void this.settleScheduledGame(created.id), untilDraw);
+    }
+    return created;
+  }
+
+  // Same progression as GameService.advanceTournament: once every qualifier
+  // has settled, seat the winners in a free final funded by the carried pots
+  private async advanceTournament(tournamentId: string): Promise<void> {
+    const tournament = await this.repository.getTournament(tournamentId);
+    const games = await this.repository.getTournamentGames(tournamentId);
+    const rounds = games.filter((game) => game.tournament_round === 1);
+    const final = games.find((game) => game.tournament_round === 2);
+
+    if (tournament?.status === 'final' && final?.status === 'completed') {
+      await this.repository.updateTournament(tournamentId, 'final', { status: 'completed', completed_at: final.completed_at });
+      await this.openTournament();
+      return;
+    }
+    if (tournament?.status !== 'running' || !qualifiersSettled(rounds)) {
+      return;
+    }
+
+    const players = (await Promise.all(rounds.map((game) => this.repository.getGamePlayers(game.id)))).flat();
+    const qualifiers = finalQualifiers(rounds, players);
+    if (qualifiers.length === 0) {
+      await this.repository.updateTournament(tournamentId, 'running', { status: 'cancelled', completed_at: new Date().toISOString() });
+      await this.openTournament();
+      return;
+    }
+
+    const game = await this.createSeededGame({
+      tournament_id: tournamentId,
+      tournament_round: 2,
+      bracket_slot: 0,
+      max_players: totalTickets(qualifiers),
+      max_tickets_per_player: tournament.round_games,
+      entry_fee: 0,
+      prize_rules: tournament.final_prize_rules
+    });
+    await this.repository.updateTournament(tournamentId, 'running', { status: 'final', final_game_id: game.id });
+    await this.repository.seatFinal(game.id, qualifiers, carriedPot(rounds));
+    setTimeout(() => void this.drawWinners(game.id), this.drawDelayMs);
+  }
+
+  // Same decision as the backend's DrawScheduler: draw if enough players paid,
+  // otherwise cancel and give everyone their stars back
+  private async settleScheduledGame(gameId: string): Promise<void> {
+    const game = await this.repository.getGame(gameId);
+    if (!game) {
+      return;
+    }
+
+    const players = await this.repository.getGamePlayers(gameId);
+    const action = scheduledDrawAction(game, new Set(players.map((player) => player.telegram_user_id)).size, new Date());
+
+    if (action === 'draw') {
+      await this.drawWinners(gameId);
+    } else if (action === 'cancel') {
+      const refunded = await this.repository.cancelGame(gameId, 'scheduled draw: not enough players');
+      refunded.forEach((entry) => this.payments.credit(Number(entry.telegram_user_id), game.entry_fee * entry.tickets));
+      if (game.room_id) {
+        await this.createGame(undefined, game.room_id);
+      }
+    }
+  }
+
+  // Same steps as the backend draw: claim, draw from the seed, pay out
+  private async drawWinners(gameId: string): Promise<void> {
+    const game = await this.repository.startDraw(gameId);
+    const seed = this.seeds.get(gameId);
+    if (!game || !seed) {
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, this.drawDelayMs));
+
+    const players = await this.repository.getGamePlayers(gameId);
+    const winners = await drawWinners(seed, players, game.prize_rules.winners);
+    const { prizes, commission, carry } = distributePrize(game.prize_rules, game.prize_pool, winners.length);
+
+    await this.repository.completeDraw(
+      gameId,
+      seed,
+      winners.map((winner, place) => ({ telegram_user_id: winner.telegram_user_id, amount: prizes[place] })),
+      commission,
+      carry
+    );
+
+    winners.forEach((winner, place) => this.payments.credit(Number(winner.telegram_user_id), prizes[place]));
+
+    // Referrers get their share of whatever the house kept
+    const houseShare = commission + (game.tournament_id ? 0 : carry);
+    const referrers = this.repository.getReferrers(players.map((player) => player.telegram_user_id));
+    const rewards = referralRewards(players, referrers, game.entry_fee, game.prize_pool, houseShare, this.referralPercent);
+    this.repository.postReferralRewards(gameId, rewards);
+    rewards.forEach((reward) => this.payments.credit(Number(reward.telegram_user_id), reward.amount));
+
+    if (game.room_id) {
+      await this.createGame(undefined, game.room_id);
+    }
+    if (game.tournament_id) {
+      await this.advanceTournament(game.tournament_id);
+    }
+  }
+}
+
+// Bots that join open games, one every `intervalMs`
+export class DemoBots {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private repository: MemoryGameRepository,
+    private backend: DemoGameBackend,
+    private intervalMs: number = 4000
+  ) {}
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.joinOne(), this.intervalMs);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Add one bot to a random open game or tournament qualifier, if there is
+  // one with tickets left
+  async joinOne(): Promise<void> {
+    const rooms = await this.repository.getRooms();
+    const tournaments = await this.repository.getTournaments();
+    const openGames = [
+      ...(await Promise.all(rooms.map((room) => this.repository.getOpenGame(room.id)))),
+      ...(await Promise.all(tournaments.map((tournament) => this.repository.getTournamentGames(tournament.id)))).flat()
+        .filter((candidate) => candidate.tournament_round === 1 && candidate.status === 'waiting')
+    ].filter((candidate): candidate is Game => !!candidate);
+    const game = openGames[Math.floor(Math.random() * openGames.length)] ?? await this.repository.getCurrentGame();
+    if (!game) {
+      return;
+    }
+
+    const players = await this.repository.getGamePlayers(game.id);
+    const joined = new Set(players.map((player) => player.telegram_user_id));
+    const botIndex = BOT_NAMES.findIndex((_, index) => !joined.has(String(1000 + index)));
+    if (botIndex < 0) {
+      return;
+    }
+
+    const bot: VerifiedUser = {
+      id: 1000 + botIndex,
+      first_name: BOT_NAMES[botIndex],
+      username: `${BOT_NAMES[botIndex].toLowerCase()}_bot`,
+      auth_date: Math.floor(Date.now() / 1000),
+      init_data: 'demo'
+    };
+
+    // Bots buy a random number of the tickets they are allowed
+    const tickets = 1 + Math.floor(Math.random() * Math.max(1, ticketsAvailable(game, players, String(bot.id))));
+
+    try {
+      await this.backend.payEntry(bot, game.id, tickets, 'succeed');
+    } catch (error) {
+      // The game filled up or moved on between the check and the join
+      console.debug('Demo bot could not join:', error);
+    }
+  }
+}
+
+export interface DemoSession {
+  payments: FakePayments;
+  bots: DemoBots;
+}
@@ -0,0 +1,91 @@
+import type { Game } from './types';
+
+// Games are drawn either when every ticket is sold ('fill') or at a fixed time
+// ('scheduled'), no matter how many tickets were sold by then. A scheduled game
+// that fills early stops selling and still waits for its draw time; one that
+// is short of its minimum players at draw time is cancelled and refunded.
+
+export type DrawMode = 'fill' | 'scheduled';
+
+// Source of the current time, injected so the scheduler can be driven by hand
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+// A clock that only moves when told to
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | string = new Date()) {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: Date | string): void {
+    this.current = new Date(time).getTime();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+export class InvalidDrawTimeError extends Error {
+  constructor(value: unknown) {
+    super(`Draw time must be HH:MM in UTC, got ${JSON.stringify(value)}`);
+    this.name = 'InvalidDrawTimeError';
+  }
+}
+
+const DRAW_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Next daily draw at `drawTimeUtc` ("HH:MM", UTC) strictly after `after`
+export function nextDrawAt(drawTimeUtc: string, after: Date): Date {
+  const match = DRAW_TIME.exec(drawTimeUtc);
+  if (!match) {
+    throw new InvalidDrawTimeError(drawTimeUtc);
+  }
+
+  const next = new Date(after);
+  next.setUTCHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (next.getTime() <= after.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+}
+
+// Paid players a scheduled game needs at its draw time
+export function scheduledMinimumPlayers(game: Game): number {
+  return game.min_players ?? 1;
+}
+
+export type ScheduledDrawAction = 'wait' | 'draw' | 'cancel';
+
+// What the scheduler does with a game at `now`
+export function scheduledDrawAction(game: Game, paidPlayers: number, now: Date): ScheduledDrawAction {
+  if (game.draw_mode !== 'scheduled' || !game.draw_at) {
+    return 'wait';
+  }
+  if (game.status !== 'waiting' && game.status !== 'full') {
+    return 'wait';
+  }
+  if (now.getTime() < new Date(game.draw_at).getTime()) {
+    return 'wait';
+  }
+  return paidPlayers >= scheduledMinimumPlayers(game) ? 'draw' : 'cancel';
+}
+
+// Milliseconds until a scheduled game's draw, never negative; null for fill-to-capacity games
+export function timeUntilDraw(game: Pick<Game, 'draw_mode' | 'draw_at'>, now: Date): number | null {
+  if (game.draw_mode !== 'scheduled' || !game.draw_at) {
+    return null;
+  }
+  return Math.max(0, new Date(game.draw_at).getTime() - now.getTime());
+}
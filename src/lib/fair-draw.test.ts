@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { drawWinnerIndex, drawWinners, hashSeed, orderDrawEntries, verifyDraw } from './fair-draw';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import type { Game, GamePlayer } from './types';
+
+const SEED = '4f1c0a9e7d2b6c3a8e5f1d0b9a7c6e2f';
+
+function entry(id: string, telegramUserId: string, overrides: Partial<GamePlayer> = {}): GamePlayer {
+  return {
+    id,
+    game_id: 'game-1',
+    telegram_user_id: telegramUserId,
+    telegram_first_name: `User ${telegramUserId}`,
+    joined_at: `2026-10-19T12:00:0${id.slice(-1)}.000Z`,
+    payment_status: 'completed',
+    tickets: 1,
+    telegram_payment_charge_id: `charge-${id}`,
+    ...overrides
+  };
+}
+
+const players = [entry('e1', '1'), entry('e2', '2'), entry('e3', '3'), entry('e4', '4'), entry('e5', '5')];
+
+// A drawn game as the backend publishes it, with winners taken from the seed
+async function drawnGame(seed: string, entries: GamePlayer[], places: number = 1): Promise<Game> {
+  const winnerIds = (await drawWinners(seed, entries, places)).map((winner) => winner.telegram_user_id);
+  return {
+    id: 'game-1',
+    status: 'completed',
+    max_players: entries.length,
+    max_tickets_per_player: 1,
+    entry_fee: 5,
+    prize_pool: 5 * entries.length,
+    prize_rules: { ...DEFAULT_PRIZE_RULES, winners: places, tiers: places === 1 ? [70] : [40, 20, 10].slice(0, places) },
+    draw_mode: 'fill',
+    created_at: '2026-10-19T12:00:00.000Z',
+    seed_hash: await hashSeed(seed),
+    server_seed: seed,
+    winner_id: winnerIds[0],
+    winner_ids: winnerIds
+  };
+}
+
+// Winning indexes over `draws` seeds derived from SEED, counted per entry
+async function winCounts(entries: GamePlayer[], draws: number): Promise<number[]> {
+  const counts = entries.map(() => 0);
+  for (let i = 0; i < draws; i++) {
+    counts[await drawWinnerIndex(`${SEED}-${i}`, entries)]++;
+  }
+  return counts;
+}
+
+describe('orderDrawEntries', () => {
+  it('keeps only paid entries, by join time', () => {
+    const unordered = [
+      entry('e3', '3'),
+      entry('e1', '1'),
+      entry('e9', '9', { payment_status: 'pending' }),
+      entry('e2', '2'),
+      entry('e8', '8', { payment_status: 'refunded' })
+    ];
+
+    expect(orderDrawEntries(unordered).map((player) => player.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('breaks join time ties on the entry id', () => {
+    const joinedAt = '2026-10-19T12:00:00.000Z';
+    const tied = [entry('b', '2', { joined_at: joinedAt }), entry('c', '3', { joined_at: joinedAt }), entry('a', '1', { joined_at: joinedAt })];
+
+    expect(orderDrawEntries(tied).map((player) => player.id)).toEqual(['a', 'b', 'c']);
+    expect(orderDrawEntries([...tied].reverse()).map((player) => player.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('drawWinnerIndex', () => {
+  it('is a pure function of the seed and the entries, whatever order they come in', async () => {
+    const index = await drawWinnerIndex(SEED, players);
+
+    expect(await drawWinnerIndex(SEED, players)).toBe(index);
+    expect(players[await drawWinnerIndex(SEED, [...players].reverse())]).toBe(players[index]);
+  });
+
+  it('draws single-ticket entries from the digest of the seed and the entries', async () => {
+    const digest = await hashSeed(`${SEED}:${players.map((player) => `${player.id}:${player.telegram_payment_charge_id}`).join(',')}`);
+
+    expect(await drawWinnerIndex(SEED, players)).toBe(Number(BigInt(`0x${digest}`) % BigInt(players.length)));
+  });
+
+  it('changes with the seed', async () => {
+    const indexes = new Set(await Promise.all(Array.from({ length: 20 }, (_, i) => drawWinnerIndex(`${SEED}-${i}`, players))));
+    expect(indexes.size).toBeGreaterThan(1);
+  });
+
+  it('gives each ticket one chance', async () => {
+    const entries = [entry('e1', '1', { tickets: 3 }), entry('e2', '2')];
+
+    const [heavy, light] = await winCounts(entries, 400);
+
+    // 3 in 4 on average; deterministic for these seeds
+    expect(heavy + light).toBe(400);
+    expect(heavy / 400).toBeGreaterThan(0.68);
+    expect(heavy / 400).toBeLessThan(0.82);
+  });
+
+  it('rejects a game without paid entries', async () => {
+    await expect(drawWinnerIndex(SEED, [entry('e1', '1', { payment_status: 'pending' })])).rejects.toThrow('No players in game');
+  });
+});
+
+describe('drawWinners', () => {
+  it('starts with the single-winner draw and lets a player win one place at most', async () => {
+    const entries = [...players, entry('e6', '1', { joined_at: '2026-10-19T12:00:06.000Z' })];
+
+    const winners = await drawWinners(SEED, entries, 3);
+
+    expect(winners[0]).toBe(orderDrawEntries(entries)[await drawWinnerIndex(SEED, entries)]);
+    expect(new Set(winners.map((winner) => winner.telegram_user_id)).size).toBe(3);
+    expect(await drawWinners(SEED, entries, 3)).toEqual(winners);
+  });
+
+  it('stops when every player has won', async () => {
+    expect(await drawWinners(SEED, players.slice(0, 2), 3)).toHaveLength(2);
+  });
+});
+
+describe('verifyDraw', () => {
+  it('accepts a draw recomputed from the revealed seed', async () => {
+    const game = await drawnGame(SEED, players, 3);
+
+    const verification = await verifyDraw(game, players, SEED);
+
+    expect(verification).toMatchObject({ valid: true, seedMatches: true, expectedWinnerId: game.winner_id, expectedWinnerIds: game.winner_ids });
+    expect(players[verification.winnerIndex].telegram_user_id).toBe(game.winner_id);
+  });
+
+  it('rejects a seed that does not match the committed hash', async () => {
+    const game = await drawnGame(SEED, players);
+
+    expect(await verifyDraw(game, players, `${SEED}0`)).toMatchObject({
+      valid: false,
+      seedMatches: false,
+      reason: 'Seed does not match the committed hash'
+    });
+    expect(await verifyDraw({ ...game, seed_hash: await hashSeed('another seed') }, players, SEED)).toMatchObject({
+      valid: false,
+      seedMatches: false
+    });
+    expect(await verifyDraw({ ...game, seed_hash: undefined }, players, SEED)).toMatchObject({ valid: false, seedMatches: false });
+  });
+
+  it('rejects published winners the seed does not give', async () => {
+    const game = await drawnGame(SEED, players);
+    const other = players.find((player) => player.telegram_user_id !== game.winner_id)!.telegram_user_id;
+
+    expect(await verifyDraw({ ...game, winner_id: other, winner_ids: [other] }, players, SEED)).toMatchObject({
+      valid: false,
+      seedMatches: true,
+      expectedWinnerId: game.winner_id,
+      reason: 'Winners do not match the seed'
+    });
+  });
+
+  it('rejects a game without paid entries', async () => {
+    const game = await drawnGame(SEED, players);
+
+    expect(await verifyDraw(game, [], SEED)).toMatchObject({ valid: false, winnerIndex: -1, reason: 'No players in game' });
+  });
+});
@@ -0,0 +1,102 @@
+import { totalTickets } from './tickets';
+import type { Game, GamePlayer } from './types';
+
+// Commit-reveal draw. When a game is created the backend stores only
+// sha256(seed) as `seed_hash`; the seed itself is published as `server_seed`
+// once the winner is drawn. The winner index is derived from the seed and the
+// ordered paid entries, so anyone can recompute it with verifyDraw().
+// Games with several winning places draw each place in turn from the players
+// that have not won yet, mixing the place number into the seed.
+// Every ticket is one chance: the digest picks a ticket number and the winner
+// is the entry holding it. Single-ticket entries hash exactly as before
+// tickets existed, so older draws still verify.
+
+export interface DrawVerification {
+  valid: boolean;
+  // sha256(seed) equals the hash committed at game creation
+  seedMatches: boolean;
+  winnerIndex: number;
+  expectedWinnerId: string | null;
+  // Every place, first place first
+  expectedWinnerIds: string[];
+  reason?: string;
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function hashSeed(seed: string): Promise<string> {
+  return sha256Hex(seed);
+}
+
+// Paid entries in draw order: join time, then entry id
+export function orderDrawEntries(players: GamePlayer[]): GamePlayer[] {
+  return players
+    .filter((player) => player.payment_status === 'completed')
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at) || a.id.localeCompare(b.id));
+}
+
+function describeEntry(entry: GamePlayer): string {
+  const base = `${entry.id}:${entry.telegram_payment_charge_id ?? ''}`;
+  return entry.tickets > 1 ? `${base}*${entry.tickets}` : base;
+}
+
+// Index of the winning entry among orderDrawEntries(players), weighted by tickets
+export async function drawWinnerIndex(seed: string, players: GamePlayer[]): Promise<number> {
+  const entries = orderDrawEntries(players);
+  if (entries.length === 0) {
+    throw new Error('No players in game');
+  }
+
+  const input = `${seed}:${entries.map(describeEntry).join(',')}`;
+  const digest = await sha256Hex(input);
+  let ticket = Number(BigInt(`0x${digest}`) % BigInt(totalTickets(entries)));
+
+  return entries.findIndex((entry) => {
+    ticket -= entry.tickets;
+    return ticket < 0;
+  });
+}
+
+// Winning entries for up to `places` places, first place first. Place 0 is
+// exactly drawWinnerIndex(seed, players); later places exclude every entry of
+// an earlier winner, so a player wins at most one place.
+export async function drawWinners(seed: string, players: GamePlayer[], places: number): Promise<GamePlayer[]> {
+  let remaining = orderDrawEntries(players);
+  const winners: GamePlayer[] = [];
+
+  for (let place = 0; place < places && remaining.length > 0; place++) {
+    const winner = remaining[await drawWinnerIndex(place === 0 ? seed : `${seed}:${place}`, remaining)];
+    winners.push(winner);
+    remaining = remaining.filter((entry) => entry.telegram_user_id !== winner.telegram_user_id);
+  }
+
+  return winners;
+}
+
+// Recompute a published draw from the revealed seed
+export async function verifyDraw(game: Game, players: GamePlayer[], seed: string): Promise<DrawVerification> {
+  const seedMatches = !!game.seed_hash && (await hashSeed(seed)) === game.seed_hash;
+  const entries = orderDrawEntries(players);
+
+  if (entries.length === 0) {
+    return { valid: false, seedMatches, winnerIndex: -1, expectedWinnerId: null, expectedWinnerIds: [], reason: 'No players in game' };
+  }
+
+  const winnerIndex = await drawWinnerIndex(seed, entries);
+  const expectedWinnerId = entries[winnerIndex].telegram_user_id;
+  const expectedWinnerIds = (await drawWinners(seed, entries, game.prize_rules.winners)).map((entry) => entry.telegram_user_id);
+  const result = { seedMatches, winnerIndex, expectedWinnerId, expectedWinnerIds };
+
+  if (!seedMatches) {
+    return { ...result, valid: false, reason: 'Seed does not match the committed hash' };
+  }
+  const publishedWinnerIds = game.winner_ids ?? (game.winner_id ? [game.winner_id] : []);
+  if (game.winner_id !== expectedWinnerId || publishedWinnerIds.join(',') !== expectedWinnerIds.join(',')) {
+    return { ...result, valid: false, reason: 'Winners do not match the seed' };
+  }
+
+  return { ...result, valid: true };
+}
@@ -0,0 +1,133 @@
+import { AdminApi } from './admin-api';
+import { apiBaseUrl, apiRequest } from './api';
+import { authenticate } from './auth';
+import type { TelegramPayments } from './telegram-payments';
+import type { ChatLotterySettings, ChatLotteryView } from './chat-lotteries';
+import type { HistoryFilter, HistoryPage } from './history';
+import type { LeaderboardPeriod, Leaderboards, PlayerStats } from './stats';
+import type { ChatLottery, Game, NotificationSettings, ReferralStats, VerifiedUser } from './types';
+
+// Actions the web app cannot perform against the repository itself: verifying
+// the user, creating a game (which commits to a secret seed), paying an entry
+// fee, reading statistics, running group-chat lotteries, bot notification
+// settings and admin actions
+export interface GameBackend {
+  authenticate(initData: string): Promise<VerifiedUser>;
+  getStarBalance(user: VerifiedUser): Promise<number>;
+  // Open the next game of a room. Returns the room's open game if there
+  // already is one; one-off games are created through the admin API.
+  createGame(user: VerifiedUser, roomId: string): Promise<Game>;
+  // Pay for `tickets` tickets in one payment; the entry shows up in the
+  // repository once the payment is recorded
+  payEntry(user: VerifiedUser, gameId: string, tickets: number): Promise<void>;
+  // Invites and rewards brought in by the user's referral link
+  getReferralStats(user: VerifiedUser): Promise<ReferralStats>;
+  // Lifetime statistics over the user's completed games
+  getPlayerStats(user: VerifiedUser): Promise<PlayerStats>;
+  getLeaderboards(user: VerifiedUser, period: LeaderboardPeriod): Promise<Leaderboards>;
+  // A page of the user's drawn and refunded games, newest first
+  getHistory(user: VerifiedUser, filter: HistoryFilter, before?: string): Promise<HistoryPage>;
+  // Whether the bot messages the user about their draws and refunds
+  getNotificationSettings(user: VerifiedUser): Promise<NotificationSettings>;
+  updateNotificationSettings(user: VerifiedUser, settings: NotificationSettings): Promise<NotificationSettings>;
+  // The open game of the group the app was opened from, opening one if needed
+  openChatGame(user: VerifiedUser): Promise<Game>;
+  getChatLottery(user: VerifiedUser): Promise<ChatLotteryView>;
+  // Change the group's stakes for its next game; group admins only
+  updateChatLottery(user: VerifiedUser, settings: ChatLotterySettings): Promise<ChatLottery>;
+  // The admin API if the user is one of the configured admins, otherwise null
+  getAdminApi(user: VerifiedUser): Promise<AdminApi | null>;
+}
+
+// The Star Lottery backend: games are created by the server and entries are
+// paid with a Stars invoice confirmed by the payment webhook
+export class ApiGameBackend implements GameBackend {
+  constructor(private payments: TelegramPayments) {}
+
+  authenticate(initData: string): Promise<VerifiedUser> {
+    return authenticate(initData);
+  }
+
+  getStarBalance(user: VerifiedUser): Promise<number> {
+    return this.payments.getRealStarBalance(user);
+  }
+
+  async createGame(user: VerifiedUser, roomId: string): Promise<Game> {
+    const { game } = await apiRequest<{ game: Game }>('/api/games', {
+      method: 'POST',
+      body: { room_id: roomId },
+      initData: user.init_data
+    });
+
+    return game;
+  }
+
+  async payEntry(user: VerifiedUser, gameId: string, tickets: number): Promise<void> {
+    const invoice = await this.payments.createEntryInvoice(user, gameId, tickets);
+    const paymentResult = await this.payments.requestStarPayment(invoice.invoice_link);
+
+    if (!paymentResult.success) {
+      throw new Error(`Payment failed: ${paymentResult.error}`);
+    }
+  }
+
+  async getReferralStats(user: VerifiedUser): Promise<ReferralStats> {
+    const { stats } = await apiRequest<{ stats: ReferralStats }>('/api/referrals', { initData: user.init_data });
+    return stats;
+  }
+
+  async getPlayerStats(user: VerifiedUser): Promise<PlayerStats> {
+    const { stats } = await apiRequest<{ stats: PlayerStats }>('/api/stats', { initData: user.init_data });
+    return stats;
+  }
+
+  async getLeaderboards(user: VerifiedUser, period: LeaderboardPeriod): Promise<Leaderboards> {
+    const { leaderboards } = await apiRequest<{ leaderboards: Leaderboards }>(`/api/leaderboards?period=${period}`, { initData: user.init_data });
+    return leaderboards;
+  }
+
+  getHistory(user: VerifiedUser, filter: HistoryFilter, before?: string): Promise<HistoryPage> {
+    const query = new URLSearchParams({ filter });
+    if (before) {
+      query.set('before', before);
+    }
+    return apiRequest<HistoryPage>(`/api/history?${query}`, { initData: user.init_data });
+  }
+
+  async getNotificationSettings(user: VerifiedUser): Promise<NotificationSettings> {
+    const { settings } = await apiRequest<{ settings: NotificationSettings }>('/api/notifications', { initData: user.init_data });
+    return settings;
+  }
+
+  async updateNotificationSettings(user: VerifiedUser, settings: NotificationSettings): Promise<NotificationSettings> {
+    const { settings: saved } = await apiRequest<{ settings: NotificationSettings }>('/api/notifications', {
+      method: 'POST',
+      body: settings,
+      initData: user.init_data
+    });
+    return saved;
+  }
+
+  async openChatGame(user: VerifiedUser): Promise<Game> {
+    const { game } = await apiRequest<{ game: Game }>('/api/chats/game', { method: 'POST', initData: user.init_data });
+    return game;
+  }
+
+  getChatLottery(user: VerifiedUser): Promise<ChatLotteryView> {
+    return apiRequest<ChatLotteryView>('/api/chats/lottery', { initData: user.init_data });
+  }
+
+  async updateChatLottery(user: VerifiedUser, settings: ChatLotterySettings): Promise<ChatLottery> {
+    const { lottery } = await apiRequest<{ lottery: ChatLottery }>('/api/chats/lottery', {
+      method: 'POST',
+      body: settings,
+      initData: user.init_data
+    });
+    return lottery;
+  }
+
+  async getAdminApi(user: VerifiedUser): Promise<AdminApi | null> {
+    const admin = new AdminApi(apiBaseUrl(), user.init_data);
+    return await admin.isAdmin() ? admin : null;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertTransition,
+  canTransition,
+  GAME_TRANSITIONS,
+  GameTransitionError,
+  IllegalTransitionError,
+  TransitionConflictError,
+  TransitionGuardError,
+  type GameStatus
+} from './game-lifecycle';
+
+const STATUSES = Object.keys(GAME_TRANSITIONS) as GameStatus[];
+
+const ALLOWED: [GameStatus, GameStatus][] = [
+  ['waiting', 'full'],
+  ['waiting', 'drawing'],
+  ['waiting', 'refunding'],
+  ['full', 'drawing'],
+  ['full', 'refunding'],
+  ['drawing', 'completed'],
+  ['refunding', 'cancelled']
+];
+
+const FORBIDDEN = STATUSES.flatMap((from) => STATUSES.map((to): [GameStatus, GameStatus] => [from, to]))
+  .filter(([from, to]) => !ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to));
+
+describe('game transitions', () => {
+  it.each(ALLOWED)('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+    expect(() => assertTransition('game-1', from, to)).not.toThrow();
+  });
+
+  it.each(FORBIDDEN)('forbids %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+    expect(() => assertTransition('game-1', from, to)).toThrow(IllegalTransitionError);
+  });
+
+  it('never leaves completed or cancelled', () => {
+    expect(GAME_TRANSITIONS.completed).toEqual([]);
+    expect(GAME_TRANSITIONS.cancelled).toEqual([]);
+  });
+});
+
+describe('GameTransitionError', () => {
+  it('describes an illegal transition', () => {
+    const error = new IllegalTransitionError('game-1', 'completed', 'waiting');
+
+    expect(error).toBeInstanceOf(GameTransitionError);
+    expect(error).toMatchObject({ name: 'IllegalTransitionError', code: 'ILLEGAL_TRANSITION', gameId: 'game-1', from: 'completed', to: 'waiting' });
+    expect(error.message).toBe('Game game-1 cannot go from completed to waiting');
+  });
+
+  it('describes a conflict with the status the game actually has', () => {
+    const error = new TransitionConflictError('game-1', 'full', 'drawing', 'drawing');
+
+    expect(error).toBeInstanceOf(GameTransitionError);
+    expect(error).toMatchObject({ name: 'TransitionConflictError', code: 'TRANSITION_CONFLICT', actual: 'drawing' });
+    expect(error.message).toBe('Game game-1 is drawing, expected full before moving to drawing');
+    expect(new TransitionConflictError('game-1', 'full', 'drawing', null).message).toBe('Game game-1 is missing, expected full before moving to drawing');
+  });
+
+  it('describes a guard that does not hold', () => {
+    const error = new TransitionGuardError('game-1', 'drawing', 'completed', 'no winner has been drawn');
+
+    expect(error).toBeInstanceOf(GameTransitionError);
+    expect(error).toMatchObject({ name: 'TransitionGuardError', code: 'TRANSITION_GUARD', reason: 'no winner has been drawn' });
+    expect(error.message).toBe('Game game-1 cannot go from drawing to completed: no winner has been drawn');
+  });
+});
@@ -0,0 +1,95 @@
+import type { Game } from './types';
+
+// Game lifecycle:
+//
+//   waiting -> full -> drawing -> completed
+//      \        \
+//       `--------`-> refunding -> cancelled
+//
+// Scheduled games can also go straight from waiting to drawing at their draw
+// time, and fill games with a minimum of players at their deadline, without
+// filling.
+//
+// `refunding` means the game was cancelled and its entries are being refunded;
+// it becomes `cancelled` once nothing is owed. The database enforces the same
+// table with a trigger and writes a game_transitions row for every change.
+
+export type GameStatus = Game['status'];
+
+export const GAME_TRANSITIONS: Record<GameStatus, readonly GameStatus[]> = {
+  waiting: ['full', 'drawing', 'refunding'],
+  full: ['drawing', 'refunding'],
+  drawing: ['completed'],
+  completed: [],
+  refunding: ['cancelled'],
+  cancelled: []
+};
+
+export type GameTransitionErrorCode = 'ILLEGAL_TRANSITION' | 'TRANSITION_CONFLICT' | 'TRANSITION_GUARD';
+
+export class GameTransitionError extends Error {
+  constructor(
+    public readonly code: GameTransitionErrorCode,
+    public readonly gameId: string,
+    public readonly from: GameStatus,
+    public readonly to: GameStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GameTransitionError';
+  }
+}
+
+// The transition is not in GAME_TRANSITIONS
+export class IllegalTransitionError extends GameTransitionError {
+  constructor(gameId: string, from: GameStatus, to: GameStatus) {
+    super('ILLEGAL_TRANSITION', gameId, from, to, `Game ${gameId} cannot go from ${from} to ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+// The game was not in the expected state, usually because another worker moved it first
+export class TransitionConflictError extends GameTransitionError {
+  constructor(gameId: string, from: GameStatus, to: GameStatus, public readonly actual: GameStatus | null) {
+    super('TRANSITION_CONFLICT', gameId, from, to, `Game ${gameId} is ${actual ?? 'missing'}, expected ${from} before moving to ${to}`);
+    this.name = 'TransitionConflictError';
+  }
+}
+
+// The transition is legal but its precondition does not hold yet
+export class TransitionGuardError extends GameTransitionError {
+  constructor(gameId: string, from: GameStatus, to: GameStatus, public readonly reason: string) {
+    super('TRANSITION_GUARD', gameId, from, to, `Game ${gameId} cannot go from ${from} to ${to}: ${reason}`);
+    this.name = 'TransitionGuardError';
+  }
+}
+
+export function canTransition(from: GameStatus, to: GameStatus): boolean {
+  return GAME_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(gameId: string, from: GameStatus, to: GameStatus): void {
+  if (!canTransition(from, to)) {
+    throw new IllegalTransitionError(gameId, from, to);
+  }
+}
+
+// Players needed by the deadline; games without a minimum must fill completely
+export function minimumPlayers(game: Game): number {
+  return game.min_players ?? game.max_players;
+}
+
+export type DeadlineAction = 'wait' | 'draw' | 'cancel';
+
+// What happens to a waiting fill-to-capacity game once it has been open for
+// `timeoutMinutes`: with its minimum number of paid players it is drawn among
+// them, as a scheduled game is at its draw time; short of it, it is cancelled
+// and refunded. Scheduled games are settled by the draw scheduler instead.
+export function deadlineAction(game: Game, paidPlayers: number, timeoutMinutes: number, now: Date = new Date()): DeadlineAction {
+  const deadline = new Date(game.created_at).getTime() + timeoutMinutes * 60_000;
+
+  if (game.status !== 'waiting' || game.draw_mode === 'scheduled' || now.getTime() < deadline) {
+    return 'wait';
+  }
+  return paidPlayers >= minimumPlayers(game) ? 'draw' : 'cancel';
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GameBackend } from './game-backend';
+import { createGameManager, GameManager, GameServerUnavailableError } from './game-manager';
+import type { GameRepository } from './game-repository';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import type { LobbyChange, LobbyChangeListener } from './realtime';
+import type { LobbyUpdate } from './rooms';
+import type { TelegramPayments } from './telegram-payments';
+import type { Game, GamePlayer } from './types';
+
+// A configured Supabase client whose games query answers with `result`
+const client = vi.hoisted(() => {
+  const state = { result: { data: null, error: null } as { data: unknown; error: { message: string } | null } };
+  const query = {
+    select: () => query,
+    eq: () => query,
+    is: () => query,
+    order: () => query,
+    limit: () => query,
+    maybeSingle: async () => state.result
+  };
+  return { state, supabase: { from: () => query } };
+});
+
+vi.mock('./supabase', () => ({ supabase: client.supabase }));
+
+const payments = {} as TelegramPayments;
+
+describe('createGameManager', () => {
+  it('plays against the backend when Supabase answers', async () => {
+    client.state.result = { data: null, error: null };
+
+    const manager = await createGameManager(payments);
+
+    expect(manager.demo).toBeNull();
+  });
+
+  it('reports an unreachable Supabase instead of falling back to the demo', async () => {
+    client.state.result = { data: null, error: { message: 'Failed to fetch' } };
+
+    const creation = createGameManager(payments);
+
+    await expect(creation).rejects.toBeInstanceOf(GameServerUnavailableError);
+    await expect(creation).rejects.toThrow('Could not reach the game server: Failed to get current game: Failed to fetch');
+  });
+});
+
+describe('GameManager.subscribeToLobbyUpdates', () => {
+  const waiting: Game = {
+    id: 'game-1',
+    room_id: 'room-1',
+    status: 'waiting',
+    max_players: 10,
+    max_tickets_per_player: 3,
+    entry_fee: 5,
+    prize_pool: 5,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    created_at: '2026-10-19T10:00:00.000Z'
+  };
+  const entry = { payment_status: 'completed', tickets: 2 } as GamePlayer;
+
+  // A repository whose lobby changes are sent by hand
+  function subscribe(onUpdate: (update: LobbyUpdate) => void) {
+    let send: LobbyChangeListener = () => undefined;
+    const repository = {
+      subscribeToLobby: vi.fn((listener: LobbyChangeListener) => {
+        send = listener;
+        return () => undefined;
+      }),
+      getGamePlayers: vi.fn(async () => [entry, entry])
+    };
+    const unsubscribe = new GameManager(repository as unknown as GameRepository, {} as GameBackend)
+      .subscribeToLobbyUpdates(onUpdate, 10);
+    return { repository, unsubscribe, send: (...changes: LobbyChange[]) => changes.forEach((change) => send(change)) };
+  }
+
+  it('coalesces a burst of changes into one update with the latest rows', async () => {
+    const onUpdate = vi.fn();
+    const { repository, send } = subscribe(onUpdate);
+
+    send(
+      { type: 'game_changed', game: { ...waiting, prize_pool: 10 } },
+      { type: 'game_changed', game: { ...waiting, prize_pool: 20 } },
+      { type: 'game_changed', game: { ...waiting, id: 'game-2', status: 'full' } }
+    );
+
+    await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledTimes(1));
+    expect(onUpdate).toHaveBeenCalledWith({
+      games: [
+        { game: { ...waiting, prize_pool: 20 }, tickets: 4 },
+        { game: { ...waiting, id: 'game-2', status: 'full' }, tickets: 0 }
+      ],
+      tournaments: []
+    });
+    // Only the open game's tickets are loaded, once
+    expect(repository.getGamePlayers).toHaveBeenCalledTimes(1);
+    expect(repository.getGamePlayers).toHaveBeenCalledWith('game-1');
+  });
+
+  it('asks for a reload when the repository lost track of changes', async () => {
+    const onUpdate = vi.fn();
+    const { send } = subscribe(onUpdate);
+
+    send({ type: 'game_changed', game: waiting }, { type: 'reload' });
+
+    await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledWith({ games: null, tournaments: [] }));
+  });
+
+  it('drops pending changes once unsubscribed', async () => {
+    const onUpdate = vi.fn();
+    const { send, unsubscribe } = subscribe(onUpdate);
+
+    send({ type: 'game_changed', game: waiting });
+    unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+});
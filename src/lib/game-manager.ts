@@ -1,203 +1,333 @@
+import type { AdminApi } from './admin-api';
+import { chatScope, type ChatLotterySettings, type ChatLotteryView } from './chat-lotteries';
+import { DEMO_USER, DemoBots, DemoGameBackend, FakePayments, type DemoSession } from './demo';
+import { ApiGameBackend, type GameBackend } from './game-backend';
+import type { GameRepository } from './game-repository';
+import { MemoryGameRepository } from './memory-game-repository';
+import type { GameEventListener, LobbyChange } from './realtime';
+import type { LobbyRoom, LobbyUpdate } from './rooms';
 import { supabase } from './supabase';
-import type { Game, GamePlayer } from './supabase';
+import { SupabaseGameRepository } from './supabase-game-repository';
+import { InvalidTicketCountError, ticketsAvailable, totalTickets, validateTicketCount } from './tickets';
+import type { HistoryFilter, HistoryPage } from './history';
+import type { LeaderboardPeriod, Leaderboards, PlayerStats } from './stats';
+import type { TelegramPayments } from './telegram-payments';
+import { carriedPot, type BracketGame, type TournamentView } from './tournaments';
+import type { ChatLottery, Game, GamePlayer, NotificationSettings, ReferralStats, Tournament, VerifiedUser } from './types';
+
+// How long the lobby collects changes before it is updated, so a burst of
+// ticket sales updates it once
+const LOBBY_UPDATE_DELAY_MS = 500;
+
+// Game rules on top of a repository; the repository only stores data
+export class GameManager {
+  constructor(
+    private repository: GameRepository,
+    private backend: GameBackend,
+    // Controls for the offline demo; null when running against the backend
+    public readonly demo: DemoSession | null = null
+  ) {}
+
+  // Verify the signed initData; demo mode always plays as the demo user
+  async authenticate(initData: string): Promise<VerifiedUser> {
+    return this.backend.authenticate(initData);
+  }
 
-export interface TelegramUser {
-  id: number;
-  first_name: string;
-  last_name?: string;
-  username?: string;
-}
+  // Stars the user can spend on entries
+  async getStarBalance(user: VerifiedUser): Promise<number> {
+    return this.backend.getStarBalance(user);
+  }
 
-export class GameManager {
-  // Create a new game
-  async createGame(maxPlayers: number = 10, entryFee: number = 1): Promise<string> {
-    const { data, error } = await supabase
-      .from('games')
-      .insert({
-        status: 'waiting',
-        max_players: maxPlayers,
-        entry_fee: entryFee,
-        prize_pool: 0
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to create game: ${error.message}`);
-    }
+  // Players the user invited and the stars they earned from them
+  async getReferralStats(user: VerifiedUser): Promise<ReferralStats> {
+    return this.backend.getReferralStats(user);
+  }
 
-    return data.id;
+  // Games played and won, stars spent and won, win rate and biggest win
+  async getPlayerStats(user: VerifiedUser): Promise<PlayerStats> {
+    return this.backend.getPlayerStats(user);
   }
 
-  // Join a game
-  async joinGame(gameId: string, user: TelegramUser, paymentManager: any): Promise<boolean> {
-    // Check if game exists and has space
-    const { data: game, error: gameError } = await supabase
-      .from('games')
-      .select('*')
-      .eq('id', gameId)
-      .eq('status', 'waiting')
-      .single();
-
-    if (gameError || !game) {
-      throw new Error('Game not found or not accepting players');
-    }
+  // Top winners and most active players of the day, week or all time
+  async getLeaderboards(user: VerifiedUser, period: LeaderboardPeriod): Promise<Leaderboards> {
+    return this.backend.getLeaderboards(user, period);
+  }
 
-    // Check current player count
-    const { count } = await supabase
-      .from('game_players')
-      .select('*', { count: 'exact', head: true })
-      .eq('game_id', gameId);
+  // The user's past games with results and their own entries; `before` is
+  // the previous page's next_cursor
+  async getHistory(user: VerifiedUser, filter: HistoryFilter = 'all', before?: string): Promise<HistoryPage> {
+    return this.backend.getHistory(user, filter, before);
+  }
 
-    if (count && count >= game.max_players) {
-      throw new Error('Game is full');
-    }
+  // Whether the bot messages the user when their games are drawn or refunded
+  async getNotificationSettings(user: VerifiedUser): Promise<NotificationSettings> {
+    return this.backend.getNotificationSettings(user);
+  }
 
-    // Check if user already joined
-    const { data: existingPlayer } = await supabase
-      .from('game_players')
-      .select('id')
-      .eq('game_id', gameId)
-      .eq('telegram_user_id', user.id.toString())
-      .maybeSingle();
+  async updateNotificationSettings(user: VerifiedUser, settings: NotificationSettings): Promise<NotificationSettings> {
+    return this.backend.updateNotificationSettings(user, settings);
+  }
 
-    if (existingPlayer) {
-      throw new Error('Already joined this game');
+  // The admin API for users listed as admins on the server; null for everyone else
+  async getAdminApi(user: VerifiedUser): Promise<AdminApi | null> {
+    return this.backend.getAdminApi(user);
+  }
+
+  // Rooms with their open game and how full it is
+  async getLobby(): Promise<LobbyRoom[]> {
+    const rooms = await this.repository.getRooms();
+
+    return Promise.all(rooms.map(async (room) => {
+      const game = await this.repository.getOpenGame(room.id);
+      const tickets = game ? totalTickets(await this.repository.getGamePlayers(game.id)) : 0;
+      return { room, game, tickets };
+    }));
+  }
+
+  // Tournaments that are still being played, newest first
+  async getTournaments(): Promise<Tournament[]> {
+    return this.repository.getTournaments();
+  }
+
+  // A tournament's qualifiers and final with their fill levels and winners,
+  // for the bracket view
+  async getTournamentBracket(tournamentId: string): Promise<TournamentView | null> {
+    const tournament = await this.repository.getTournament(tournamentId);
+    if (!tournament) {
+      return null;
     }
 
-    // Request star payment from user
-    const paymentResult = await paymentManager.requestStarPayment(
-      user.id,
-      game.entry_fee,
-      `Join lottery game - Entry fee: ${game.entry_fee} star${game.entry_fee > 1 ? 's' : ''}`
-    );
+    const games = await this.repository.getTournamentGames(tournamentId);
+    const bracketGames = await Promise.all(games.map(async (game): Promise<BracketGame> => {
+      const players = await this.repository.getGamePlayers(game.id);
+      return { game, tickets: totalTickets(players), winners: this.getWinners(game, players) };
+    }));
+    const rounds = bracketGames.filter(({ game }) => game.tournament_round === 1);
+
+    return {
+      tournament,
+      rounds,
+      final: bracketGames.find(({ game }) => game.tournament_round === 2) ?? null,
+      pot: carriedPot(rounds.map(({ game }) => game))
+    };
+  }
 
-    if (!paymentResult.success) {
-      throw new Error(`Payment failed: ${paymentResult.error}`);
+  // The room's open game; asks the backend to open one if the last game just filled
+  async openRoom(user: VerifiedUser, roomId: string): Promise<Game> {
+    const open = await this.repository.getOpenGame(roomId);
+    return open ?? this.backend.createGame(user, roomId);
+  }
+
+  // The open game of the group the app was opened from; asks the backend to
+  // open one with the group's stakes if there is none
+  async openChatGame(user: VerifiedUser): Promise<Game> {
+    const chatId = chatScope(user);
+    if (!chatId) {
+      throw new Error('The app was not opened from a group chat');
     }
 
-    // Add player to game
-    const { error: playerError } = await supabase
-      .from('game_players')
-      .insert({
-        game_id: gameId,
-        telegram_user_id: user.id.toString(),
-        telegram_username: user.username || '',
-        telegram_first_name: user.first_name,
-        payment_status: 'completed',
-        transaction_id: paymentResult.transaction_id
-      });
-
-    if (playerError) {
-      throw new Error(`Failed to join game: ${playerError.message}`);
+    const open = await this.repository.getCurrentGame(chatId);
+    return open ?? this.backend.openChatGame(user);
+  }
+
+  // The group's stakes and whether the user may change them
+  async getChatLottery(user: VerifiedUser): Promise<ChatLotteryView> {
+    return this.backend.getChatLottery(user);
+  }
+
+  async updateChatLottery(user: VerifiedUser, settings: ChatLotterySettings): Promise<ChatLottery> {
+    return this.backend.updateChatLottery(user, settings);
+  }
+
+  // Buy `tickets` tickets in a game with one payment
+  async joinGame(gameId: string, user: VerifiedUser, tickets: number = 1): Promise<boolean> {
+    // Check if game exists and has space
+    const game = await this.repository.getGame(gameId);
+    if (!game || game.status !== 'waiting') {
+      throw new Error('Game not found or not accepting players');
     }
 
-    // Update prize pool
-    const newPrizePool = game.prize_pool + game.entry_fee;
-    const newPlayerCount = (count || 0) + 1;
+    validateTicketCount(tickets, game);
 
-    await supabase
-      .from('games')
-      .update({ 
-        prize_pool: newPrizePool,
-        status: newPlayerCount >= game.max_players ? 'full' : 'waiting'
-      })
-      .eq('id', gameId);
+    // Check the tickets left for this player and in the game
+    const players = await this.repository.getGamePlayers(gameId);
+    const available = ticketsAvailable(game, players, user.id.toString());
+    if (tickets > available) {
+      throw new InvalidTicketCountError(available === 0 ? 'No more tickets available for you in this game' : `Only ${available} more ticket${available === 1 ? '' : 's'} available for you`);
+    }
 
+    // These checks only fail fast; the repository's atomic join is what
+    // actually enforces them once the payment is recorded
+    await this.backend.payEntry(user, gameId, tickets);
     return true;
   }
 
   // Get current active game
   async getCurrentGame(): Promise<Game | null> {
-    const { data, error } = await supabase
-      .from('games')
-      .select('*')
-      .eq('status', 'waiting')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (error) {
-      throw new Error(`Failed to get current game: ${error.message}`);
-    }
+    return this.repository.getCurrentGame();
+  }
 
-    return data;
+  // Get a game by id, including the revealed seed once it has been drawn
+  async getGame(gameId: string): Promise<Game | null> {
+    return this.repository.getGame(gameId);
   }
 
   // Get game players
   async getGamePlayers(gameId: string): Promise<GamePlayer[]> {
-    const { data, error } = await supabase
-      .from('game_players')
-      .select('*')
-      .eq('game_id', gameId)
-      .order('joined_at', { ascending: true });
-
-    if (error) {
-      throw new Error(`Failed to get players: ${error.message}`);
+    return this.repository.getGamePlayers(gameId);
+  }
+
+  // Drawn places in order, first place first. Draws run on the backend; the
+  // client only shows the result.
+  getWinners(game: Game, players: GamePlayer[]): GamePlayer[] {
+    if (game.status !== 'completed') {
+      return [];
     }
 
-    return data || [];
+    const winnerIds = game.winner_ids ?? (game.winner_id ? [game.winner_id] : []);
+    return winnerIds
+      .map(id => players.find(player => player.telegram_user_id === id))
+      .filter((player): player is GamePlayer => !!player);
   }
 
-  // Subscribe to game updates
-  subscribeToGameUpdates(gameId: string, callback: () => void): () => void {
-    const channel = supabase
-      .channel('game-updates')
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'game_players',
-        filter: `game_id=eq.${gameId}`
-      }, callback)
-      .subscribe();
+  // Subscribe to typed changes to a game (see realtime.ts). A `synced`
+  // snapshot follows every (re)connect and every return of the app to the
+  // foreground, since a backgrounded app can miss events without noticing.
+  subscribeToGameUpdates(game: Game, onEvent: GameEventListener): () => void {
+    let closed = false;
+
+    const resync = async () => {
+      try {
+        const [latest, players] = await Promise.all([
+          this.repository.getGame(game.id),
+          this.repository.getGamePlayers(game.id)
+        ]);
+        if (latest && !closed) {
+          onEvent({ type: 'synced', game: latest, players });
+        }
+      } catch (error) {
+        console.warn('Failed to resync game:', error);
+      }
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        void resync();
+      }
+    };
+
+    const unsubscribe = this.repository.subscribeToGame(game, onEvent, () => void resync());
+    document.addEventListener('visibilitychange', onVisibilityChange);
 
     return () => {
-      supabase.removeChannel(channel);
+      closed = true;
+      unsubscribe();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
     };
   }
 
-  // Select winner and complete game
-  async selectWinner(gameId: string, paymentManager: any): Promise<GamePlayer> {
-    const players = await this.getGamePlayers(gameId);
-    if (players.length === 0) {
-      throw new Error('No players in game');
-    }
+  // Subscribe to changes in any room or tournament, for the lobby's fill
+  // levels. Changes are coalesced for `delayMs`, then only the tickets of the
+  // open games that changed are reloaded.
+  subscribeToLobbyUpdates(onUpdate: (update: LobbyUpdate) => void, delayMs: number = LOBBY_UPDATE_DELAY_MS): () => void {
+    let pending: LobbyChange[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const flush = async () => {
+      timer = null;
+      const changes = pending;
+      pending = [];
+      try {
+        const update = await this.toLobbyUpdate(changes);
+        if (!closed) {
+          onUpdate(update);
+        }
+      } catch (error) {
+        console.warn('Failed to update lobby:', error);
+      }
+    };
 
-    // Get game details for prize calculation
-    const { data: game } = await supabase
-      .from('games')
-      .select('prize_pool')
-      .eq('id', gameId)
-      .single();
+    const unsubscribe = this.repository.subscribeToLobby((change) => {
+      pending.push(change);
+      timer ??= setTimeout(() => void flush(), delayMs);
+    });
 
-    if (!game) {
-      throw new Error('Game not found');
-    }
+    return () => {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      unsubscribe();
+    };
+  }
 
-    // Select random winner
-    const winner = players[Math.floor(Math.random() * players.length)];
-    
-    // Calculate winnings (70% of prize pool)
-    const winnings = Math.floor(game.prize_pool * 0.7);
-
-    // Transfer stars to winner
-    if (winnings > 0) {
-      await paymentManager.transferStarsToWinner(
-        parseInt(winner.telegram_user_id),
-        winnings
-      );
+  // The latest version of each changed game and tournament
+  private async toLobbyUpdate(changes: LobbyChange[]): Promise<LobbyUpdate> {
+    const games = new Map<string, Game>();
+    const tournaments = new Map<string, Tournament>();
+
+    for (const change of changes) {
+      if (change.type === 'reload') {
+        return { games: null, tournaments: [] };
+      }
+      if (change.type === 'game_changed') {
+        games.set(change.game.id, change.game);
+      } else {
+        tournaments.set(change.tournament.id, change.tournament);
+      }
     }
 
-    // Update game status
-    await supabase
-      .from('games')
-      .update({
-        status: 'completed',
-        winner_id: winner.telegram_user_id,
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', gameId);
+    return {
+      // Games that stopped waiting leave the lobby, so their tickets are not needed
+      games: await Promise.all([...games.values()].map(async (game) => ({
+        game,
+        tickets: game.status === 'waiting' ? totalTickets(await this.repository.getGamePlayers(game.id)) : 0
+      }))),
+      tournaments: [...tournaments.values()]
+    };
+  }
+}
+
+// Supabase is configured but did not answer. The app offers a retry rather
+// than quietly switching to demo data.
+export class GameServerUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Could not reach the game server: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'GameServerUnavailableError';
+  }
+}
+
+// Use Supabase and the backend when configured, otherwise the in-memory demo.
+// Throws GameServerUnavailableError when Supabase is configured but unreachable.
+export async function createGameManager(payments: TelegramPayments): Promise<GameManager> {
+  if (!supabase) {
+    console.warn('Supabase environment variables not found, using demo mode');
+    return createDemoGameManager();
+  }
+
+  const repository = new SupabaseGameRepository(supabase);
+
+  try {
+    await repository.getCurrentGame();
+  } catch (error) {
+    throw new GameServerUnavailableError(error);
+  }
+
+  return new GameManager(repository, new ApiGameBackend(payments));
+}
 
-    return winner;
+async function createDemoGameManager(): Promise<GameManager> {
+  const repository = new MemoryGameRepository();
+  const payments = new FakePayments();
+  const backend = new DemoGameBackend(repository, payments);
+  const bots = new DemoBots(repository, backend);
+
+  await backend.openRooms();
+  await backend.openTournament();
+  // The demo player "invited" a few bots, so the invite screen has something to show
+  for (const botId of ['1000', '1001', '1002']) {
+    repository.recordReferral(String(DEMO_USER.id), botId);
   }
+  bots.start();
+  return new GameManager(repository, backend, { payments, bots });
 }
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GameRepository, JoiningUser, NewGame } from './game-repository';
+import { JoinRejectedError, type JoinRejection } from './join-game';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import type { GameEvent } from './realtime';
+import { totalTickets } from './tickets';
+
+export interface ContractOptions {
+  // Skip the suite, e.g. when the backend is not configured
+  skip?: boolean;
+  // Whether subscribeToGame reports connecting by calling `resync`. Events
+  // are only delivered once it has; otherwise they are from the start.
+  resyncsOnSubscribe?: boolean;
+  // How long to wait for an event to arrive
+  eventTimeoutMs?: number;
+}
+
+// The behaviour every GameRepository must share, run by each backend's tests.
+// Games are one-off games and users get fresh ids, so a shared database only
+// gains rows.
+export function describeGameRepository(name: string, createRepository: () => GameRepository, options: ContractOptions = {}): void {
+  const timeout = options.eventTimeoutMs ?? 1000;
+
+  describe.skipIf(options.skip)(`${name} (GameRepository contract)`, () => {
+    let repository: GameRepository;
+    let unsubscribes: (() => void)[] = [];
+    let nextUserId = 900_000_000 + Math.floor(Math.random() * 90_000_000);
+
+    const newUser = (): JoiningUser => {
+      const id = nextUserId++;
+      return { id, first_name: `Player ${id}`, username: `player_${id}` };
+    };
+    const createGame = (game: Partial<NewGame> = {}) =>
+      repository.createGame({ max_players: 4, entry_fee: 5, prize_rules: DEFAULT_PRIZE_RULES, ...game });
+
+    const rejection = (promise: Promise<unknown>) =>
+      promise.then(() => null, (error: unknown) => {
+        expect(error).toBeInstanceOf(JoinRejectedError);
+        return (error as JoinRejectedError).reason;
+      });
+
+    // Subscribe and wait until the subscription is connected
+    async function subscribe(game: Awaited<ReturnType<typeof createGame>>): Promise<GameEvent[]> {
+      const events: GameEvent[] = [];
+      let connected = !options.resyncsOnSubscribe;
+      unsubscribes.push(repository.subscribeToGame(game, (event) => events.push(event), () => {
+        connected = true;
+      }));
+      await vi.waitFor(() => expect(connected).toBe(true), { timeout });
+      return events;
+    }
+
+    beforeEach(() => {
+      repository = createRepository();
+    });
+
+    afterEach(() => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes = [];
+    });
+
+    it('creates a waiting game with an empty pool and the defaults', async () => {
+      const game = await createGame({ seed_hash: 'a'.repeat(64) });
+
+      expect(game).toMatchObject({
+        status: 'waiting',
+        prize_pool: 0,
+        max_players: 4,
+        max_tickets_per_player: 1,
+        entry_fee: 5,
+        prize_rules: DEFAULT_PRIZE_RULES,
+        draw_mode: 'fill',
+        seed_hash: 'a'.repeat(64)
+      });
+      expect(await repository.getGame(game.id)).toMatchObject({ id: game.id, status: 'waiting' });
+    });
+
+    it('returns null for an unknown game', async () => {
+      expect(await repository.getGame(crypto.randomUUID())).toBeNull();
+    });
+
+    it('returns the newest waiting game outside group chats as the current game', async () => {
+      await createGame();
+      const newest = await createGame();
+
+      expect((await repository.getCurrentGame())?.id).toBe(newest.id);
+    });
+
+    it('adds paid entries in join order and fills the pool', async () => {
+      const game = await createGame({ max_tickets_per_player: 2 });
+      const [first, second] = [newUser(), newUser()];
+
+      expect(await repository.joinGame(game.id, first, undefined, 2)).toEqual({ ticket_count: 2, game_status: 'waiting' });
+      expect(await repository.joinGame(game.id, second)).toEqual({ ticket_count: 3, game_status: 'waiting' });
+
+      const players = await repository.getGamePlayers(game.id);
+      expect(players.map((player) => [player.telegram_user_id, player.tickets])).toEqual([[String(first.id), 2], [String(second.id), 1]]);
+      expect(players[0]).toMatchObject({ game_id: game.id, telegram_first_name: first.first_name, payment_status: 'completed' });
+      expect(await repository.getGame(game.id)).toMatchObject({ prize_pool: 15, status: 'waiting' });
+    });
+
+    it('marks the game full with its last ticket', async () => {
+      const game = await createGame({ max_players: 2 });
+
+      await repository.joinGame(game.id, newUser());
+      expect(await repository.joinGame(game.id, newUser())).toEqual({ ticket_count: 2, game_status: 'full' });
+      expect(await repository.getGame(game.id)).toMatchObject({ status: 'full', prize_pool: 10 });
+    });
+
+    it('rejects entries the game cannot take', async () => {
+      const game = await createGame({ max_players: 3, max_tickets_per_player: 2 });
+      const user = newUser();
+
+      expect(await rejection(repository.joinGame(crypto.randomUUID(), user))).toBe<JoinRejection>('GAME_NOT_FOUND');
+      await repository.joinGame(game.id, user);
+      expect(await rejection(repository.joinGame(game.id, user, undefined, 2))).toBe<JoinRejection>('TICKET_LIMIT');
+      await repository.joinGame(game.id, user);
+      expect(await rejection(repository.joinGame(game.id, user))).toBe<JoinRejection>('ALREADY_JOINED');
+      expect(await rejection(repository.joinGame(game.id, newUser(), undefined, 2))).toBe<JoinRejection>('GAME_FULL');
+      await repository.joinGame(game.id, newUser());
+      expect(await rejection(repository.joinGame(game.id, newUser()))).toBe<JoinRejection>('GAME_NOT_WAITING');
+
+      expect(totalTickets(await repository.getGamePlayers(game.id))).toBe(3);
+    });
+
+    it('derives balances from the ledger', async () => {
+      const game = await createGame({ max_tickets_per_player: 2 });
+      const user = newUser();
+
+      expect(await repository.getUserBalance(String(user.id))).toBeNull();
+      await repository.joinGame(game.id, user, undefined, 2);
+
+      expect(await repository.getUserBalance(String(user.id))).toMatchObject({
+        telegram_user_id: String(user.id),
+        stars_balance: 0,
+        total_spent: 10,
+        total_won: 0,
+        games_played: 1,
+        games_won: 0
+      });
+    });
+
+    it('delivers entries and status changes of a watched game as events', async () => {
+      const game = await createGame({ max_players: 2 });
+      const events = await subscribe(game);
+      const [first, second] = [newUser(), newUser()];
+
+      await repository.joinGame(game.id, first);
+      await repository.joinGame(game.id, second);
+
+      await vi.waitFor(() => {
+        expect(events.filter((event) => event.type === 'player_joined')).toHaveLength(2);
+        expect(events).toContainEqual(expect.objectContaining({ type: 'status_changed', game_id: game.id, status: 'full' }));
+      }, { timeout });
+    });
+
+    it('stops delivering events once unsubscribed', async () => {
+      const game = await createGame();
+      const events = await subscribe(game);
+      unsubscribes.pop()?.();
+
+      await repository.joinGame(game.id, newUser());
+      await new Promise((resolve) => setTimeout(resolve, Math.min(timeout, 200)));
+
+      expect(events).toEqual([]);
+    });
+
+    it('tells the lobby when a game changes', async () => {
+      const game = await createGame();
+      const callback = vi.fn();
+      unsubscribes.push(repository.subscribeToLobby(callback));
+      // The lobby subscription gives no sign of connecting, so give it time
+      await new Promise((resolve) => setTimeout(resolve, options.resyncsOnSubscribe ? timeout / 2 : 0));
+
+      await repository.joinGame(game.id, newUser());
+
+      await vi.waitFor(() => expect(callback).toHaveBeenCalled(), { timeout });
+    });
+  });
+}
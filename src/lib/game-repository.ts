@@ -0,0 +1,63 @@
+import type { DrawMode } from './draw-schedule';
+import type { JoinResult } from './join-game';
+import type { PrizeRules } from './prize-rules';
+import type { GameEventListener, LobbyChangeListener } from './realtime';
+import type { Game, GamePlayer, RoomTemplate, Tournament, UserBalance, VerifiedUser } from './types';
+
+export type JoiningUser = Pick<VerifiedUser, 'id' | 'first_name' | 'username'>;
+
+export interface NewGame {
+  // At most one waiting game per room
+  room_id?: string;
+  // At most one waiting game per group chat
+  chat_id?: string;
+  max_players: number;
+  min_players?: number;
+  // Defaults to one ticket per player
+  max_tickets_per_player?: number;
+  entry_fee: number;
+  prize_rules: PrizeRules;
+  // Defaults to 'fill'; scheduled games need `draw_at`
+  draw_mode?: DrawMode;
+  draw_at?: string;
+  // Tournament games only
+  tournament_id?: string;
+  tournament_round?: 1 | 2;
+  bracket_slot?: number;
+  // Commitment to the server seed; games created by the backend always have one
+  seed_hash?: string;
+}
+
+// Storage for games, entries and balances. Implementations only store and
+// fetch; the game rules live in GameManager. Every backend must behave the
+// same, in particular joinGame must be atomic and never sell more than
+// max_players tickets or more than max_tickets_per_player to one player.
+export interface GameRepository {
+  createGame(game: NewGame): Promise<Game>;
+  getGame(gameId: string): Promise<Game | null>;
+  // Most recently created game that is still accepting players: the chat's
+  // own game when `chatId` is given, otherwise one outside any group chat
+  getCurrentGame(chatId?: string): Promise<Game | null>;
+  // Active rooms in lobby order
+  getRooms(): Promise<RoomTemplate[]>;
+  // The room's game that is accepting players, if one is open
+  getOpenGame(roomId: string): Promise<Game | null>;
+  // Running tournaments and those in their final, newest first
+  getTournaments(): Promise<Tournament[]>;
+  getTournament(tournamentId: string): Promise<Tournament | null>;
+  // A tournament's qualifiers in bracket order, then its final
+  getTournamentGames(tournamentId: string): Promise<Game[]>;
+  // Paid entries in join order
+  getGamePlayers(gameId: string): Promise<GamePlayer[]>;
+  // Atomically check and add a paid entry of `tickets` tickets; rejections
+  // throw JoinRejectedError
+  joinGame(gameId: string, user: JoiningUser, chargeId?: string, tickets?: number): Promise<JoinResult>;
+  // Null for users without any ledger history
+  getUserBalance(telegramUserId: string): Promise<UserBalance | null>;
+  // Deliver changes to `game` and its entries, and the next game opened in its
+  // room or chat, as typed events. `resync` is called whenever the
+  // subscription (re)connects, as changes made while it was down are lost.
+  subscribeToGame(game: Game, onEvent: GameEventListener, resync: () => void): () => void;
+  // Deliver changes to games and tournaments, for live lobby fill levels
+  subscribeToLobby(onChange: LobbyChangeListener): () => void;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { historyCursor, historyPage, parseHistoryCursor, type HistoryGame } from './history';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+
+function historyGame(id: string, createdAt: string): HistoryGame {
+  return {
+    game: {
+      id,
+      status: 'cancelled',
+      max_players: 2,
+      max_tickets_per_player: 1,
+      entry_fee: 5,
+      prize_pool: 0,
+      prize_rules: DEFAULT_PRIZE_RULES,
+      draw_mode: 'fill',
+      created_at: createdAt
+    },
+    players: [{
+      id: `${id}-entry`,
+      game_id: id,
+      telegram_user_id: '1',
+      telegram_first_name: 'User 1',
+      joined_at: createdAt,
+      payment_status: 'refunded',
+      tickets: 1
+    }]
+  };
+}
+
+describe('history cursors', () => {
+  it('round-trips the creation time and id of a game', () => {
+    const cursor = historyCursor({ created_at: '2026-10-19T12:00:00.123456+00:00', id: 'game-1' });
+
+    expect(parseHistoryCursor(cursor)).toEqual({ created_at: '2026-10-19T12:00:00.123456+00:00', id: 'game-1' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseHistoryCursor('2026-10-19T12:00:00.000Z')).toBeNull();
+    expect(parseHistoryCursor('yesterday_game-1')).toBeNull();
+    expect(parseHistoryCursor('2026-10-19T12:00:00.000Z_')).toBeNull();
+  });
+});
+
+describe('historyPage', () => {
+  it('pages through games created in the same instant without skipping any', () => {
+    const games = ['game-a', 'game-b', 'game-c', 'game-d'].map((id) => historyGame(id, '2026-10-19T12:00:00.000Z'));
+
+    const first = historyPage('1', games, 'all', undefined, 2);
+    const second = historyPage('1', games, 'all', first.next_cursor, 2);
+
+    expect([...first.items, ...second.items].map((item) => item.game.id)).toEqual(['game-d', 'game-c', 'game-b', 'game-a']);
+    expect(second.next_cursor).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { distributePrize } from './prize-rules';
+import type { Game, GamePlayer } from './types';
+
+// A player's game history: every drawn or refunded game they entered, newest
+// first, with the result, the draw proof and their own entries. Pages are
+// keyed on created_at and id so new games do not shift later pages and games
+// created in the same instant are neither skipped nor repeated.
+
+export type HistoryFilter = 'all' | 'won' | 'lost' | 'refunded';
+
+export const HISTORY_FILTERS: HistoryFilter[] = ['all', 'won', 'lost', 'refunded'];
+
+export const HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// Statuses a game can be in to appear in the history
+export const HISTORY_STATUSES: Game['status'][] = ['completed', 'refunding', 'cancelled'];
+
+// A game with its paid and refunded entries
+export interface HistoryGame {
+  game: Game;
+  players: GamePlayer[];
+}
+
+export interface HistoryItem {
+  // Includes seed_hash and server_seed, the draw proof
+  game: Game;
+  // Every paid or refunded entry, for the player list and verifying the draw
+  players: GamePlayer[];
+  // Drawn places in order, first place first
+  winners: GamePlayer[];
+  // Prize per place
+  prizes: number[];
+  // The caller's entries with their payment status
+  my_entries: GamePlayer[];
+  outcome: Exclude<HistoryFilter, 'all'>;
+  // Stars the caller won in the game
+  won: number;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  // Pass as `before` to get the next page; unset on the last page
+  next_cursor?: string;
+}
+
+export function isHistoryFilter(value: unknown): value is HistoryFilter {
+  return HISTORY_FILTERS.includes(value as HistoryFilter);
+}
+
+// Where a page ends: the last game's created_at and id. next_cursor carries
+// it as "<created_at>_<id>"; timestamps never contain an underscore.
+export interface HistoryCursor {
+  created_at: string;
+  id: string;
+}
+
+export function historyCursor(game: Pick<Game, 'created_at' | 'id'>): string {
+  return `${game.created_at}_${game.id}`;
+}
+
+// The cursor in a next_cursor, or null when it is not one
+export function parseHistoryCursor(cursor: string): HistoryCursor | null {
+  const separator = cursor.indexOf('_');
+  const createdAt = cursor.slice(0, separator);
+  const id = cursor.slice(separator + 1);
+  if (separator < 0 || !id || Number.isNaN(new Date(createdAt).getTime())) {
+    return null;
+  }
+  return { created_at: createdAt, id };
+}
+
+// Whether `game` is older than the cursor, so on a later page
+function isBefore(game: Game, cursor: HistoryCursor): boolean {
+  const createdAt = new Date(game.created_at).getTime();
+  const cursorAt = new Date(cursor.created_at).getTime();
+  return createdAt < cursorAt || (createdAt === cursorAt && game.id < cursor.id);
+}
+
+export function historyItem(telegramUserId: string, { game, players }: HistoryGame): HistoryItem {
+  const winnerIds = game.status === 'completed' ? game.winner_ids ?? (game.winner_id ? [game.winner_id] : []) : [];
+  const { prizes } = distributePrize(game.prize_rules, game.prize_pool, winnerIds.length);
+  const winners = winnerIds
+    .map((id) => players.find((player) => player.telegram_user_id === id && player.payment_status === 'completed'))
+    .filter((player): player is GamePlayer => !!player);
+  const won = winnerIds.reduce((total, id, place) => (id === telegramUserId ? total + prizes[place] : total), 0);
+
+  return {
+    game,
+    players,
+    winners,
+    prizes: winnerIds.length > 0 ? prizes : [],
+    my_entries: players.filter((player) => player.telegram_user_id === telegramUserId),
+    outcome: game.status !== 'completed' ? 'refunded' : won > 0 ? 'won' : 'lost',
+    won
+  };
+}
+
+// One page of a player's history, for backends that hold every game in memory
+export function historyPage(
+  telegramUserId: string,
+  games: HistoryGame[],
+  filter: HistoryFilter,
+  before?: string,
+  limit: number = HISTORY_PAGE_SIZE
+): HistoryPage {
+  const cursor = before ? parseHistoryCursor(before) : null;
+  const items = games
+    .filter(({ game }) => HISTORY_STATUSES.includes(game.status) && (!cursor || isBefore(game, cursor)))
+    .sort((a, b) => b.game.created_at.localeCompare(a.game.created_at) || (a.game.id < b.game.id ? 1 : a.game.id > b.game.id ? -1 : 0))
+    .map((game) => historyItem(telegramUserId, game))
+    .filter((item) => item.my_entries.length > 0 && (filter === 'all' || item.outcome === filter));
+
+  const page = items.slice(0, limit);
+  return {
+    items: page,
+    next_cursor: items.length > limit ? historyCursor(page[page.length - 1].game) : undefined
+  };
+}
@@ -0,0 +1,34 @@
+import type { Game } from './types';
+
+// Result of the atomic join_game operation
+export interface JoinResult {
+  // Paid tickets in the game after this entry
+  ticket_count: number;
+  game_status: Game['status'];
+}
+
+// Reasons join_game refuses an entry, raised as the Postgres exception message
+export type JoinRejection = 'GAME_NOT_FOUND' | 'GAME_NOT_WAITING' | 'ALREADY_JOINED' | 'TICKET_LIMIT' | 'GAME_FULL';
+
+const JOIN_REJECTION_MESSAGES: Record<JoinRejection, string> = {
+  GAME_NOT_FOUND: 'Game not found',
+  GAME_NOT_WAITING: 'Game is not accepting players',
+  ALREADY_JOINED: 'Already holding the most tickets allowed in this game',
+  TICKET_LIMIT: 'That would exceed the tickets allowed per player in this game',
+  GAME_FULL: 'Not enough tickets left in this game'
+};
+
+export class JoinRejectedError extends Error {
+  constructor(public readonly reason: JoinRejection) {
+    super(JOIN_REJECTION_MESSAGES[reason]);
+    this.name = 'JoinRejectedError';
+  }
+}
+
+// Recognise a join_game rejection in a database error message
+export function parseJoinRejection(message: string | undefined): JoinRejection | null {
+  const reason = (Object.keys(JOIN_REJECTION_MESSAGES) as JoinRejection[])
+    .find((key) => message?.includes(key));
+
+  return reason ?? null;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HOUSE,
+  TELEGRAM_PAYMENTS,
+  UnbalancedTransactionError,
+  assertBalanced,
+  entryFeeTransaction,
+  finalPotTransaction,
+  gameAccount,
+  ledgerTotal,
+  payoutTransaction,
+  referralTransaction,
+  refundTransaction,
+  tournamentAccount,
+  userAccount,
+  type LedgerAccount,
+  type LedgerEntry
+} from './ledger';
+import { DEFAULT_PRIZE_RULES, distributePrize, type PrizeRules } from './prize-rules';
+import { referralRewards } from './referrals';
+
+const accountBalance = (entries: LedgerEntry[], account: LedgerAccount) =>
+  ledgerTotal(entries.filter((entry) => entry.account === account));
+
+// Entry fees for `players` single-ticket entries, paid by users 1..players
+function entryFees(gameId: string, players: number, fee: number): LedgerEntry[] {
+  return Array.from({ length: players }, (_, i) => entryFeeTransaction(gameId, `${gameId}-entry-${i + 1}`, String(i + 1), fee)).flat();
+}
+
+describe('ledger transactions', () => {
+  it('balances an entry fee and its refund', () => {
+    const entry = entryFeeTransaction('g1', 'e1', '1', 10);
+    const refund = refundTransaction('g1', 'e1', '1', 10);
+
+    assertBalanced(entry);
+    assertBalanced(refund);
+    expect(ledgerTotal([...entry, ...refund])).toBe(0);
+    expect(accountBalance([...entry, ...refund], gameAccount('g1'))).toBe(0);
+    expect(accountBalance([...entry, ...refund], TELEGRAM_PAYMENTS)).toBe(0);
+  });
+
+  it('empties the prize pool into the winners and the house', () => {
+    const fees = entryFees('g1', 10, 10);
+    const { prizes, commission } = distributePrize(DEFAULT_PRIZE_RULES, 100);
+    const payout = payoutTransaction('g1', [{ telegram_user_id: '3', amount: prizes[0] }], commission);
+    const ledger = [...fees, ...payout];
+
+    assertBalanced(payout);
+    expect(ledgerTotal(ledger)).toBe(0);
+    expect(accountBalance(ledger, gameAccount('g1'))).toBe(0);
+    expect(accountBalance(ledger, userAccount('3'))).toBe(70);
+    expect(accountBalance(ledger, HOUSE)).toBe(30);
+  });
+
+  it('has the house top up a guaranteed prize larger than the pool', () => {
+    const rules: PrizeRules = { ...DEFAULT_PRIZE_RULES, min_prize: 50 };
+    const fees = entryFees('g1', 3, 10);
+    const { prizes, commission } = distributePrize(rules, 30);
+    const payout = payoutTransaction('g1', [{ telegram_user_id: '2', amount: prizes[0] }], commission);
+    const ledger = [...fees, ...payout];
+
+    expect(commission).toBe(-20);
+    assertBalanced(payout);
+    expect(ledgerTotal(ledger)).toBe(0);
+    expect(accountBalance(ledger, gameAccount('g1'))).toBe(0);
+    expect(accountBalance(ledger, userAccount('2'))).toBe(50);
+    expect(accountBalance(ledger, HOUSE)).toBe(-20);
+  });
+
+  it('keeps the stars lost to rounding with the house', () => {
+    const rules: PrizeRules = { house_percent: 10, winners: 3, tiers: [50, 25, 15], min_prize: 0 };
+    const fees = entryFees('g1', 7, 1);
+    const { prizes, commission } = distributePrize(rules, 7);
+    const payout = payoutTransaction('g1', prizes.map((amount, place) => ({ telegram_user_id: String(place + 1), amount })), commission);
+    const ledger = [...fees, ...payout];
+
+    assertBalanced(payout);
+    expect(ledgerTotal(ledger)).toBe(0);
+    expect(accountBalance(ledger, gameAccount('g1'))).toBe(0);
+    expect(accountBalance(ledger, HOUSE)).toBe(7 - prizes.reduce((total, prize) => total + prize, 0));
+  });
+
+  it('carries part of each round into the tournament final', () => {
+    const rules: PrizeRules = { house_percent: 10, winners: 1, tiers: [70], min_prize: 0, carry_percent: 20 };
+    const ledger: LedgerEntry[] = [];
+
+    for (const round of ['r1', 'r2']) {
+      const { prizes, commission, carry } = distributePrize(rules, 50);
+      const payout = payoutTransaction(round, [{ telegram_user_id: '1', amount: prizes[0] }], commission, { tournamentId: 't1', amount: carry });
+      assertBalanced(payout);
+      ledger.push(...entryFees(round, 5, 10), ...payout);
+      expect(accountBalance(ledger, gameAccount(round))).toBe(0);
+    }
+    expect(accountBalance(ledger, tournamentAccount('t1'))).toBe(20);
+
+    const finalPot = finalPotTransaction('t1', 'final', 20);
+    assertBalanced(finalPot);
+    ledger.push(...finalPot);
+    expect(accountBalance(ledger, tournamentAccount('t1'))).toBe(0);
+    expect(accountBalance(ledger, gameAccount('final'))).toBe(20);
+
+    const { prizes, commission } = distributePrize(DEFAULT_PRIZE_RULES, 20);
+    ledger.push(...payoutTransaction('final', [{ telegram_user_id: '2', amount: prizes[0] }], commission));
+
+    expect(ledgerTotal(ledger)).toBe(0);
+    expect(accountBalance(ledger, gameAccount('final'))).toBe(0);
+  });
+
+  it('pays referral rewards out of the house commission', () => {
+    const fees = entryFees('g1', 10, 100);
+    const { prizes, commission } = distributePrize(DEFAULT_PRIZE_RULES, 1000);
+    const payout = payoutTransaction('g1', [{ telegram_user_id: '1', amount: prizes[0] }], commission);
+    const entries = Array.from({ length: 10 }, (_, i) => ({ telegram_user_id: String(i + 1), tickets: 1 }));
+    const referrers = new Map([['2', 'r1'], ['3', 'r1'], ['4', 'r2']]);
+    const rewards = referralRewards(entries, referrers, 100, 1000, commission, 10);
+    const referral = referralTransaction('g1', rewards);
+    const ledger = [...fees, ...payout, ...referral];
+
+    assertBalanced(referral);
+    expect(ledgerTotal(ledger)).toBe(0);
+    expect(accountBalance(ledger, userAccount('r1'))).toBe(6);
+    expect(accountBalance(ledger, userAccount('r2'))).toBe(3);
+    expect(accountBalance(ledger, HOUSE)).toBe(291);
+  });
+
+  it('pays no referral rewards on a topped-up prize', () => {
+    const { commission } = distributePrize({ ...DEFAULT_PRIZE_RULES, min_prize: 50 }, 30);
+    const rewards = referralRewards([{ telegram_user_id: '2', tickets: 1 }], new Map([['2', 'r1']]), 10, 30, commission, 10);
+
+    expect(rewards).toEqual([]);
+    expect(ledgerTotal(referralTransaction('g1', rewards))).toBe(0);
+  });
+
+  it('rejects a transaction that does not balance', () => {
+    const entries = entryFeeTransaction('g1', 'e1', '1', 10);
+    entries[1] = { ...entries[1], amount: 9 };
+
+    expect(() => assertBalanced(entries)).toThrow(UnbalancedTransactionError);
+  });
+});
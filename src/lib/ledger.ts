@@ -0,0 +1,177 @@
+import type { UserBalance } from './types';
+
+// Double-entry ledger. Every movement of Stars is a transaction made of entries
+// whose signed amounts sum to zero: positive amounts credit an account,
+// negative amounts debit it. Balances are never stored, only derived.
+
+export type LedgerKind = 'entry_fee' | 'winnings' | 'house_commission' | 'refund' | 'opening_balance' | 'tournament_carry' | 'referral_reward' | 'withdrawal';
+
+// Accounts:
+//   telegram:payments  Stars paid in through Telegram and returned by refunds or withdrawals
+//   game:<id>          a game's prize pool, held until the draw
+//   user:<id>          a player's winnings balance
+//   house              commission kept by the organiser, less referral rewards
+//   equity:opening     balances carried over from before the ledger existed
+//   tournament:<id>    pots carried from a tournament's rounds, held until its final opens
+//   withdrawals        Stars players asked to withdraw, until an admin pays or rejects the request
+export type LedgerAccount = 'telegram:payments' | 'house' | 'equity:opening' | 'withdrawals' | `game:${string}` | `user:${string}` | `tournament:${string}`;
+
+export interface LedgerEntry {
+  transaction_key: string;
+  account: LedgerAccount;
+  amount: number;
+  kind: LedgerKind;
+  game_id?: string;
+  telegram_user_id?: string;
+  entry_id?: string;
+  created_at?: string;
+}
+
+export interface WinnerPrize {
+  telegram_user_id: string;
+  amount: number;
+}
+
+export const TELEGRAM_PAYMENTS: LedgerAccount = 'telegram:payments';
+export const HOUSE: LedgerAccount = 'house';
+
+export function gameAccount(gameId: string): LedgerAccount {
+  return `game:${gameId}`;
+}
+
+export function userAccount(telegramUserId: string): LedgerAccount {
+  return `user:${telegramUserId}`;
+}
+
+export function tournamentAccount(tournamentId: string): LedgerAccount {
+  return `tournament:${tournamentId}`;
+}
+
+export class UnbalancedTransactionError extends Error {
+  constructor(transactionKey: string, total: number) {
+    super(`Ledger transaction ${transactionKey} does not balance (off by ${total})`);
+    this.name = 'UnbalancedTransactionError';
+  }
+}
+
+export function ledgerTotal(entries: LedgerEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.amount, 0);
+}
+
+// Throw unless the entries form a single transaction that sums to zero
+export function assertBalanced(entries: LedgerEntry[]): void {
+  const keys = new Set(entries.map((entry) => entry.transaction_key));
+  if (keys.size !== 1) {
+    throw new Error('Ledger entries must belong to exactly one transaction');
+  }
+
+  const total = ledgerTotal(entries);
+  if (total !== 0) {
+    throw new UnbalancedTransactionError(entries[0].transaction_key, total);
+  }
+}
+
+// A player's entry fee moves from Telegram into the game's prize pool
+export function entryFeeTransaction(gameId: string, entryId: string, telegramUserId: string, fee: number): LedgerEntry[] {
+  const base = { transaction_key: `entry:${entryId}`, kind: 'entry_fee' as const, game_id: gameId, telegram_user_id: telegramUserId, entry_id: entryId };
+
+  return [
+    { ...base, account: TELEGRAM_PAYMENTS, amount: -fee },
+    { ...base, account: gameAccount(gameId), amount: fee }
+  ];
+}
+
+// The prize pool is split between the winners and the house. A negative
+// commission means the house tops up a guaranteed prize. Tournament rounds
+// also carry part of the pool to the tournament's account.
+export function payoutTransaction(
+  gameId: string,
+  prizes: WinnerPrize[],
+  commission: number,
+  carry?: { tournamentId: string; amount: number }
+): LedgerEntry[] {
+  const transactionKey = `payout:${gameId}`;
+  const winnings = prizes.reduce((total, prize) => total + prize.amount, 0);
+  const entries: LedgerEntry[] = [
+    { transaction_key: transactionKey, kind: 'winnings', game_id: gameId, account: gameAccount(gameId), amount: -winnings },
+    ...prizes.map((prize): LedgerEntry => ({
+      transaction_key: transactionKey,
+      kind: 'winnings',
+      game_id: gameId,
+      telegram_user_id: prize.telegram_user_id,
+      account: userAccount(prize.telegram_user_id),
+      amount: prize.amount
+    })),
+    { transaction_key: transactionKey, kind: 'house_commission', game_id: gameId, account: gameAccount(gameId), amount: -commission },
+    { transaction_key: transactionKey, kind: 'house_commission', game_id: gameId, account: HOUSE, amount: commission }
+  ];
+
+  if (carry) {
+    entries.push(
+      { transaction_key: transactionKey, kind: 'tournament_carry', game_id: gameId, account: gameAccount(gameId), amount: -carry.amount },
+      { transaction_key: transactionKey, kind: 'tournament_carry', game_id: gameId, account: tournamentAccount(carry.tournamentId), amount: carry.amount }
+    );
+  }
+
+  return entries.filter((entry) => entry.amount !== 0);
+}
+
+// The carried pots move from the tournament into its final's prize pool
+export function finalPotTransaction(tournamentId: string, finalGameId: string, amount: number): LedgerEntry[] {
+  const base = { transaction_key: `final:${tournamentId}`, kind: 'tournament_carry' as const, game_id: finalGameId };
+
+  return [
+    { ...base, account: tournamentAccount(tournamentId), amount: -amount },
+    { ...base, account: gameAccount(finalGameId), amount }
+  ].filter((entry) => entry.amount !== 0);
+}
+
+// Referrers' share of a game's commission moves from the house to their balances
+export function referralTransaction(gameId: string, rewards: WinnerPrize[]): LedgerEntry[] {
+  const transactionKey = `referral:${gameId}`;
+  const total = rewards.reduce((sum, reward) => sum + reward.amount, 0);
+
+  return [
+    { transaction_key: transactionKey, kind: 'referral_reward', game_id: gameId, account: HOUSE, amount: -total },
+    ...rewards.map((reward): LedgerEntry => ({
+      transaction_key: transactionKey,
+      kind: 'referral_reward',
+      game_id: gameId,
+      telegram_user_id: reward.telegram_user_id,
+      account: userAccount(reward.telegram_user_id),
+      amount: reward.amount
+    }))
+  ];
+}
+
+// A refunded entry fee leaves the prize pool and goes back through Telegram
+export function refundTransaction(gameId: string, entryId: string, telegramUserId: string, fee: number): LedgerEntry[] {
+  const base = { transaction_key: `refund:${entryId}`, kind: 'refund' as const, game_id: gameId, telegram_user_id: telegramUserId, entry_id: entryId };
+
+  return [
+    { ...base, account: gameAccount(gameId), amount: -fee },
+    { ...base, account: TELEGRAM_PAYMENTS, amount: fee }
+  ];
+}
+
+// Derive a UserBalance from a player's ledger entries; mirrors the user_balances view
+export function balanceFromLedger(telegramUserId: string, entries: LedgerEntry[]): UserBalance {
+  const own = entries.filter((entry) => entry.telegram_user_id === telegramUserId);
+  const sum = (predicate: (entry: LedgerEntry) => boolean) =>
+    own.filter(predicate).reduce((total, entry) => total + entry.amount, 0);
+  const distinctGames = (predicate: (entry: LedgerEntry) => boolean) =>
+    new Set(own.filter(predicate).map((entry) => entry.game_id)).size;
+
+  return {
+    telegram_user_id: telegramUserId,
+    stars_balance: sum((entry) => entry.account === userAccount(telegramUserId)),
+    total_spent: sum((entry) => entry.kind === 'entry_fee' && entry.account.startsWith('game:')) +
+      sum((entry) => entry.kind === 'refund' && entry.account.startsWith('game:')),
+    total_won: sum((entry) => entry.kind === 'winnings' && entry.account.startsWith('user:')),
+    // Free tournament finals have no entry fee; refunded games were never played
+    games_played: distinctGames((entry) => entry.kind === 'entry_fee' || entry.kind === 'winnings') -
+      distinctGames((entry) => entry.kind === 'refund'),
+    games_won: distinctGames((entry) => entry.kind === 'winnings'),
+    updated_at: own.reduce((latest, entry) => (entry.created_at && entry.created_at > latest ? entry.created_at : latest), '')
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { describeGameRepository } from './game-repository.contract';
+import { JoinRejectedError } from './join-game';
+import { MemoryGameRepository } from './memory-game-repository';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import { totalTickets } from './tickets';
+
+// JavaScript runs each joinGame call to its first await before the next one
+// starts, so these check capacity and rejections over a burst of calls, not
+// real concurrency
+describe('MemoryGameRepository.joinGame', () => {
+  it('sells no more than max_players tickets to a burst of 50 joins', async () => {
+    const repository = new MemoryGameRepository();
+    const game = await repository.createGame({ max_players: 10, entry_fee: 5, prize_rules: DEFAULT_PRIZE_RULES });
+
+    const results = await Promise.allSettled(Array.from({ length: 50 }, (_, i) =>
+      repository.joinGame(game.id, { id: i + 1, first_name: `User ${i + 1}` }, `charge-${i + 1}`)));
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(10);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(JoinRejectedError);
+      }
+    }
+    expect(totalTickets(await repository.getGamePlayers(game.id))).toBe(10);
+    expect(await repository.getGame(game.id)).toMatchObject({ status: 'full', prize_pool: 50 });
+  });
+
+  it('counts tickets, not entries, against the capacity', async () => {
+    const repository = new MemoryGameRepository();
+    const game = await repository.createGame({ max_players: 10, max_tickets_per_player: 3, entry_fee: 5, prize_rules: DEFAULT_PRIZE_RULES });
+
+    await Promise.allSettled(Array.from({ length: 50 }, (_, i) =>
+      repository.joinGame(game.id, { id: i + 1, first_name: `User ${i + 1}` }, `charge-${i + 1}`, 3)));
+
+    expect(totalTickets(await repository.getGamePlayers(game.id))).toBe(9);
+  });
+});
+
+describeGameRepository('MemoryGameRepository', () => new MemoryGameRepository());
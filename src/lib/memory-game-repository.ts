@@ -0,0 +1,421 @@
+import { TransitionConflictError } from './game-lifecycle';
+import { JoinRejectedError, type JoinResult } from './join-game';
+import { balanceFromLedger, entryFeeTransaction, finalPotTransaction, payoutTransaction, referralTransaction, refundTransaction, type LedgerEntry, type WinnerPrize } from './ledger';
+import type { GameRepository, JoiningUser, NewGame } from './game-repository';
+import type { HistoryGame } from './history';
+import { DEFAULT_ROOMS } from './rooms';
+import type { CompletedGame } from './stats';
+import { heldTickets, totalTickets } from './tickets';
+import { diffGame, type GameEvent, type GameEventListener, type LobbyChange, type LobbyChangeListener } from './realtime';
+import type { Qualifier } from './tournaments';
+import type { Game, GamePlayer, ReferralStats, RoomTemplate, Tournament, UserBalance } from './types';
+
+// In-memory repository for demo mode and local development
+export class MemoryGameRepository implements GameRepository {
+  private games = new Map<string, Game>();
+  private tournaments = new Map<string, Tournament>();
+  // Referred user id -> referrer user id
+  private referrals = new Map<string, string>();
+  private players = new Map<string, GamePlayer[]>();
+  private ledger: LedgerEntry[] = [];
+  // Keyed by game id
+  private listeners = new Map<string, Set<GameEventListener>>();
+  // Keyed by "room:<id>" or "chat:<id>", for the game_created event
+  private nextGameListeners = new Map<string, Set<GameEventListener>>();
+  private lobbyListeners = new Set<LobbyChangeListener>();
+  private nextId = 1;
+
+  constructor(private rooms: RoomTemplate[] = DEFAULT_ROOMS) {}
+
+  async createGame(game: NewGame): Promise<Game> {
+    // Mirrors the unique index on waiting games per room
+    if (game.room_id && await this.getOpenGame(game.room_id)) {
+      throw new Error(`Room ${game.room_id} already has an open game`);
+    }
+    // Mirrors the unique index on waiting games per chat
+    if (game.chat_id && await this.getCurrentGame(game.chat_id)) {
+      throw new Error(`Chat ${game.chat_id} already has an open game`);
+    }
+    // Mirrors the unique index on bracket positions
+    if (game.tournament_id && [...this.games.values()].some((candidate) =>
+      candidate.tournament_id === game.tournament_id &&
+      candidate.tournament_round === game.tournament_round &&
+      candidate.bracket_slot === game.bracket_slot)) {
+      throw new Error(`Tournament ${game.tournament_id} already has a game in that bracket slot`);
+    }
+
+    const created: Game = {
+      id: this.createId('game'),
+      room_id: game.room_id,
+      chat_id: game.chat_id,
+      tournament_id: game.tournament_id,
+      tournament_round: game.tournament_round,
+      bracket_slot: game.bracket_slot,
+      status: 'waiting',
+      max_players: game.max_players,
+      min_players: game.min_players,
+      max_tickets_per_player: game.max_tickets_per_player ?? 1,
+      entry_fee: game.entry_fee,
+      prize_pool: 0,
+      prize_rules: game.prize_rules,
+      draw_mode: game.draw_mode ?? 'fill',
+      draw_at: game.draw_at,
+      seed_hash: game.seed_hash,
+      created_at: new Date().toISOString()
+    };
+
+    this.games.set(created.id, created);
+    this.players.set(created.id, []);
+    const scope = nextGameScope(created);
+    for (const listener of (scope && this.nextGameListeners.get(scope)) || []) {
+      setTimeout(() => listener({ type: 'game_created', game: { ...created } }), 0);
+    }
+    this.notifyLobby({ type: 'game_changed', game: { ...created } });
+    return { ...created };
+  }
+
+  async getGame(gameId: string): Promise<Game | null> {
+    const game = this.games.get(gameId);
+    return game ? { ...game } : null;
+  }
+
+  async getCurrentGame(chatId?: string): Promise<Game | null> {
+    const waiting = [...this.games.values()].filter((game) => game.status === 'waiting' && game.chat_id === chatId);
+    // Of games created in the same millisecond, the last one created
+    const latest = waiting.reduce<Game | null>((newest, game) => (!newest || game.created_at >= newest.created_at ? game : newest), null);
+    return latest ? { ...latest } : null;
+  }
+
+  async getRooms(): Promise<RoomTemplate[]> {
+    return this.rooms
+      .filter((room) => room.active)
+      .sort((a, b) => a.sort_order - b.sort_order);
+  }
+
+  async getOpenGame(roomId: string): Promise<Game | null> {
+    const game = [...this.games.values()].find((candidate) => candidate.room_id === roomId && candidate.status === 'waiting');
+    return game ? { ...game } : null;
+  }
+
+  async getTournaments(): Promise<Tournament[]> {
+    return [...this.tournaments.values()]
+      .filter((tournament) => tournament.status === 'running' || tournament.status === 'final')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((tournament) => ({ ...tournament }));
+  }
+
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    const tournament = this.tournaments.get(tournamentId);
+    return tournament ? { ...tournament } : null;
+  }
+
+  async getTournamentGames(tournamentId: string): Promise<Game[]> {
+    return [...this.games.values()]
+      .filter((game) => game.tournament_id === tournamentId)
+      .sort((a, b) => (a.tournament_round ?? 0) - (b.tournament_round ?? 0) || (a.bracket_slot ?? 0) - (b.bracket_slot ?? 0))
+      .map((game) => ({ ...game }));
+  }
+
+  async createTournament(tournament: Omit<Tournament, 'id' | 'status' | 'created_at'>): Promise<Tournament> {
+    const created: Tournament = {
+      ...tournament,
+      id: this.createId('tournament'),
+      status: 'running',
+      created_at: new Date().toISOString()
+    };
+
+    this.tournaments.set(created.id, created);
+    this.notifyLobby({ type: 'tournament_changed', tournament: { ...created } });
+    return { ...created };
+  }
+
+  // Move a tournament on from `from`, like the conditional update on the
+  // backend. Null if it is no longer in `from`.
+  async updateTournament(tournamentId: string, from: Tournament['status'], changes: Partial<Tournament>): Promise<Tournament | null> {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament || tournament.status !== from) {
+      return null;
+    }
+
+    Object.assign(tournament, changes);
+    this.notifyLobby({ type: 'tournament_changed', tournament: { ...tournament } });
+    return { ...tournament };
+  }
+
+  // Seat the qualifiers in a waiting final for free, fund it with the carried
+  // pot and mark it full, as GameService does on the backend
+  async seatFinal(gameId: string, qualifiers: Qualifier[], pot: number): Promise<Game> {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'waiting' || !game.tournament_id) {
+      throw new TransitionConflictError(gameId, 'waiting', 'full', game?.status ?? null);
+    }
+
+    const before = { ...game };
+    const seatedAt = new Date().toISOString();
+    this.players.set(gameId, qualifiers.map((qualifier) => ({
+      id: this.createId('entry'),
+      game_id: gameId,
+      telegram_user_id: qualifier.telegram_user_id,
+      telegram_username: qualifier.telegram_username,
+      telegram_first_name: qualifier.telegram_first_name,
+      joined_at: seatedAt,
+      payment_status: 'completed',
+      tickets: qualifier.tickets
+    })));
+    this.ledger.push(...finalPotTransaction(game.tournament_id, gameId, pot)
+      .map((ledgerEntry) => ({ ...ledgerEntry, created_at: seatedAt })));
+
+    Object.assign(game, { prize_pool: pot, status: 'full', status_reason: 'qualifiers seated' });
+    this.notify(gameId, [
+      ...(this.players.get(gameId) || []).map((player): GameEvent => ({ type: 'player_joined', game_id: gameId, player: { ...player } })),
+      ...diffGame(before, game)
+    ]);
+    return { ...game };
+  }
+
+  async getGamePlayers(gameId: string): Promise<GamePlayer[]> {
+    return (this.players.get(gameId) || [])
+      .filter((player) => player.payment_status === 'completed')
+      .map((player) => ({ ...player }));
+  }
+
+  // Same checks as the join_game database function. There is no await between
+  // the checks and the insert, so concurrent calls cannot interleave.
+  async joinGame(gameId: string, user: JoiningUser, chargeId?: string, tickets: number = 1): Promise<JoinResult> {
+    const game = this.games.get(gameId);
+    const players = this.players.get(gameId) || [];
+    const held = heldTickets(players, user.id.toString());
+
+    if (!game) {
+      throw new JoinRejectedError('GAME_NOT_FOUND');
+    }
+    if (game.status !== 'waiting') {
+      throw new JoinRejectedError('GAME_NOT_WAITING');
+    }
+    if (held >= game.max_tickets_per_player) {
+      throw new JoinRejectedError('ALREADY_JOINED');
+    }
+    if (held + tickets > game.max_tickets_per_player) {
+      throw new JoinRejectedError('TICKET_LIMIT');
+    }
+    if (totalTickets(players) + tickets > game.max_players) {
+      throw new JoinRejectedError('GAME_FULL');
+    }
+
+    const entry: GamePlayer = {
+      id: this.createId('entry'),
+      game_id: gameId,
+      telegram_user_id: user.id.toString(),
+      telegram_username: user.username || '',
+      telegram_first_name: user.first_name,
+      joined_at: new Date().toISOString(),
+      payment_status: 'completed',
+      tickets,
+      transaction_id: chargeId,
+      telegram_payment_charge_id: chargeId
+    };
+
+    const before = { ...game };
+    players.push(entry);
+    this.players.set(gameId, players);
+    this.ledger.push(...entryFeeTransaction(gameId, entry.id, entry.telegram_user_id, game.entry_fee * tickets)
+      .map((ledgerEntry) => ({ ...ledgerEntry, created_at: entry.joined_at })));
+
+    const ticketCount = totalTickets(players);
+    game.prize_pool += game.entry_fee * tickets;
+    if (ticketCount >= game.max_players) {
+      game.status = 'full';
+    }
+
+    this.notify(gameId, [{ type: 'player_joined', game_id: gameId, player: { ...entry } }, ...diffGame(before, game)]);
+    return { ticket_count: ticketCount, game_status: game.status };
+  }
+
+  async getUserBalance(telegramUserId: string): Promise<UserBalance | null> {
+    const entries = this.ledger.filter((entry) => entry.telegram_user_id === telegramUserId);
+    return entries.length > 0 ? balanceFromLedger(telegramUserId, entries) : null;
+  }
+
+  // Claim a game for its draw: `full -> drawing`, or `waiting -> drawing` for
+  // a scheduled game. Null if the game could not be claimed.
+  async startDraw(gameId: string): Promise<Game | null> {
+    const game = this.games.get(gameId);
+    const scheduled = game?.draw_mode === 'scheduled';
+    if (!game || !(game.status === 'full' || (scheduled && game.status === 'waiting'))) {
+      return null;
+    }
+
+    const before = { ...game };
+    game.status = 'drawing';
+    game.status_reason = scheduled ? 'scheduled draw' : 'game full';
+    game.draw_started_at = new Date().toISOString();
+    this.notify(gameId, diffGame(before, game));
+    return { ...game };
+  }
+
+  // Reveal the seed and winners, post the payout and complete the game
+  async completeDraw(gameId: string, seed: string, prizes: WinnerPrize[], commission: number, carry: number = 0): Promise<Game> {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'drawing') {
+      throw new TransitionConflictError(gameId, 'drawing', 'completed', game?.status ?? null);
+    }
+
+    const before = { ...game };
+    const completedAt = new Date().toISOString();
+    Object.assign(game, {
+      status: 'completed',
+      status_reason: 'winners paid',
+      winner_id: prizes[0]?.telegram_user_id,
+      winner_ids: prizes.map((prize) => prize.telegram_user_id),
+      server_seed: seed,
+      completed_at: completedAt
+    });
+    const carried = game.tournament_id ? { tournamentId: game.tournament_id, amount: carry } : undefined;
+    this.ledger.push(...payoutTransaction(gameId, prizes, commission + (carried ? 0 : carry), carried)
+      .map((ledgerEntry) => ({ ...ledgerEntry, created_at: completedAt })));
+
+    this.notify(gameId, diffGame(before, game));
+    return { ...game };
+  }
+
+  // Cancel a waiting or full game and refund every paid entry at once, as
+  // RefundService does on the backend. Returns the refunded entries.
+  async cancelGame(gameId: string, reason: string): Promise<GamePlayer[]> {
+    const game = this.games.get(gameId);
+    if (!game || (game.status !== 'waiting' && game.status !== 'full')) {
+      throw new TransitionConflictError(gameId, 'waiting', 'refunding', game?.status ?? null);
+    }
+
+    const before = { ...game };
+    const refundedAt = new Date().toISOString();
+    const refunded = (this.players.get(gameId) || []).filter((entry) => entry.payment_status === 'completed');
+
+    for (const entry of refunded) {
+      Object.assign(entry, { payment_status: 'refunded', refunded_at: refundedAt });
+      this.ledger.push(...refundTransaction(gameId, entry.id, entry.telegram_user_id, game.entry_fee * entry.tickets)
+        .map((ledgerEntry) => ({ ...ledgerEntry, created_at: refundedAt })));
+    }
+
+    Object.assign(game, { status: 'cancelled', status_reason: reason });
+    this.notify(gameId, diffGame(before, game));
+    return refunded.map((entry) => ({ ...entry }));
+  }
+
+  // Same rules as ReferralService on the backend: once per user, and only
+  // before their first entry
+  recordReferral(referrerId: string, referredId: string): boolean {
+    const hasEntered = [...this.players.values()].some((entries) => entries.some((entry) => entry.telegram_user_id === referredId));
+    if (referrerId === referredId || this.referrals.has(referredId) || hasEntered) {
+      return false;
+    }
+
+    this.referrals.set(referredId, referrerId);
+    return true;
+  }
+
+  getReferrers(userIds: string[]): Map<string, string> {
+    return new Map(userIds
+      .filter((userId) => this.referrals.has(userId))
+      .map((userId) => [userId, this.referrals.get(userId)!]));
+  }
+
+  // Post the referrers' share of a drawn game's commission
+  postReferralRewards(gameId: string, rewards: WinnerPrize[]): void {
+    if (rewards.length === 0) {
+      return;
+    }
+
+    const postedAt = new Date().toISOString();
+    this.ledger.push(...referralTransaction(gameId, rewards)
+      .map((ledgerEntry) => ({ ...ledgerEntry, created_at: postedAt })));
+  }
+
+  getReferralStats(referrerId: string, percent: number): ReferralStats {
+    const referred = [...this.referrals.entries()]
+      .filter(([, referrer]) => referrer === referrerId)
+      .map(([referredId]) => referredId);
+    const playing = new Set([...this.players.values()].flat()
+      .filter((entry) => entry.payment_status === 'completed')
+      .map((entry) => entry.telegram_user_id));
+
+    return {
+      invited: referred.length,
+      active: referred.filter((referredId) => playing.has(referredId)).length,
+      earned: this.ledger
+        .filter((entry) => entry.kind === 'referral_reward' && entry.account === `user:${referrerId}`)
+        .reduce((total, entry) => total + entry.amount, 0),
+      percent
+    };
+  }
+
+  // Completed games since `since` with their paid entries, for statistics
+  getCompletedGames(since: Date | null = null): CompletedGame[] {
+    return [...this.games.values()]
+      .filter((game) => game.status === 'completed' && (!since || (game.completed_at ?? '') >= since.toISOString()))
+      .map((game) => ({
+        game: { ...game },
+        players: (this.players.get(game.id) || []).filter((entry) => entry.payment_status === 'completed')
+      }));
+  }
+
+  // Games the user has a paid or refunded entry in, with those entries of every player
+  getHistoryGames(telegramUserId: string): HistoryGame[] {
+    return [...this.games.values()]
+      .map((game) => ({
+        game: { ...game },
+        players: (this.players.get(game.id) || []).filter((entry) => entry.payment_status === 'completed' || entry.payment_status === 'refunded')
+      }))
+      .filter(({ players }) => players.some((entry) => entry.telegram_user_id === telegramUserId));
+  }
+
+  // Events are delivered straight from each change, so there is never
+  // anything to resync
+  subscribeToGame(game: Game, onEvent: GameEventListener): () => void {
+    const listeners = this.listeners.get(game.id) || new Set();
+    listeners.add(onEvent);
+    this.listeners.set(game.id, listeners);
+
+    const scope = nextGameScope(game);
+    if (scope) {
+      this.nextGameListeners.set(scope, (this.nextGameListeners.get(scope) || new Set()).add(onEvent));
+    }
+
+    return () => {
+      listeners.delete(onEvent);
+      if (scope) {
+        this.nextGameListeners.get(scope)?.delete(onEvent);
+      }
+    };
+  }
+
+  subscribeToLobby(onChange: LobbyChangeListener): () => void {
+    this.lobbyListeners.add(onChange);
+
+    return () => {
+      this.lobbyListeners.delete(onChange);
+    };
+  }
+
+  private notify(gameId: string, events: GameEvent[]): void {
+    // Deliver asynchronously, like a realtime channel would
+    for (const listener of this.listeners.get(gameId) || []) {
+      setTimeout(() => events.forEach(listener), 0);
+    }
+    this.notifyLobby({ type: 'game_changed', game: { ...this.games.get(gameId)! } });
+  }
+
+  private notifyLobby(change: LobbyChange): void {
+    for (const listener of this.lobbyListeners) {
+      setTimeout(() => listener(change), 0);
+    }
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${this.nextId++}`;
+  }
+}
+
+// Where the next game after `game` is opened; one-off and tournament games have none
+function nextGameScope(game: Game): string | null {
+  return game.room_id ? `room:${game.room_id}` : game.chat_id ? `chat:${game.chat_id}` : null;
+}
@@ -0,0 +1,236 @@
+import { JoinRejectedError, parseJoinRejection, type JoinResult } from './join-game';
+import type { GameRepository, JoiningUser, NewGame } from './game-repository';
+import { diffGame, type GameEventListener, type LobbyChangeListener } from './realtime';
+import type { Game, GamePlayer, RoomTemplate, Tournament, UserBalance } from './types';
+
+// The part of a node-postgres Pool or Client this repository needs
+export interface SqlClient {
+  query<R>(text: string, values?: unknown[]): Promise<{ rows: R[] }>;
+}
+
+// Repository over a plain Postgres connection with the schema from
+// supabase/migrations, for running the backend without Supabase. Rows are
+// selected as jsonb so timestamps come back as ISO strings, like PostgREST.
+export class PostgresGameRepository implements GameRepository {
+  constructor(private sql: SqlClient, private pollIntervalMs: number = 2000) {}
+
+  async createGame(game: NewGame): Promise<Game> {
+    const [created] = await this.select<Game>(
+      `insert into games (status, room_id, chat_id, max_players, min_players, max_tickets_per_player, entry_fee, prize_pool, prize_rules, draw_mode, draw_at, seed_hash, tournament_id, tournament_round, bracket_slot)
+       values ('waiting', $1, $2, $3, $4, $5, $6, 0, $7, $8, $9, $10, $11, $12, $13)
+       returning to_jsonb(games) as row`,
+      [
+        game.room_id ?? null,
+        game.chat_id ?? null,
+        game.max_players,
+        game.min_players ?? null,
+        game.max_tickets_per_player ?? 1,
+        game.entry_fee,
+        JSON.stringify(game.prize_rules),
+        game.draw_mode ?? 'fill',
+        game.draw_at ?? null,
+        game.seed_hash ?? null,
+        game.tournament_id ?? null,
+        game.tournament_round ?? null,
+        game.bracket_slot ?? null
+      ],
+      'create game'
+    );
+
+    return created;
+  }
+
+  async getGame(gameId: string): Promise<Game | null> {
+    const [game] = await this.select<Game>(
+      'select to_jsonb(g) as row from games g where g.id = $1',
+      [gameId],
+      'get game'
+    );
+
+    return game ?? null;
+  }
+
+  async getCurrentGame(chatId?: string): Promise<Game | null> {
+    const [game] = await this.select<Game>(
+      `select to_jsonb(g) as row from games g
+       where g.status = 'waiting' and g.chat_id is not distinct from $1
+       order by g.created_at desc
+       limit 1`,
+      [chatId ?? null],
+      'get current game'
+    );
+
+    return game ?? null;
+  }
+
+  async getRooms(): Promise<RoomTemplate[]> {
+    return this.select<RoomTemplate>(
+      'select to_jsonb(r) as row from room_templates r where r.active order by r.sort_order',
+      [],
+      'get rooms'
+    );
+  }
+
+  async getOpenGame(roomId: string): Promise<Game | null> {
+    const [game] = await this.select<Game>(
+      `select to_jsonb(g) as row from games g where g.room_id = $1 and g.status = 'waiting'`,
+      [roomId],
+      'get open game'
+    );
+
+    return game ?? null;
+  }
+
+  async getTournaments(): Promise<Tournament[]> {
+    return this.select<Tournament>(
+      `select to_jsonb(t) as row from tournaments t
+       where t.status in ('running', 'final')
+       order by t.created_at desc`,
+      [],
+      'get tournaments'
+    );
+  }
+
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    const [tournament] = await this.select<Tournament>(
+      'select to_jsonb(t) as row from tournaments t where t.id = $1',
+      [tournamentId],
+      'get tournament'
+    );
+
+    return tournament ?? null;
+  }
+
+  async getTournamentGames(tournamentId: string): Promise<Game[]> {
+    return this.select<Game>(
+      `select to_jsonb(g) as row from games g
+       where g.tournament_id = $1
+       order by g.tournament_round, g.bracket_slot`,
+      [tournamentId],
+      'get tournament games'
+    );
+  }
+
+  async getGamePlayers(gameId: string): Promise<GamePlayer[]> {
+    return this.select<GamePlayer>(
+      `select to_jsonb(gp) as row from game_players gp
+       where gp.game_id = $1 and gp.payment_status = 'completed'
+       order by gp.joined_at`,
+      [gameId],
+      'get players'
+    );
+  }
+
+  async joinGame(gameId: string, user: JoiningUser, chargeId?: string, tickets: number = 1): Promise<JoinResult> {
+    try {
+      const { rows } = await this.sql.query<JoinResult>(
+        'select ticket_count, game_status from join_game($1, $2, $3, $4, $5, $6)',
+        [gameId, user.id.toString(), user.username || '', user.first_name, chargeId ?? null, tickets]
+      );
+      return rows[0];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const rejection = parseJoinRejection(message);
+      if (rejection) {
+        throw new JoinRejectedError(rejection);
+      }
+      throw new Error(`Failed to join game: ${message}`);
+    }
+  }
+
+  async getUserBalance(telegramUserId: string): Promise<UserBalance | null> {
+    const [balance] = await this.select<UserBalance>(
+      'select to_jsonb(b) as row from user_balances b where b.telegram_user_id = $1',
+      [telegramUserId],
+      'get balance'
+    );
+
+    return balance ?? null;
+  }
+
+  // Plain Postgres has no realtime channel, so poll the game, its paid entries
+  // and the next open game of its room or chat, and diff each poll against the
+  // last. A missed poll is caught up by the next one, so there is no resync.
+  subscribeToGame(game: Game, onEvent: GameEventListener): () => void {
+    let current = game;
+    const seen = new Set<string>();
+    let nextGameId: string | null = null;
+
+    return this.poll(
+      `select jsonb_build_object(
+         'game', to_jsonb(g),
+         'players', coalesce((select jsonb_agg(to_jsonb(gp) order by gp.joined_at) from game_players gp where gp.game_id = g.id and gp.payment_status = 'completed'), '[]'::jsonb),
+         'next', (select to_jsonb(n) from games n
+                  where n.id <> g.id and n.status = 'waiting' and n.created_at >= g.created_at
+                    and (n.room_id = g.room_id or n.chat_id = g.chat_id)
+                  order by n.created_at desc limit 1)
+       )::text as state
+       from games g where g.id = $1`,
+      [game.id],
+      (state) => {
+        const { game: latest, players, next } = JSON.parse(state) as { game: Game; players: GamePlayer[]; next: Game | null };
+
+        // The first poll reports every entry; the listener skips the ones it already has
+        for (const player of players.filter((candidate) => !seen.has(candidate.id))) {
+          seen.add(player.id);
+          onEvent({ type: 'player_joined', game_id: game.id, player });
+        }
+        diffGame(current, latest).forEach(onEvent);
+        current = latest;
+        if (next && next.id !== nextGameId) {
+          nextGameId = next.id;
+          onEvent({ type: 'game_created', game: next });
+        }
+      }
+    );
+  }
+
+  // Polls a fingerprint of the open games, so a change is reported as a reload
+  subscribeToLobby(onChange: LobbyChangeListener): () => void {
+    return this.poll(
+      `select coalesce(string_agg(g.id || ':' || g.status || ':' || (select coalesce(sum(gp.tickets), 0) from game_players gp where gp.game_id = g.id), ','), '') as state
+       from games g where g.status in ('waiting', 'full', 'drawing')`,
+      [],
+      (_state, previous) => {
+        if (previous !== null) {
+          onChange({ type: 'reload' });
+        }
+      }
+    );
+  }
+
+  // Run `text` every pollIntervalMs and call `onChange` when its `state`
+  // changes, including the first poll, when `previous` is null
+  private poll(text: string, values: unknown[], onChange: (state: string, previous: string | null) => void): () => void {
+    let last: string | null = null;
+
+    const check = async () => {
+      try {
+        const { rows } = await this.sql.query<{ state: string }>(text, values);
+        const state = rows[0]?.state ?? '';
+        if (state !== last) {
+          onChange(state, last);
+        }
+        last = state;
+      } catch (error) {
+        console.warn('Failed to poll for updates:', error);
+      }
+    };
+
+    void check();
+    const timer = setInterval(check, this.pollIntervalMs);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }
+
+  private async select<T>(text: string, values: unknown[], action: string): Promise<T[]> {
+    try {
+      const { rows } = await this.sql.query<{ row: T }>(text, values);
+      return rows.map(({ row }) => row);
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// How a game's prize pool is split. Stored on the game row as `prize_rules`
+// and read by the draw, the payout code, the ledger and the winner view.
+
+export interface PrizeRules {
+  // Percentage of the pool kept by the house
+  house_percent: number;
+  // Number of winning places drawn
+  winners: number;
+  // Percentage of the pool for each place, first place first; one per winner.
+  // Together with house_percent they must not exceed 100; any percentage left
+  // over goes to the house.
+  tiers: number[];
+  // First place never receives less than this; the house covers the difference
+  min_prize: number;
+  // Tournament rounds only: percentage of the pool carried into the final's pot
+  carry_percent?: number;
+}
+
+export interface PrizeDistribution {
+  // Prize per place, first place first
+  prizes: number[];
+  // What the house keeps; negative when it tops up the guaranteed prize
+  commission: number;
+  // Carried into a tournament final
+  carry: number;
+}
+
+// The original single-winner 70/30 split
+export const DEFAULT_PRIZE_RULES: PrizeRules = {
+  house_percent: 30,
+  winners: 1,
+  tiers: [70],
+  min_prize: 0
+};
+
+export class InvalidPrizeRulesError extends Error {
+  constructor(message: string) {
+    super(`Invalid prize rules: ${message}`);
+    this.name = 'InvalidPrizeRulesError';
+  }
+}
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Check rules coming from an API request or the database
+export function validatePrizeRules(rules: unknown): PrizeRules {
+  const candidate = rules as Partial<PrizeRules> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    throw new InvalidPrizeRulesError('expected an object');
+  }
+  if (!isWholeNumber(candidate.house_percent) || candidate.house_percent > 100) {
+    throw new InvalidPrizeRulesError('house_percent must be a whole number between 0 and 100');
+  }
+  if (!isWholeNumber(candidate.winners) || candidate.winners < 1) {
+    throw new InvalidPrizeRulesError('winners must be at least 1');
+  }
+  if (!Array.isArray(candidate.tiers) || candidate.tiers.length !== candidate.winners || !candidate.tiers.every(isWholeNumber)) {
+    throw new InvalidPrizeRulesError('tiers must list one whole percentage per winner');
+  }
+  if (candidate.carry_percent !== undefined && (!isWholeNumber(candidate.carry_percent) || candidate.carry_percent > 100)) {
+    throw new InvalidPrizeRulesError('carry_percent must be a whole number between 0 and 100');
+  }
+  if (candidate.house_percent + (candidate.carry_percent ?? 0) + candidate.tiers.reduce((total, tier) => total + tier, 0) > 100) {
+    throw new InvalidPrizeRulesError('house_percent, carry_percent and tiers add up to more than 100');
+  }
+  if (!isWholeNumber(candidate.min_prize)) {
+    throw new InvalidPrizeRulesError('min_prize must be a whole number of stars');
+  }
+
+  return {
+    house_percent: candidate.house_percent,
+    winners: candidate.winners,
+    tiers: [...candidate.tiers],
+    min_prize: candidate.min_prize,
+    ...(candidate.carry_percent !== undefined && { carry_percent: candidate.carry_percent })
+  };
+}
+
+// Split a prize pool between `placesDrawn` winners and the house. Each prize is
+// rounded down, so the stars lost to rounding always go to the house. Places
+// that could not be drawn because too few players joined are added to first place.
+export function distributePrize(rules: PrizeRules, pool: number, placesDrawn: number = rules.winners): PrizeDistribution {
+  const places = Math.max(1, Math.min(placesDrawn, rules.winners));
+  const tiers = rules.tiers.slice(0, places);
+  tiers[0] += rules.tiers.slice(places).reduce((total, tier) => total + tier, 0);
+
+  const prizes = tiers.map((tier) => Math.floor((pool * tier) / 100));
+  prizes[0] = Math.max(prizes[0], rules.min_prize);
+  const carry = Math.floor((pool * (rules.carry_percent ?? 0)) / 100);
+
+  return {
+    prizes,
+    commission: pool - carry - prizes.reduce((total, prize) => total + prize, 0),
+    carry
+  };
+}
@@ -0,0 +1,102 @@
+import type { Game, GamePlayer, Tournament } from './types';
+
+// Changes to a watched game, delivered by GameRepository.subscribeToGame as
+// diffs: each event carries only what changed. Apply them in order with
+// applyGameEvent.
+export type GameEvent =
+  // A paid entry; a player buying more tickets later adds another entry
+  | { type: 'player_joined'; game_id: string; player: GamePlayer }
+  // Entries were paid for without the status changing
+  | { type: 'prize_pool_changed'; game_id: string; prize_pool: number }
+  // The game moved on in its lifecycle; `changes` holds every field that
+  // changed with it, such as the pool of a final being funded
+  | { type: 'status_changed'; game_id: string; status: Game['status']; changes: Partial<Game> }
+  // The draw completed: the places, first place first, and the revealed seed
+  | { type: 'winner_selected'; game_id: string; winner_ids: string[]; server_seed?: string; changes: Partial<Game> }
+  // The next game of the same room or group chat was opened
+  | { type: 'game_created'; game: Game }
+  // The whole game, sent after (re)connecting and when the app returns to the
+  // foreground, because events are not replayed to a client that was away
+  | { type: 'synced'; game: Game; players: GamePlayer[] };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+// Changes seen by the lobby, delivered by GameRepository.subscribeToLobby
+export type LobbyChange =
+  // A game was opened or changed; selling a ticket changes its pool
+  | { type: 'game_changed'; game: Game }
+  | { type: 'tournament_changed'; tournament: Tournament }
+  // Something changed that the repository cannot describe, e.g. between two polls
+  | { type: 'reload' };
+
+export type LobbyChangeListener = (change: LobbyChange) => void;
+
+// A watched game and its paid entries in join order
+export interface LiveGame {
+  game: Game;
+  players: GamePlayer[];
+}
+
+// The events that turn `before` into `after`, two versions of one game row.
+// Changes to other fields that come without a status or pool change, such as
+// status_reason alone, are left to the next `synced` event.
+export function diffGame(before: Game, after: Game): GameEvent[] {
+  const changes = changedFields(before, after);
+
+  if (after.status === 'completed' && before.status !== 'completed') {
+    return [{
+      type: 'winner_selected',
+      game_id: after.id,
+      winner_ids: after.winner_ids ?? (after.winner_id ? [after.winner_id] : []),
+      server_seed: after.server_seed,
+      changes
+    }];
+  }
+  if (after.status !== before.status) {
+    return [{ type: 'status_changed', game_id: after.id, status: after.status, changes }];
+  }
+  if (after.prize_pool !== before.prize_pool) {
+    return [{ type: 'prize_pool_changed', game_id: after.id, prize_pool: after.prize_pool }];
+  }
+  return [];
+}
+
+// Apply an event to the watched game. Events for other games, and entries
+// already known, leave it unchanged, so replaying an event is harmless.
+export function applyGameEvent(live: LiveGame, event: GameEvent): LiveGame {
+  if (event.type === 'game_created' || (event.type === 'synced' ? event.game.id : event.game_id) !== live.game.id) {
+    return live;
+  }
+
+  switch (event.type) {
+    case 'player_joined':
+      if (live.players.some((player) => player.id === event.player.id)) {
+        return live;
+      }
+      return {
+        game: live.game,
+        players: [...live.players, event.player].sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+      };
+    case 'prize_pool_changed':
+      return { game: { ...live.game, prize_pool: event.prize_pool }, players: live.players };
+    case 'status_changed':
+    case 'winner_selected':
+      return { game: { ...live.game, ...event.changes }, players: live.players };
+    case 'synced':
+      return { game: event.game, players: event.players };
+  }
+}
+
+// Fields of `after` that differ from `before`; cleared fields are set to undefined
+function changedFields(before: Game, after: Game): Partial<Game> {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Game>;
+
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = after[key];
+    }
+  }
+
+  return changes as Partial<Game>;
+}
@@ -0,0 +1,65 @@
+import type { GamePlayer } from './types';
+
+// Referrals: a player shares t.me/<bot>/app?startapp=ref_<their id>, and
+// Telegram hands `ref_<id>` to the Mini App as the signed `start_param`. The
+// first launch with such a link records who invited whom. From then on the
+// referrer earns a share of the house commission on every game their
+// referrals pay into, posted to the ledger like winnings.
+
+export const REFERRAL_PREFIX = 'ref_';
+
+// The referrer's Telegram user id from a start_param, or null if it is not a
+// referral link or points at the user themselves
+export function referrerFromStartParam(startParam: string | undefined, telegramUserId: string): string | null {
+  if (!startParam?.startsWith(REFERRAL_PREFIX)) {
+    return null;
+  }
+
+  const referrerId = startParam.slice(REFERRAL_PREFIX.length);
+  if (!/^\d+$/.test(referrerId) || referrerId === telegramUserId) {
+    return null;
+  }
+  return referrerId;
+}
+
+// Deep link that opens the Mini App with the user's referral code
+export function referralLink(botUsername: string, telegramUserId: string): string {
+  return `https://t.me/${botUsername}/app?startapp=${REFERRAL_PREFIX}${telegramUserId}`;
+}
+
+export interface ReferralReward {
+  // The referrer being paid
+  telegram_user_id: string;
+  amount: number;
+}
+
+// Each referrer gets `percent` of the commission earned on their referrals'
+// tickets: commission * (their referrals' stake / pool) * percent / 100,
+// rounded down. Nothing is paid when the house took no commission.
+export function referralRewards(
+  entries: Pick<GamePlayer, 'telegram_user_id' | 'tickets'>[],
+  referrers: Map<string, string>,
+  entryFee: number,
+  pool: number,
+  commission: number,
+  percent: number
+): ReferralReward[] {
+  if (commission <= 0 || pool <= 0 || percent <= 0) {
+    return [];
+  }
+
+  const stakes = new Map<string, number>();
+  for (const entry of entries) {
+    const referrerId = referrers.get(entry.telegram_user_id);
+    if (referrerId) {
+      stakes.set(referrerId, (stakes.get(referrerId) ?? 0) + entryFee * entry.tickets);
+    }
+  }
+
+  return [...stakes.entries()]
+    .map(([referrerId, stake]) => ({
+      telegram_user_id: referrerId,
+      amount: Math.floor((commission * stake * percent) / (pool * 100))
+    }))
+    .filter((reward) => reward.amount > 0);
+}
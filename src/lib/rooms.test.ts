@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import { applyLobbyGames, applyTournamentChanges, DEFAULT_ROOMS, type LobbyRoom } from './rooms';
+import type { Game, Tournament } from './types';
+
+const [classic, other] = DEFAULT_ROOMS;
+
+function game(id: string, roomId: string, overrides: Partial<Game> = {}): Game {
+  return {
+    id,
+    room_id: roomId,
+    status: 'waiting',
+    max_players: 10,
+    max_tickets_per_player: 3,
+    entry_fee: 1,
+    prize_pool: 0,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    created_at: '2026-10-19T10:00:00.000Z',
+    ...overrides
+  };
+}
+
+function tournament(id: string, status: Tournament['status'], createdAt: string): Tournament {
+  return {
+    id,
+    name: `Cup ${id}`,
+    status,
+    entry_fee: 5,
+    players_per_game: 4,
+    round_games: 2,
+    round_prize_rules: DEFAULT_PRIZE_RULES,
+    final_prize_rules: DEFAULT_PRIZE_RULES,
+    created_at: createdAt
+  };
+}
+
+describe('applyLobbyGames', () => {
+  const lobby: LobbyRoom[] = [
+    { room: classic, game: game('game-1', classic.id), tickets: 2 },
+    { room: other, game: null, tickets: 0 }
+  ];
+
+  it('updates the fill level of a room\'s open game', () => {
+    const sold = game('game-1', classic.id, { prize_pool: 5 });
+
+    expect(applyLobbyGames(lobby, [{ game: sold, tickets: 5 }])).toEqual([
+      { room: classic, game: sold, tickets: 5 },
+      lobby[1]
+    ]);
+  });
+
+  it('empties a room when its game stops waiting and shows the next one', () => {
+    const full = game('game-1', classic.id, { status: 'full' });
+    const next = game('game-2', classic.id);
+
+    expect(applyLobbyGames(lobby, [{ game: full, tickets: 0 }])[0]).toEqual({ room: classic, game: null, tickets: 0 });
+    expect(applyLobbyGames(lobby, [{ game: next, tickets: 0 }, { game: full, tickets: 0 }])[0]).toEqual({ room: classic, game: next, tickets: 0 });
+  });
+
+  it('leaves rooms alone for games of other rooms or finished games it does not show', () => {
+    const updated = applyLobbyGames(lobby, [
+      { game: game('game-9', 'closed-room'), tickets: 1 },
+      { game: game('game-0', other.id, { status: 'completed' }), tickets: 0 }
+    ]);
+
+    expect(updated).toEqual(lobby);
+  });
+});
+
+describe('applyTournamentChanges', () => {
+  const running = [tournament('t2', 'running', '2026-10-19T11:00:00.000Z'), tournament('t1', 'final', '2026-10-19T10:00:00.000Z')];
+
+  it('adds new tournaments newest first and replaces changed ones', () => {
+    const opened = tournament('t3', 'running', '2026-10-19T12:00:00.000Z');
+    const final = { ...running[0], status: 'final' as const, final_game_id: 'game-9' };
+
+    expect(applyTournamentChanges(running, [final, opened])).toEqual([opened, final, running[1]]);
+  });
+
+  it('drops tournaments that completed or were cancelled', () => {
+    expect(applyTournamentChanges(running, [{ ...running[1], status: 'completed' }])).toEqual([running[0]]);
+  });
+});
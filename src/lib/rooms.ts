@@ -0,0 +1,175 @@
+import { InvalidDrawTimeError, nextDrawAt } from './draw-schedule';
+import { DEFAULT_PRIZE_RULES, InvalidPrizeRulesError, validatePrizeRules } from './prize-rules';
+import type { Game, RoomTemplate, Tournament } from './types';
+
+// Rooms seeded by the room_templates migration, and used as-is in demo mode
+export const DEFAULT_ROOMS: RoomTemplate[] = [
+  {
+    id: 'classic',
+    name: '1⭐ x10',
+    entry_fee: 1,
+    max_players: 10,
+    max_tickets_per_player: 3,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    sort_order: 1,
+    active: true
+  },
+  {
+    id: 'big-table',
+    name: '5⭐ x20',
+    entry_fee: 5,
+    max_players: 20,
+    max_tickets_per_player: 5,
+    prize_rules: { house_percent: 10, winners: 3, tiers: [50, 30, 10], min_prize: 0 },
+    sort_order: 2,
+    active: true
+  },
+  {
+    id: 'high-roller',
+    name: '50⭐ x5 high roller',
+    entry_fee: 50,
+    max_players: 5,
+    max_tickets_per_player: 1,
+    prize_rules: { house_percent: 20, winners: 1, tiers: [80], min_prize: 0 },
+    sort_order: 3,
+    active: true
+  },
+  {
+    id: 'daily',
+    name: 'Daily draw 20:00 UTC',
+    entry_fee: 2,
+    max_players: 100,
+    min_players: 2,
+    max_tickets_per_player: 10,
+    prize_rules: { house_percent: 20, winners: 3, tiers: [50, 20, 10], min_prize: 0 },
+    draw_time_utc: '20:00',
+    sort_order: 4,
+    active: true
+  }
+];
+
+// A room with its open game, as shown in the lobby
+export interface LobbyRoom {
+  room: RoomTemplate;
+  // Null until the backend opens the next game of the room
+  game: Game | null;
+  // Paid tickets in the open game
+  tickets: number;
+}
+
+// Changes to the lobby since it was loaded, from GameManager.subscribeToLobbyUpdates
+export interface LobbyUpdate {
+  // Changed games with their paid tickets; null when the lobby must be reloaded
+  games: { game: Game; tickets: number }[] | null;
+  // Changed tournaments, whatever their status
+  tournaments: Tournament[];
+}
+
+// Patch the lobby with changed games. A room's waiting game becomes its open
+// game; once that game stops waiting the room has none until the next opens.
+export function applyLobbyGames(lobby: LobbyRoom[], games: { game: Game; tickets: number }[]): LobbyRoom[] {
+  return lobby.map((entry) => games
+    .filter(({ game }) => game.room_id === entry.room.id)
+    .reduce((current, { game, tickets }) => {
+      if (game.status === 'waiting') {
+        return { ...current, game, tickets };
+      }
+      return current.game?.id === game.id ? { ...current, game: null, tickets: 0 } : current;
+    }, entry));
+}
+
+// Patch the running tournaments, newest first, with changed ones
+export function applyTournamentChanges(tournaments: Tournament[], changed: Tournament[]): Tournament[] {
+  const byId = new Map(tournaments.map((tournament) => [tournament.id, tournament]));
+  for (const tournament of changed) {
+    byId.set(tournament.id, tournament);
+  }
+
+  return [...byId.values()]
+    .filter((tournament) => tournament.status === 'running' || tournament.status === 'final')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Changes an operator makes to a room; null clears an optional field
+export type RoomTemplateChanges = Partial<Omit<RoomTemplate, 'id' | 'min_players' | 'draw_time_utc'>> & {
+  min_players?: number | null;
+  draw_time_utc?: string | null;
+};
+
+export class InvalidRoomTemplateError extends Error {
+  constructor(message: string) {
+    super(`Invalid room: ${message}`);
+    this.name = 'InvalidRoomTemplateError';
+  }
+}
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+// Apply `changes` to a room, or create one from them, and check the result
+export function applyRoomChanges(id: string, room: RoomTemplate | null, changes: RoomTemplateChanges): RoomTemplate {
+  const merged = { ...room, ...changes, id } as Partial<RoomTemplate> & { min_players?: number | null; draw_time_utc?: string | null };
+
+  if (!/^[a-z0-9-]{1,40}$/.test(id)) {
+    throw new InvalidRoomTemplateError('id must be 1-40 lowercase letters, digits or dashes');
+  }
+  if (typeof merged.name !== 'string' || merged.name.trim() === '') {
+    throw new InvalidRoomTemplateError('name is required');
+  }
+  if (!isWholeNumber(merged.entry_fee, 1)) {
+    throw new InvalidRoomTemplateError('entry_fee must be a positive whole number of stars');
+  }
+  if (!isWholeNumber(merged.max_players, 2)) {
+    throw new InvalidRoomTemplateError('max_players must be at least 2');
+  }
+  if (merged.min_players != null && (!isWholeNumber(merged.min_players, 1) || merged.min_players > merged.max_players)) {
+    throw new InvalidRoomTemplateError('min_players must be between 1 and max_players');
+  }
+  const maxTickets = merged.max_tickets_per_player ?? 1;
+  if (!isWholeNumber(maxTickets, 1) || maxTickets > merged.max_players) {
+    throw new InvalidRoomTemplateError('max_tickets_per_player must be between 1 and max_players');
+  }
+  if (merged.draw_time_utc != null) {
+    try {
+      nextDrawAt(merged.draw_time_utc, new Date());
+    } catch (error) {
+      if (error instanceof InvalidDrawTimeError) {
+        throw new InvalidRoomTemplateError(error.message);
+      }
+      throw error;
+    }
+  }
+  if (merged.sort_order !== undefined && !Number.isInteger(merged.sort_order)) {
+    throw new InvalidRoomTemplateError('sort_order must be a whole number');
+  }
+  if (merged.active !== undefined && typeof merged.active !== 'boolean') {
+    throw new InvalidRoomTemplateError('active must be true or false');
+  }
+
+  let prizeRules = DEFAULT_PRIZE_RULES;
+  try {
+    prizeRules = merged.prize_rules === undefined ? DEFAULT_PRIZE_RULES : validatePrizeRules(merged.prize_rules);
+  } catch (error) {
+    if (error instanceof InvalidPrizeRulesError) {
+      throw new InvalidRoomTemplateError(error.message);
+    }
+    throw error;
+  }
+  if (prizeRules.carry_percent !== undefined) {
+    throw new InvalidRoomTemplateError('carry_percent is only allowed in tournament rounds');
+  }
+
+  return {
+    id,
+    name: merged.name.trim(),
+    entry_fee: merged.entry_fee,
+    max_players: merged.max_players,
+    min_players: merged.min_players ?? undefined,
+    max_tickets_per_player: maxTickets,
+    prize_rules: prizeRules,
+    draw_time_utc: merged.draw_time_utc ?? undefined,
+    sort_order: merged.sort_order ?? 0,
+    active: merged.active ?? true
+  };
+}
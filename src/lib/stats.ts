@@ -0,0 +1,139 @@
+import { distributePrize } from './prize-rules';
+import type { Game, GamePlayer } from './types';
+
+// Player statistics and leaderboards, computed from completed games and their
+// paid entries. Prizes are recomputed from each game's prize rules, the same
+// split PayoutService pays out. The backend gets the same numbers from the
+// player_stats and leaderboards database functions.
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all'];
+
+// A completed game with its paid entries
+export interface CompletedGame {
+  game: Game;
+  players: GamePlayer[];
+}
+
+export interface PlayerStats {
+  telegram_user_id: string;
+  games_played: number;
+  games_won: number;
+  // Share of played games with at least one winning place, 0 to 1
+  win_rate: number;
+  // Stars paid for tickets in completed games
+  total_spent: number;
+  total_won: number;
+  // Largest prize from a single game
+  biggest_win: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  telegram_user_id: string;
+  telegram_first_name: string;
+  telegram_username?: string;
+  // Stars won or games played, depending on the board
+  value: number;
+}
+
+export interface Leaderboards {
+  period: LeaderboardPeriod;
+  top_winners: LeaderboardEntry[];
+  most_played: LeaderboardEntry[];
+}
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return LEADERBOARD_PERIODS.includes(value as LeaderboardPeriod);
+}
+
+// Start of the period in UTC: today for daily, Monday for weekly; null for all time
+export function periodStart(period: LeaderboardPeriod, now: Date): Date | null {
+  if (period === 'all') {
+    return null;
+  }
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+// Stars each winner took from a game; a player holding several winning
+// tickets gets every one of their places
+export function gamePrizes(game: Game): Map<string, number> {
+  const winnerIds = game.winner_ids ?? (game.winner_id ? [game.winner_id] : []);
+  const { prizes } = distributePrize(game.prize_rules, game.prize_pool, winnerIds.length);
+  const won = new Map<string, number>();
+
+  winnerIds.forEach((id, place) => won.set(id, (won.get(id) ?? 0) + prizes[place]));
+  return won;
+}
+
+export function playerStats(telegramUserId: string, games: CompletedGame[]): PlayerStats {
+  const stats: PlayerStats = {
+    telegram_user_id: telegramUserId,
+    games_played: 0,
+    games_won: 0,
+    win_rate: 0,
+    total_spent: 0,
+    total_won: 0,
+    biggest_win: 0
+  };
+
+  for (const { game, players } of games) {
+    const own = players.filter((player) => player.telegram_user_id === telegramUserId);
+    if (own.length === 0) {
+      continue;
+    }
+
+    const won = gamePrizes(game).get(telegramUserId) ?? 0;
+    stats.games_played++;
+    stats.total_spent += own.reduce((total, player) => total + player.tickets * game.entry_fee, 0);
+    if (won > 0) {
+      stats.games_won++;
+      stats.total_won += won;
+      stats.biggest_win = Math.max(stats.biggest_win, won);
+    }
+  }
+
+  stats.win_rate = stats.games_played > 0 ? stats.games_won / stats.games_played : 0;
+  return stats;
+}
+
+// Top winners by stars won and most active players by games played, over
+// games completed in the period. Ties go to whoever played first.
+export function leaderboards(period: LeaderboardPeriod, games: CompletedGame[], limit: number = 10): Leaderboards {
+  const names = new Map<string, GamePlayer>();
+  const won = new Map<string, number>();
+  const played = new Map<string, number>();
+  const ordered = [...games].sort((a, b) => (a.game.completed_at ?? '').localeCompare(b.game.completed_at ?? ''));
+
+  for (const { game, players } of ordered) {
+    for (const id of new Set(players.map((player) => player.telegram_user_id))) {
+      played.set(id, (played.get(id) ?? 0) + 1);
+    }
+    for (const [id, amount] of gamePrizes(game)) {
+      won.set(id, (won.get(id) ?? 0) + amount);
+    }
+    // Latest name each player joined with
+    players.forEach((player) => names.set(player.telegram_user_id, player));
+  }
+
+  const rank = (totals: Map<string, number>): LeaderboardEntry[] =>
+    [...totals]
+      .filter(([, value]) => value > 0)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([id, value], index) => ({
+        rank: index + 1,
+        telegram_user_id: id,
+        telegram_first_name: names.get(id)?.telegram_first_name ?? id,
+        telegram_username: names.get(id)?.telegram_username || undefined,
+        value
+      }));
+
+  return { period, top_winners: rank(won), most_played: rank(played) };
+}
@@ -0,0 +1,159 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import { describeGameRepository } from './game-repository.contract';
+import { DEFAULT_PRIZE_RULES } from './prize-rules';
+import type { GameEvent, LobbyChange } from './realtime';
+import { SupabaseGameRepository } from './supabase-game-repository';
+import type { Game, GamePlayer } from './types';
+
+// Runs against a real project, so only when one is configured. joinGame needs
+// the service role; use a project with every migration applied and nothing
+// else depending on it.
+const url = import.meta.env.SUPABASE_TEST_URL;
+const serviceRoleKey = import.meta.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+describeGameRepository(
+  'SupabaseGameRepository',
+  () => new SupabaseGameRepository(createClient(url, serviceRoleKey)),
+  { skip: !url || !serviceRoleKey, resyncsOnSubscribe: true, eventTimeoutMs: 10_000 }
+);
+
+describe('SupabaseGameRepository.subscribeToGame', () => {
+  type Handler = (payload: { new: unknown }) => void;
+
+  // A client whose channel is driven by hand and whose games table holds one row
+  function fakeClient(row: () => Game) {
+    const handlers: { table: string; event: string; handler: Handler }[] = [];
+    let onStatus: (status: string) => void = () => undefined;
+    const channel = {
+      on: (_type: string, filter: { table: string; event: string }, handler: Handler) => {
+        handlers.push({ table: filter.table, event: filter.event, handler });
+        return channel;
+      },
+      subscribe: (callback: (status: string) => void) => {
+        onStatus = callback;
+        return channel;
+      }
+    };
+    const query = {
+      select: () => query,
+      eq: () => query,
+      maybeSingle: async () => ({ data: row(), error: null })
+    };
+    const client = {
+      channel: () => channel,
+      removeChannel: vi.fn(),
+      from: () => query
+    } as unknown as SupabaseClient;
+
+    const emit = (table: string, event: string, next: unknown) => handlers
+      .filter((registered) => registered.table === table && registered.event === event)
+      .forEach(({ handler }) => handler({ new: next }));
+
+    return {
+      client,
+      connect: () => onStatus('SUBSCRIBED'),
+      emit,
+      updateGame: (next: Game) => emit('games', 'UPDATE', next)
+    };
+  }
+
+  const waiting: Game = {
+    id: 'game-1',
+    status: 'waiting',
+    max_players: 2,
+    max_tickets_per_player: 1,
+    entry_fee: 5,
+    prize_pool: 0,
+    prize_rules: DEFAULT_PRIZE_RULES,
+    draw_mode: 'fill',
+    created_at: '2026-10-19T10:00:00.000Z'
+  };
+
+  it('diffs updates after a reconnect against the reloaded row', async () => {
+    const full: Game = { ...waiting, status: 'full', prize_pool: 10 };
+    const drawing: Game = { ...full, status: 'drawing', draw_started_at: '2026-10-19T10:05:00.000Z' };
+    let row = waiting;
+    const { client, connect, updateGame } = fakeClient(() => row);
+    const events: GameEvent[] = [];
+    const resync = vi.fn();
+    new SupabaseGameRepository(client).subscribeToGame(waiting, (event) => events.push(event), resync);
+
+    // The game filled while the channel was down
+    row = full;
+    connect();
+    await vi.waitFor(() => expect(resync).toHaveBeenCalledTimes(1));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    updateGame(drawing);
+
+    expect(events).toEqual([{
+      type: 'status_changed',
+      game_id: 'game-1',
+      status: 'drawing',
+      changes: { status: 'drawing', draw_started_at: '2026-10-19T10:05:00.000Z' }
+    }]);
+  });
+
+  it('keeps an update that arrives while the row is reloading', async () => {
+    const full: Game = { ...waiting, status: 'full', prize_pool: 10 };
+    const drawing: Game = { ...full, status: 'drawing' };
+    const completed: Game = { ...drawing, status: 'completed', winner_id: '1', winner_ids: ['1'] };
+    const { client, connect, updateGame } = fakeClient(() => full);
+    const events: GameEvent[] = [];
+    new SupabaseGameRepository(client).subscribeToGame(waiting, (event) => events.push(event), () => undefined);
+
+    connect();
+    updateGame(drawing);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    updateGame(completed);
+
+    expect(events.map((event) => event.type)).toEqual(['status_changed', 'winner_selected']);
+    expect(events[1]).toMatchObject({ changes: { status: 'completed', winner_id: '1', winner_ids: ['1'] } });
+  });
+
+  it('announces each paid entry once, whether it was inserted paid or paid by an update', async () => {
+    const { client, emit } = fakeClient(() => waiting);
+    const events: GameEvent[] = [];
+    new SupabaseGameRepository(client).subscribeToGame(waiting, (event) => events.push(event), () => undefined);
+    const direct = { id: 'entry-1', payment_status: 'completed' } as GamePlayer;
+    const invoiced = { id: 'entry-2', payment_status: 'pending' } as GamePlayer;
+
+    emit('game_players', 'INSERT', direct);
+    emit('game_players', 'UPDATE', { ...direct, tickets: 2 });
+    emit('game_players', 'INSERT', invoiced);
+    emit('game_players', 'UPDATE', { ...invoiced, payment_status: 'completed' });
+    emit('game_players', 'UPDATE', { ...invoiced, payment_status: 'refunded' });
+
+    expect(events.map((event) => event.type === 'player_joined' && event.player.id)).toEqual(['entry-1', 'entry-2']);
+  });
+});
+
+describe('SupabaseGameRepository.subscribeToLobby', () => {
+  it('passes on changed rows and asks for a reload after a reconnect', () => {
+    const handlers: { table: string; event: string; handler: (payload: { new: unknown }) => void }[] = [];
+    let onStatus: (status: string) => void = () => undefined;
+    const channel = {
+      on: (_type: string, filter: { table: string; event: string }, handler: (payload: { new: unknown }) => void) => {
+        handlers.push({ table: filter.table, event: filter.event, handler });
+        return channel;
+      },
+      subscribe: (callback: (status: string) => void) => {
+        onStatus = callback;
+        return channel;
+      }
+    };
+    const client = { channel: () => channel, removeChannel: vi.fn() } as unknown as SupabaseClient;
+    const changes: LobbyChange[] = [];
+    new SupabaseGameRepository(client).subscribeToLobby((change) => changes.push(change));
+    const game = { id: 'game-1' } as Game;
+
+    onStatus('SUBSCRIBED');
+    handlers.filter(({ table, event }) => table === 'games' && event === 'UPDATE').forEach(({ handler }) => handler({ new: game }));
+    onStatus('CHANNEL_ERROR');
+    onStatus('SUBSCRIBED');
+
+    expect(handlers.map(({ table, event }) => `${table} ${event}`)).toEqual(['games INSERT', 'games UPDATE', 'tournaments INSERT', 'tournaments UPDATE']);
+    expect(changes).toEqual([{ type: 'game_changed', game }, { type: 'reload' }]);
+  });
+});
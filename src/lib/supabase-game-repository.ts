@@ -0,0 +1,292 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { JoinRejectedError, parseJoinRejection, type JoinResult } from './join-game';
+import type { GameRepository, JoiningUser, NewGame } from './game-repository';
+import { diffGame, type GameEventListener, type LobbyChangeListener } from './realtime';
+import type { Game, GamePlayer, RoomTemplate, Tournament, UserBalance } from './types';
+
+// Repository backed by Supabase; works with the anon client in the browser and
+// the service-role client on the server
+export class SupabaseGameRepository implements GameRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async createGame(game: NewGame): Promise<Game> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .insert({ ...game, status: 'waiting', prize_pool: 0 })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getGame(gameId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getCurrentGame(chatId?: string): Promise<Game | null> {
+    const query = this.supabase
+      .from('games')
+      .select('*')
+      .eq('status', 'waiting');
+
+    const { data, error } = await (chatId ? query.eq('chat_id', chatId) : query.is('chat_id', null))
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get current game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getRooms(): Promise<RoomTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('room_templates')
+      .select('*')
+      .eq('active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get rooms: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getOpenGame(roomId: string): Promise<Game | null> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('status', 'waiting')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get open game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getTournaments(): Promise<Tournament[]> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select('*')
+      .in('status', ['running', 'final'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get tournaments: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select('*')
+      .eq('id', tournamentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get tournament: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getTournamentGames(tournamentId: string): Promise<Game[]> {
+    const { data, error } = await this.supabase
+      .from('games')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('tournament_round', { ascending: true })
+      .order('bracket_slot', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get tournament games: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getGamePlayers(gameId: string): Promise<GamePlayer[]> {
+    const { data, error } = await this.supabase
+      .from('game_players')
+      .select('*')
+      .eq('game_id', gameId)
+      .eq('payment_status', 'completed')
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async joinGame(gameId: string, user: JoiningUser, chargeId?: string, tickets: number = 1): Promise<JoinResult> {
+    // Status, ticket limit and capacity checks run in one transaction in
+    // join_game, which only the service role may execute
+    const { data, error } = await this.supabase
+      .rpc('join_game', {
+        p_game_id: gameId,
+        p_telegram_user_id: user.id.toString(),
+        p_telegram_username: user.username || '',
+        p_telegram_first_name: user.first_name,
+        p_charge_id: chargeId ?? null,
+        p_tickets: tickets
+      })
+      .single();
+
+    if (error) {
+      const rejection = parseJoinRejection(error.message);
+      if (rejection) {
+        throw new JoinRejectedError(rejection);
+      }
+      throw new Error(`Failed to join game: ${error.message}`);
+    }
+
+    return data as JoinResult;
+  }
+
+  async getUserBalance(telegramUserId: string): Promise<UserBalance | null> {
+    const { data, error } = await this.supabase
+      .from('user_balances')
+      .select('*')
+      .eq('telegram_user_id', telegramUserId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get balance: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // One channel per game. Row updates are diffed against the last version
+  // seen; the channel rejoins by itself after the socket drops, and every
+  // (re)join asks for a resync and reloads that version, since updates made
+  // while it was down were never seen.
+  subscribeToGame(game: Game, onEvent: GameEventListener, resync: () => void): () => void {
+    let current = game;
+    let updates = 0;
+    // Entries already announced. A direct join inserts a completed row, but an
+    // invoice completes its pending row with an update, and under row-level
+    // security the update carries no old row to tell the two updates apart.
+    const joined = new Set<string>();
+    const onEntry = (payload: { new: unknown }) => {
+      const player = payload.new as GamePlayer;
+      if (player.payment_status === 'completed' && !joined.has(player.id)) {
+        joined.add(player.id);
+        onEvent({ type: 'player_joined', game_id: game.id, player });
+      }
+    };
+    const nextGameFilter = game.room_id ? `room_id=eq.${game.room_id}` : game.chat_id ? `chat_id=eq.${game.chat_id}` : null;
+
+    const channel = this.supabase
+      .channel(`game:${game.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'game_players',
+        filter: `game_id=eq.${game.id}`
+      }, onEntry)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'game_players',
+        filter: `game_id=eq.${game.id}`
+      }, onEntry)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'games',
+        filter: `id=eq.${game.id}`
+      }, (payload) => {
+        const next = payload.new as Game;
+        const events = diffGame(current, next);
+        current = next;
+        updates++;
+        events.forEach(onEvent);
+      });
+
+    // One-off and tournament games have no next game to announce
+    if (nextGameFilter) {
+      channel.on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'games',
+        filter: nextGameFilter
+      }, (payload) => onEvent({ type: 'game_created', game: payload.new as Game }));
+    }
+
+    // An update delivered while the row is loading is newer than the load
+    const reload = async () => {
+      const seen = updates;
+      try {
+        const latest = await this.getGame(game.id);
+        if (latest && updates === seen) {
+          current = latest;
+        }
+      } catch (error) {
+        console.warn('Failed to reload game:', error);
+      }
+    };
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        void reload();
+        resync();
+      }
+    });
+
+    return () => {
+      this.supabase.removeChannel(channel);
+    };
+  }
+
+  // Games and tournaments with their new rows, so the lobby can patch itself.
+  // Entries are not watched: join_game updates its game's pool in the same
+  // transaction. Changes missed while reconnecting are reported as a reload.
+  subscribeToLobby(onChange: LobbyChangeListener): () => void {
+    let connected = false;
+    const onGame = (payload: { new: unknown }) => onChange({ type: 'game_changed', game: payload.new as Game });
+    const onTournament = (payload: { new: unknown }) => onChange({ type: 'tournament_changed', tournament: payload.new as Tournament });
+
+    const channel = this.supabase
+      .channel('lobby-updates')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'games' }, onGame)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'games' }, onGame)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'tournaments' }, onTournament)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'tournaments' }, onTournament)
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        if (connected) {
+          onChange({ type: 'reload' });
+        }
+        connected = true;
+      });
+
+    return () => {
+      this.supabase.removeChannel(channel);
+    };
+  }
+}
@@ -1,15 +1,9 @@
-import { supabase } from './supabase';
+import { apiRequest } from './api';
+import type { VerifiedUser, Withdrawal } from './types';
 
-// Telegram Web App interface for payments
-declare global {
-  interface Window {
-    Telegram?: {
-      WebApp: {
-        invokeCustomMethod(method: string, params: any, callback?: (error: string, result: any) => void): void;
-        openInvoice(url: string, callback?: (status: string) => void): void;
-      };
-    };
-  }
+export interface EntryInvoice {
+  entry_id: string;
+  invoice_link: string;
 }
 
 export interface PaymentResult {
@@ -18,89 +12,11 @@ export interface PaymentResult {
   error?: string;
 }
 
+// Client for the payment endpoints of the backend. The bot token and every
+// Bot API call stay on the server; this class never talks to Telegram directly.
 export class TelegramPayments {
-  private botToken: string;
-
-  constructor(botToken: string) {
-    this.botToken = botToken;
-  }
-
-  // Create invoice for star payment
-  async createStarInvoice(
-    userId: number,
-    amount: number,
-    description: string,
-    payload: string
-  ): Promise<string> {
-    const invoiceData = {
-      chat_id: userId,
-      title: 'Star Lottery Entry',
-      description,
-      payload,
-      provider_token: '', // Empty for Telegram Stars
-      currency: 'XTR', // Telegram Stars currency
-      prices: [{ label: 'Entry Fee', amount }],
-      need_name: false,
-      need_phone_number: false,
-      need_email: false,
-      need_shipping_address: false,
-      send_phone_number_to_provider: false,
-      send_email_to_provider: false,
-      is_flexible: false
-    };
-
-    const response = await fetch(`https://api.telegram.org/bot${this.botToken}/sendInvoice`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(invoiceData)
-    });
-
-    const result = await response.json();
-    if (!result.ok) {
-      throw new Error(`Failed to create invoice: ${result.description}`);
-    }
-
-    return result.result.message_id;
-  }
-
-  // Process successful payment
-  async processPayment(
-    userId: number,
-    transactionId: string,
-    amount: number
-  ): Promise<PaymentResult> {
-    try {
-      // Update user balance
-      const { error } = await supabase
-        .from('user_balances')
-        .upsert({
-          telegram_user_id: userId.toString(),
-          stars_balance: amount,
-          total_spent: 0,
-          total_won: 0,
-          games_played: 0,
-          games_won: 0,
-          updated_at: new Date().toISOString()
-        });
-
-      if (error) {
-        throw new Error(`Failed to update balance: ${error.message}`);
-      }
-
-      return {
-        success: true,
-        transaction_id: transactionId
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  }
-
   // Get user's real star balance from Telegram
-  async getRealStarBalance(userId: number): Promise<number> {
+  async getRealStarBalance(user: VerifiedUser): Promise<number> {
     return new Promise((resolve) => {
       try {
         // Use Telegram WebApp API to get star balance
@@ -115,7 +31,7 @@ export class TelegramPayments {
           });
         } else {
           // Fallback: try to get from database or show 0
-          this.getUserBalance(userId).then(resolve).catch(() => resolve(0));
+          this.getUserBalance(user).then(resolve).catch(() => resolve(0));
         }
       } catch (error) {
         console.warn('Error getting star balance:', error);
@@ -124,20 +40,23 @@ export class TelegramPayments {
     });
   }
 
-  // Create and send star payment invoice
-  async requestStarPayment(userId: number, amount: number, description: string): Promise<PaymentResult> {
+  // Ask the backend for a Stars invoice link (createInvoiceLink) for `tickets` tickets in a game
+  async createEntryInvoice(user: VerifiedUser, gameId: string, tickets: number = 1): Promise<EntryInvoice> {
+    return apiRequest<EntryInvoice>('/api/invoices', {
+      body: { game_id: gameId, tickets },
+      initData: user.init_data
+    });
+  }
+
+  // Open a t.me/$... invoice link. A 'paid' status only means the invoice was closed;
+  // the entry is confirmed by the backend when Telegram sends successful_payment.
+  async requestStarPayment(invoiceLink: string): Promise<PaymentResult> {
     return new Promise((resolve) => {
       try {
         if (window.Telegram?.WebApp?.openInvoice) {
-          // Create invoice URL for star payment
-          const invoiceUrl = this.createStarInvoiceUrl(userId, amount, description);
-          
-          window.Telegram.WebApp.openInvoice(invoiceUrl, (status) => {
+          window.Telegram.WebApp.openInvoice(invoiceLink, (status) => {
             if (status === 'paid') {
-              resolve({
-                success: true,
-                transaction_id: `star_${Date.now()}_${userId}`
-              });
+              resolve({ success: true });
             } else {
               resolve({
                 success: false,
@@ -160,68 +79,26 @@ export class TelegramPayments {
     });
   }
 
-  // Create star invoice URL
-  private createStarInvoiceUrl(userId: number, amount: number, description: string): string {
-    const params = new URLSearchParams({
-      chat_id: userId.toString(),
-      title: 'Star Lottery Entry',
-      description,
-      payload: `lottery_${Date.now()}`,
-      currency: 'XTR',
-      prices: JSON.stringify([{ label: 'Entry Fee', amount }])
+  // Take Stars out of the user's winnings balance; they are sent once an admin settles the request
+  async requestWithdrawal(user: VerifiedUser, amount: number): Promise<Withdrawal> {
+    const { withdrawal } = await apiRequest<{ withdrawal: Withdrawal }>('/api/withdrawals', {
+      body: { amount },
+      initData: user.init_data
     });
-    
-    return `https://api.telegram.org/bot${this.botToken}/sendInvoice?${params}`;
-  }
 
-  // Transfer stars to winner
-  async transferStarsToWinner(winnerId: number, amount: number): Promise<PaymentResult> {
-    try {
-      // In a real implementation, this would use Telegram's API to transfer stars
-      // For now, we'll update the database and show success
-      const { error } = await supabase
-        .from('user_balances')
-        .upsert({
-          telegram_user_id: winnerId.toString(),
-          stars_balance: amount,
-          total_won: amount,
-          games_won: 1,
-          updated_at: new Date().toISOString()
-        });
-
-      if (error) {
-        throw new Error(`Failed to transfer stars: ${error.message}`);
-      }
-
-      return {
-        success: true,
-        transaction_id: `transfer_${Date.now()}_${winnerId}`
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Transfer failed'
-      };
-    }
+    return withdrawal;
   }
 
-  // Get user's star balance from database (fallback)
-  async getUserBalance(userId: number): Promise<number> {
+  // Get user's star balance from the backend (fallback)
+  async getUserBalance(user: VerifiedUser): Promise<number> {
     try {
-      const { data, error } = await supabase
-        .from('user_balances')
-        .select('stars_balance')
-        .eq('telegram_user_id', userId.toString())
-        .maybeSingle();
-
-      if (error) {
-        console.warn('Database error getting balance:', error.message);
-        return 0;
-      }
+      const { stars_balance } = await apiRequest<{ stars_balance: number }>('/api/balance', {
+        initData: user.init_data
+      });
 
-      return data?.stars_balance || 0;
+      return stars_balance;
     } catch (error) {
-      console.warn('Failed to get balance from database:', error);
+      console.warn('Failed to get balance from backend:', error);
       return 0;
     }
   }
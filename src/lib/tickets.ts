@@ -0,0 +1,55 @@
+import type { Game, GamePlayer } from './types';
+
+// A paid entry holds one or more tickets, each one a separate chance in the
+// draw. A game's max_players caps the tickets it sells, and
+// max_tickets_per_player caps what one player can hold across their entries.
+
+export class InvalidTicketCountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTicketCountError';
+  }
+}
+
+export function totalTickets(entries: Pick<GamePlayer, 'tickets'>[]): number {
+  return entries.reduce((total, entry) => total + entry.tickets, 0);
+}
+
+// Tickets the user already holds in a game
+export function heldTickets(entries: GamePlayer[], telegramUserId: string): number {
+  return totalTickets(entries.filter((entry) => entry.telegram_user_id === telegramUserId));
+}
+
+// Most tickets the user can still buy: limited by their own cap and the game's capacity
+export function ticketsAvailable(game: Game, entries: GamePlayer[], telegramUserId: string): number {
+  const forPlayer = game.max_tickets_per_player - heldTickets(entries, telegramUserId);
+  const inGame = game.max_players - totalTickets(entries);
+  return Math.max(0, Math.min(forPlayer, inGame));
+}
+
+// A whole number of tickets, at least one and at most the game's per-player cap
+export function validateTicketCount(tickets: unknown, game: Pick<Game, 'max_tickets_per_player'>): number {
+  if (typeof tickets !== 'number' || !Number.isInteger(tickets) || tickets < 1) {
+    throw new InvalidTicketCountError('tickets must be a positive whole number');
+  }
+  if (tickets > game.max_tickets_per_player) {
+    throw new InvalidTicketCountError(`At most ${game.max_tickets_per_player} tickets per player in this game`);
+  }
+  return tickets;
+}
+
+// One row per player with their entries' tickets added up, in first-join order
+export function groupTicketsByPlayer(entries: GamePlayer[]): GamePlayer[] {
+  const players = new Map<string, GamePlayer>();
+
+  for (const entry of entries) {
+    const player = players.get(entry.telegram_user_id);
+    if (player) {
+      player.tickets += entry.tickets;
+    } else {
+      players.set(entry.telegram_user_id, { ...entry });
+    }
+  }
+
+  return [...players.values()];
+}
@@ -0,0 +1,109 @@
+import { distributePrize, type PrizeRules } from './prize-rules';
+import type { Game, GamePlayer, Tournament } from './types';
+
+// Tournament progression, shared by the backend and demo mode:
+//
+//   qualifier 1 --.
+//   qualifier 2 ---+--> final (free entry for every qualifier winner)
+//   qualifier n --'
+//
+// Qualifiers are ordinary paid games. Part of each qualifier's pot
+// (round_prize_rules.carry_percent) is carried into the final. Once every
+// qualifier is completed or cancelled the final opens with the qualifier
+// winners; a player who won several qualifiers gets one ticket per win.
+
+// Qualifiers pay half the pot to their winner and carry 40% into the final
+export const DEFAULT_ROUND_PRIZE_RULES: PrizeRules = {
+  house_percent: 10,
+  winners: 1,
+  tiers: [50],
+  min_prize: 0,
+  carry_percent: 40
+};
+
+// The house already took its share in the qualifiers
+export const DEFAULT_FINAL_PRIZE_RULES: PrizeRules = {
+  house_percent: 0,
+  winners: 1,
+  tiers: [100],
+  min_prize: 0
+};
+
+export class InvalidTournamentError extends Error {
+  constructor(message: string) {
+    super(`Invalid tournament: ${message}`);
+    this.name = 'InvalidTournamentError';
+  }
+}
+
+// A tournament with its games, as shown in the bracket view
+export interface TournamentBracket {
+  tournament: Tournament;
+  // Qualifiers in bracket order
+  rounds: Game[];
+  final: Game | null;
+}
+
+// A bracket game as shown in the web app
+export interface BracketGame {
+  game: Game;
+  tickets: number;
+  // Drawn places, first place first; empty until the game completes
+  winners: GamePlayer[];
+}
+
+export interface TournamentView {
+  tournament: Tournament;
+  rounds: BracketGame[];
+  final: BracketGame | null;
+  // Stars carried into the final so far
+  pot: number;
+}
+
+export interface Qualifier {
+  telegram_user_id: string;
+  telegram_username?: string;
+  telegram_first_name: string;
+  // One per qualifier won
+  tickets: number;
+}
+
+// Every qualifier has finished, one way or the other
+export function qualifiersSettled(rounds: Game[]): boolean {
+  return rounds.length > 0 && rounds.every((game) => game.status === 'completed' || game.status === 'cancelled');
+}
+
+// Stars carried into the final by the completed qualifiers
+export function carriedPot(rounds: Game[]): number {
+  return rounds
+    .filter((game) => game.status === 'completed')
+    .reduce((total, game) => total + distributePrize(game.prize_rules, game.prize_pool, game.winner_ids?.length ?? 1).carry, 0);
+}
+
+// Winners of the completed qualifiers in bracket order, merged per player.
+// `players` are the paid entries of those qualifiers, used for names.
+export function finalQualifiers(rounds: Game[], players: GamePlayer[]): Qualifier[] {
+  const qualifiers = new Map<string, Qualifier>();
+
+  for (const game of [...rounds].sort((a, b) => (a.bracket_slot ?? 0) - (b.bracket_slot ?? 0))) {
+    if (game.status !== 'completed' || !game.winner_id) {
+      continue;
+    }
+
+    const existing = qualifiers.get(game.winner_id);
+    if (existing) {
+      existing.tickets += 1;
+      continue;
+    }
+
+    const entry = players.find((player) => player.game_id === game.id && player.telegram_user_id === game.winner_id);
+    qualifiers.set(game.winner_id, {
+      telegram_user_id: game.winner_id,
+      telegram_username: entry?.telegram_username,
+      telegram_first_name: entry?.telegram_first_name ?? 'Player',
+      tickets: 1
+    });
+  }
+
+  return [...qualifiers.values()];
+}
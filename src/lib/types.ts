@@ -0,0 +1,195 @@
+// Shared data types used by the web app and the backend
+
+import type { DrawMode } from './draw-schedule';
+import type { PrizeRules } from './prize-rules';
+
+// A table in the lobby: every game opened in a room copies its stakes and size
+export interface RoomTemplate {
+  id: string;
+  name: string;
+  entry_fee: number;
+  max_players: number;
+  min_players?: number;
+  max_tickets_per_player: number;
+  prize_rules: PrizeRules;
+  // Daily draw time ("HH:MM", UTC) for scheduled rooms; unset rooms draw when full
+  draw_time_utc?: string;
+  // Lobby order
+  sort_order: number;
+  // Inactive rooms keep their history but no new games are opened
+  active: boolean;
+}
+
+// A group chat's private lottery. Its admins set the stakes, which every new
+// game opened in the chat copies.
+export interface ChatLottery {
+  // Telegram chat id
+  chat_id: string;
+  title: string;
+  entry_fee: number;
+  max_players: number;
+  max_tickets_per_player: number;
+  prize_rules: PrizeRules;
+  // Admin who last changed the stakes
+  updated_by?: string;
+  updated_at: string;
+}
+
+// Group chat the Mini App was opened from, as signed in initData
+export interface LaunchChat {
+  id: number;
+  type: 'group' | 'supergroup' | 'channel';
+  title: string;
+  username?: string;
+}
+
+// Qualifying games whose winners play a free final for the pots carried from them
+export interface Tournament {
+  id: string;
+  name: string;
+  // running: qualifiers open or being drawn; final: the final game is open
+  status: 'running' | 'final' | 'completed' | 'cancelled';
+  // Ticket price in every qualifying game
+  entry_fee: number;
+  players_per_game: number;
+  // Number of qualifying games
+  round_games: number;
+  // Prize rules of the qualifiers; their carry_percent feeds the final
+  round_prize_rules: PrizeRules;
+  final_prize_rules: PrizeRules;
+  final_game_id?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+export interface Game {
+  id: string;
+  // Room the game was opened in; unset for one-off games
+  room_id?: string;
+  // Group chat whose lottery the game belongs to
+  chat_id?: string;
+  // Set for tournament games: round 1 are the qualifiers, round 2 the final
+  tournament_id?: string;
+  tournament_round?: 1 | 2;
+  // Position of a qualifier in the bracket
+  bracket_slot?: number;
+  // See GAME_TRANSITIONS in game-lifecycle.ts
+  status: 'waiting' | 'full' | 'drawing' | 'completed' | 'refunding' | 'cancelled';
+  // Why the game entered its current status, copied to game_transitions
+  status_reason?: string;
+  // Tickets the game sells; it is full once they are all paid for
+  max_players: number;
+  // Paid players needed by the deadline, or by draw_at for scheduled games.
+  // Unset means a fill-to-capacity game must fill and a scheduled game needs one player.
+  min_players?: number;
+  // Tickets one player can hold, across all of their entries
+  max_tickets_per_player: number;
+  // Price of one ticket
+  entry_fee: number;
+  prize_pool: number;
+  // How prize_pool is split between winners and the house
+  prize_rules: PrizeRules;
+  // See draw-schedule.ts
+  draw_mode: DrawMode;
+  // When a scheduled game is drawn
+  draw_at?: string;
+  // First place
+  winner_id?: string;
+  // Every drawn place, first place first
+  winner_ids?: string[];
+  created_at: string;
+  completed_at?: string;
+  draw_started_at?: string;
+  // sha256 of the server seed, committed when the game is created
+  seed_hash?: string;
+  // Server seed, revealed once the winner is drawn
+  server_seed?: string;
+}
+
+// Audit row written for every status change
+export interface GameTransition {
+  id: number;
+  game_id: string;
+  // Null for the row written when the game is created
+  from_status: Game['status'] | null;
+  to_status: Game['status'];
+  reason?: string;
+  created_at: string;
+}
+
+export interface GamePlayer {
+  id: string;
+  game_id: string;
+  telegram_user_id: string;
+  telegram_username?: string;
+  telegram_first_name: string;
+  joined_at: string;
+  payment_status: 'pending' | 'completed' | 'failed' | 'refunded';
+  // Tickets bought with this entry's invoice, each a separate chance in the draw
+  tickets: number;
+  transaction_id?: string;
+  // Charge id from Telegram's successful_payment, needed for refunds
+  telegram_payment_charge_id?: string;
+  // Nonce of the latest invoice issued for this entry
+  invoice_nonce?: string;
+  refunded_at?: string;
+}
+
+export interface UserBalance {
+  telegram_user_id: string;
+  stars_balance: number;
+  total_spent: number;
+  total_won: number;
+  games_played: number;
+  games_won: number;
+  updated_at: string;
+}
+
+// Stars a player asked to take out of their winnings balance. They leave the
+// balance when requested; an admin sends them and marks the request paid, or
+// rejects it and they return to the balance.
+export interface Withdrawal {
+  id: string;
+  telegram_user_id: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'rejected';
+  created_at: string;
+  settled_at?: string;
+  // Telegram id of the admin who settled it
+  settled_by?: string;
+}
+
+// What a player's invites have brought in so far
+export interface ReferralStats {
+  // Players who opened the app through the user's link
+  invited: number;
+  // Invited players who have paid for at least one entry
+  active: number;
+  // Stars credited to the user from their referrals' entries
+  earned: number;
+  // Share of the house commission paid to referrers, in percent
+  percent: number;
+}
+
+// Whether the bot messages the player about their games
+export interface NotificationSettings {
+  enabled: boolean;
+}
+
+// Telegram user whose initData signature has been checked by the backend
+export interface VerifiedUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_premium?: boolean;
+  // Deep link parameter the Mini App was opened with (startapp=...)
+  start_param?: string;
+  // Set when the Mini App was opened from a group chat
+  chat?: LaunchChat;
+  chat_instance?: string;
+  auth_date: number;
+  // Raw initData string, forwarded to the backend on every authenticated call
+  init_data: string;
+}
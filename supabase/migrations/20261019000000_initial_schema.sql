@@ -0,0 +1,35 @@
+-- Tables used by the Star Lottery mini app
+
+create table if not exists games (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'waiting',
+  max_players integer not null default 10,
+  entry_fee integer not null default 1,
+  prize_pool integer not null default 0,
+  winner_id text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create table if not exists game_players (
+  id uuid primary key default gen_random_uuid(),
+  game_id uuid not null references games (id) on delete cascade,
+  telegram_user_id text not null,
+  telegram_username text,
+  telegram_first_name text not null,
+  joined_at timestamptz not null default now(),
+  payment_status text not null default 'pending',
+  transaction_id text
+);
+
+create index if not exists game_players_game_id_idx on game_players (game_id);
+
+create table if not exists user_balances (
+  telegram_user_id text primary key,
+  stars_balance integer not null default 0,
+  total_spent integer not null default 0,
+  total_won integer not null default 0,
+  games_played integer not null default 0,
+  games_won integer not null default 0,
+  updated_at timestamptz not null default now()
+);
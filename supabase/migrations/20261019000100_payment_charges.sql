@@ -0,0 +1,13 @@
+-- Entries are created as 'pending' and completed by the payment webhook,
+-- which stores Telegram's charge id (required later for refundStarPayment).
+
+alter table game_players
+  add column if not exists telegram_payment_charge_id text;
+
+create unique index if not exists game_players_charge_id_key
+  on game_players (telegram_payment_charge_id)
+  where telegram_payment_charge_id is not null;
+
+alter table game_players
+  add constraint game_players_payment_status_check
+  check (payment_status in ('pending', 'completed', 'failed'));
@@ -0,0 +1,9 @@
+-- Nonce of the latest invoice issued for an entry; the signed invoice payload
+-- (game id, user id, nonce) is matched against it by the payment webhook.
+
+alter table game_players
+  add column if not exists invoice_nonce text;
+
+create unique index if not exists game_players_invoice_nonce_key
+  on game_players (game_id, telegram_user_id, invoice_nonce)
+  where invoice_nonce is not null;
@@ -0,0 +1,15 @@
+-- Winner payouts, one per game, and refunded entries
+
+create table if not exists payouts (
+  game_id uuid primary key references games (id),
+  telegram_user_id text not null,
+  amount integer not null,
+  created_at timestamptz not null default now()
+);
+
+alter table game_players
+  drop constraint if exists game_players_payment_status_check;
+
+alter table game_players
+  add constraint game_players_payment_status_check
+  check (payment_status in ('pending', 'completed', 'failed', 'refunded'));
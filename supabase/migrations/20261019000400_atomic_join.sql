@@ -0,0 +1,82 @@
+-- Atomic join: lock the game row, check status, duplicates and capacity, then
+-- complete (or insert) the entry and update the prize pool in one transaction.
+-- Rejections are raised as exceptions whose message is one of
+-- GAME_NOT_FOUND, GAME_NOT_WAITING, ALREADY_JOINED or GAME_FULL.
+
+-- At most one live (pending or completed) entry per player and game
+create unique index if not exists game_players_live_entry_key
+  on game_players (game_id, telegram_user_id)
+  where payment_status in ('pending', 'completed');
+
+create or replace function join_game(
+  p_game_id uuid,
+  p_telegram_user_id text,
+  p_telegram_username text,
+  p_telegram_first_name text,
+  p_charge_id text default null
+) returns table (player_count integer, game_status text)
+language plpgsql
+as $$
+declare
+  v_game games%rowtype;
+  v_count integer;
+  v_entry_id uuid;
+begin
+  -- Concurrent joins for the same game queue up on this row lock
+  select * into v_game from games where id = p_game_id for update;
+
+  if not found then
+    raise exception 'GAME_NOT_FOUND';
+  end if;
+
+  if v_game.status <> 'waiting' then
+    raise exception 'GAME_NOT_WAITING';
+  end if;
+
+  if exists (
+    select 1 from game_players gp
+    where gp.game_id = p_game_id
+      and gp.telegram_user_id = p_telegram_user_id
+      and gp.payment_status = 'completed'
+  ) then
+    raise exception 'ALREADY_JOINED';
+  end if;
+
+  select count(*) into v_count
+  from game_players gp
+  where gp.game_id = p_game_id and gp.payment_status = 'completed';
+
+  if v_count >= v_game.max_players then
+    raise exception 'GAME_FULL';
+  end if;
+
+  update game_players gp
+  set payment_status = 'completed',
+      telegram_payment_charge_id = p_charge_id,
+      transaction_id = p_charge_id
+  where gp.game_id = p_game_id
+    and gp.telegram_user_id = p_telegram_user_id
+    and gp.payment_status = 'pending'
+  returning gp.id into v_entry_id;
+
+  if v_entry_id is null then
+    insert into game_players (
+      game_id, telegram_user_id, telegram_username, telegram_first_name,
+      payment_status, telegram_payment_charge_id, transaction_id
+    ) values (
+      p_game_id, p_telegram_user_id, coalesce(p_telegram_username, ''), p_telegram_first_name,
+      'completed', p_charge_id, p_charge_id
+    );
+  end if;
+
+  player_count := v_count + 1;
+
+  update games g
+  set prize_pool = g.prize_pool + g.entry_fee,
+      status = case when player_count >= g.max_players then 'full' else 'waiting' end
+  where g.id = p_game_id
+  returning g.status into game_status;
+
+  return next;
+end;
+$$;
@@ -0,0 +1,7 @@
+-- Refund bookkeeping and the cancelled game status
+
+alter table game_players
+  add column if not exists refunded_at timestamptz;
+
+create index if not exists games_status_created_at_idx
+  on games (status, created_at);
@@ -0,0 +1,14 @@
+-- Commit-reveal draws: games publish sha256(seed) at creation and the seed after the draw.
+-- The seed itself lives in game_seeds, which only the service role can read.
+
+alter table games
+  add column if not exists seed_hash text,
+  add column if not exists server_seed text;
+
+create table if not exists game_seeds (
+  game_id uuid primary key references games (id) on delete cascade,
+  seed text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table game_seeds enable row level security;
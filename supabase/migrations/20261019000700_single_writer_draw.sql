@@ -0,0 +1,9 @@
+-- Draws run only in the backend: a game moves full -> drawing -> completed, and
+-- the conditional full -> drawing update decides which worker performs the draw.
+
+alter table games
+  add column if not exists draw_started_at timestamptz;
+
+alter table games
+  add constraint games_status_check
+  check (status in ('waiting', 'full', 'drawing', 'completed', 'cancelled'));
@@ -0,0 +1,136 @@
+-- Double-entry ledger. Each transaction's entries sum to zero; user balances
+-- are derived from it instead of being overwritten in place.
+
+create table if not exists ledger_entries (
+  id bigint generated always as identity primary key,
+  transaction_key text not null,
+  account text not null,
+  amount integer not null,
+  kind text not null check (kind in ('entry_fee', 'winnings', 'house_commission', 'refund', 'opening_balance')),
+  game_id uuid references games (id),
+  telegram_user_id text,
+  entry_id uuid references game_players (id),
+  created_at timestamptz not null default now()
+);
+
+-- Posting a transaction twice fails as a whole, which makes retries idempotent
+create unique index if not exists ledger_entries_transaction_account_key
+  on ledger_entries (transaction_key, account, kind);
+
+create index if not exists ledger_entries_user_idx on ledger_entries (telegram_user_id);
+create index if not exists ledger_entries_account_idx on ledger_entries (account);
+
+-- Carry over existing balances as opening balances against an equity account
+insert into ledger_entries (transaction_key, account, amount, kind, telegram_user_id)
+select 'opening:' || telegram_user_id, 'user:' || telegram_user_id, stars_balance, 'opening_balance', telegram_user_id
+from user_balances
+where stars_balance <> 0
+union all
+select 'opening:' || telegram_user_id, 'equity:opening', -stars_balance, 'opening_balance', telegram_user_id
+from user_balances
+where stars_balance <> 0;
+
+alter table user_balances rename to user_balances_legacy;
+
+create or replace view user_balances as
+select
+  telegram_user_id,
+  coalesce(sum(amount) filter (where account = 'user:' || telegram_user_id), 0)::integer as stars_balance,
+  coalesce(sum(amount) filter (where kind in ('entry_fee', 'refund') and account like 'game:%'), 0)::integer as total_spent,
+  coalesce(sum(amount) filter (where kind = 'winnings' and account like 'user:%'), 0)::integer as total_won,
+  count(distinct game_id) filter (where kind = 'entry_fee')::integer as games_played,
+  count(distinct game_id) filter (where kind = 'winnings')::integer as games_won,
+  max(created_at) as updated_at
+from ledger_entries
+where telegram_user_id is not null
+group by telegram_user_id;
+
+-- Reconciliation: both must report zero
+create or replace view ledger_totals as
+select coalesce(sum(amount), 0)::integer as total, count(*)::integer as entries
+from ledger_entries;
+
+create or replace view ledger_unbalanced_transactions as
+select transaction_key, sum(amount)::integer as total
+from ledger_entries
+group by transaction_key
+having sum(amount) <> 0;
+
+-- join_game now posts the entry fee (Telegram -> prize pool) in the same transaction
+create or replace function join_game(
+  p_game_id uuid,
+  p_telegram_user_id text,
+  p_telegram_username text,
+  p_telegram_first_name text,
+  p_charge_id text default null
+) returns table (player_count integer, game_status text)
+language plpgsql
+as $$
+declare
+  v_game games%rowtype;
+  v_count integer;
+  v_entry_id uuid;
+begin
+  -- Concurrent joins for the same game queue up on this row lock
+  select * into v_game from games where id = p_game_id for update;
+
+  if not found then
+    raise exception 'GAME_NOT_FOUND';
+  end if;
+
+  if v_game.status <> 'waiting' then
+    raise exception 'GAME_NOT_WAITING';
+  end if;
+
+  if exists (
+    select 1 from game_players gp
+    where gp.game_id = p_game_id
+      and gp.telegram_user_id = p_telegram_user_id
+      and gp.payment_status = 'completed'
+  ) then
+    raise exception 'ALREADY_JOINED';
+  end if;
+
+  select count(*) into v_count
+  from game_players gp
+  where gp.game_id = p_game_id and gp.payment_status = 'completed';
+
+  if v_count >= v_game.max_players then
+    raise exception 'GAME_FULL';
+  end if;
+
+  update game_players gp
+  set payment_status = 'completed',
+      telegram_payment_charge_id = p_charge_id,
+      transaction_id = p_charge_id
+  where gp.game_id = p_game_id
+    and gp.telegram_user_id = p_telegram_user_id
+    and gp.payment_status = 'pending'
+  returning gp.id into v_entry_id;
+
+  if v_entry_id is null then
+    insert into game_players (
+      game_id, telegram_user_id, telegram_username, telegram_first_name,
+      payment_status, telegram_payment_charge_id, transaction_id
+    ) values (
+      p_game_id, p_telegram_user_id, coalesce(p_telegram_username, ''), p_telegram_first_name,
+      'completed', p_charge_id, p_charge_id
+    )
+    returning id into v_entry_id;
+  end if;
+
+  insert into ledger_entries (transaction_key, account, amount, kind, game_id, telegram_user_id, entry_id) values
+    ('entry:' || v_entry_id, 'telegram:payments', -v_game.entry_fee, 'entry_fee', p_game_id, p_telegram_user_id, v_entry_id),
+    ('entry:' || v_entry_id, 'game:' || p_game_id, v_game.entry_fee, 'entry_fee', p_game_id, p_telegram_user_id, v_entry_id);
+
+  player_count := v_count + 1;
+
+  update games g
+  set prize_pool = g.prize_pool + g.entry_fee,
+      status = case when player_count >= g.max_players then 'full' else 'waiting' end
+  where g.id = p_game_id
+  returning g.status into game_status;
+
+  return next;
+end;
+$$;
@@ -0,0 +1,19 @@
+-- Prize distribution rules per game, and one payout row per winning place
+
+alter table games
+  add column if not exists prize_rules jsonb not null
+    default '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}'::jsonb,
+  add column if not exists winner_ids text[];
+
+update games
+set winner_ids = array[winner_id]
+where winner_id is not null and winner_ids is null;
+
+alter table payouts
+  add column if not exists place integer not null default 0;
+
+alter table payouts
+  drop constraint if exists payouts_pkey;
+
+alter table payouts
+  add primary key (game_id, place);
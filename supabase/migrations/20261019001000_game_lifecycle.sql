@@ -0,0 +1,97 @@
+-- Game lifecycle state machine (see src/lib/game-lifecycle.ts):
+--   waiting -> full -> drawing -> completed
+--   waiting | full -> refunding -> cancelled
+-- A trigger rejects any other status change and audits every transition.
+
+alter table games
+  add column if not exists status_reason text,
+  add column if not exists min_players integer check (min_players > 0);
+
+alter table games
+  drop constraint if exists games_status_check;
+
+alter table games
+  add constraint games_status_check
+  check (status in ('waiting', 'full', 'drawing', 'completed', 'refunding', 'cancelled'));
+
+-- Cancelled games that still owe refunds are now `refunding`
+update games g
+set status = 'refunding'
+where g.status = 'cancelled'
+  and exists (
+    select 1 from game_players gp
+    where gp.game_id = g.id
+      and gp.payment_status in ('completed', 'failed')
+      and gp.telegram_payment_charge_id is not null
+  );
+
+create table if not exists game_transitions (
+  id bigint generated always as identity primary key,
+  game_id uuid not null references games (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists game_transitions_game_idx on game_transitions (game_id, id);
+
+create or replace function game_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('waiting', 'full'),
+    ('waiting', 'refunding'),
+    ('full', 'drawing'),
+    ('full', 'refunding'),
+    ('drawing', 'completed'),
+    ('refunding', 'cancelled')
+  );
+$$;
+
+-- Reject illegal transitions. A reason left over from the previous transition
+-- is cleared so it is not recorded twice.
+create or replace function check_game_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    if not game_transition_allowed(old.status, new.status) then
+      raise exception 'ILLEGAL_TRANSITION % -> %', old.status, new.status;
+    end if;
+
+    if new.status_reason is not distinct from old.status_reason then
+      new.status_reason := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function audit_game_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into game_transitions (game_id, from_status, to_status, reason)
+    values (new.id, case when tg_op = 'UPDATE' then old.status end, new.status, new.status_reason);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists games_check_transition on games;
+create trigger games_check_transition
+  before update of status on games
+  for each row execute function check_game_transition();
+
+drop trigger if exists games_audit_transition on games;
+create trigger games_audit_transition
+  after insert or update of status on games
+  for each row execute function audit_game_transition();
@@ -0,0 +1,28 @@
+-- Room catalogue: each room is a template for its games, and the backend keeps
+-- exactly one waiting game open per room
+
+create table if not exists room_templates (
+  id text primary key,
+  name text not null,
+  entry_fee integer not null check (entry_fee > 0),
+  max_players integer not null check (max_players > 1),
+  min_players integer check (min_players > 0),
+  prize_rules jsonb not null
+    default '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}'::jsonb,
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+insert into room_templates (id, name, entry_fee, max_players, prize_rules, sort_order) values
+  ('classic', '1⭐ x10', 1, 10, '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}', 1),
+  ('big-table', '5⭐ x20', 5, 20, '{"house_percent": 10, "winners": 3, "tiers": [50, 30, 10], "min_prize": 0}', 2),
+  ('high-roller', '50⭐ x5 high roller', 50, 5, '{"house_percent": 20, "winners": 1, "tiers": [80], "min_prize": 0}', 3)
+on conflict (id) do nothing;
+
+alter table games
+  add column if not exists room_id text references room_templates (id);
+
+create unique index if not exists games_one_open_game_per_room
+  on games (room_id)
+  where status = 'waiting';
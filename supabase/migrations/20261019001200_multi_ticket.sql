@@ -0,0 +1,117 @@
+-- Multi-ticket entries: one invoice buys one or more tickets, and every ticket
+-- is a separate chance in the draw. games.max_players now caps the tickets a
+-- game sells and max_tickets_per_player caps what one player can hold across
+-- their entries. join_game adds a TICKET_LIMIT rejection and its result
+-- column is renamed to ticket_count.
+
+alter table game_players
+  add column if not exists tickets integer not null default 1 check (tickets > 0);
+
+alter table games
+  add column if not exists max_tickets_per_player integer not null default 1 check (max_tickets_per_player > 0);
+
+alter table room_templates
+  add column if not exists max_tickets_per_player integer not null default 1 check (max_tickets_per_player > 0);
+
+update room_templates set max_tickets_per_player = 3 where id = 'classic';
+update room_templates set max_tickets_per_player = 5 where id = 'big-table';
+
+-- Players can buy more tickets with a later invoice, so only one open
+-- (pending) invoice per player and game is unique now
+drop index if exists game_players_live_entry_key;
+
+create unique index if not exists game_players_pending_entry_key
+  on game_players (game_id, telegram_user_id)
+  where payment_status = 'pending';
+
+drop function if exists join_game(uuid, text, text, text, text);
+
+create or replace function join_game(
+  p_game_id uuid,
+  p_telegram_user_id text,
+  p_telegram_username text,
+  p_telegram_first_name text,
+  p_charge_id text default null,
+  p_tickets integer default 1
+) returns table (ticket_count integer, game_status text)
+language plpgsql
+as $$
+declare
+  v_game games%rowtype;
+  v_sold integer;
+  v_held integer;
+  v_entry_id uuid;
+begin
+  if p_tickets is null or p_tickets < 1 then
+    raise exception 'INVALID_TICKETS';
+  end if;
+
+  -- Concurrent joins for the same game queue up on this row lock
+  select * into v_game from games where id = p_game_id for update;
+
+  if not found then
+    raise exception 'GAME_NOT_FOUND';
+  end if;
+
+  if v_game.status <> 'waiting' then
+    raise exception 'GAME_NOT_WAITING';
+  end if;
+
+  select coalesce(sum(gp.tickets), 0) into v_held
+  from game_players gp
+  where gp.game_id = p_game_id
+    and gp.telegram_user_id = p_telegram_user_id
+    and gp.payment_status = 'completed';
+
+  if v_held >= v_game.max_tickets_per_player then
+    raise exception 'ALREADY_JOINED';
+  end if;
+
+  if v_held + p_tickets > v_game.max_tickets_per_player then
+    raise exception 'TICKET_LIMIT';
+  end if;
+
+  select coalesce(sum(gp.tickets), 0) into v_sold
+  from game_players gp
+  where gp.game_id = p_game_id and gp.payment_status = 'completed';
+
+  if v_sold + p_tickets > v_game.max_players then
+    raise exception 'GAME_FULL';
+  end if;
+
+  update game_players gp
+  set payment_status = 'completed',
+      tickets = p_tickets,
+      telegram_payment_charge_id = p_charge_id,
+      transaction_id = p_charge_id
+  where gp.game_id = p_game_id
+    and gp.telegram_user_id = p_telegram_user_id
+    and gp.payment_status = 'pending'
+  returning gp.id into v_entry_id;
+
+  if v_entry_id is null then
+    insert into game_players (
+      game_id, telegram_user_id, telegram_username, telegram_first_name,
+      payment_status, tickets, telegram_payment_charge_id, transaction_id
+    ) values (
+      p_game_id, p_telegram_user_id, coalesce(p_telegram_username, ''), p_telegram_first_name,
+      'completed', p_tickets, p_charge_id, p_charge_id
+    )
+    returning id into v_entry_id;
+  end if;
+
+  insert into ledger_entries (transaction_key, account, amount, kind, game_id, telegram_user_id, entry_id) values
+    ('entry:' || v_entry_id, 'telegram:payments', -v_game.entry_fee * p_tickets, 'entry_fee', p_game_id, p_telegram_user_id, v_entry_id),
+    ('entry:' || v_entry_id, 'game:' || p_game_id, v_game.entry_fee * p_tickets, 'entry_fee', p_game_id, p_telegram_user_id, v_entry_id);
+
+  ticket_count := v_sold + p_tickets;
+
+  update games g
+  set prize_pool = g.prize_pool + g.entry_fee * p_tickets,
+      status = case when ticket_count >= g.max_players then 'full' else 'waiting' end
+  where g.id = p_game_id
+  returning g.status into game_status;
+
+  return next;
+end;
+$$;
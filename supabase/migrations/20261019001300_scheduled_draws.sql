@@ -0,0 +1,43 @@
+-- Scheduled draws: besides drawing when every ticket is sold ('fill'), a game
+-- can be drawn at a fixed time ('scheduled') however many tickets were sold,
+-- as long as min_players players paid. The draw scheduler worker
+-- (server/worker.ts) settles them. Scheduled games may go straight from
+-- waiting to drawing.
+
+alter table games
+  add column if not exists draw_mode text not null default 'fill'
+    check (draw_mode in ('fill', 'scheduled')),
+  add column if not exists draw_at timestamptz;
+
+alter table games
+  add constraint games_scheduled_draw_at_check
+  check (draw_mode = 'fill' or draw_at is not null);
+
+create index if not exists games_scheduled_draw_idx
+  on games (draw_at)
+  where draw_mode = 'scheduled' and status in ('waiting', 'full');
+
+-- Daily draw time ("HH:MM", UTC); rooms without one draw when full
+alter table room_templates
+  add column if not exists draw_time_utc text
+    check (draw_time_utc ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+
+insert into room_templates (id, name, entry_fee, max_players, min_players, max_tickets_per_player, prize_rules, draw_time_utc, sort_order) values
+  ('daily', 'Daily draw 20:00 UTC', 2, 100, 2, 10, '{"house_percent": 20, "winners": 3, "tiers": [50, 20, 10], "min_prize": 0}', '20:00', 4)
+on conflict (id) do nothing;
+
+create or replace function game_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('waiting', 'full'),
+    ('waiting', 'drawing'),
+    ('waiting', 'refunding'),
+    ('full', 'drawing'),
+    ('full', 'refunding'),
+    ('drawing', 'completed'),
+    ('refunding', 'cancelled')
+  );
+$$;
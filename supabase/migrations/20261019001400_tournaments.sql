@@ -0,0 +1,41 @@
+-- Tournaments: a set of qualifying games (round 1) whose winners enter a
+-- final (round 2) for free. Each qualifier carries part of its pot into the
+-- tournament's ledger account, and the whole carried pot becomes the final's
+-- prize pool when the final opens. Progression runs in GameService.
+
+create table if not exists tournaments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  status text not null default 'running'
+    check (status in ('running', 'final', 'completed', 'cancelled')),
+  entry_fee integer not null check (entry_fee > 0),
+  players_per_game integer not null check (players_per_game > 1),
+  round_games integer not null check (round_games > 0),
+  round_prize_rules jsonb not null,
+  final_prize_rules jsonb not null,
+  final_game_id uuid,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists tournaments_status_idx on tournaments (status, created_at);
+
+alter table games
+  add column if not exists tournament_id uuid references tournaments (id),
+  add column if not exists tournament_round integer check (tournament_round in (1, 2)),
+  add column if not exists bracket_slot integer;
+
+alter table tournaments
+  add constraint tournaments_final_game_fkey foreign key (final_game_id) references games (id);
+
+-- One game per bracket position, so racing workers cannot open two finals
+create unique index if not exists games_tournament_slot_key
+  on games (tournament_id, tournament_round, bracket_slot)
+  where tournament_id is not null;
+
+-- Pots carried from qualifiers to the tournament and on into its final
+alter table ledger_entries drop constraint if exists ledger_entries_kind_check;
+
+alter table ledger_entries
+  add constraint ledger_entries_kind_check
+  check (kind in ('entry_fee', 'winnings', 'house_commission', 'refund', 'opening_balance', 'tournament_carry'));
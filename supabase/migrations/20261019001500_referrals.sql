@@ -0,0 +1,19 @@
+-- Referrals: who invited whom through a t.me/<bot>/app?startapp=ref_<id>
+-- link. A player can only be referred once, on their first launch, and
+-- referrers earn a share of the house commission on their referrals' entries
+-- (ledger kind 'referral_reward', paid from the house account).
+
+create table if not exists referrals (
+  referred_user_id text primary key,
+  referrer_user_id text not null,
+  created_at timestamptz not null default now(),
+  check (referrer_user_id <> referred_user_id)
+);
+
+create index if not exists referrals_referrer_idx on referrals (referrer_user_id);
+
+alter table ledger_entries drop constraint if exists ledger_entries_kind_check;
+
+alter table ledger_entries
+  add constraint ledger_entries_kind_check
+  check (kind in ('entry_fee', 'winnings', 'house_commission', 'refund', 'opening_balance', 'tournament_carry', 'referral_reward'));
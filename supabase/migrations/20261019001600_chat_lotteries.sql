@@ -0,0 +1,23 @@
+-- Group-chat lotteries: a Mini App opened from a group plays that group's
+-- private lottery. Group admins (checked with getChatMember) set the stakes
+-- every new game in the chat copies, and the bot posts results to the chat.
+
+create table if not exists chat_lotteries (
+  chat_id text primary key,
+  title text not null default '',
+  entry_fee integer not null default 1 check (entry_fee > 0),
+  max_players integer not null default 10 check (max_players > 1),
+  max_tickets_per_player integer not null default 1
+    check (max_tickets_per_player > 0 and max_tickets_per_player <= max_players),
+  prize_rules jsonb not null
+    default '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}'::jsonb,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+alter table games
+  add column if not exists chat_id text references chat_lotteries (chat_id);
+
+create unique index if not exists games_one_open_game_per_chat
+  on games (chat_id)
+  where status = 'waiting';
@@ -0,0 +1,24 @@
+-- Player statistics. user_balances counted refunded games as played and
+-- missed tournament finals, which are entered for free and so have no entry
+-- fee: a game now counts as played if the player paid into it or won it, and
+-- not if their entry was refunded. Richer stats and the leaderboards are
+-- computed from completed games by StatsService.
+
+create or replace view user_balances as
+select
+  telegram_user_id,
+  coalesce(sum(amount) filter (where account = 'user:' || telegram_user_id), 0)::integer as stars_balance,
+  coalesce(sum(amount) filter (where kind in ('entry_fee', 'refund') and account like 'game:%'), 0)::integer as total_spent,
+  coalesce(sum(amount) filter (where kind = 'winnings' and account like 'user:%'), 0)::integer as total_won,
+  (count(distinct game_id) filter (where kind in ('entry_fee', 'winnings'))
+    - count(distinct game_id) filter (where kind = 'refund'))::integer as games_played,
+  count(distinct game_id) filter (where kind = 'winnings')::integer as games_won,
+  max(created_at) as updated_at
+from ledger_entries
+where telegram_user_id is not null
+group by telegram_user_id;
+
+-- Leaderboards read the games completed in a day or week
+create index if not exists games_completed_at_idx
+  on games (completed_at)
+  where status = 'completed';
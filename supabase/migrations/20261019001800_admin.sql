@@ -0,0 +1,29 @@
+-- Admin console. Admins are listed in ADMIN_TELEGRAM_IDS; every action they
+-- take through the admin API is recorded here, failed ones included.
+
+create table if not exists admin_audit_log (
+  id bigint generated always as identity primary key,
+  admin_id text not null,
+  action text not null
+    check (action in ('create_game', 'cancel_game', 'force_draw', 'refund', 'save_room')),
+  -- Game or room acted on; null for sweeps over everything
+  target text,
+  params jsonb not null default '{}'::jsonb,
+  result text not null check (result in ('ok', 'error')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_target_idx on admin_audit_log (target);
+
+-- What the house account earned per UTC day: commission from drawn games,
+-- less the share paid on to referrers
+create or replace view house_revenue_daily as
+select
+  (created_at at time zone 'utc')::date as day,
+  coalesce(sum(amount) filter (where kind = 'house_commission'), 0)::integer as commission,
+  coalesce(-sum(amount) filter (where kind = 'referral_reward'), 0)::integer as referral_rewards,
+  coalesce(sum(amount), 0)::integer as net
+from ledger_entries
+where account = 'house'
+group by 1;
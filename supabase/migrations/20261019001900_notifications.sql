@@ -0,0 +1,19 @@
+-- Bot notifications about a player's games. Players have notifications on
+-- until they turn them off here.
+create table if not exists notification_settings (
+  telegram_user_id text primary key,
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- One row per notification sent, keyed like "won:<game id>:<user id>", so a
+-- retried draw or refund never messages a player twice
+create table if not exists notification_log (
+  key text primary key,
+  kind text not null check (kind in ('draw_started', 'won', 'lost', 'refunded')),
+  telegram_user_id text not null,
+  game_id uuid references games(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_log_user_idx on notification_log (telegram_user_id);
@@ -0,0 +1,11 @@
+-- join_game creates a paid entry and posts its ledger entries, so only the
+-- backend may run it, from the payment webhook with the real charge id.
+-- Postgres grants execute on new functions to public, and Supabase's anon and
+-- authenticated roles would otherwise reach it through the API.
+revoke execute on function join_game(uuid, text, text, text, text, integer) from public, anon, authenticated;
+grant execute on function join_game(uuid, text, text, text, text, integer) to service_role;
+
+-- Functions created later are not executable by the API roles unless granted.
+-- The grant to public is global, so it can only be revoked globally.
+alter default privileges revoke execute on functions from public;
+alter default privileges in schema public revoke execute on functions from anon, authenticated;
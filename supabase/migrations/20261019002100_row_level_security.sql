@@ -0,0 +1,46 @@
+-- Row-level security on every table. The web app ships the anon key and only
+-- ever reads games, their paid entries, rooms and tournaments; everything
+-- else, and every write, goes through the backend's service role, which
+-- bypasses RLS.
+
+alter table games enable row level security;
+alter table game_players enable row level security;
+alter table user_balances_legacy enable row level security;
+alter table payouts enable row level security;
+alter table game_seeds enable row level security;
+alter table ledger_entries enable row level security;
+alter table game_transitions enable row level security;
+alter table room_templates enable row level security;
+alter table tournaments enable row level security;
+alter table referrals enable row level security;
+alter table chat_lotteries enable row level security;
+alter table admin_audit_log enable row level security;
+alter table notification_settings enable row level security;
+alter table notification_log enable row level security;
+
+drop policy if exists "games are readable" on games;
+create policy "games are readable" on games
+  for select to anon, authenticated using (true);
+
+drop policy if exists "game entries are readable" on game_players;
+create policy "game entries are readable" on game_players
+  for select to anon, authenticated using (true);
+
+drop policy if exists "rooms are readable" on room_templates;
+create policy "rooms are readable" on room_templates
+  for select to anon, authenticated using (true);
+
+drop policy if exists "tournaments are readable" on tournaments;
+create policy "tournaments are readable" on tournaments
+  for select to anon, authenticated using (true);
+
+-- Without policies RLS already refuses these; revoking them as well keeps a
+-- policy added later from opening writes by accident
+revoke insert, update, delete, truncate on all tables in schema public from anon, authenticated;
+
+-- Views run as their owner and so skip RLS on the tables they read: balances,
+-- reconciliation and house revenue are for the backend only
+revoke all on user_balances, ledger_totals, ledger_unbalanced_transactions, house_revenue_daily from anon, authenticated;
+
+-- Tables created later start out closed to the API roles as well
+alter default privileges in schema public revoke all on tables from anon, authenticated;
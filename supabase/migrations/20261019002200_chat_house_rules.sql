@@ -0,0 +1,20 @@
+-- Group admins choose stakes but not the house cut: group lotteries keep at
+-- least 10% for the house and have no guaranteed prize, which the house would
+-- pay. Lotteries and undrawn group games saved with other rules go back to
+-- the default split.
+
+update chat_lotteries
+set prize_rules = '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}'::jsonb
+where coalesce((prize_rules ->> 'min_prize')::integer, 0) <> 0
+   or (prize_rules ->> 'house_percent')::integer < 10;
+
+update games
+set prize_rules = '{"house_percent": 30, "winners": 1, "tiers": [70], "min_prize": 0}'::jsonb
+where chat_id is not null
+  and status in ('waiting', 'full')
+  and (coalesce((prize_rules ->> 'min_prize')::integer, 0) <> 0
+    or (prize_rules ->> 'house_percent')::integer < 10);
+
+alter table chat_lotteries drop constraint if exists chat_lotteries_house_rules_check;
+alter table chat_lotteries add constraint chat_lotteries_house_rules_check
+  check (coalesce((prize_rules ->> 'min_prize')::integer, 0) = 0 and (prize_rules ->> 'house_percent')::integer >= 10);
@@ -0,0 +1,5 @@
+-- Set when the webhook approves an entry's pre-checkout. Until the payment
+-- arrives, asking for a new invoice must not replace the nonce and ticket
+-- count the player is paying for.
+alter table game_players
+  add column if not exists checkout_approved_at timestamptz;
@@ -0,0 +1,111 @@
+-- Player statistics and leaderboards, aggregated in the database. StatsService
+-- used to load every completed game and entry, and PostgREST returns at most
+-- max-rows (1000 by default) per request, so long-time players and the
+-- all-time boards were silently undercounted. Prizes are read from payouts,
+-- the amounts PayoutService actually paid.
+
+-- The player's completed games: played, won, stars spent and won, biggest prize
+create or replace function player_stats(p_telegram_user_id text)
+returns table (
+  games_played integer,
+  games_won integer,
+  total_spent integer,
+  total_won integer,
+  biggest_win integer
+)
+language sql
+stable
+as $$
+  with played as (
+    select g.id, sum(gp.tickets * g.entry_fee) as spent
+    from game_players gp
+    join games g on g.id = gp.game_id
+    where gp.telegram_user_id = p_telegram_user_id
+      and gp.payment_status = 'completed'
+      and g.status = 'completed'
+    group by g.id
+  ),
+  won as (
+    select p.game_id, sum(p.amount) as amount
+    from payouts p
+    join played on played.id = p.game_id
+    where p.telegram_user_id = p_telegram_user_id
+    group by p.game_id
+    having sum(p.amount) > 0
+  )
+  select
+    (select count(*) from played)::integer,
+    (select count(*) from won)::integer,
+    (select coalesce(sum(spent), 0) from played)::integer,
+    (select coalesce(sum(amount), 0) from won)::integer,
+    (select coalesce(max(amount), 0) from won)::integer;
+$$;
+
+-- The top `p_limit` players by stars won ('top_winners') and by games played
+-- ('most_played') over games completed since `p_since`, or ever when it is
+-- null. Ties go to whoever reached the board first. Names are the latest each
+-- player joined with.
+create or replace function leaderboards(p_since timestamptz, p_limit integer)
+returns table (
+  board text,
+  rank integer,
+  telegram_user_id text,
+  telegram_first_name text,
+  telegram_username text,
+  value integer
+)
+language sql
+stable
+as $$
+  with period_games as (
+    select id, completed_at
+    from games
+    where status = 'completed'
+      and (p_since is null or completed_at >= p_since)
+  ),
+  entries as (
+    select gp.telegram_user_id, gp.telegram_first_name, gp.telegram_username, gp.joined_at, pg.id as game_id, pg.completed_at
+    from game_players gp
+    join period_games pg on pg.id = gp.game_id
+    where gp.payment_status = 'completed'
+  ),
+  names as (
+    select distinct on (telegram_user_id) telegram_user_id, telegram_first_name, telegram_username
+    from entries
+    order by telegram_user_id, completed_at desc, joined_at desc
+  ),
+  totals as (
+    select 'most_played' as board, telegram_user_id, count(distinct game_id) as value, min(completed_at) as since
+    from entries
+    group by telegram_user_id
+    union all
+    select 'top_winners', p.telegram_user_id, sum(p.amount), min(pg.completed_at)
+    from payouts p
+    join period_games pg on pg.id = p.game_id
+    group by p.telegram_user_id
+    having sum(p.amount) > 0
+  ),
+  ranked as (
+    select board, telegram_user_id, value,
+      row_number() over (partition by board order by value desc, since, telegram_user_id) as rank
+    from totals
+  )
+  select r.board, r.rank::integer, r.telegram_user_id, coalesce(n.telegram_first_name, r.telegram_user_id), nullif(n.telegram_username, ''), r.value::integer
+  from ranked r
+  left join names n on n.telegram_user_id = r.telegram_user_id
+  where r.rank <= p_limit
+  order by r.board, r.rank;
+$$;
+
+-- Only the backend reads statistics; the app gets them through /api/stats
+revoke execute on function player_stats(text) from public, anon, authenticated;
+revoke execute on function leaderboards(timestamptz, integer) from public, anon, authenticated;
+grant execute on function player_stats(text) to service_role;
+grant execute on function leaderboards(timestamptz, integer) to service_role;
+
+create index if not exists game_players_telegram_user_id_idx
+  on game_players (telegram_user_id)
+  where payment_status = 'completed';
+
+create index if not exists payouts_telegram_user_id_idx
+  on payouts (telegram_user_id);
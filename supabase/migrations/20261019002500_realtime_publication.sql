@@ -0,0 +1,4 @@
+-- Supabase Realtime only streams changes to tables in the supabase_realtime
+-- publication, and none were added: the per-game channels and the lobby never
+-- received a change, so the app only caught up on resyncs.
+alter publication supabase_realtime add table games, game_players, tournaments;
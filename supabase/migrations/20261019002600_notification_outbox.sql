@@ -0,0 +1,45 @@
+-- notification_log becomes an outbox. The API server and the worker used to
+-- send notifications themselves, each spacing its own sends, so together they
+-- could go over Telegram's 30 messages per second, and a failed send was only
+-- forgotten, never retried. Now a draw or refund only queues its messages
+-- here, and the worker alone sends them, retrying failures with back-off.
+alter table notification_log
+  add column if not exists message text not null default '',
+  add column if not exists status text not null default 'sent' check (status in ('pending', 'sent', 'failed')),
+  add column if not exists attempts integer not null default 0,
+  add column if not exists next_attempt_at timestamptz not null default now(),
+  add column if not exists sent_at timestamptz,
+  add column if not exists last_error text;
+
+-- Rows logged before the outbox were sent already; new rows start pending
+alter table notification_log
+  alter column message drop default,
+  alter column status set default 'pending';
+
+create index if not exists notification_log_due_idx
+  on notification_log (next_attempt_at)
+  where status = 'pending';
+
+-- Lease up to p_limit pending notifications that are due at p_now, oldest
+-- first, until p_lease_until. A sender that stops mid-batch leaves its rows
+-- to be claimed again once the lease runs out, and skip locked keeps two
+-- senders from claiming the same row.
+create or replace function claim_notifications(p_now timestamptz, p_lease_until timestamptz, p_limit integer)
+returns setof notification_log
+language sql
+as $$
+  update notification_log n
+  set attempts = n.attempts + 1,
+      next_attempt_at = p_lease_until
+  where n.key in (
+    select key from notification_log
+    where status = 'pending' and next_attempt_at <= p_now
+    order by created_at, key
+    limit p_limit
+    for update skip locked
+  )
+  returning n.*;
+$$;
+
+revoke execute on function claim_notifications(timestamptz, timestamptz, integer) from public, anon, authenticated;
+grant execute on function claim_notifications(timestamptz, timestamptz, integer) to service_role;
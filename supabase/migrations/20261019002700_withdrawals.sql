@@ -0,0 +1,101 @@
+-- Withdrawals: players take Stars out of their winnings balance. The Bot API
+-- has no method that sends Stars to a user, so a request only moves them from
+-- the player's balance to the withdrawals account. An admin marks it paid once
+-- the Stars were sent, or rejects it, which returns them to the balance.
+
+alter table ledger_entries drop constraint if exists ledger_entries_kind_check;
+
+alter table ledger_entries
+  add constraint ledger_entries_kind_check
+  check (kind in ('entry_fee', 'winnings', 'house_commission', 'refund', 'opening_balance', 'tournament_carry', 'referral_reward', 'withdrawal'));
+
+alter table admin_audit_log drop constraint if exists admin_audit_log_action_check;
+
+alter table admin_audit_log
+  add constraint admin_audit_log_action_check
+  check (action in ('create_game', 'cancel_game', 'force_draw', 'refund', 'save_room', 'settle_withdrawal'));
+
+create table if not exists withdrawals (
+  id uuid primary key default gen_random_uuid(),
+  telegram_user_id text not null,
+  amount integer not null check (amount > 0),
+  status text not null default 'pending' check (status in ('pending', 'paid', 'rejected')),
+  created_at timestamptz not null default now(),
+  settled_at timestamptz,
+  -- Telegram id of the admin who settled it
+  settled_by text
+);
+
+create index if not exists withdrawals_pending_idx on withdrawals (created_at) where status = 'pending';
+create index if not exists withdrawals_user_idx on withdrawals (telegram_user_id);
+
+alter table withdrawals enable row level security;
+
+-- Take p_amount Stars out of the player's balance, which must cover it
+create or replace function request_withdrawal(p_telegram_user_id text, p_amount integer)
+returns withdrawals
+language plpgsql
+as $$
+declare
+  v_balance integer;
+  v_withdrawal withdrawals%rowtype;
+begin
+  -- A player's requests queue up here, so two of them cannot spend the same Stars
+  perform pg_advisory_xact_lock(hashtext('withdrawal:' || p_telegram_user_id));
+
+  select coalesce(max(stars_balance), 0) into v_balance
+  from user_balances
+  where telegram_user_id = p_telegram_user_id;
+
+  if v_balance < p_amount then
+    raise exception 'INSUFFICIENT_BALANCE';
+  end if;
+
+  insert into withdrawals (telegram_user_id, amount)
+  values (p_telegram_user_id, p_amount)
+  returning * into v_withdrawal;
+
+  insert into ledger_entries (transaction_key, account, amount, kind, telegram_user_id) values
+    ('withdrawal:' || v_withdrawal.id, 'user:' || p_telegram_user_id, -p_amount, 'withdrawal', p_telegram_user_id),
+    ('withdrawal:' || v_withdrawal.id, 'withdrawals', p_amount, 'withdrawal', p_telegram_user_id);
+
+  return v_withdrawal;
+end;
+$$;
+
+-- Close a pending withdrawal: paid Stars leave through Telegram, rejected ones
+-- go back to the player's balance
+create or replace function settle_withdrawal(p_withdrawal_id uuid, p_status text, p_admin_id text)
+returns withdrawals
+language plpgsql
+as $$
+declare
+  v_withdrawal withdrawals%rowtype;
+begin
+  if p_status not in ('paid', 'rejected') then
+    raise exception 'INVALID_WITHDRAWAL_STATUS';
+  end if;
+
+  update withdrawals
+  set status = p_status, settled_at = now(), settled_by = p_admin_id
+  where id = p_withdrawal_id and status = 'pending'
+  returning * into v_withdrawal;
+
+  if not found then
+    raise exception 'WITHDRAWAL_NOT_PENDING';
+  end if;
+
+  insert into ledger_entries (transaction_key, account, amount, kind, telegram_user_id) values
+    ('withdrawal-settled:' || v_withdrawal.id, 'withdrawals', -v_withdrawal.amount, 'withdrawal', v_withdrawal.telegram_user_id),
+    ('withdrawal-settled:' || v_withdrawal.id,
+     case when p_status = 'paid' then 'telegram:payments' else 'user:' || v_withdrawal.telegram_user_id end,
+     v_withdrawal.amount, 'withdrawal', v_withdrawal.telegram_user_id);
+
+  return v_withdrawal;
+end;
+$$;
+
+revoke execute on function request_withdrawal(text, integer) from public, anon, authenticated;
+grant execute on function request_withdrawal(text, integer) to service_role;
+revoke execute on function settle_withdrawal(uuid, text, text) from public, anon, authenticated;
+grant execute on function settle_withdrawal(uuid, text, text) to service_role;